@@ -3,6 +3,7 @@
 import { Suspense, useEffect, useState } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import { handleOAuthCallback } from '@/calendar/oauth';
+import { handleOutlookOAuthCallback, isPendingOutlookCallback } from '@/calendar/outlook-oauth';
 import { isCalendarError } from '@/calendar/types';
 
 /**
@@ -39,8 +40,12 @@ function CallbackContent() {
       }
 
       try {
-        // Exchange code for tokens
-        await handleOAuthCallback(code, state);
+        // Exchange code for tokens with whichever provider started the flow
+        if (isPendingOutlookCallback(state)) {
+          await handleOutlookOAuthCallback(code, state);
+        } else {
+          await handleOAuthCallback(code, state);
+        }
         setStatus('success');
 
         // Redirect to home after short delay
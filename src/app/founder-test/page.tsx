@@ -1,9 +1,25 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
-import { storage, useEvents, useMeetings } from '@/storage';
+import { useState, useEffect, useCallback, useRef, type ChangeEvent } from 'react';
+import {
+  storage,
+  useEvents,
+  useMeetings,
+  createBackupBlob,
+  generateBackupFilename,
+  downloadBlob,
+  parseBackup,
+  importDatabase,
+  BackupValidationError,
+  getTimingSettings,
+  getModeRules,
+  DEFAULT_DECISION_RETENTION_DAYS,
+} from '@/storage';
 import { EventRecord, MeetingState } from '@/storage/types';
 import { Mode } from '@/types/ui-plan';
+import { getRulesEngine, replayHistory, MODE_LABELS, type ReplayResult } from '@/rules';
+import { useMarkerTypes } from '@/hooks/use-marker-types';
+import { getMarkerTypeDefinition, MARKER_COLOR_CLASSES } from '@/lib/marker-types';
 
 // ============================================
 // Metric Types
@@ -16,6 +32,8 @@ interface CorrectMetrics {
   goalUtilization: number; // meetings with ≥1 goal / meetings opened in prep
   markerUtilization: number; // meetings with ≥1 marker / meetings opened in capture
   synthesisCompletion: number; // synthesis completed / meetings ended
+  holdRate: number; // (mode_pinned + mode_snoozed) / plan_rendered
+  suggestionAcceptance: number; // suggestion_accepted / (accepted + rejected)
 
   // Bounce rates per mode
   bounceRates: Record<string, number>;
@@ -34,11 +52,19 @@ interface CorrectMetrics {
     meetingsWithMarkers: number;
     meetingsEnded: number;
     meetingsSynthesisCompleted: number;
+    pins: number;
+    snoozes: number;
+    holdsLifted: number;
+    suggestionsAccepted: number;
+    suggestionsRejected: number;
   };
 
   // Override reasons (for actionable report)
   overrideReasons: Array<{ reason: string; count: number }>;
 
+  // Markers created per type, including custom and unregistered types
+  markersByType: Array<{ type: string; count: number }>;
+
   // Days covered
   daysCovered: number;
 }
@@ -64,6 +90,11 @@ function computeCorrectMetrics(
   // Capsule opens
   const capsuleOpens = events.filter((e) => e.type === 'capsule_opened');
 
+  // Pins and snoozes (and ones lifted before they expired)
+  const pins = events.filter((e) => e.type === 'mode_pinned');
+  const snoozes = events.filter((e) => e.type === 'mode_snoozed');
+  const holdsLifted = events.filter((e) => e.type === 'mode_unpinned' || e.type === 'mode_unsnoozed');
+
   // Session tracking
   const sessionsOpened = events.filter((e) => e.type === 'session_opened');
   const sessionsBounced = events.filter((e) => e.type === 'session_bounced');
@@ -138,6 +169,20 @@ function computeCorrectMetrics(
     .sort((a, b) => b.count - a.count)
     .slice(0, 10);
 
+  // Markers created per type (from marker_created events)
+  const markerTypeCounts: Record<string, number> = {};
+  for (const event of events.filter((e) => e.type === 'marker_created')) {
+    const type = (event.payload.type as string) || 'unknown';
+    markerTypeCounts[type] = (markerTypeCounts[type] || 0) + 1;
+  }
+  const markersByType = Object.entries(markerTypeCounts)
+    .map(([type, count]) => ({ type, count }))
+    .sort((a, b) => b.count - a.count);
+
+  // Agent suggestion outcomes
+  const suggestionsAccepted = events.filter((e) => e.type === 'suggestion_accepted');
+  const suggestionsRejected = events.filter((e) => e.type === 'suggestion_rejected');
+
   // Days covered
   const dates = new Set(
     events.map((e) => new Date(e.timestamp).toISOString().split('T')[0])
@@ -152,6 +197,10 @@ function computeCorrectMetrics(
     ? (capsuleOpens.length / planRenders.length) * 100
     : 0;
 
+  const holdRate = planRenders.length > 0
+    ? ((pins.length + snoozes.length) / planRenders.length) * 100
+    : 0;
+
   const goalUtilization = meetingsInPrep.size > 0
     ? (meetingsInPrepWithGoals.length / meetingsInPrep.size) * 100
     : 0;
@@ -164,6 +213,11 @@ function computeCorrectMetrics(
     ? (meetingsWithSynthesisCompleted.size / meetingsEnded.length) * 100
     : 0;
 
+  const suggestionsDecided = suggestionsAccepted.length + suggestionsRejected.length;
+  const suggestionAcceptance = suggestionsDecided > 0
+    ? (suggestionsAccepted.length / suggestionsDecided) * 100
+    : 0;
+
   const overallBounceRate = sessionsOpened.length > 0
     ? (sessionsBounced.length / sessionsOpened.length) * 100
     : 0;
@@ -174,6 +228,8 @@ function computeCorrectMetrics(
     goalUtilization,
     markerUtilization,
     synthesisCompletion,
+    holdRate,
+    suggestionAcceptance,
     bounceRates,
     overallBounceRate,
     counts: {
@@ -188,8 +244,14 @@ function computeCorrectMetrics(
       meetingsWithMarkers: meetingsInCaptureWithMarkers.length,
       meetingsEnded: meetingsEnded.length,
       meetingsSynthesisCompleted: meetingsWithSynthesisCompleted.size,
+      pins: pins.length,
+      snoozes: snoozes.length,
+      holdsLifted: holdsLifted.length,
+      suggestionsAccepted: suggestionsAccepted.length,
+      suggestionsRejected: suggestionsRejected.length,
     },
     overrideReasons,
+    markersByType,
     daysCovered: dates.size,
   };
 }
@@ -240,6 +302,7 @@ interface FrictionEntry {
 export default function FounderTestDashboard() {
   const { events, refresh } = useEvents();
   const { meetings } = useMeetings();
+  const markerTypes = useMarkerTypes();
   const [metrics, setMetrics] = useState<CorrectMetrics | null>(null);
   const [overrideLog, setOverrideLog] = useState<OverrideEntry[]>([]);
 
@@ -279,6 +342,56 @@ export default function FounderTestDashboard() {
     }
   };
 
+  // Full database backup/restore
+  const restoreInputRef = useRef<HTMLInputElement>(null);
+  const [backupStatus, setBackupStatus] = useState<string | null>(null);
+
+  const backupDatabase = useCallback(async () => {
+    const blob = await createBackupBlob();
+    downloadBlob(blob, generateBackupFilename());
+  }, []);
+
+  const restoreDatabase = useCallback(
+    async (e: ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      e.target.value = '';
+      if (!file) return;
+
+      try {
+        const backup = parseBackup(await file.text());
+        const replace = window.confirm(
+          'Replace all local data with this backup?\n\nOK = replace, Cancel = merge (keeps newer local records)'
+        );
+        const result = await importDatabase(backup, replace ? 'replace' : 'merge');
+        const written = Object.values(result.written).reduce((a, b) => a + b, 0);
+        setBackupStatus(`Restored ${written} records (${result.mode})`);
+        refresh();
+      } catch (err) {
+        setBackupStatus(
+          err instanceof BackupValidationError ? `Restore failed: ${err.message}` : 'Restore failed'
+        );
+      }
+    },
+    [refresh]
+  );
+
+  // Decision replay against the current rules
+  const [replayResults, setReplayResults] = useState<ReplayResult[] | null>(null);
+  const [replaying, setReplaying] = useState(false);
+
+  const replayDecisions = useCallback(async () => {
+    setReplaying(true);
+    try {
+      const engine = getRulesEngine();
+      engine.setTimingSettings(await getTimingSettings());
+      engine.setModeRules(await getModeRules());
+      await engine.loadPreferences();
+      setReplayResults(await replayHistory({}, engine));
+    } finally {
+      setReplaying(false);
+    }
+  }, []);
+
   // Export functions
   const exportData = useCallback(() => {
     const data = {
@@ -327,6 +440,11 @@ export default function FounderTestDashboard() {
 - **Raw:** ${metrics.counts.capsuleOpens} / ${metrics.counts.planRenders}
 - **Note:** High early is fine; trending down is the goal
 
+### Pin / Snooze Rate
+- **Rate:** ${metrics.holdRate.toFixed(1)}%
+- **Formula:** (mode_pinned + mode_snoozed) / plan_rendered
+- **Raw:** ${metrics.counts.pins} pins + ${metrics.counts.snoozes} snoozes / ${metrics.counts.planRenders} (${metrics.counts.holdsLifted} lifted early)
+
 ### Goal Utilization (Prep)
 - **Rate:** ${metrics.goalUtilization.toFixed(1)}%
 - **Formula:** meetings with ≥1 goal / meetings opened in prep
@@ -336,12 +454,20 @@ export default function FounderTestDashboard() {
 - **Rate:** ${metrics.markerUtilization.toFixed(1)}%
 - **Formula:** meetings with ≥1 marker / meetings opened in capture
 - **Raw:** ${metrics.counts.meetingsWithMarkers} / ${metrics.counts.meetingsInCapture}
+- **By type:** ${metrics.markersByType
+  .map((m) => `${getMarkerTypeDefinition(markerTypes, m.type).label} ${m.count}`)
+  .join(', ') || 'none'}
 
 ### Synthesis Completion
 - **Rate:** ${metrics.synthesisCompletion.toFixed(1)}%
 - **Formula:** synthesis completed / meetings ended
 - **Raw:** ${metrics.counts.meetingsSynthesisCompleted} / ${metrics.counts.meetingsEnded}
 
+### Agent Suggestion Acceptance
+- **Rate:** ${metrics.suggestionAcceptance.toFixed(1)}%
+- **Formula:** suggestions accepted / suggestions accepted or rejected
+- **Raw:** ${metrics.counts.suggestionsAccepted} accepted, ${metrics.counts.suggestionsRejected} rejected
+
 ### Bounce Rate
 - **Overall:** ${metrics.overallBounceRate.toFixed(1)}%
 - **Formula:** sessions bounced (no interaction in 20s) / sessions opened
@@ -423,7 +549,7 @@ _Fill in after reviewing all data_
     a.download = `founder-test-report-${date}.md`;
     a.click();
     URL.revokeObjectURL(url);
-  }, [metrics, overrideLog, frictionEntries]);
+  }, [metrics, overrideLog, frictionEntries, markerTypes]);
 
   return (
     <div className="min-h-screen bg-gray-50 p-8">
@@ -456,6 +582,25 @@ _Fill in after reviewing all data_
           >
             Generate Report
           </button>
+          <button
+            onClick={backupDatabase}
+            className="rounded-lg bg-gray-200 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-300"
+          >
+            Backup Database
+          </button>
+          <button
+            onClick={() => restoreInputRef.current?.click()}
+            className="rounded-lg bg-gray-200 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-300"
+          >
+            Restore Backup
+          </button>
+          <input
+            ref={restoreInputRef}
+            type="file"
+            accept="application/json"
+            onChange={restoreDatabase}
+            className="hidden"
+          />
           <a
             href="/"
             className="rounded-lg bg-gray-100 px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-200"
@@ -463,6 +608,9 @@ _Fill in after reviewing all data_
             Back to App
           </a>
         </div>
+        {backupStatus && (
+          <p className="-mt-6 mb-8 text-sm text-gray-600">{backupStatus}</p>
+        )}
 
         {/* Core Metrics */}
         <div className="mb-8 rounded-xl bg-white p-6 shadow">
@@ -491,13 +639,20 @@ _Fill in after reviewing all data_
               threshold="< 20%"
               warning={(metrics?.overallBounceRate || 0) > 20}
             />
+            <MetricCard
+              label="Pin / Snooze Rate"
+              value={`${(metrics?.holdRate || 0).toFixed(1)}%`}
+              formula="(pins + snoozes) / plan_renders"
+              raw={`${metrics?.counts.pins || 0} + ${metrics?.counts.snoozes || 0} / ${metrics?.counts.planRenders || 0}`}
+              note={`${metrics?.counts.holdsLifted || 0} lifted early; high means auto-switching fights the user`}
+            />
           </div>
         </div>
 
         {/* Utilization Metrics */}
         <div className="mb-8 rounded-xl bg-white p-6 shadow">
           <h2 className="mb-4 text-lg font-semibold text-gray-900">Utilization Metrics</h2>
-          <div className="grid gap-4 md:grid-cols-3">
+          <div className="grid gap-4 md:grid-cols-4">
             <MetricCard
               label="Goal Utilization (Prep)"
               value={`${(metrics?.goalUtilization || 0).toFixed(1)}%`}
@@ -519,9 +674,38 @@ _Fill in after reviewing all data_
               raw={`${metrics?.counts.meetingsSynthesisCompleted || 0} / ${metrics?.counts.meetingsEnded || 0}`}
               note="Measures closure"
             />
+            <MetricCard
+              label="Suggestion Acceptance"
+              value={`${(metrics?.suggestionAcceptance || 0).toFixed(1)}%`}
+              formula="accepted / (accepted + rejected)"
+              raw={`${metrics?.counts.suggestionsAccepted || 0} / ${(metrics?.counts.suggestionsAccepted || 0) + (metrics?.counts.suggestionsRejected || 0)}`}
+              note="Low means the agent is noise"
+            />
           </div>
         </div>
 
+        {/* Markers by Type */}
+        <div className="mb-8 rounded-xl bg-white p-6 shadow">
+          <h2 className="mb-4 text-lg font-semibold text-gray-900">Markers by Type</h2>
+          {metrics?.markersByType.length ? (
+            <div className="flex flex-wrap gap-2">
+              {metrics.markersByType.map(({ type, count }) => {
+                const config = getMarkerTypeDefinition(markerTypes, type);
+                return (
+                  <span
+                    key={type}
+                    className={`rounded-full px-3 py-1 text-sm font-medium ${MARKER_COLOR_CLASSES[config.color].badge}`}
+                  >
+                    {config.label}: {count}
+                  </span>
+                );
+              })}
+            </div>
+          ) : (
+            <p className="text-gray-400">No markers captured yet</p>
+          )}
+        </div>
+
         {/* Bounce Rate by Mode */}
         <div className="mb-8 rounded-xl bg-white p-6 shadow">
           <h2 className="mb-4 text-lg font-semibold text-gray-900">Bounce Rate by Mode</h2>
@@ -603,6 +787,47 @@ _Fill in after reviewing all data_
           )}
         </div>
 
+        {/* Decision Replay */}
+        <div className="mb-8 rounded-xl bg-white p-6 shadow">
+          <div className="mb-4 flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-900">Decision Replay</h2>
+            <button
+              onClick={replayDecisions}
+              disabled={replaying}
+              className="rounded-lg bg-gray-900 px-3 py-1.5 text-sm text-white hover:bg-gray-700 disabled:opacity-50"
+            >
+              {replaying ? 'Replaying…' : 'Replay with current rules'}
+            </button>
+          </div>
+          {replayResults === null ? (
+            <p className="text-gray-400">
+              Reruns recorded decisions to show where the current rules would decide differently.
+              Decisions are kept for {DEFAULT_DECISION_RETENTION_DAYS} days, then removed by compaction.
+            </p>
+          ) : (
+            <>
+              <p className="mb-3 text-sm text-gray-600">
+                {replayResults.filter((r) => r.changed).length} of {replayResults.length} decisions would change
+              </p>
+              <div className="max-h-64 space-y-2 overflow-y-auto">
+                {replayResults
+                  .filter((r) => r.changed)
+                  .map((r) => (
+                    <div key={r.record.planId} className="rounded-lg bg-gray-50 px-4 py-2 text-sm">
+                      <div className="flex justify-between text-gray-700">
+                        <span>{MODE_LABELS[r.record.selection.mode]}: {r.record.selection.reason}</span>
+                        <span className="text-gray-400">{new Date(r.record.now).toLocaleString()}</span>
+                      </div>
+                      {r.differences.map((d) => (
+                        <div key={d} className="text-amber-700">{d}</div>
+                      ))}
+                    </div>
+                  ))}
+              </div>
+            </>
+          )}
+        </div>
+
         {/* Daily Journal */}
         <div className="mb-8 rounded-xl bg-white p-6 shadow">
           <h2 className="mb-4 text-lg font-semibold text-gray-900">Daily Journal</h2>
@@ -1,35 +1,41 @@
 'use client';
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, type ComponentProps } from 'react';
 import { PlanRenderer } from '@/components/PlanRenderer';
 import { DecisionCapsulePanel } from '@/components/shared/DecisionCapsulePanel';
 import { DevHarness } from '@/components/dev/DevHarness';
 import { ScenarioPanel } from '@/components/dev/ScenarioPanel';
 import { CalendarStatusIndicator } from '@/components/calendar/CalendarAuthPrompt';
-import { Mode, DecisionCapsule } from '@/types/ui-plan';
+import { Mode, DecisionCapsule, CapsuleAction } from '@/types/ui-plan';
 import { registerAllComponents } from '@/lib/register-components';
 import { getRegisteredTypes } from '@/lib/component-registry';
 import {
   staticPlans,
   staticCapsules,
+  buildTransitionPlan,
   modeLabels,
   modeDescriptions,
 } from '@/plans/static-plans';
 import { storage, useEventLogger, useMeeting } from '@/storage';
 import { useSessionTracking, INTERACTION_TYPES } from '@/hooks/use-session-tracking';
+import { useIntentCompilation } from '@/hooks/use-intent-compilation';
 import { MeetingProvider } from '@/contexts/MeetingContext';
 import { LinkingProvider, useLinkingContext } from '@/contexts/LinkingContext';
+import { SuggestionsProvider } from '@/contexts/SuggestionsContext';
 import { LinkingModeOverlay } from '@/components/linking/LinkingModeOverlay';
 import { getScenarioById, activateScenario, getSimulatedCalendarEvents, getVirtualNow } from '@/test-harness';
 import { useCalendarForRules, toRulesEvents } from '@/calendar/use-calendar';
 import { useRulesEngine } from '@/rules/use-rules-engine';
 import { CalendarEvent as RulesCalendarEvent } from '@/rules';
-import { MockIntentCompiler } from '@/compiler/mock-compiler';
+import { createIntentCompiler } from '@/compiler';
 import { WorkspaceDefinition } from '@/compiler/types';
 
 // Register all components on module load
 registerAllComponents();
 
+// Intent compiler backend (mock unless NEXT_PUBLIC_INTENT_COMPILER is set)
+const intentCompiler = createIntentCompiler();
+
 const modeOrder: Mode[] = [
   'neutral_intent',
   'meeting_prep',
@@ -108,6 +114,15 @@ function LinkingOverlayWrapper() {
   );
 }
 
+// Meeting data plus the agent suggestions computed from it
+function MeetingProviders({ children, ...props }: ComponentProps<typeof MeetingProvider>) {
+  return (
+    <MeetingProvider {...props}>
+      <SuggestionsProvider>{children}</SuggestionsProvider>
+    </MeetingProvider>
+  );
+}
+
 export default function Home() {
   const [currentMeetingId, setCurrentMeetingId] = useState<string | null>(null);
   const [showPlanInspector, setShowPlanInspector] = useState(false);
@@ -130,9 +145,11 @@ export default function Home() {
   // Rules engine for automatic mode selection
   const {
     currentMode,
+    plan: rulesPlan,
     capsule: rulesCapsule,
     evaluate,
     forceMode,
+    applyHoldAction,
     setTimeOverride,
   } = useRulesEngine({
     events: effectiveEvents,
@@ -145,17 +162,24 @@ export default function Home() {
   // Phase H: Intent Compiler Integration
   const [activeWorkspace, setActiveWorkspace] = useState<WorkspaceDefinition | null>(null);
 
-  const handleIntentSubmit = async (intent: string) => {
+  // Compile intents, asking clarification questions while confidence is LOW
+  const handleWorkspaceReady = useCallback((workspace: WorkspaceDefinition) => {
+    console.log('[Phase H] Compilation successful:', workspace);
+    setActiveWorkspace(workspace);
+    // Force switch to new work surface mode
+    forceMode('agentic_work_surface');
+  }, [forceMode]);
+
+  const {
+    status: compilation,
+    submit: submitIntent,
+    chooseLens,
+    cancel: cancelClarification,
+  } = useIntentCompilation(intentCompiler, handleWorkspaceReady);
+
+  const handleIntentSubmit = (intent: string) => {
     console.log('[Phase H] Compiling intent:', intent);
-    const compiler = new MockIntentCompiler();
-    const result = await compiler.compile(intent);
-
-    if (result.success && result.workspace) {
-      console.log('[Phase H] Compilation successful:', result.workspace);
-      setActiveWorkspace(result.workspace);
-      // Force switch to new work surface mode
-      forceMode('agentic_work_surface');
-    }
+    submitIntent(intent);
   };
 
   // Track which scenario has been initialized to prevent re-initialization loops
@@ -215,6 +239,16 @@ export default function Home() {
   // Determine active plan and capsule (rules vs static fallback)
   let plan = staticPlans[currentMode];
 
+  // Transition plans show the back-to-back meetings the rules engine found
+  if (currentMode === 'meeting_transition' && rulesPlan?.mode === currentMode && rulesPlan.transition) {
+    const { fromId, toId } = rulesPlan.transition;
+    const from = effectiveEvents.find((e) => e.id === fromId);
+    const to = effectiveEvents.find((e) => e.id === toId);
+    if (from && to) {
+      plan = buildTransitionPlan(from, to);
+    }
+  }
+
   // Phase H: Dynamic Plan Generation for Work Surface
   if (currentMode === 'agentic_work_surface' && activeWorkspace) {
     plan = {
@@ -254,14 +288,27 @@ export default function Home() {
     };
   }
 
-  // Inject handleIntentSubmit into NeutralIntentSetter if present in plan
+  // Inject handleIntentSubmit into NeutralIntentSetter and the rules engine's
+  // meeting into TranscriptImportCard if present in plan
   plan = {
     ...plan,
     components: plan.components.map(c => {
+      if (c.type === 'TranscriptImportCard' && rulesPlan?.mode === currentMode && rulesPlan.eventId) {
+        return { ...c, props: { ...c.props, eventId: rulesPlan.eventId } };
+      }
       if (c.type === 'NeutralIntentSetter') {
         return {
           ...c,
-          props: { ...c.props, onIntentSubmit: handleIntentSubmit }
+          props: {
+            ...c.props,
+            onIntentSubmit: handleIntentSubmit,
+            clarificationQuestion: compilation.question,
+            clarificationRound: compilation.turns.length + 1,
+            isCompiling: compilation.state === 'compiling',
+            compilationError: compilation.error,
+            onLensSelect: chooseLens,
+            onClarificationCancel: cancelClarification,
+          }
         };
       }
       return c;
@@ -332,18 +379,21 @@ export default function Home() {
   }, [currentMode, recordInteraction, forceMode]);
 
   // Handle capsule actions
-  const handleCapsuleAction = (action: { type: string; target?: Mode }) => {
+  const handleCapsuleAction = (action: CapsuleAction) => {
     // Record interaction to prevent bounce
     recordInteraction(INTERACTION_TYPES.CAPSULE_OPEN);
     if (action.type === 'switch_view' && action.target) {
       handleModeChange(action.target);
+    } else {
+      // Pin/snooze actions (no-op for other types)
+      applyHoldAction(action);
     }
     // Log capsule interactions
     storage.logEvent('capsule_opened', { action: action.type, target: action.target });
   };
 
   return (
-    <MeetingProvider meetingId={currentMeetingId} meeting={meeting} onDataChanged={refreshMeeting}>
+    <MeetingProviders meetingId={currentMeetingId} meeting={meeting} onDataChanged={refreshMeeting}>
       <LinkingProvider>
         {/* Dev Navigation Panel */}
         <div className={`fixed left-4 top-4 z-50 w-64 rounded-xl bg-white shadow-xl ${isDev ? 'mr-80' : ''}`}>
@@ -468,6 +518,6 @@ export default function Home() {
           </>
         )}
       </LinkingProvider>
-    </MeetingProvider>
+    </MeetingProviders>
   );
 }
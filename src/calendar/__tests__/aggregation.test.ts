@@ -0,0 +1,127 @@
+/**
+ * Multi-Calendar Aggregation Tests
+ *
+ * Tests per-calendar inclusion rules, de-duplication by iCalUID and
+ * reconciliation of saved rules with the provider's calendar list.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { aggregateEvents, getIncludedCalendarIds, reconcileCalendarRules } from '../aggregation';
+import type { CalendarEvent, CalendarRule } from '../types';
+
+// ============================================
+// Test Helpers
+// ============================================
+
+function event(id: string, calendarId: string, overrides: Partial<CalendarEvent> = {}): CalendarEvent {
+  return {
+    id,
+    title: `Event ${id}`,
+    startTime: Date.UTC(2026, 0, 15, 9),
+    endTime: Date.UTC(2026, 0, 15, 10),
+    attendees: [],
+    calendarId,
+    isAllDay: false,
+    ...overrides,
+  };
+}
+
+function rule(calendarId: string, overrides: Partial<CalendarRule> = {}): CalendarRule {
+  return { calendarId, name: calendarId, included: true, suppressedTriggers: [], ...overrides };
+}
+
+// ============================================
+// aggregateEvents
+// ============================================
+
+describe('aggregateEvents', () => {
+  it('drops events from excluded calendars', () => {
+    const events = [event('a', 'primary'), event('b', 'holidays', { iCalUid: 'h1' })];
+
+    const result = aggregateEvents(events, [rule('primary'), rule('holidays', { included: false })]);
+
+    expect(result.map((e) => e.id)).toEqual(['a']);
+  });
+
+  it('keeps the copy from the highest-priority calendar and records every calendar', () => {
+    const events = [
+      event('team-copy', 'team', { iCalUid: 'uid-1', title: 'Team copy' }),
+      event('work-copy', 'primary', { iCalUid: 'uid-1', title: 'Work copy' }),
+    ];
+
+    const [merged, ...rest] = aggregateEvents(events, [rule('primary'), rule('team')]);
+
+    expect(rest).toHaveLength(0);
+    expect(merged.title).toBe('Work copy');
+    expect(merged.calendarIds).toEqual(['primary', 'team']);
+  });
+
+  it('keeps recurring instances with the same iCalUID apart', () => {
+    const events = [
+      event('mon', 'primary', { iCalUid: 'standup', startTime: Date.UTC(2026, 0, 12, 9) }),
+      event('tue', 'primary', { iCalUid: 'standup', startTime: Date.UTC(2026, 0, 13, 9) }),
+    ];
+
+    expect(aggregateEvents(events, undefined)).toHaveLength(2);
+  });
+
+  it('does not merge events without an iCalUID across calendars', () => {
+    const events = [event('x', 'primary'), event('x', 'team')];
+
+    expect(aggregateEvents(events, [rule('primary'), rule('team')])).toHaveLength(2);
+  });
+
+  it('suppresses a trigger only when every calendar suppresses it', () => {
+    const rules = [rule('primary'), rule('rooms', { suppressedTriggers: ['prep', 'synthesis'] })];
+    const roomOnly = event('r1', 'rooms', { iCalUid: 'room-booking' });
+    const onBoth = [
+      event('w2', 'primary', { iCalUid: 'design-review', startTime: Date.UTC(2026, 0, 15, 11) }),
+      event('r2', 'rooms', { iCalUid: 'design-review', startTime: Date.UTC(2026, 0, 15, 11) }),
+    ];
+
+    const [booking, review] = aggregateEvents([roomOnly, ...onBoth], rules);
+
+    expect(booking.suppressedTriggers).toEqual(['prep', 'synthesis']);
+    expect(review.suppressedTriggers).toBeUndefined();
+  });
+});
+
+// ============================================
+// Rule Helpers
+// ============================================
+
+describe('getIncludedCalendarIds', () => {
+  it('leaves the choice to the provider when no rules are saved', () => {
+    expect(getIncludedCalendarIds(undefined)).toBeUndefined();
+    expect(getIncludedCalendarIds([rule('primary'), rule('team', { included: false }), rule('rooms')])).toEqual([
+      'primary',
+      'rooms',
+    ]);
+  });
+});
+
+describe('reconcileCalendarRules', () => {
+  const calendars = [
+    { id: 'team@group.calendar.google.com', name: 'Team', primary: false },
+    { id: 'primary', name: 'alice@example.com', primary: true },
+  ];
+
+  it('includes only the primary calendar by default', () => {
+    expect(reconcileCalendarRules(calendars, undefined)).toEqual([
+      rule('primary', { name: 'alice@example.com' }),
+      rule('team@group.calendar.google.com', { name: 'Team', included: false }),
+    ]);
+  });
+
+  it('keeps saved order and settings, drops removed calendars and appends new ones', () => {
+    const saved = [
+      rule('team@group.calendar.google.com', { name: 'Old name', suppressedTriggers: ['prep'] }),
+      rule('gone'),
+    ];
+
+    expect(reconcileCalendarRules(calendars, saved)).toEqual([
+      rule('team@group.calendar.google.com', { name: 'Team', suppressedTriggers: ['prep'] }),
+      rule('primary', { name: 'alice@example.com', included: false }),
+    ]);
+  });
+});
@@ -0,0 +1,188 @@
+// @vitest-environment node
+/**
+ * CalDAV Client Tests
+ *
+ * Runs the CalDAV provider against a local Radicale-style stub server that
+ * answers calendar-query REPORTs with a 207 Multi-Status response.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { buildCalendarQuery, extractCalendarData, fetchCalDavEvents } from '../caldav';
+import { createCalDavProvider } from '../providers';
+import { isCalendarError } from '../types';
+
+// ============================================
+// Stub Server
+// ============================================
+
+const USER = 'alice';
+const PASSWORD = 'pässword';
+
+function resource(uid: string, start: string, end: string, summary: string): string {
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Radicale//NONSGML Radicale Server//EN',
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    `SUMMARY:${summary}`,
+    `DTSTART:${start}`,
+    `DTEND:${end}`,
+    'ATTENDEE;CN=Alice;PARTSTAT=ACCEPTED:mailto:alice@example.com',
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ].join('\r\n');
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+const RESOURCES = [
+  resource('retro', '20260115T150000Z', '20260115T160000Z', 'Retro & planning'),
+  resource('sync', '20260115T090000Z', '20260115T093000Z', 'Team sync'),
+];
+
+function multistatus(): string {
+  const responses = RESOURCES.map(
+    (ics, i) => `
+  <response>
+    <href>/alice/calendar/${i}.ics</href>
+    <propstat>
+      <prop>
+        <C:calendar-data>${escapeXml(ics)}</C:calendar-data>
+      </prop>
+      <status>HTTP/1.1 200 OK</status>
+    </propstat>
+  </response>`
+  );
+  return `<?xml version="1.0"?>
+<multistatus xmlns="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">${responses.join('')}
+</multistatus>`;
+}
+
+interface RecordedRequest {
+  method?: string;
+  url?: string;
+  depth?: string;
+  body: string;
+}
+
+let server: Server;
+let baseUrl: string;
+let requests: RecordedRequest[] = [];
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => resolve(body));
+  });
+}
+
+beforeAll(async () => {
+  const expectedAuth = `Basic ${Buffer.from(`${USER}:${PASSWORD}`).toString('base64')}`;
+
+  server = createServer(async (req, res) => {
+    requests.push({ method: req.method, url: req.url, depth: req.headers.depth as string, body: await readBody(req) });
+
+    if (req.headers.authorization !== expectedAuth) {
+      res.writeHead(401, { 'WWW-Authenticate': 'Basic realm="Radicale"' }).end();
+    } else if (req.method !== 'REPORT' || req.url !== '/alice/calendar/') {
+      res.writeHead(404).end();
+    } else {
+      res.writeHead(207, { 'Content-Type': 'application/xml; charset=utf-8' }).end(multistatus());
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests = [];
+});
+
+const RANGE = { min: new Date(Date.UTC(2026, 0, 15)), max: new Date(Date.UTC(2026, 0, 16)) };
+
+// ============================================
+// Request / Response Helpers
+// ============================================
+
+describe('buildCalendarQuery', () => {
+  it('filters VEVENTs by time range and requests expansion', () => {
+    const xml = buildCalendarQuery(RANGE.min, RANGE.max);
+
+    expect(xml).toContain('<C:time-range start="20260115T000000Z" end="20260116T000000Z"/>');
+    expect(xml).toContain('<C:expand start="20260115T000000Z" end="20260116T000000Z"/>');
+  });
+});
+
+describe('extractCalendarData', () => {
+  it('accepts any namespace prefix and CDATA payloads', () => {
+    const xml =
+      '<d:multistatus><cal:calendar-data>A &amp; B</cal:calendar-data>' +
+      '<calendar-data><![CDATA[<raw>]]></calendar-data></d:multistatus>';
+
+    expect(extractCalendarData(xml)).toEqual(['A & B', '<raw>']);
+  });
+});
+
+// ============================================
+// Fetching Against the Stub
+// ============================================
+
+describe('fetchCalDavEvents', () => {
+  it('REPORTs the collection and returns sorted CalendarEvents', async () => {
+    const calendarUrl = `${baseUrl}/alice/calendar/`;
+    const events = await createCalDavProvider({ calendarUrl, username: USER, password: PASSWORD }).fetchEvents(
+      RANGE.min,
+      RANGE.max
+    );
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0]).toMatchObject({ method: 'REPORT', url: '/alice/calendar/', depth: '1' });
+    expect(requests[0].body).toContain('calendar-query');
+
+    expect(events.map((e) => e.title)).toEqual(['Team sync', 'Retro & planning']);
+    expect(events[0]).toMatchObject({
+      iCalUid: 'sync',
+      provider: 'caldav',
+      calendarId: calendarUrl,
+      startTime: Date.UTC(2026, 0, 15, 9),
+      attendees: [{ email: 'alice@example.com', name: 'Alice', responseStatus: 'accepted' }],
+    });
+  });
+
+  it('maps rejected credentials to auth_required', async () => {
+    try {
+      await fetchCalDavEvents(
+        { calendarUrl: `${baseUrl}/alice/calendar/`, username: USER, password: 'wrong' },
+        RANGE.min,
+        RANGE.max
+      );
+      expect.fail('Should have thrown');
+    } catch (e) {
+      expect(isCalendarError(e) && e.type).toBe('auth_required');
+    }
+  });
+
+  it('maps other failures to api_error with the status code', async () => {
+    try {
+      await fetchCalDavEvents(
+        { calendarUrl: `${baseUrl}/bob/calendar/`, username: USER, password: PASSWORD },
+        RANGE.min,
+        RANGE.max
+      );
+      expect.fail('Should have thrown');
+    } catch (e) {
+      expect(isCalendarError(e) && e.code).toBe(404);
+    }
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * iCalendar Parser Tests
+ *
+ * Tests VEVENT parsing, value decoding and recurrence expansion.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseIcsEvents,
+  parseIcsDate,
+  parseIcsDuration,
+  parseRecurrenceRule,
+  expandRecurrence,
+  formatIcsUtc,
+} from '../ics';
+import { isCalendarError } from '../types';
+
+// ============================================
+// Test Helpers
+// ============================================
+
+function calendar(...events: string[][]): string {
+  return ['BEGIN:VCALENDAR', 'VERSION:2.0', ...events.flat(), 'END:VCALENDAR'].join('\r\n');
+}
+
+function vevent(...lines: string[]): string[] {
+  return ['BEGIN:VEVENT', ...lines, 'END:VEVENT'];
+}
+
+/** Local wall-clock time, so recurrence tests don't depend on the machine's zone */
+function local(y: number, mo: number, d: number, h = 0, mi = 0): number {
+  return new Date(y, mo - 1, d, h, mi).getTime();
+}
+
+const JAN = { min: new Date(Date.UTC(2026, 0, 1)), max: new Date(Date.UTC(2026, 1, 1)) };
+
+// ============================================
+// Values
+// ============================================
+
+describe('value parsing', () => {
+  it('parses UTC, floating and DATE values', () => {
+    expect(parseIcsDate('20260115T090000Z')).toEqual({ time: Date.UTC(2026, 0, 15, 9), isDate: false });
+    expect(parseIcsDate('20260115T090000')).toEqual({ time: local(2026, 1, 15, 9), isDate: false });
+    expect(parseIcsDate('20260115')).toEqual({ time: local(2026, 1, 15), isDate: true });
+    expect(parseIcsDate('2026-01-15')).toBeNull();
+  });
+
+  it('parses durations', () => {
+    expect(parseIcsDuration('PT1H30M')).toBe(90 * 60 * 1000);
+    expect(parseIcsDuration('P1D')).toBe(24 * 60 * 60 * 1000);
+    expect(parseIcsDuration('P1W')).toBe(7 * 24 * 60 * 60 * 1000);
+    expect(parseIcsDuration('soon')).toBeNull();
+  });
+
+  it('formats UTC timestamps', () => {
+    expect(formatIcsUtc(Date.UTC(2026, 0, 15, 9, 5, 7))).toBe('20260115T090507Z');
+  });
+});
+
+// ============================================
+// parseIcsEvents
+// ============================================
+
+describe('parseIcsEvents', () => {
+  it('maps a VEVENT to a CalendarEvent', () => {
+    const ics = calendar(
+      vevent(
+        'UID:abc-123@example.com',
+        'SUMMARY:Design review\\, round 2',
+        'DTSTART:20260115T090000Z',
+        'DTEND:20260115T100000Z',
+        'LOCATION:Room 4',
+        'DESCRIPTION:Agenda:\\nslides',
+        'ATTENDEE;CN="Chen, Alice";PARTSTAT=ACCEPTED:mailto:alice@example.com',
+        'ATTENDEE;PARTSTAT=DECLINED:MAILTO:bob@example.com',
+        'ATTENDEE:mailto:carol@example.com',
+        'BEGIN:VALARM',
+        'DESCRIPTION:Reminder',
+        'END:VALARM'
+      )
+    );
+
+    const [event] = parseIcsEvents(ics, JAN.min, JAN.max, { provider: 'ics', calendarId: 'work.ics' });
+
+    expect(event).toEqual({
+      id: 'abc-123@example.com',
+      iCalUid: 'abc-123@example.com',
+      title: 'Design review, round 2',
+      startTime: Date.UTC(2026, 0, 15, 9),
+      endTime: Date.UTC(2026, 0, 15, 10),
+      attendees: [
+        { email: 'alice@example.com', name: 'Chen, Alice', responseStatus: 'accepted' },
+        { email: 'bob@example.com', name: undefined, responseStatus: 'declined' },
+        { email: 'carol@example.com', name: undefined, responseStatus: 'needsAction' },
+      ],
+      location: 'Room 4',
+      description: 'Agenda:\nslides',
+      htmlLink: undefined,
+      calendarId: 'work.ics',
+      provider: 'ics',
+      isAllDay: false,
+    });
+  });
+
+  it('unfolds continuation lines', () => {
+    const ics = calendar(
+      vevent('UID:1', 'SUMMARY:Quarterly plan', ' ning session', 'DTSTART:20260115T090000Z', 'DURATION:PT45M')
+    );
+
+    const [event] = parseIcsEvents(ics, JAN.min, JAN.max);
+
+    expect(event.title).toBe('Quarterly planning session');
+    expect(event.endTime - event.startTime).toBe(45 * 60 * 1000);
+  });
+
+  it('marks DATE events as all-day and skips cancelled or out-of-range events', () => {
+    const ics = calendar(
+      vevent('UID:1', 'SUMMARY:Offsite', 'DTSTART;VALUE=DATE:20260120', 'DTEND;VALUE=DATE:20260121'),
+      vevent('UID:2', 'STATUS:CANCELLED', 'DTSTART:20260115T090000Z', 'DTEND:20260115T100000Z'),
+      vevent('UID:3', 'DTSTART:20260315T090000Z', 'DTEND:20260315T100000Z')
+    );
+
+    const events = parseIcsEvents(ics, JAN.min, JAN.max);
+
+    expect(events).toHaveLength(1);
+    expect(events[0].isAllDay).toBe(true);
+    expect(events[0].title).toBe('Offsite');
+  });
+
+  it('rejects non-iCalendar input', () => {
+    try {
+      parseIcsEvents('<html></html>', JAN.min, JAN.max);
+      expect.fail('Should have thrown');
+    } catch (e) {
+      expect(isCalendarError(e) && e.type).toBe('invalid_response');
+    }
+  });
+});
+
+// ============================================
+// Recurrence
+// ============================================
+
+describe('recurrence', () => {
+  it('parses supported RRULEs', () => {
+    expect(parseRecurrenceRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=4')).toEqual({
+      freq: 'WEEKLY',
+      interval: 2,
+      count: 4,
+      byDay: [1, 3],
+    });
+    expect(parseRecurrenceRule('FREQ=DAILY;UNTIL=20260110')?.until).toBe(local(2026, 1, 11) - 1);
+    expect(parseRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=1')).toBeNull();
+  });
+
+  it('expands weekly BYDAY rules from the DTSTART week', () => {
+    // Wednesday 2026-01-07, every other week on Monday and Friday
+    const starts = expandRecurrence(
+      local(2026, 1, 7, 9),
+      { freq: 'WEEKLY', interval: 2, byDay: [1, 5] },
+      local(2026, 2, 1)
+    );
+
+    expect(starts).toEqual([
+      local(2026, 1, 9, 9),
+      local(2026, 1, 19, 9),
+      local(2026, 1, 23, 9),
+    ]);
+  });
+
+  it('applies COUNT before the range end', () => {
+    expect(expandRecurrence(local(2026, 1, 1, 9), { freq: 'DAILY', interval: 1, count: 3 }, local(2027, 1, 1)))
+      .toEqual([local(2026, 1, 1, 9), local(2026, 1, 2, 9), local(2026, 1, 3, 9)]);
+  });
+
+  it('expands instances with EXDATE and RECURRENCE-ID overrides', () => {
+    const ics = calendar(
+      vevent(
+        'UID:standup',
+        'SUMMARY:Standup',
+        'DTSTART:20260105T090000',
+        'DTEND:20260105T091500',
+        'RRULE:FREQ=DAILY;COUNT=5',
+        'EXDATE:20260107T090000'
+      ),
+      vevent(
+        'UID:standup',
+        'RECURRENCE-ID:20260108T090000',
+        'SUMMARY:Standup (moved)',
+        'DTSTART:20260108T110000',
+        'DTEND:20260108T111500'
+      )
+    );
+
+    const events = parseIcsEvents(ics, JAN.min, JAN.max);
+
+    expect(events.map((e) => [e.title, e.startTime])).toEqual([
+      ['Standup', local(2026, 1, 5, 9)],
+      ['Standup', local(2026, 1, 6, 9)],
+      ['Standup (moved)', local(2026, 1, 8, 11)],
+      ['Standup', local(2026, 1, 9, 9)],
+    ]);
+    expect(events.every((e) => e.iCalUid === 'standup')).toBe(true);
+    expect(new Set(events.map((e) => e.id)).size).toBe(4);
+    expect(events[0].endTime - events[0].startTime).toBe(15 * 60 * 1000);
+  });
+});
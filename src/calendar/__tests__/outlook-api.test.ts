@@ -0,0 +1,164 @@
+/**
+ * Outlook Calendar API Tests
+ *
+ * Tests Graph event mapping and calendarView fetching against recorded
+ * Microsoft Graph responses.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  fetchOutlookEvents,
+  parseGraphEvent,
+  parseGraphDateTime,
+  clearOutlookSeriesCache,
+} from '../outlook-api';
+import type { CalendarAuth, GraphCalendarEvent } from '../types';
+import calendarViewPage1 from './fixtures/graph-calendar-view-page1.json';
+import calendarViewPage2 from './fixtures/graph-calendar-view-page2.json';
+import seriesMaster from './fixtures/graph-series-master.json';
+
+vi.mock('../outlook-oauth', () => ({
+  refreshOutlookToken: vi.fn(),
+}));
+
+import { refreshOutlookToken } from '../outlook-oauth';
+
+const AUTH: CalendarAuth = {
+  accessToken: 'token-1',
+  refreshToken: 'refresh-1',
+  expiresAt: Date.now() + 3600_000,
+  scope: 'Calendars.Read',
+};
+
+const RANGE = { min: new Date(Date.UTC(2026, 0, 15)), max: new Date(Date.UTC(2026, 0, 16)) };
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+/**
+ * Replay the recorded responses by URL.
+ */
+function stubGraph(options: { expiredToken?: string } = {}) {
+  const fetchMock = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => {
+    const url = String(input);
+    const authorization = new Headers(init?.headers).get('Authorization');
+
+    if (options.expiredToken && authorization === `Bearer ${options.expiredToken}`) {
+      return new Response('{"error":{"code":"InvalidAuthenticationToken"}}', { status: 401 });
+    }
+    if (url.includes('/me/calendarView') && url.includes('%24skip=2')) {
+      return jsonResponse(calendarViewPage2);
+    }
+    if (url.includes('/me/calendarView')) {
+      return jsonResponse(calendarViewPage1);
+    }
+    if (url.includes('/me/events/AAMkAGI2TGuMASTER%3D')) {
+      return jsonResponse(seriesMaster);
+    }
+    return new Response('{"error":{"code":"ErrorItemNotFound"}}', { status: 404 });
+  });
+
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  clearOutlookSeriesCache();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+// ============================================
+// parseGraphEvent
+// ============================================
+
+describe('parseGraphEvent', () => {
+  it('maps a single instance with attendees, organizer and RSVP', () => {
+    const event = parseGraphEvent(calendarViewPage1.value[0] as GraphCalendarEvent);
+
+    expect(event).toEqual({
+      id: 'AAMkAGI2TGuLAAA=',
+      iCalUid: calendarViewPage1.value[0].iCalUId,
+      title: 'Design review',
+      startTime: Date.UTC(2026, 0, 15, 9),
+      endTime: Date.UTC(2026, 0, 15, 10),
+      attendees: [
+        { email: 'alice@contoso.com', name: 'Alice Chen', responseStatus: 'accepted' },
+        { email: 'bob@contoso.com', name: 'Bob Smith', responseStatus: 'tentative' },
+        { email: 'carol@contoso.com', name: 'Carol Diaz', responseStatus: 'needsAction' },
+      ],
+      organizer: { email: 'dana@contoso.com', name: 'Dana Lee', self: false },
+      responseStatus: 'tentative',
+      eventType: undefined,
+      location: 'Room 4 / Teams',
+      description: 'Walk through the new onboarding flow.',
+      htmlLink: calendarViewPage1.value[0].webLink,
+      calendarId: 'primary',
+      provider: 'outlook',
+      recurringEventId: undefined,
+      isAllDay: false,
+    });
+  });
+
+  it('uses the series master iCalUId for occurrences when known', () => {
+    const occurrence = calendarViewPage1.value[1] as GraphCalendarEvent;
+
+    expect(parseGraphEvent(occurrence).iCalUid).toBe(occurrence.iCalUId);
+    expect(
+      parseGraphEvent(occurrence, new Map([['AAMkAGI2TGuMASTER=', 'series-uid']]))
+    ).toMatchObject({ iCalUid: 'series-uid', recurringEventId: 'AAMkAGI2TGuMASTER=' });
+  });
+
+  it('parses seven-digit fractional seconds', () => {
+    expect(parseGraphDateTime({ dateTime: '2026-01-15T09:00:00.1234567', timeZone: 'UTC' })).toBe(
+      Date.UTC(2026, 0, 15, 9, 0, 0, 123)
+    );
+  });
+});
+
+// ============================================
+// fetchOutlookEvents
+// ============================================
+
+describe('fetchOutlookEvents', () => {
+  it('follows nextLink, threads series occurrences and drops cancelled events', async () => {
+    const fetchMock = stubGraph();
+
+    const { events } = await fetchOutlookEvents(AUTH, RANGE.min, RANGE.max);
+
+    expect(events.map((e) => e.title)).toEqual(['Design review', 'Team standup', 'Team standup (moved)']);
+    expect(events[1].iCalUid).toBe(seriesMaster.iCalUId);
+    expect(events[2].iCalUid).toBe(seriesMaster.iCalUId);
+
+    const [firstUrl, firstInit] = fetchMock.mock.calls[0];
+    expect(String(firstUrl)).toContain('startDateTime=2026-01-15T00%3A00%3A00.000Z');
+    expect(new Headers(firstInit?.headers).get('Prefer')).toBe('outlook.timezone="UTC"');
+    // Two calendarView pages and one series master lookup
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('looks up each series master once per session', async () => {
+    const fetchMock = stubGraph();
+
+    await fetchOutlookEvents(AUTH, RANGE.min, RANGE.max);
+    await fetchOutlookEvents(AUTH, RANGE.min, RANGE.max);
+
+    const masterLookups = fetchMock.mock.calls.filter(([url]) => String(url).includes('/me/events/'));
+    expect(masterLookups).toHaveLength(1);
+  });
+
+  it('refreshes an expired token and retries', async () => {
+    stubGraph({ expiredToken: 'token-1' });
+    vi.mocked(refreshOutlookToken).mockResolvedValue({ ...AUTH, accessToken: 'token-2' });
+
+    const { events, auth } = await fetchOutlookEvents(AUTH, RANGE.min, RANGE.max);
+
+    expect(refreshOutlookToken).toHaveBeenCalledTimes(1);
+    expect(auth.accessToken).toBe('token-2');
+    expect(events).toHaveLength(3);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Calendar Provider Snapshot Tests
+ *
+ * Tests that the snapshot range follows the timing settings, so long prep
+ * windows can fire.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { fetchProviderSnapshot, saveProviderConfig, clearProviderConfig } from '../providers';
+import { formatIcsUtc } from '../ics';
+import { DEFAULT_TIMING_CONFIG, TimingSettings } from '@/rules/types';
+
+vi.mock('@/storage/timing-settings-api', () => ({
+  getTimingSettings: vi.fn(),
+}));
+
+import { getTimingSettings } from '@/storage/timing-settings-api';
+
+const NOW = new Date(2026, 2, 10, 12, 0);
+const HOUR = 60 * 60 * 1000;
+
+function icsEvent(uid: string, title: string, startOffsetHours: number): string[] {
+  const start = NOW.getTime() + startOffsetHours * HOUR;
+  return [
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    `SUMMARY:${title}`,
+    `DTSTART:${formatIcsUtc(start)}`,
+    `DTEND:${formatIcsUtc(start + HOUR)}`,
+    'END:VEVENT',
+  ];
+}
+
+const boardPrep: TimingSettings = {
+  global: DEFAULT_TIMING_CONFIG,
+  overrides: [
+    { id: 'board', label: 'Board meetings', match: { seriesId: 'board' }, config: { prepWindowMinutes: 3 * 24 * 60 } },
+  ],
+};
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(NOW);
+  saveProviderConfig({
+    provider: 'ics',
+    name: 'work.ics',
+    text: [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      ...icsEvent('standup', 'Standup', 2),
+      ...icsEvent('board', 'Board Meeting', 48),
+      'END:VCALENDAR',
+    ].join('\r\n'),
+  });
+});
+
+afterEach(() => {
+  clearProviderConfig();
+  vi.useRealTimers();
+});
+
+describe('fetchProviderSnapshot', () => {
+  it('covers the next 24 hours with the default windows', async () => {
+    vi.mocked(getTimingSettings).mockResolvedValue({ global: DEFAULT_TIMING_CONFIG, overrides: [] });
+
+    expect((await fetchProviderSnapshot()).map((e) => e.title)).toEqual(['Standup']);
+  });
+
+  it('reaches as far ahead as the longest prep window', async () => {
+    vi.mocked(getTimingSettings).mockResolvedValue(boardPrep);
+
+    expect((await fetchProviderSnapshot()).map((e) => e.title)).toEqual(['Standup', 'Board Meeting']);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Multi-Calendar Aggregation
+ *
+ * Per-calendar inclusion rules and merging of events fetched from several
+ * calendars into one snapshot. Events that appear on more than one calendar
+ * (an invite on both the work and the team calendar, a room booking) are
+ * de-duplicated by iCalUID + start time before the rules engine sees them.
+ */
+
+import {
+  CalendarEvent,
+  CalendarInfo,
+  CalendarProviderId,
+  CalendarRule,
+  CalendarSelection,
+  CALENDAR_SELECTION_STORAGE_KEY,
+} from './types';
+import type { MeetingTrigger } from '@/rules/types';
+
+// ============================================
+// Rule Storage
+// ============================================
+
+/**
+ * Get saved calendar rules for all providers.
+ */
+export function getCalendarSelection(): CalendarSelection {
+  if (typeof window === 'undefined') {
+    return {};
+  }
+
+  try {
+    const stored = localStorage.getItem(CALENDAR_SELECTION_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as CalendarSelection) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Get saved calendar rules for a provider, or undefined if never configured.
+ */
+export function getCalendarRules(provider: CalendarProviderId): CalendarRule[] | undefined {
+  return getCalendarSelection()[provider];
+}
+
+/**
+ * Save calendar rules for a provider.
+ */
+export function saveCalendarRules(provider: CalendarProviderId, rules: CalendarRule[]): void {
+  if (typeof window !== 'undefined') {
+    const selection = getCalendarSelection();
+    selection[provider] = rules;
+    localStorage.setItem(CALENDAR_SELECTION_STORAGE_KEY, JSON.stringify(selection));
+  }
+}
+
+/**
+ * Forget all calendar rules.
+ */
+export function clearCalendarSelection(): void {
+  if (typeof window !== 'undefined') {
+    localStorage.removeItem(CALENDAR_SELECTION_STORAGE_KEY);
+  }
+}
+
+// ============================================
+// Rule Helpers
+// ============================================
+
+/**
+ * Calendars to fetch. Undefined when no rules are saved, which leaves the
+ * choice to the provider (its primary calendar).
+ */
+export function getIncludedCalendarIds(rules: CalendarRule[] | undefined): string[] | undefined {
+  return rules?.filter((r) => r.included).map((r) => r.calendarId);
+}
+
+/**
+ * Merge saved rules with the provider's current calendar list.
+ * Saved rules keep their order (priority); calendars that no longer exist are
+ * dropped and new ones are appended. Without saved rules only the primary
+ * calendar is included, matching the single-calendar default.
+ */
+export function reconcileCalendarRules(
+  calendars: CalendarInfo[],
+  rules: CalendarRule[] | undefined
+): CalendarRule[] {
+  const byId = new Map(calendars.map((c) => [c.id, c]));
+  const kept = (rules ?? [])
+    .filter((r) => byId.has(r.calendarId))
+    .map((r) => ({ ...r, name: byId.get(r.calendarId)!.name }));
+  const known = new Set(kept.map((r) => r.calendarId));
+
+  const added = [...calendars]
+    .sort((a, b) => Number(b.primary) - Number(a.primary))
+    .filter((c) => !known.has(c.id))
+    .map((c) => ({
+      calendarId: c.id,
+      name: c.name,
+      included: rules === undefined && c.primary,
+      suppressedTriggers: [] as MeetingTrigger[],
+    }));
+
+  return [...kept, ...added];
+}
+
+// ============================================
+// Aggregation
+// ============================================
+
+/**
+ * Identity of an event across calendars. Recurring instances share an
+ * iCalUID, so the start time is part of the key; events without an iCalUID
+ * are only unique within their own calendar.
+ */
+function dedupeKey(event: CalendarEvent): string {
+  return event.iCalUid
+    ? `uid:${event.iCalUid}|${event.startTime}`
+    : `id:${event.calendarId ?? ''}|${event.id}`;
+}
+
+/**
+ * Merge events from several calendars into one snapshot.
+ *
+ * - Events from calendars whose rule is not `included` are dropped.
+ * - Duplicates keep the copy from the highest-priority calendar (earliest rule;
+ *   calendars without a rule come last) and record every calendar in
+ *   `calendarIds`.
+ * - A trigger is suppressed only if every calendar the event appeared on
+ *   suppresses it, so a room booking marked "never Prep" still preps when the
+ *   same meeting is also on the work calendar.
+ *
+ * @returns Events sorted by start time
+ */
+export function aggregateEvents(
+  events: CalendarEvent[],
+  rules: CalendarRule[] | undefined
+): CalendarEvent[] {
+  const ruleIndex = new Map((rules ?? []).map((r, i) => [r.calendarId, i]));
+  const ruleFor = (event: CalendarEvent) =>
+    event.calendarId !== undefined ? rules?.[ruleIndex.get(event.calendarId) ?? -1] : undefined;
+  const priority = (event: CalendarEvent) =>
+    (event.calendarId !== undefined ? ruleIndex.get(event.calendarId) : undefined) ?? ruleIndex.size;
+
+  const ordered = events
+    .filter((e) => ruleFor(e)?.included !== false)
+    .map((event, i) => ({ event, i }))
+    .sort((a, b) => priority(a.event) - priority(b.event) || a.i - b.i)
+    .map(({ event }) => event);
+
+  const merged = new Map<string, { event: CalendarEvent; calendarIds: string[]; suppressed: MeetingTrigger[] }>();
+
+  for (const event of ordered) {
+    const key = dedupeKey(event);
+    const suppressed = ruleFor(event)?.suppressedTriggers ?? [];
+    const existing = merged.get(key);
+
+    if (!existing) {
+      merged.set(key, {
+        event,
+        calendarIds: event.calendarId !== undefined ? [event.calendarId] : [],
+        suppressed: [...suppressed],
+      });
+      continue;
+    }
+
+    if (event.calendarId !== undefined && !existing.calendarIds.includes(event.calendarId)) {
+      existing.calendarIds.push(event.calendarId);
+    }
+    existing.suppressed = existing.suppressed.filter((t) => suppressed.includes(t));
+  }
+
+  return Array.from(merged.values())
+    .map(({ event, calendarIds, suppressed }) => ({
+      ...event,
+      calendarIds,
+      ...(suppressed.length > 0 ? { suppressedTriggers: suppressed } : {}),
+    }))
+    .sort((a, b) => a.startTime - b.startTime);
+}
@@ -7,12 +7,16 @@
 import {
   CalendarAuth,
   CalendarEvent,
+  CalendarInfo,
   GoogleCalendarEvent,
   GoogleCalendarListResponse,
+  GoogleCalendarListEntriesResponse,
   GOOGLE_CALENDAR_API_BASE,
+  ResponseStatus,
   createCalendarError,
   CalendarError,
 } from './types';
+import type { MeetingEventType } from '@/rules/types';
 import { getValidAuth, refreshAccessToken } from './oauth';
 
 // ============================================
@@ -82,6 +86,31 @@ async function calendarFetchWithRetry<T>(
 // Event Fetching
 // ============================================
 
+/**
+ * Map Google's eventType to ours; ordinary and Gmail-generated events are 'default'.
+ */
+function parseGoogleEventType(eventType: string | undefined): MeetingEventType | undefined {
+  switch (eventType) {
+    case 'focusTime':
+    case 'outOfOffice':
+    case 'workingLocation':
+      return eventType;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * The user's RSVP: their own attendee entry, or accepted if they organized it.
+ */
+function parseSelfResponse(event: GoogleCalendarEvent): ResponseStatus | undefined {
+  const self = event.attendees?.find((a) => a.self);
+  if (self) {
+    return (self.responseStatus as ResponseStatus) || 'needsAction';
+  }
+  return event.organizer?.self ? 'accepted' : undefined;
+}
+
 /**
  * Parse Google Calendar event to our CalendarEvent type.
  */
@@ -114,10 +143,16 @@ function parseGoogleEvent(event: GoogleCalendarEvent, calendarId: string = 'prim
       responseStatus: (a.responseStatus as CalendarEvent['attendees'][0]['responseStatus']) || 'needsAction',
       self: a.self,
     })),
+    organizer: event.organizer?.email
+      ? { email: event.organizer.email, name: event.organizer.displayName, self: event.organizer.self }
+      : undefined,
+    responseStatus: parseSelfResponse(event),
+    eventType: parseGoogleEventType(event.eventType),
     location: event.location,
     description: event.description,
     htmlLink: event.htmlLink,
     calendarId,
+    provider: 'gcal',
     isAllDay,
   };
 }
@@ -128,11 +163,13 @@ function parseGoogleEvent(event: GoogleCalendarEvent, calendarId: string = 'prim
  * @param auth - Calendar authentication
  * @param timeMin - Start of range (default: start of today)
  * @param timeMax - End of range (default: 24 hours from now)
+ * @param calendarId - Calendar to read (default: primary)
  */
 export async function fetchCalendarEvents(
   auth: CalendarAuth,
   timeMin?: Date,
-  timeMax?: Date
+  timeMax?: Date,
+  calendarId: string = 'primary'
 ): Promise<{ events: CalendarEvent[]; auth: CalendarAuth }> {
   // Default time range: today + 24 hours
   const now = new Date();
@@ -148,10 +185,10 @@ export async function fetchCalendarEvents(
     orderBy: 'startTime',
     maxResults: '50',
     // Request iCalUID for stable identity (WorkObjects spec §4.1)
-    fields: 'items(id,iCalUID,summary,start,end,attendees,location,description,htmlLink)',
+    fields: 'items(id,iCalUID,summary,start,end,attendees,organizer,eventType,location,description,htmlLink)',
   });
 
-  const endpoint = `/calendars/primary/events?${params.toString()}`;
+  const endpoint = `/calendars/${encodeURIComponent(calendarId)}/events?${params.toString()}`;
 
   const { data, auth: updatedAuth } = await calendarFetchWithRetry<GoogleCalendarListResponse>(
     endpoint,
@@ -161,12 +198,33 @@ export async function fetchCalendarEvents(
   // Filter out all-day events for now (they don't have specific times)
   // and parse remaining events
   const events = data.items
-    .map((e) => parseGoogleEvent(e, 'primary'))
+    .map((e) => parseGoogleEvent(e, calendarId))
     .filter((e) => !e.isAllDay);
 
   return { events, auth: updatedAuth };
 }
 
+/**
+ * List the calendars on the user's calendar list.
+ * The primary calendar is reported as 'primary' to match event calendarIds.
+ */
+export async function listGoogleCalendars(
+  auth: CalendarAuth
+): Promise<{ calendars: CalendarInfo[]; auth: CalendarAuth }> {
+  const { data, auth: updatedAuth } = await calendarFetchWithRetry<GoogleCalendarListEntriesResponse>(
+    '/users/me/calendarList?fields=items(id,summary,summaryOverride,primary)',
+    auth
+  );
+
+  const calendars = data.items.map((entry) => ({
+    id: entry.primary ? 'primary' : entry.id,
+    name: entry.summaryOverride || entry.summary || entry.id,
+    primary: Boolean(entry.primary),
+  }));
+
+  return { calendars, auth: updatedAuth };
+}
+
 /**
  * Fetch calendar snapshot (today + 24 hours).
  * This is the main entry point for getting calendar data.
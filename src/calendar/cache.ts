@@ -11,7 +11,7 @@ import {
   CRITICAL_STALE_MS,
   CACHE_STORAGE_KEY,
 } from './types';
-import { fetchCalendarSnapshot } from './api';
+import { fetchProviderSnapshot } from './providers';
 
 // ============================================
 // In-Memory Cache
@@ -182,7 +182,7 @@ export async function refreshSnapshotIfNeeded(): Promise<{
 
   // Try to fetch fresh data
   try {
-    const events = await fetchCalendarSnapshot();
+    const events = await fetchProviderSnapshot();
     updateCache(events);
 
     return {
@@ -210,7 +210,7 @@ export async function refreshSnapshotIfNeeded(): Promise<{
  * Force refresh the snapshot (ignore cache).
  */
 export async function forceRefreshSnapshot(): Promise<CalendarEvent[]> {
-  const events = await fetchCalendarSnapshot();
+  const events = await fetchProviderSnapshot();
   updateCache(events);
   return events;
 }
@@ -0,0 +1,135 @@
+/**
+ * CalDAV Client
+ *
+ * Lists events from a CalDAV calendar collection (RFC 4791) with a
+ * calendar-query REPORT. Works with generic servers such as Radicale,
+ * Nextcloud, Fastmail or iCloud (app-specific password).
+ */
+
+import { CalendarEvent, createCalendarError } from './types';
+import { formatIcsUtc, parseIcsEvents } from './ics';
+
+export interface CalDavConfig {
+  calendarUrl: string;
+  username?: string;
+  password?: string;
+}
+
+// ============================================
+// Request Building
+// ============================================
+
+/**
+ * Build a calendar-query REPORT body for VEVENTs in a time range.
+ * Asks the server to expand recurrences; parseIcsEvents expands them
+ * client-side when the server ignores the request.
+ */
+export function buildCalendarQuery(timeMin: Date, timeMax: Date): string {
+  const start = formatIcsUtc(timeMin.getTime());
+  const end = formatIcsUtc(timeMax.getTime());
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<C:calendar-query xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">',
+    '  <D:prop>',
+    '    <C:calendar-data>',
+    `      <C:expand start="${start}" end="${end}"/>`,
+    '    </C:calendar-data>',
+    '  </D:prop>',
+    '  <C:filter>',
+    '    <C:comp-filter name="VCALENDAR">',
+    '      <C:comp-filter name="VEVENT">',
+    `        <C:time-range start="${start}" end="${end}"/>`,
+    '      </C:comp-filter>',
+    '    </C:comp-filter>',
+    '  </C:filter>',
+    '</C:calendar-query>',
+  ].join('\n');
+}
+
+function basicAuth(username: string, password: string): string {
+  const bytes = new TextEncoder().encode(`${username}:${password}`);
+  return `Basic ${btoa(String.fromCharCode(...bytes))}`;
+}
+
+// ============================================
+// Response Parsing
+// ============================================
+
+function decodeXmlText(text: string): string {
+  const cdata = text.match(/^\s*<!\[CDATA\[([\s\S]*)\]\]>\s*$/);
+  if (cdata) {
+    return cdata[1];
+  }
+
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec: string) => String.fromCharCode(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Extract the iCalendar payloads from a 207 Multi-Status response.
+ * Namespace prefixes vary by server, so any prefix is accepted.
+ */
+export function extractCalendarData(multistatus: string): string[] {
+  const pattern = /<(?:[\w-]+:)?calendar-data\b[^>]*>([\s\S]*?)<\/(?:[\w-]+:)?calendar-data>/g;
+  return Array.from(multistatus.matchAll(pattern), (match) => decodeXmlText(match[1]));
+}
+
+// ============================================
+// Fetching
+// ============================================
+
+/**
+ * Fetch events overlapping [timeMin, timeMax) from a CalDAV collection.
+ *
+ * @throws CalendarError — auth_required on 401/403, api_error on other
+ *   non-207 responses, network_error when the server is unreachable
+ */
+export async function fetchCalDavEvents(
+  config: CalDavConfig,
+  timeMin: Date,
+  timeMax: Date
+): Promise<CalendarEvent[]> {
+  const headers: Record<string, string> = {
+    Depth: '1',
+    'Content-Type': 'application/xml; charset=utf-8',
+  };
+  if (config.username) {
+    headers.Authorization = basicAuth(config.username, config.password ?? '');
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(config.calendarUrl, {
+      method: 'REPORT',
+      headers,
+      body: buildCalendarQuery(timeMin, timeMax),
+    });
+  } catch {
+    throw createCalendarError('network_error', 'Unable to connect to CalDAV server');
+  }
+
+  if (response.status === 401 || response.status === 403) {
+    throw createCalendarError('auth_required', 'CalDAV server rejected the credentials', {
+      code: response.status,
+    });
+  }
+  if (response.status !== 207) {
+    throw createCalendarError('api_error', `CalDAV error: ${response.status} ${response.statusText}`, {
+      code: response.status,
+    });
+  }
+
+  const body = await response.text();
+  return extractCalendarData(body)
+    .flatMap((ics) =>
+      parseIcsEvents(ics, timeMin, timeMax, { provider: 'caldav', calendarId: config.calendarUrl })
+    )
+    .sort((a, b) => a.startTime - b.startTime);
+}
@@ -0,0 +1,457 @@
+/**
+ * iCalendar (RFC 5545) Parser
+ *
+ * Turns .ics text into CalendarEvent[] for a time range. Used by the ICS file/URL
+ * provider and for CalDAV responses, which carry iCalendar payloads.
+ *
+ * Supported: line folding, text escapes, DATE and DATE-TIME values, DURATION,
+ * ATTENDEE/ORGANIZER with CN/PARTSTAT, STATUS:CANCELLED, RRULE with FREQ=DAILY|WEEKLY
+ * (INTERVAL, COUNT, UNTIL, BYDAY), EXDATE and RECURRENCE-ID overrides.
+ * TZID parameters are not resolved: non-UTC times are read as local time.
+ * Other RRULE frequencies yield the first occurrence only.
+ */
+
+import {
+  Attendee,
+  CalendarEvent,
+  CalendarProviderId,
+  Organizer,
+  ResponseStatus,
+  createCalendarError,
+} from './types';
+
+// ============================================
+// Types
+// ============================================
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+export interface RecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY';
+  interval: number;
+  count?: number;
+  /** Inclusive upper bound (epoch ms) */
+  until?: number;
+  /** Weekdays for WEEKLY rules (0 = Sunday) */
+  byDay?: number[];
+}
+
+interface ParsedVEvent {
+  uid: string;
+  title: string;
+  startTime: number;
+  endTime: number;
+  isAllDay: boolean;
+  location?: string;
+  description?: string;
+  url?: string;
+  attendees: Attendee[];
+  organizer?: Organizer;
+  /** null when the RRULE uses an unsupported frequency */
+  rrule?: RecurrenceRule | null;
+  exdates: number[];
+  recurrenceId?: number;
+  cancelled: boolean;
+}
+
+export interface IcsParseOptions {
+  provider?: CalendarProviderId;
+  calendarId?: string;
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Upper bound on recurrence periods walked per event */
+const MAX_RECURRENCE_PERIODS = 5000;
+
+// ============================================
+// Lexing
+// ============================================
+
+/**
+ * Join folded lines (continuations start with a space or tab).
+ */
+function unfoldLines(text: string): string[] {
+  return text
+    .replace(/\r\n/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * Split on a separator, ignoring separators inside double quotes.
+ */
+function splitOutsideQuotes(text: string, separator: string, limit = Infinity): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (const char of text) {
+    if (char === '"') {
+      quoted = !quoted;
+    }
+    if (char === separator && !quoted && parts.length < limit - 1) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+function parseProperty(line: string): IcsProperty | null {
+  const [head, value] = splitOutsideQuotes(line, ':', 2);
+  if (value === undefined) {
+    return null;
+  }
+
+  const [name, ...rawParams] = splitOutsideQuotes(head, ';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const eq = param.indexOf('=');
+    if (eq > 0) {
+      params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, '');
+    }
+  }
+
+  return { name: name.toUpperCase(), params, value };
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([nN,;\\])/g, (_, char: string) => (char.toLowerCase() === 'n' ? '\n' : char));
+}
+
+// ============================================
+// Values
+// ============================================
+
+/**
+ * Format an epoch time as an iCalendar UTC DATE-TIME (e.g. 20260115T090000Z).
+ */
+export function formatIcsUtc(time: number): string {
+  return new Date(time).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Parse a DATE or DATE-TIME value. Returns null when malformed.
+ */
+export function parseIcsDate(value: string): { time: number; isDate: boolean } | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, y, mo, d, h, mi, s, utc] = match;
+  if (h === undefined) {
+    return { time: new Date(+y, +mo - 1, +d).getTime(), isDate: true };
+  }
+  const time = utc
+    ? Date.UTC(+y, +mo - 1, +d, +h, +mi, +s)
+    : new Date(+y, +mo - 1, +d, +h, +mi, +s).getTime();
+  return { time, isDate: false };
+}
+
+/**
+ * Parse a DURATION value (e.g. PT1H30M, P1D) into milliseconds.
+ */
+export function parseIcsDuration(value: string): number | null {
+  const match = value
+    .trim()
+    .match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, sign, w, d, h, m, s] = match;
+  const ms =
+    (Number(w ?? 0) * 7 + Number(d ?? 0)) * DAY_MS +
+    (Number(h ?? 0) * 3600 + Number(m ?? 0) * 60 + Number(s ?? 0)) * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+function parseResponseStatus(partstat: string | undefined): ResponseStatus {
+  switch (partstat?.toUpperCase()) {
+    case 'ACCEPTED':
+      return 'accepted';
+    case 'DECLINED':
+      return 'declined';
+    case 'TENTATIVE':
+      return 'tentative';
+    default:
+      return 'needsAction';
+  }
+}
+
+/**
+ * Parse an RRULE value. Returns null for frequencies we don't expand.
+ */
+export function parseRecurrenceRule(value: string): RecurrenceRule | null {
+  const parts: Record<string, string> = {};
+  for (const part of value.split(';')) {
+    const [key, val] = part.split('=');
+    if (key && val !== undefined) {
+      parts[key.toUpperCase()] = val;
+    }
+  }
+
+  if (parts.FREQ !== 'DAILY' && parts.FREQ !== 'WEEKLY') {
+    return null;
+  }
+
+  const rule: RecurrenceRule = {
+    freq: parts.FREQ,
+    interval: Math.max(1, parseInt(parts.INTERVAL ?? '1', 10) || 1),
+  };
+
+  if (parts.COUNT) {
+    rule.count = parseInt(parts.COUNT, 10);
+  }
+  if (parts.UNTIL) {
+    const until = parseIcsDate(parts.UNTIL);
+    if (until) {
+      // A DATE bound includes the whole day
+      rule.until = until.isDate ? until.time + DAY_MS - 1 : until.time;
+    }
+  }
+  if (parts.BYDAY && rule.freq === 'WEEKLY') {
+    rule.byDay = parts.BYDAY.split(',')
+      .map((day) => WEEKDAYS.indexOf(day.replace(/^[+-]?\d+/, '').toUpperCase()))
+      .filter((day) => day >= 0);
+  }
+
+  return rule;
+}
+
+// ============================================
+// Recurrence Expansion
+// ============================================
+
+/**
+ * Add calendar days in local time so wall-clock times survive DST changes.
+ */
+function addDays(time: number, days: number): number {
+  const date = new Date(time);
+  date.setDate(date.getDate() + days);
+  return date.getTime();
+}
+
+/** Days since the Monday of the week containing `time` (WKST=MO) */
+function daysSinceMonday(time: number): number {
+  return (new Date(time).getDay() + 6) % 7;
+}
+
+/**
+ * List occurrence start times of a recurring event from its first start up to
+ * `rangeEnd` (or the rule's UNTIL/COUNT, whichever comes first).
+ * EXDATEs are applied by the caller, after COUNT, as RFC 5545 specifies.
+ */
+export function expandRecurrence(start: number, rule: RecurrenceRule, rangeEnd: number): number[] {
+  const limit = Math.min(rule.until ?? Infinity, rangeEnd);
+  const starts: number[] = [];
+
+  let base = start;
+  let step = rule.interval;
+  let offsets = [0];
+
+  if (rule.freq === 'WEEKLY') {
+    base = addDays(start, -daysSinceMonday(start));
+    step = 7 * rule.interval;
+    offsets = rule.byDay?.length
+      ? Array.from(new Set(rule.byDay.map((day) => (day + 6) % 7))).sort((a, b) => a - b)
+      : [daysSinceMonday(start)];
+  }
+
+  for (let period = 0; period < MAX_RECURRENCE_PERIODS; period++) {
+    for (const offset of offsets) {
+      const time = addDays(base, period * step + offset);
+      if (time < start) continue;
+      if (time > limit || (rule.count !== undefined && starts.length >= rule.count)) {
+        return starts;
+      }
+      starts.push(time);
+    }
+  }
+
+  return starts;
+}
+
+// ============================================
+// Parsing
+// ============================================
+
+function toVEvent(props: IcsProperty[]): ParsedVEvent | null {
+  const get = (name: string) => props.find((p) => p.name === name);
+
+  const dtstart = get('DTSTART');
+  const start = dtstart && parseIcsDate(dtstart.value);
+  if (!start) {
+    return null;
+  }
+
+  let endTime = start.isDate ? start.time + DAY_MS : start.time;
+  const dtend = get('DTEND');
+  const duration = get('DURATION');
+  const end = dtend && parseIcsDate(dtend.value);
+  if (end) {
+    endTime = end.time;
+  } else if (duration) {
+    endTime = start.time + (parseIcsDuration(duration.value) ?? 0);
+  }
+
+  const rrule = get('RRULE');
+  const recurrenceId = get('RECURRENCE-ID');
+  const organizer = get('ORGANIZER');
+
+  return {
+    uid: get('UID')?.value ?? '',
+    title: unescapeText(get('SUMMARY')?.value ?? '') || '(No title)',
+    startTime: start.time,
+    endTime,
+    isAllDay: start.isDate,
+    location: get('LOCATION') && unescapeText(get('LOCATION')!.value),
+    description: get('DESCRIPTION') && unescapeText(get('DESCRIPTION')!.value),
+    url: get('URL')?.value,
+    attendees: props
+      .filter((p) => p.name === 'ATTENDEE')
+      .map((p) => ({
+        email: p.value.replace(/^mailto:/i, ''),
+        name: p.params.CN,
+        responseStatus: parseResponseStatus(p.params.PARTSTAT),
+      })),
+    organizer: organizer && {
+      email: organizer.value.replace(/^mailto:/i, ''),
+      name: organizer.params.CN,
+    },
+    rrule: rrule ? parseRecurrenceRule(rrule.value) : undefined,
+    exdates: props
+      .filter((p) => p.name === 'EXDATE')
+      .flatMap((p) => p.value.split(','))
+      .map((v) => parseIcsDate(v)?.time)
+      .filter((t): t is number => t !== undefined),
+    recurrenceId: recurrenceId ? parseIcsDate(recurrenceId.value)?.time : undefined,
+    cancelled: get('STATUS')?.value.toUpperCase() === 'CANCELLED',
+  };
+}
+
+/**
+ * Collect the VEVENT components of an iCalendar document.
+ * Nested components (e.g. VALARM) are skipped.
+ */
+function readVEvents(text: string): ParsedVEvent[] {
+  const lines = unfoldLines(text);
+  if (!lines.some((line) => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw createCalendarError('invalid_response', 'Not an iCalendar document');
+  }
+
+  const events: ParsedVEvent[] = [];
+  const stack: string[] = [];
+  let props: IcsProperty[] = [];
+
+  for (const line of lines) {
+    const prop = parseProperty(line.trim());
+    if (!prop) continue;
+
+    if (prop.name === 'BEGIN') {
+      stack.push(prop.value.toUpperCase());
+      if (prop.value.toUpperCase() === 'VEVENT') {
+        props = [];
+      }
+    } else if (prop.name === 'END') {
+      const component = stack.pop();
+      if (component === 'VEVENT') {
+        const event = toVEvent(props);
+        if (event) events.push(event);
+      }
+    } else if (stack[stack.length - 1] === 'VEVENT') {
+      props.push(prop);
+    }
+  }
+
+  return events;
+}
+
+function overlaps(start: number, end: number, timeMin: number, timeMax: number): boolean {
+  return start < timeMax && (end > timeMin || start >= timeMin);
+}
+
+/**
+ * Parse iCalendar text into CalendarEvents overlapping [timeMin, timeMax).
+ *
+ * Recurring events are expanded into instances that share the series UID as
+ * `iCalUid`, with `<uid>_<UTC start>` as the instance id, so meeting UID
+ * mapping can tell instances apart by start time.
+ *
+ * @throws CalendarError('invalid_response') if the text is not iCalendar
+ */
+export function parseIcsEvents(
+  text: string,
+  timeMin: Date,
+  timeMax: Date,
+  options: IcsParseOptions = {}
+): CalendarEvent[] {
+  const min = timeMin.getTime();
+  const max = timeMax.getTime();
+  const vevents = readVEvents(text);
+
+  // RECURRENCE-ID instances replace the generated occurrence at that start
+  const overridden = new Set(
+    vevents
+      .filter((e) => e.recurrenceId !== undefined)
+      .map((e) => `${e.uid}|${e.recurrenceId}`)
+  );
+
+  const toCalendarEvent = (vevent: ParsedVEvent, startTime: number, instance: boolean): CalendarEvent => ({
+    id: instance ? `${vevent.uid}_${formatIcsUtc(startTime)}` : vevent.uid,
+    iCalUid: vevent.uid || undefined,
+    title: vevent.title,
+    startTime,
+    endTime: startTime + (vevent.endTime - vevent.startTime),
+    attendees: vevent.attendees,
+    organizer: vevent.organizer,
+    location: vevent.location,
+    description: vevent.description,
+    htmlLink: vevent.url,
+    calendarId: options.calendarId,
+    provider: options.provider,
+    isAllDay: vevent.isAllDay,
+  });
+
+  const events: CalendarEvent[] = [];
+
+  for (const vevent of vevents) {
+    if (vevent.cancelled) continue;
+
+    if (vevent.recurrenceId !== undefined) {
+      if (overlaps(vevent.startTime, vevent.endTime, min, max)) {
+        events.push(toCalendarEvent(vevent, vevent.startTime, true));
+      }
+      continue;
+    }
+
+    if (!vevent.rrule) {
+      if (overlaps(vevent.startTime, vevent.endTime, min, max)) {
+        events.push(toCalendarEvent(vevent, vevent.startTime, vevent.rrule === null));
+      }
+      continue;
+    }
+
+    const duration = vevent.endTime - vevent.startTime;
+    const exdates = new Set(vevent.exdates);
+    for (const start of expandRecurrence(vevent.startTime, vevent.rrule, max)) {
+      if (exdates.has(start) || overridden.has(`${vevent.uid}|${start}`)) continue;
+      if (overlaps(start, start + duration, min, max)) {
+        events.push(toCalendarEvent(vevent, start, true));
+      }
+    }
+  }
+
+  return events.sort((a, b) => a.startTime - b.startTime);
+}
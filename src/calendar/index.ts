@@ -1,7 +1,7 @@
 /**
  * Calendar Module
  *
- * Public exports for Google Calendar integration.
+ * Public exports for calendar integration (Google, Outlook, ICS and CalDAV providers).
  */
 
 // Types
@@ -11,11 +11,18 @@ export type {
   CalendarEvent,
   Attendee,
   ResponseStatus,
+  Organizer,
   SnapshotCache,
   CalendarError,
   CalendarErrorType,
   CalendarState,
   CalendarStatus,
+  CalendarProvider,
+  CalendarProviderConfig,
+  CalendarProviderId,
+  CalendarInfo,
+  CalendarRule,
+  CalendarSelection,
 } from './types';
 
 export {
@@ -39,13 +46,59 @@ export {
   signOut,
 } from './oauth';
 
+// Outlook OAuth
+export {
+  initiateOutlookOAuth,
+  handleOutlookOAuthCallback,
+  isPendingOutlookCallback,
+  refreshOutlookToken,
+  getStoredOutlookAuth,
+  clearOutlookAuth,
+  getValidOutlookAuth,
+  isOutlookAuthenticated,
+} from './outlook-oauth';
+
 // API
 export {
   fetchCalendarEvents,
   fetchCalendarSnapshot,
+  listGoogleCalendars,
   getUpcomingEvents,
   getEventById,
 } from './api';
+export { fetchOutlookEvents, listOutlookCalendars, parseGraphEvent } from './outlook-api';
+
+// Providers
+export {
+  googleCalendarProvider,
+  outlookCalendarProvider,
+  createIcsProvider,
+  createCalDavProvider,
+  createProvider,
+  getProviderConfig,
+  saveProviderConfig,
+  clearProviderConfig,
+  getActiveProvider,
+  getActiveProviderId,
+  isProviderConnected,
+  fetchProviderSnapshot,
+} from './providers';
+
+// Multi-calendar aggregation
+export {
+  getCalendarSelection,
+  getCalendarRules,
+  saveCalendarRules,
+  clearCalendarSelection,
+  getIncludedCalendarIds,
+  reconcileCalendarRules,
+  aggregateEvents,
+} from './aggregation';
+
+// iCalendar / CalDAV
+export { parseIcsEvents } from './ics';
+export { fetchCalDavEvents } from './caldav';
+export type { CalDavConfig } from './caldav';
 
 // Cache
 export {
@@ -0,0 +1,305 @@
+/**
+ * Outlook Calendar API Client
+ *
+ * Fetches calendar events from Microsoft Graph (`/me/calendarView`).
+ */
+
+import {
+  Attendee,
+  CalendarAuth,
+  CalendarError,
+  CalendarEvent,
+  CalendarInfo,
+  GraphCalendarEvent,
+  GraphCalendarListResponse,
+  GraphCalendarViewResponse,
+  GraphDateTimeTimeZone,
+  MICROSOFT_GRAPH_API_BASE,
+  ResponseStatus,
+  createCalendarError,
+} from './types';
+import { refreshOutlookToken } from './outlook-oauth';
+import type { MeetingEventType } from '@/rules/types';
+
+/** Fields requested from Graph */
+const EVENT_FIELDS = [
+  'id',
+  'iCalUId',
+  'subject',
+  'start',
+  'end',
+  'isAllDay',
+  'isCancelled',
+  'type',
+  'seriesMasterId',
+  'attendees',
+  'organizer',
+  'isOrganizer',
+  'responseStatus',
+  'showAs',
+  'location',
+  'bodyPreview',
+  'webLink',
+].join(',');
+
+/** Upper bound on calendarView pages followed per fetch */
+const MAX_PAGES = 5;
+
+// ============================================
+// API Client
+// ============================================
+
+/**
+ * Make an authenticated request to Microsoft Graph.
+ * Accepts a path relative to the API base or an absolute @odata.nextLink.
+ */
+async function graphFetch<T>(pathOrUrl: string, auth: CalendarAuth): Promise<T> {
+  const url = pathOrUrl.startsWith('https://') ? pathOrUrl : `${MICROSOFT_GRAPH_API_BASE}${pathOrUrl}`;
+
+  const response = await fetch(url, {
+    headers: {
+      Authorization: `Bearer ${auth.accessToken}`,
+      'Content-Type': 'application/json',
+      // Return start/end in UTC so they can be parsed without a zone database
+      Prefer: 'outlook.timezone="UTC"',
+    },
+  });
+
+  if (!response.ok) {
+    if (response.status === 401) {
+      throw createCalendarError('auth_expired', 'Access token expired');
+    }
+
+    if (response.status === 429) {
+      const retryAfter = parseInt(response.headers.get('Retry-After') || '60', 10);
+      throw createCalendarError('rate_limited', 'Rate limited by Microsoft Graph', {
+        retryAfter: retryAfter * 1000,
+      });
+    }
+
+    const errorText = await response.text();
+    throw createCalendarError('api_error', `API error: ${errorText}`, {
+      code: response.status,
+    });
+  }
+
+  return response.json();
+}
+
+/**
+ * Make an authenticated request with automatic token refresh.
+ */
+async function graphFetchWithRetry<T>(
+  pathOrUrl: string,
+  auth: CalendarAuth
+): Promise<{ data: T; auth: CalendarAuth }> {
+  try {
+    const data = await graphFetch<T>(pathOrUrl, auth);
+    return { data, auth };
+  } catch (error) {
+    if (error instanceof Object && 'type' in error && (error as CalendarError).type === 'auth_expired') {
+      const newAuth = await refreshOutlookToken(auth);
+      const data = await graphFetch<T>(pathOrUrl, newAuth);
+      return { data, auth: newAuth };
+    }
+    throw error;
+  }
+}
+
+// ============================================
+// Event Parsing
+// ============================================
+
+/**
+ * Parse a Graph dateTimeTimeZone. Graph returns seven fractional digits,
+ * which are trimmed to milliseconds.
+ */
+export function parseGraphDateTime(value: GraphDateTimeTimeZone): number {
+  const dateTime = value.dateTime.replace(/(\.\d{3})\d*$/, '$1');
+  return value.timeZone === 'UTC' ? Date.parse(`${dateTime}Z`) : Date.parse(dateTime);
+}
+
+function parseGraphResponse(response: string | undefined): ResponseStatus {
+  switch (response) {
+    case 'accepted':
+    case 'organizer':
+      return 'accepted';
+    case 'declined':
+      return 'declined';
+    case 'tentativelyAccepted':
+      return 'tentative';
+    default:
+      return 'needsAction';
+  }
+}
+
+/**
+ * Graph has no focus-time type; out-of-office and remote blocks show up via showAs.
+ */
+function parseGraphShowAs(showAs: string | undefined): MeetingEventType | undefined {
+  switch (showAs) {
+    case 'oof':
+      return 'outOfOffice';
+    case 'workingElsewhere':
+      return 'workingLocation';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Parse a Graph event to our CalendarEvent type.
+ *
+ * Graph gives each occurrence of a series its own iCalUId; the series master
+ * holds the UID shared with other calendars. Pass the masters' iCalUIds so
+ * occurrences thread into one series like Google and ICS instances do.
+ */
+export function parseGraphEvent(
+  event: GraphCalendarEvent,
+  seriesICalUids: ReadonlyMap<string, string> = new Map(),
+  calendarId: string = 'primary'
+): CalendarEvent {
+  const seriesUid = event.seriesMasterId ? seriesICalUids.get(event.seriesMasterId) : undefined;
+
+  return {
+    id: event.id,
+    iCalUid: seriesUid ?? event.iCalUId,
+    title: event.subject || '(No title)',
+    startTime: parseGraphDateTime(event.start),
+    endTime: parseGraphDateTime(event.end),
+    attendees: (event.attendees || []).map(
+      (a): Attendee => ({
+        email: a.emailAddress.address,
+        name: a.emailAddress.name,
+        responseStatus: parseGraphResponse(a.status?.response),
+      })
+    ),
+    organizer: event.organizer
+      ? {
+          email: event.organizer.emailAddress.address,
+          name: event.organizer.emailAddress.name,
+          self: event.isOrganizer,
+        }
+      : undefined,
+    responseStatus: event.responseStatus ? parseGraphResponse(event.responseStatus.response) : undefined,
+    eventType: parseGraphShowAs(event.showAs),
+    location: event.location?.displayName || undefined,
+    description: event.bodyPreview || undefined,
+    htmlLink: event.webLink,
+    calendarId,
+    provider: 'outlook',
+    recurringEventId: event.seriesMasterId || undefined,
+    isAllDay: Boolean(event.isAllDay),
+  };
+}
+
+// ============================================
+// Event Fetching
+// ============================================
+
+/** Series master iCalUIds already looked up this session */
+const seriesUidCache = new Map<string, string>();
+
+/**
+ * Look up the iCalUIds of series masters, using the session cache.
+ * Masters that can't be fetched are left out (occurrences keep their own UID).
+ */
+async function resolveSeriesICalUids(
+  masterIds: string[],
+  auth: CalendarAuth
+): Promise<{ uids: Map<string, string>; auth: CalendarAuth }> {
+  let currentAuth = auth;
+
+  for (const masterId of masterIds) {
+    if (seriesUidCache.has(masterId)) continue;
+
+    try {
+      const { data, auth: updatedAuth } = await graphFetchWithRetry<Pick<GraphCalendarEvent, 'iCalUId'>>(
+        `/me/events/${encodeURIComponent(masterId)}?$select=iCalUId`,
+        currentAuth
+      );
+      currentAuth = updatedAuth;
+      if (data.iCalUId) {
+        seriesUidCache.set(masterId, data.iCalUId);
+      }
+    } catch (error) {
+      console.warn('Failed to resolve Outlook series master:', error);
+    }
+  }
+
+  return { uids: seriesUidCache, auth: currentAuth };
+}
+
+/**
+ * List the user's Outlook calendars.
+ * The default calendar is reported as 'primary' to match event calendarIds.
+ */
+export async function listOutlookCalendars(
+  auth: CalendarAuth
+): Promise<{ calendars: CalendarInfo[]; auth: CalendarAuth }> {
+  const { data, auth: updatedAuth } = await graphFetchWithRetry<GraphCalendarListResponse>(
+    '/me/calendars?$select=id,name,isDefaultCalendar',
+    auth
+  );
+
+  const calendars = data.value.map((calendar) => ({
+    id: calendar.isDefaultCalendar ? 'primary' : calendar.id,
+    name: calendar.name,
+    primary: Boolean(calendar.isDefaultCalendar),
+  }));
+
+  return { calendars, auth: updatedAuth };
+}
+
+/**
+ * Fetch Outlook calendar events (recurrences expanded) for a time range.
+ * Cancelled occurrences are left out.
+ *
+ * @param calendarId - Calendar to read (default: the user's default calendar)
+ */
+export async function fetchOutlookEvents(
+  auth: CalendarAuth,
+  timeMin: Date,
+  timeMax: Date,
+  calendarId: string = 'primary'
+): Promise<{ events: CalendarEvent[]; auth: CalendarAuth }> {
+  const params = new URLSearchParams({
+    startDateTime: timeMin.toISOString(),
+    endDateTime: timeMax.toISOString(),
+    $select: EVENT_FIELDS,
+    $orderby: 'start/dateTime',
+    $top: '50',
+  });
+
+  let currentAuth = auth;
+  const viewPath =
+    calendarId === 'primary' ? '/me/calendarView' : `/me/calendars/${encodeURIComponent(calendarId)}/calendarView`;
+  let next: string | undefined = `${viewPath}?${params.toString()}`;
+  const graphEvents: GraphCalendarEvent[] = [];
+
+  for (let page = 0; next && page < MAX_PAGES; page++) {
+    const { data, auth: updatedAuth }: { data: GraphCalendarViewResponse; auth: CalendarAuth } =
+      await graphFetchWithRetry<GraphCalendarViewResponse>(next, currentAuth);
+    currentAuth = updatedAuth;
+    graphEvents.push(...data.value);
+    next = data['@odata.nextLink'];
+  }
+
+  const masterIds = Array.from(
+    new Set(graphEvents.flatMap((e) => (e.seriesMasterId ? [e.seriesMasterId] : [])))
+  );
+  const { uids, auth: finalAuth } = await resolveSeriesICalUids(masterIds, currentAuth);
+
+  const events = graphEvents
+    .filter((e) => !e.isCancelled)
+    .map((e) => parseGraphEvent(e, uids, calendarId));
+
+  return { events, auth: finalAuth };
+}
+
+/**
+ * Clear the series master lookup cache (on sign-out).
+ */
+export function clearOutlookSeriesCache(): void {
+  seriesUidCache.clear();
+}
@@ -0,0 +1,281 @@
+/**
+ * Outlook OAuth Module
+ *
+ * Handles Microsoft identity platform OAuth 2.0 (authorization code + PKCE)
+ * for Outlook / Microsoft 365 calendars. Reuses the PKCE helpers from the
+ * Google flow. Client-side only, no server required.
+ */
+
+import {
+  CalendarAuth,
+  OAuthConfig,
+  PKCEChallenge,
+  MicrosoftTokenResponse,
+  MICROSOFT_AUTH_URL,
+  MICROSOFT_TOKEN_URL,
+  MICROSOFT_CALENDAR_SCOPE,
+  OUTLOOK_AUTH_STORAGE_KEY,
+  OUTLOOK_PKCE_STORAGE_KEY,
+  createCalendarError,
+} from './types';
+import { generatePKCEChallenge, isAuthExpired } from './oauth';
+
+// ============================================
+// OAuth Flow
+// ============================================
+
+/**
+ * Get Outlook OAuth configuration.
+ * Client ID (an Azure app registration of type SPA) should be set via
+ * environment variable.
+ */
+export function getOutlookOAuthConfig(): OAuthConfig {
+  const clientId = process.env.NEXT_PUBLIC_MICROSOFT_CLIENT_ID || '';
+
+  if (!clientId) {
+    console.warn('NEXT_PUBLIC_MICROSOFT_CLIENT_ID not set');
+  }
+
+  return {
+    clientId,
+    redirectUri: typeof window !== 'undefined'
+      ? `${window.location.origin}/auth/callback`
+      : '',
+    scope: MICROSOFT_CALENDAR_SCOPE,
+  };
+}
+
+/**
+ * Initiate Outlook OAuth flow.
+ * Redirects user to Microsoft's authorization page.
+ */
+export async function initiateOutlookOAuth(): Promise<void> {
+  const config = getOutlookOAuthConfig();
+
+  if (!config.clientId) {
+    throw createCalendarError('auth_required', 'Microsoft Client ID not configured');
+  }
+
+  const pkce = await generatePKCEChallenge();
+
+  // Store PKCE verifier for callback (separate key so the callback can tell flows apart)
+  if (typeof window !== 'undefined') {
+    sessionStorage.setItem(OUTLOOK_PKCE_STORAGE_KEY, JSON.stringify(pkce));
+  }
+
+  const params = new URLSearchParams({
+    client_id: config.clientId,
+    redirect_uri: config.redirectUri,
+    response_type: 'code',
+    response_mode: 'query',
+    scope: config.scope,
+    state: pkce.state,
+    code_challenge: pkce.codeChallenge,
+    code_challenge_method: 'S256',
+  });
+
+  window.location.href = `${MICROSOFT_AUTH_URL}?${params.toString()}`;
+}
+
+/**
+ * Check whether an OAuth callback state belongs to a pending Outlook flow.
+ */
+export function isPendingOutlookCallback(state: string): boolean {
+  if (typeof window === 'undefined') {
+    return false;
+  }
+
+  const pkceJson = sessionStorage.getItem(OUTLOOK_PKCE_STORAGE_KEY);
+  if (!pkceJson) {
+    return false;
+  }
+
+  try {
+    return (JSON.parse(pkceJson) as PKCEChallenge).state === state;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Convert a token response to stored auth.
+ */
+function toCalendarAuth(tokens: MicrosoftTokenResponse, previousRefreshToken = ''): CalendarAuth {
+  return {
+    accessToken: tokens.access_token,
+    refreshToken: tokens.refresh_token || previousRefreshToken,
+    expiresAt: Date.now() + tokens.expires_in * 1000,
+    scope: tokens.scope,
+  };
+}
+
+/**
+ * Handle Outlook OAuth callback.
+ * Exchanges authorization code for tokens.
+ */
+export async function handleOutlookOAuthCallback(
+  code: string,
+  state: string
+): Promise<CalendarAuth> {
+  const config = getOutlookOAuthConfig();
+
+  const pkceJson = sessionStorage.getItem(OUTLOOK_PKCE_STORAGE_KEY);
+  if (!pkceJson) {
+    throw createCalendarError('auth_required', 'PKCE challenge not found');
+  }
+
+  const pkce: PKCEChallenge = JSON.parse(pkceJson);
+
+  if (state !== pkce.state) {
+    throw createCalendarError('auth_required', 'OAuth state mismatch');
+  }
+
+  const tokenResponse = await fetch(MICROSOFT_TOKEN_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams({
+      client_id: config.clientId,
+      scope: config.scope,
+      code,
+      code_verifier: pkce.codeVerifier,
+      grant_type: 'authorization_code',
+      redirect_uri: config.redirectUri,
+    }),
+  });
+
+  if (!tokenResponse.ok) {
+    const error = await tokenResponse.text();
+    throw createCalendarError('api_error', `Token exchange failed: ${error}`, {
+      code: tokenResponse.status,
+    });
+  }
+
+  const tokens: MicrosoftTokenResponse = await tokenResponse.json();
+
+  sessionStorage.removeItem(OUTLOOK_PKCE_STORAGE_KEY);
+
+  const auth = toCalendarAuth(tokens);
+  storeOutlookAuth(auth);
+
+  return auth;
+}
+
+/**
+ * Refresh Outlook access token using refresh token.
+ */
+export async function refreshOutlookToken(auth: CalendarAuth): Promise<CalendarAuth> {
+  const config = getOutlookOAuthConfig();
+
+  if (!auth.refreshToken) {
+    throw createCalendarError('auth_expired', 'No refresh token available');
+  }
+
+  const tokenResponse = await fetch(MICROSOFT_TOKEN_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams({
+      client_id: config.clientId,
+      scope: config.scope,
+      refresh_token: auth.refreshToken,
+      grant_type: 'refresh_token',
+    }),
+  });
+
+  if (!tokenResponse.ok) {
+    const error = await tokenResponse.text();
+
+    // invalid_grant comes back as 400; the refresh token is no longer usable
+    if (tokenResponse.status === 400 || tokenResponse.status === 401) {
+      clearOutlookAuth();
+      throw createCalendarError('auth_expired', 'Refresh token expired');
+    }
+
+    throw createCalendarError('api_error', `Token refresh failed: ${error}`, {
+      code: tokenResponse.status,
+    });
+  }
+
+  const tokens: MicrosoftTokenResponse = await tokenResponse.json();
+
+  // Microsoft rotates refresh tokens; keep the old one only if none was returned
+  const newAuth = toCalendarAuth(tokens, auth.refreshToken);
+  storeOutlookAuth(newAuth);
+
+  return newAuth;
+}
+
+// ============================================
+// Auth Storage
+// ============================================
+
+/**
+ * Store Outlook auth credentials.
+ */
+export function storeOutlookAuth(auth: CalendarAuth): void {
+  if (typeof window !== 'undefined') {
+    localStorage.setItem(OUTLOOK_AUTH_STORAGE_KEY, JSON.stringify(auth));
+  }
+}
+
+/**
+ * Get stored Outlook auth credentials.
+ */
+export function getStoredOutlookAuth(): CalendarAuth | null {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+
+  const authJson = localStorage.getItem(OUTLOOK_AUTH_STORAGE_KEY);
+  if (!authJson) {
+    return null;
+  }
+
+  try {
+    return JSON.parse(authJson) as CalendarAuth;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Clear stored Outlook auth credentials and any pending PKCE challenge.
+ */
+export function clearOutlookAuth(): void {
+  if (typeof window !== 'undefined') {
+    localStorage.removeItem(OUTLOOK_AUTH_STORAGE_KEY);
+    sessionStorage.removeItem(OUTLOOK_PKCE_STORAGE_KEY);
+  }
+}
+
+/**
+ * Get valid Outlook auth, refreshing if needed.
+ */
+export async function getValidOutlookAuth(): Promise<CalendarAuth | null> {
+  const auth = getStoredOutlookAuth();
+
+  if (!auth) {
+    return null;
+  }
+
+  if (isAuthExpired(auth)) {
+    try {
+      return await refreshOutlookToken(auth);
+    } catch (error) {
+      console.error('Failed to refresh Outlook token:', error);
+      return null;
+    }
+  }
+
+  return auth;
+}
+
+/**
+ * Check if user is signed in to Outlook.
+ */
+export function isOutlookAuthenticated(): boolean {
+  return getStoredOutlookAuth() !== null;
+}
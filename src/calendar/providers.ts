@@ -0,0 +1,310 @@
+/**
+ * Calendar Providers
+ *
+ * Provider abstraction over Google Calendar, Outlook (Microsoft Graph),
+ * iCalendar files/URLs and CalDAV.
+ * The active provider is persisted in localStorage; the snapshot cache and
+ * rules engine only see CalendarEvent[] and don't care where events came from.
+ */
+
+import {
+  CalendarAuth,
+  CalendarEvent,
+  CalendarProvider,
+  CalendarProviderConfig,
+  CalendarProviderId,
+  PROVIDER_STORAGE_KEY,
+  createCalendarError,
+} from './types';
+import { fetchCalendarEvents, listGoogleCalendars } from './api';
+import { getValidAuth, isAuthenticated } from './oauth';
+import { fetchOutlookEvents, listOutlookCalendars } from './outlook-api';
+import { getValidOutlookAuth, isOutlookAuthenticated } from './outlook-oauth';
+import { parseIcsEvents } from './ics';
+import { fetchCalDavEvents, CalDavConfig } from './caldav';
+import { aggregateEvents, getCalendarRules, getIncludedCalendarIds } from './aggregation';
+import { getTimingSettings } from '@/storage/timing-settings-api';
+import { getTimingReachMinutes } from '@/rules/timing-overrides';
+import { DEFAULT_TIMING_CONFIG } from '@/rules/types';
+
+// ============================================
+// Provider Implementations
+// ============================================
+
+/**
+ * Fetch several calendars one after another, threading refreshed auth.
+ * A calendar that fails (e.g. access to a shared calendar was revoked) is
+ * skipped; the error is only thrown if every calendar failed.
+ */
+async function fetchFromCalendars(
+  calendarIds: string[],
+  auth: CalendarAuth,
+  fetchOne: (auth: CalendarAuth, calendarId: string) => Promise<{ events: CalendarEvent[]; auth: CalendarAuth }>
+): Promise<CalendarEvent[]> {
+  const events: CalendarEvent[] = [];
+  const errors: unknown[] = [];
+  let currentAuth = auth;
+
+  for (const calendarId of calendarIds) {
+    try {
+      const result = await fetchOne(currentAuth, calendarId);
+      currentAuth = result.auth;
+      events.push(...result.events);
+    } catch (error) {
+      console.warn(`Failed to fetch calendar ${calendarId}:`, error);
+      errors.push(error);
+    }
+  }
+
+  if (calendarIds.length > 0 && errors.length === calendarIds.length) {
+    throw errors[0];
+  }
+
+  return events;
+}
+
+/**
+ * Map low-level fetch failures to a network_error for the given service.
+ */
+function toNetworkError(error: unknown, service: string): unknown {
+  if (error instanceof TypeError && error.message.includes('fetch')) {
+    return createCalendarError('network_error', `Unable to connect to ${service}`);
+  }
+  return error;
+}
+
+/**
+ * Google Calendar (OAuth PKCE).
+ */
+export const googleCalendarProvider: CalendarProvider = {
+  id: 'gcal',
+  label: 'Google Calendar',
+  async fetchEvents(timeMin, timeMax, calendarIds = ['primary']) {
+    const auth = await getValidAuth();
+    if (!auth) {
+      throw createCalendarError('auth_required', 'Not authenticated');
+    }
+
+    try {
+      return await fetchFromCalendars(calendarIds, auth, (a, calendarId) =>
+        fetchCalendarEvents(a, timeMin, timeMax, calendarId)
+      );
+    } catch (error) {
+      throw toNetworkError(error, 'Google Calendar');
+    }
+  },
+  async listCalendars() {
+    const auth = await getValidAuth();
+    if (!auth) {
+      throw createCalendarError('auth_required', 'Not authenticated');
+    }
+
+    const { calendars } = await listGoogleCalendars(auth);
+    return calendars;
+  },
+};
+
+/**
+ * Outlook / Microsoft 365 calendar (Microsoft Graph, OAuth PKCE).
+ */
+export const outlookCalendarProvider: CalendarProvider = {
+  id: 'outlook',
+  label: 'Outlook',
+  async fetchEvents(timeMin, timeMax, calendarIds = ['primary']) {
+    const auth = await getValidOutlookAuth();
+    if (!auth) {
+      throw createCalendarError('auth_required', 'Not authenticated');
+    }
+
+    try {
+      return await fetchFromCalendars(calendarIds, auth, (a, calendarId) =>
+        fetchOutlookEvents(a, timeMin, timeMax, calendarId)
+      );
+    } catch (error) {
+      throw toNetworkError(error, 'Outlook');
+    }
+  },
+  async listCalendars() {
+    const auth = await getValidOutlookAuth();
+    if (!auth) {
+      throw createCalendarError('auth_required', 'Not authenticated');
+    }
+
+    const { calendars } = await listOutlookCalendars(auth);
+    return calendars;
+  },
+};
+
+/**
+ * Normalize webcal:// feed links to https://.
+ */
+function toFetchableUrl(url: string): string {
+  return url.replace(/^webcal:\/\//i, 'https://');
+}
+
+/**
+ * iCalendar feed from a URL or the text of an imported .ics file.
+ * URLs must be reachable from the browser (CORS) to be fetched.
+ */
+export function createIcsProvider(source: { url?: string; text?: string; name?: string }): CalendarProvider {
+  const calendarId = source.url ?? source.name ?? 'local';
+  const label = source.name ?? (source.url ? 'iCalendar feed' : 'iCalendar file');
+
+  return {
+    id: 'ics',
+    label,
+    async fetchEvents(timeMin, timeMax) {
+      let text = source.text;
+
+      if (source.url) {
+        let response: Response;
+        try {
+          response = await fetch(toFetchableUrl(source.url));
+        } catch {
+          throw createCalendarError('network_error', 'Unable to download calendar feed');
+        }
+        if (!response.ok) {
+          throw createCalendarError('api_error', `Calendar feed error: ${response.status}`, {
+            code: response.status,
+          });
+        }
+        text = await response.text();
+      }
+
+      if (!text) {
+        throw createCalendarError('invalid_response', 'No calendar data');
+      }
+
+      return parseIcsEvents(text, timeMin, timeMax, { provider: 'ics', calendarId });
+    },
+    async listCalendars() {
+      return [{ id: calendarId, name: label, primary: true }];
+    },
+  };
+}
+
+/**
+ * Generic CalDAV calendar collection.
+ */
+export function createCalDavProvider(config: CalDavConfig): CalendarProvider {
+  return {
+    id: 'caldav',
+    label: 'CalDAV',
+    fetchEvents: (timeMin, timeMax) => fetchCalDavEvents(config, timeMin, timeMax),
+    listCalendars: async () => [{ id: config.calendarUrl, name: 'CalDAV calendar', primary: true }],
+  };
+}
+
+/**
+ * Create the provider described by a stored config.
+ */
+export function createProvider(config: CalendarProviderConfig): CalendarProvider {
+  switch (config.provider) {
+    case 'gcal':
+      return googleCalendarProvider;
+    case 'outlook':
+      return outlookCalendarProvider;
+    case 'ics':
+      return createIcsProvider(config);
+    case 'caldav':
+      return createCalDavProvider(config);
+  }
+}
+
+// ============================================
+// Provider Selection
+// ============================================
+
+/**
+ * Get the stored provider config. Defaults to Google Calendar.
+ */
+export function getProviderConfig(): CalendarProviderConfig {
+  if (typeof window === 'undefined') {
+    return { provider: 'gcal' };
+  }
+
+  try {
+    const stored = localStorage.getItem(PROVIDER_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as CalendarProviderConfig) : { provider: 'gcal' };
+  } catch {
+    return { provider: 'gcal' };
+  }
+}
+
+/**
+ * Persist the provider config.
+ * CalDAV passwords are stored locally, like the Google OAuth tokens.
+ */
+export function saveProviderConfig(config: CalendarProviderConfig): void {
+  if (typeof window !== 'undefined') {
+    localStorage.setItem(PROVIDER_STORAGE_KEY, JSON.stringify(config));
+  }
+}
+
+/**
+ * Forget the provider config (falls back to Google Calendar).
+ */
+export function clearProviderConfig(): void {
+  if (typeof window !== 'undefined') {
+    localStorage.removeItem(PROVIDER_STORAGE_KEY);
+  }
+}
+
+/**
+ * Get the active provider.
+ */
+export function getActiveProvider(): CalendarProvider {
+  return createProvider(getProviderConfig());
+}
+
+/**
+ * Get the active provider ID without constructing it.
+ */
+export function getActiveProviderId(): CalendarProviderId {
+  return getProviderConfig().provider;
+}
+
+/**
+ * Check if the active provider can fetch events.
+ * Google and Outlook need OAuth tokens; ICS and CalDAV are ready once configured.
+ */
+export function isProviderConnected(): boolean {
+  switch (getProviderConfig().provider) {
+    case 'gcal':
+      return isAuthenticated();
+    case 'outlook':
+      return isOutlookAuthenticated();
+    default:
+      return true;
+  }
+}
+
+// ============================================
+// Snapshot Fetching
+// ============================================
+
+/**
+ * Fetch the calendar snapshot from the active provider's selected calendars,
+ * merged and de-duplicated per the saved calendar rules. Covers the start of
+ * today to 24 hours ahead, widened to the longest prep or synthesis window in
+ * the timing settings (a day of prep for a board meeting needs the meeting in
+ * the snapshot). All-day events are left out, matching the Google client.
+ */
+export async function fetchProviderSnapshot(): Promise<CalendarEvent[]> {
+  const now = new Date();
+  const { global, overrides } = await getTimingSettings().catch((error) => {
+    console.warn('[Calendar] Using default timing windows for the snapshot:', error);
+    return { global: DEFAULT_TIMING_CONFIG, overrides: [] };
+  });
+  const reachMs = getTimingReachMinutes(global, overrides) * 60 * 1000;
+
+  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const start = new Date(Math.min(startOfToday.getTime(), now.getTime() - reachMs));
+  const end = new Date(now.getTime() + Math.max(24 * 60 * 60 * 1000, reachMs));
+
+  const provider = getActiveProvider();
+  const rules = getCalendarRules(provider.id);
+  const events = await provider.fetchEvents(start, end, getIncludedCalendarIds(rules));
+
+  return aggregateEvents(events.filter((e) => !e.isAllDay), rules);
+}
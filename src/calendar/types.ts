@@ -1,10 +1,94 @@
 /**
  * Calendar Integration Types
  *
- * Type definitions for Google Calendar integration.
+ * Type definitions for calendar integration (Google Calendar, Outlook via
+ * Microsoft Graph, iCalendar files/URLs and CalDAV servers).
  * See spec §11 Calendar Integration (V1)
  */
 
+import type { MeetingEventType, MeetingTrigger } from '@/rules/types';
+
+// ============================================
+// Provider Types
+// ============================================
+
+/** Source that calendar events were fetched from */
+export type CalendarProviderId = 'gcal' | 'outlook' | 'ics' | 'caldav';
+
+/**
+ * Persisted choice of calendar source.
+ * Google and Outlook credentials live in their OAuth stores; ICS and CalDAV
+ * settings live here.
+ */
+export type CalendarProviderConfig =
+  | { provider: 'gcal' }
+  | { provider: 'outlook' }
+  | {
+      provider: 'ics';
+      /** http(s) or webcal URL of a published .ics feed */
+      url?: string;
+      /** Contents of an imported .ics file (used when no URL is set) */
+      text?: string;
+      /** Display name, e.g. the imported file name */
+      name?: string;
+    }
+  | {
+      provider: 'caldav';
+      /** Collection URL, e.g. https://dav.example.com/alice/calendar/ */
+      calendarUrl: string;
+      username?: string;
+      password?: string;
+    };
+
+/**
+ * A calendar source that can list events for a time range.
+ * Every provider returns the same CalendarEvent shape so the snapshot cache
+ * and rules engine stay provider-agnostic.
+ */
+export interface CalendarProvider {
+  id: CalendarProviderId;
+  /** Human-readable name for status UI */
+  label: string;
+  /**
+   * Fetch events from the given calendars (default: the primary calendar).
+   * Single-calendar providers (ICS, CalDAV) ignore `calendarIds`.
+   */
+  fetchEvents(timeMin: Date, timeMax: Date, calendarIds?: string[]): Promise<CalendarEvent[]>;
+  /** List the calendars events can be fetched from (one for ICS and CalDAV) */
+  listCalendars(): Promise<CalendarInfo[]>;
+}
+
+/**
+ * A calendar the user can include in the snapshot.
+ */
+export interface CalendarInfo {
+  /** Provider calendar ID; the account's main calendar is always 'primary' */
+  id: string;
+  name: string;
+  primary: boolean;
+}
+
+// ============================================
+// Calendar Selection Types
+// ============================================
+
+/**
+ * Per-calendar inclusion rule. Rules are ordered by priority: when the same
+ * event appears on several calendars, the copy from the earliest is kept.
+ */
+export interface CalendarRule {
+  calendarId: string;
+  /** Display name captured when the rule was saved */
+  name: string;
+  /** Fetch events from this calendar */
+  included: boolean;
+  /** Meeting triggers events from this calendar may not start */
+  suppressedTriggers: MeetingTrigger[];
+}
+
+/** Saved calendar rules per provider */
+export type CalendarSelection = Partial<Record<CalendarProviderId, CalendarRule[]>>;
+
 // ============================================
 // Authentication Types
 // ============================================
@@ -41,6 +125,13 @@ export interface Attendee {
   self?: boolean;
 }
 
+export interface Organizer {
+  email: string;
+  name?: string;
+  /** True when the user organized the event */
+  self?: boolean;
+}
+
 export interface CalendarEvent {
   id: string;
   /** iCalUID for stable identity across edits (WorkObjects spec §4.1) */
@@ -49,10 +140,23 @@ export interface CalendarEvent {
   startTime: number;
   endTime: number;
   attendees: Attendee[];
+  organizer?: Organizer;
+  /** The user's own RSVP, when the provider reports it */
+  responseStatus?: ResponseStatus;
+  /** Focus time, out-of-office etc. (absent for ordinary events) */
+  eventType?: MeetingEventType;
   location?: string;
   description?: string;
   htmlLink?: string;
   calendarId?: string;
+  /** Provider the event came from (absent on events cached before providers existed) */
+  provider?: CalendarProviderId;
+  /** Provider ID of the recurring series master (Graph seriesMasterId) */
+  recurringEventId?: string;
+  /** Every selected calendar the event appeared on (set by aggregation) */
+  calendarIds?: string[];
+  /** Triggers the event may not start, from per-calendar rules (set by aggregation) */
+  suppressedTriggers?: MeetingTrigger[];
   isAllDay: boolean;
 }
 
@@ -161,6 +265,13 @@ export interface GoogleCalendarEvent {
     responseStatus?: string;
     self?: boolean;
   }>;
+  organizer?: {
+    email?: string;
+    displayName?: string;
+    self?: boolean;
+  };
+  /** default | focusTime | outOfOffice | workingLocation | fromGmail | birthday */
+  eventType?: string;
   location?: string;
   description?: string;
   htmlLink?: string;
@@ -172,6 +283,17 @@ export interface GoogleCalendarListResponse {
   nextPageToken?: string;
 }
 
+export interface GoogleCalendarListEntry {
+  id: string;
+  summary?: string;
+  summaryOverride?: string;
+  primary?: boolean;
+}
+
+export interface GoogleCalendarListEntriesResponse {
+  items: GoogleCalendarListEntry[];
+}
+
 export interface GoogleTokenResponse {
   access_token: string;
   refresh_token?: string;
@@ -180,6 +302,67 @@ export interface GoogleTokenResponse {
   token_type: string;
 }
 
+// ============================================
+// Microsoft Graph API Response Types
+// ============================================
+
+export interface GraphDateTimeTimeZone {
+  /** Local date-time without offset, e.g. 2026-01-15T09:00:00.0000000 */
+  dateTime: string;
+  timeZone: string;
+}
+
+export type GraphEventType = 'singleInstance' | 'occurrence' | 'exception' | 'seriesMaster';
+
+export interface GraphCalendarEvent {
+  id: string;
+  /** Differs per occurrence of a series; the series master holds the shared UID */
+  iCalUId?: string;
+  subject?: string;
+  start: GraphDateTimeTimeZone;
+  end: GraphDateTimeTimeZone;
+  isAllDay?: boolean;
+  isCancelled?: boolean;
+  type?: GraphEventType;
+  seriesMasterId?: string | null;
+  attendees?: Array<{
+    emailAddress: { name?: string; address: string };
+    status?: { response?: string };
+  }>;
+  organizer?: { emailAddress: { name?: string; address: string } };
+  isOrganizer?: boolean;
+  /** The signed-in user's response */
+  responseStatus?: { response?: string };
+  /** free | tentative | busy | oof | workingElsewhere | unknown */
+  showAs?: string;
+  location?: { displayName?: string };
+  bodyPreview?: string;
+  webLink?: string;
+}
+
+export interface GraphCalendar {
+  id: string;
+  name: string;
+  isDefaultCalendar?: boolean;
+}
+
+export interface GraphCalendarListResponse {
+  value: GraphCalendar[];
+}
+
+export interface GraphCalendarViewResponse {
+  value: GraphCalendarEvent[];
+  '@odata.nextLink'?: string;
+}
+
+export interface MicrosoftTokenResponse {
+  access_token: string;
+  refresh_token?: string;
+  expires_in: number;
+  scope: string;
+  token_type: string;
+}
+
 // ============================================
 // Constants
 // ============================================
@@ -189,7 +372,16 @@ export const GOOGLE_AUTH_URL = 'https://accounts.google.com/o/oauth2/v2/auth';
 export const GOOGLE_TOKEN_URL = 'https://oauth2.googleapis.com/token';
 export const GOOGLE_CALENDAR_API_BASE = 'https://www.googleapis.com/calendar/v3';
 
+export const MICROSOFT_CALENDAR_SCOPE = 'offline_access Calendars.Read';
+export const MICROSOFT_AUTH_URL = 'https://login.microsoftonline.com/common/oauth2/v2.0/authorize';
+export const MICROSOFT_TOKEN_URL = 'https://login.microsoftonline.com/common/oauth2/v2.0/token';
+export const MICROSOFT_GRAPH_API_BASE = 'https://graph.microsoft.com/v1.0';
+
 // Storage keys
 export const AUTH_STORAGE_KEY = 'agentic_calendar_auth';
 export const CACHE_STORAGE_KEY = 'agentic_calendar_cache';
 export const PKCE_STORAGE_KEY = 'agentic_oauth_pkce';
+export const PROVIDER_STORAGE_KEY = 'agentic_calendar_provider';
+export const OUTLOOK_AUTH_STORAGE_KEY = 'agentic_outlook_auth';
+export const OUTLOOK_PKCE_STORAGE_KEY = 'agentic_outlook_pkce';
+export const CALENDAR_SELECTION_STORAGE_KEY = 'agentic_calendar_selection';
@@ -11,15 +11,32 @@ import {
   CalendarEvent,
   CalendarState,
   CalendarError,
+  CalendarProviderConfig,
+  CalendarProviderId,
+  CalendarRule,
   INITIAL_CALENDAR_STATE,
   isCalendarError,
 } from './types';
 import {
-  isAuthenticated,
   getStoredAuth,
   initiateOAuth,
   signOut as oauthSignOut,
 } from './oauth';
+import { initiateOutlookOAuth, clearOutlookAuth } from './outlook-oauth';
+import { clearOutlookSeriesCache } from './outlook-api';
+import {
+  isProviderConnected,
+  getActiveProvider,
+  getActiveProviderId,
+  saveProviderConfig,
+  clearProviderConfig,
+} from './providers';
+import {
+  getCalendarRules,
+  saveCalendarRules,
+  clearCalendarSelection,
+  reconcileCalendarRules,
+} from './aggregation';
 import {
   refreshSnapshotIfNeeded,
   forceRefreshSnapshot,
@@ -41,12 +58,22 @@ export interface UseCalendarResult {
   isLoading: boolean;
   error: CalendarError | null;
   snapshotInfo: SnapshotInfo;
+  provider: CalendarProviderId;
+  /** Per-calendar rules for the active provider (after loadCalendarRules) */
+  calendarRules: CalendarRule[];
 
   // Actions
   signIn: () => Promise<void>;
+  signInWithOutlook: () => Promise<void>;
+  /** Switch to an ICS or CalDAV source (Google uses signIn) */
+  connect: (config: CalendarProviderConfig) => Promise<void>;
   signOut: () => void;
   refresh: () => Promise<void>;
   forceRefresh: () => Promise<void>;
+  /** List the provider's calendars and merge them with saved rules */
+  loadCalendarRules: () => Promise<void>;
+  /** Save calendar rules and refetch the snapshot */
+  updateCalendarRules: (rules: CalendarRule[]) => Promise<void>;
 }
 
 /**
@@ -57,13 +84,13 @@ export function useCalendar(): UseCalendarResult {
   const [events, setEvents] = useState<CalendarEvent[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [snapshotInfo, setSnapshotInfo] = useState<SnapshotInfo>(getSnapshotInfo());
+  const [provider, setProvider] = useState<CalendarProviderId>(getActiveProviderId);
+  const [calendarRules, setCalendarRules] = useState<CalendarRule[]>([]);
 
   // Check authentication on mount
   useEffect(() => {
-    const auth = getStoredAuth();
-
-    if (auth) {
-      setState((s) => ({ ...s, status: 'authenticated', auth }));
+    if (isProviderConnected()) {
+      setState((s) => ({ ...s, status: 'authenticated', auth: getStoredAuth() }));
 
       // Try to load cached events immediately
       const cached = getCachedEvents();
@@ -77,7 +104,7 @@ export function useCalendar(): UseCalendarResult {
 
   // Refresh events
   const refresh = useCallback(async () => {
-    if (!isAuthenticated()) {
+    if (!isProviderConnected()) {
       return;
     }
 
@@ -117,7 +144,7 @@ export function useCalendar(): UseCalendarResult {
 
   // Force refresh (bypass cache)
   const forceRefresh = useCallback(async () => {
-    if (!isAuthenticated()) {
+    if (!isProviderConnected()) {
       return;
     }
 
@@ -147,6 +174,10 @@ export function useCalendar(): UseCalendarResult {
   // Sign in
   const signIn = useCallback(async () => {
     try {
+      if (getActiveProviderId() !== 'gcal') {
+        saveProviderConfig({ provider: 'gcal' });
+        clearCache();
+      }
       await initiateOAuth();
     } catch (error) {
       console.error('Failed to initiate OAuth:', error);
@@ -156,18 +187,71 @@ export function useCalendar(): UseCalendarResult {
     }
   }, []);
 
+  // Sign in with Outlook
+  const signInWithOutlook = useCallback(async () => {
+    try {
+      if (getActiveProviderId() !== 'outlook') {
+        saveProviderConfig({ provider: 'outlook' });
+        clearCache();
+      }
+      await initiateOutlookOAuth();
+    } catch (error) {
+      console.error('Failed to initiate Outlook OAuth:', error);
+      if (isCalendarError(error)) {
+        setState((s) => ({ ...s, error }));
+      }
+    }
+  }, []);
+
+  // Connect an ICS or CalDAV source, replacing the current one
+  const connect = useCallback(async (config: CalendarProviderConfig) => {
+    saveProviderConfig(config);
+    clearCache();
+    setEvents([]);
+    setProvider(config.provider);
+    setState((s) => ({ ...s, status: 'authenticated', error: null }));
+    await forceRefresh();
+  }, [forceRefresh]);
+
+  // Load calendar list + rules
+  const loadCalendarRules = useCallback(async () => {
+    try {
+      const active = getActiveProvider();
+      const calendars = await active.listCalendars();
+      setCalendarRules(reconcileCalendarRules(calendars, getCalendarRules(active.id)));
+    } catch (error) {
+      console.error('Failed to list calendars:', error);
+      if (isCalendarError(error)) {
+        setState((s) => ({ ...s, error }));
+      }
+    }
+  }, []);
+
+  // Save calendar rules and refetch
+  const updateCalendarRules = useCallback(async (rules: CalendarRule[]) => {
+    saveCalendarRules(getActiveProviderId(), rules);
+    setCalendarRules(rules);
+    await forceRefresh();
+  }, [forceRefresh]);
+
   // Sign out
   const signOut = useCallback(() => {
     oauthSignOut();
+    clearOutlookAuth();
+    clearOutlookSeriesCache();
+    clearProviderConfig();
+    clearCalendarSelection();
     clearCache();
     setEvents([]);
+    setProvider('gcal');
+    setCalendarRules([]);
     setState(INITIAL_CALENDAR_STATE);
     setSnapshotInfo(getSnapshotInfo());
   }, []);
 
   // Auto-refresh on mount if authenticated
   useEffect(() => {
-    if (isAuthenticated()) {
+    if (isProviderConnected()) {
       refresh();
     }
   }, [refresh]);
@@ -178,10 +262,16 @@ export function useCalendar(): UseCalendarResult {
     isLoading,
     error: state.error,
     snapshotInfo,
+    provider,
+    calendarRules,
     signIn,
+    signInWithOutlook,
+    connect,
     signOut,
     refresh,
     forceRefresh,
+    loadCalendarRules,
+    updateCalendarRules,
   };
 }
 
@@ -189,8 +279,24 @@ export function useCalendar(): UseCalendarResult {
 // Rules Engine Integration
 // ============================================
 
+/**
+ * Count the people on an event other than the user, organizer included.
+ */
+function countOtherParticipants(event: CalendarEvent): number {
+  const emails = new Set(
+    event.attendees.filter((a) => !a.self).map((a) => a.email.toLowerCase())
+  );
+  if (event.organizer && !event.organizer.self) {
+    emails.add(event.organizer.email.toLowerCase());
+  }
+  return emails.size;
+}
+
 /**
  * Convert calendar events to rules engine format.
+ * Trigger suppressions from per-calendar rules and the signals the event
+ * policy, overlap resolution and timing overrides need (RSVP, all-day, event
+ * type, organizer, attendees, series) are carried over.
  */
 export function toRulesEvents(events: CalendarEvent[]): RulesCalendarEvent[] {
   return events.map((event) => ({
@@ -199,6 +305,15 @@ export function toRulesEvents(events: CalendarEvent[]): RulesCalendarEvent[] {
     startTime: event.startTime,
     endTime: event.endTime,
     attendees: event.attendees.map((a) => a.name || a.email),
+    ...(event.suppressedTriggers ? { suppressedTriggers: event.suppressedTriggers } : {}),
+    responseStatus: event.responseStatus,
+    isAllDay: event.isAllDay,
+    eventType: event.eventType,
+    organizer: event.organizer ? event.organizer.name || event.organizer.email : undefined,
+    isOrganizer: event.organizer?.self,
+    attendeeCount: countOtherParticipants(event),
+    attendeeEmails: event.attendees.map((a) => a.email),
+    seriesId: event.iCalUid,
   }));
 }
 
@@ -0,0 +1,241 @@
+// @vitest-environment node
+/**
+ * HTTP Intent Compiler Tests
+ *
+ * Runs the OpenAI-compatible backend against a local stub server,
+ * so no network access or API key is needed.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { HttpIntentCompiler } from '../http-compiler';
+import { FallbackIntentCompiler } from '../fallback-compiler';
+import { MockIntentCompiler } from '../mock-compiler';
+import { createIntentCompiler } from '../index';
+import { IntentCompilerError } from '../types';
+import { parseCompilerOutput } from '../validate';
+
+// ============================================
+// Stub Server
+// ============================================
+
+interface StubReply {
+  status?: number;
+  content?: string;
+  delayMs?: number;
+}
+
+interface ChatRequestBody {
+  model: string;
+  messages: { role: string; content: string }[];
+}
+
+let server: http.Server;
+let baseUrl: string;
+let nextReply: StubReply = {};
+let lastRequest: { url?: string; headers: http.IncomingHttpHeaders; body: ChatRequestBody } | null =
+  null;
+
+function completion(content: string) {
+  return JSON.stringify({ choices: [{ message: { role: 'assistant', content } }] });
+}
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      lastRequest = { url: req.url, headers: req.headers, body: JSON.parse(body) };
+      const { status = 200, content = '', delayMs = 0 } = nextReply;
+      setTimeout(() => {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(completion(content));
+      }, delayMs);
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  nextReply = {};
+  lastRequest = null;
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+const validOutput = {
+  lens: { type: 'data_grid' },
+  reasoning: 'User wants to review records.',
+  confidence: 'HIGH',
+};
+
+// ============================================
+// HttpIntentCompiler
+// ============================================
+
+describe('HttpIntentCompiler', () => {
+  it('compiles a valid structured response into a workspace', async () => {
+    nextReply = { content: JSON.stringify(validOutput) };
+    const compiler = new HttpIntentCompiler({ baseUrl, model: 'stub-model', name: 'local' });
+
+    const result = await compiler.compile('Review all action items');
+
+    expect(result.success).toBe(true);
+    expect(result.compiledBy).toBe('local');
+    expect(result.workspace?.lens.type).toBe('data_grid');
+    expect(result.workspace?.context.originalIntent).toBe('Review all action items');
+    expect(result.workspace?.initialObjects).toEqual([]);
+  });
+
+  it('sends an OpenAI-compatible chat completion request', async () => {
+    nextReply = { content: JSON.stringify(validOutput) };
+    const compiler = new HttpIntentCompiler({ baseUrl, model: 'stub-model', apiKey: 'sk-test' });
+
+    await compiler.compile('Plan Q3');
+
+    expect(lastRequest?.url).toBe('/v1/chat/completions');
+    expect(lastRequest?.headers.authorization).toBe('Bearer sk-test');
+    expect(lastRequest?.body.model).toBe('stub-model');
+    expect(lastRequest?.body.messages.at(-1)).toEqual({ role: 'user', content: 'Plan Q3' });
+  });
+
+  it('replays clarification rounds as conversation turns', async () => {
+    nextReply = { content: JSON.stringify(validOutput) };
+    const compiler = new HttpIntentCompiler({ baseUrl, model: 'm' });
+
+    await compiler.compile('Acme stuff', {
+      clarifications: [{ question: 'Write or review?', answer: 'Review' }],
+    });
+
+    expect(lastRequest?.body.messages.slice(1)).toEqual([
+      { role: 'user', content: 'Acme stuff' },
+      { role: 'assistant', content: 'Write or review?' },
+      { role: 'user', content: 'Review' },
+    ]);
+  });
+
+  it('omits the Authorization header without an API key', async () => {
+    nextReply = { content: JSON.stringify(validOutput) };
+    await new HttpIntentCompiler({ baseUrl, model: 'm' }).compile('Plan Q3');
+    expect(lastRequest?.headers.authorization).toBeUndefined();
+  });
+
+  it('throws HTTP_STATUS on non-2xx responses', async () => {
+    nextReply = { status: 500 };
+    await expect(
+      new HttpIntentCompiler({ baseUrl, model: 'm' }).compile('x')
+    ).rejects.toMatchObject({ code: 'HTTP_STATUS' });
+  });
+
+  it('throws INVALID_OUTPUT when the model returns an unknown lens', async () => {
+    nextReply = { content: JSON.stringify({ ...validOutput, lens: { type: 'spreadsheet' } }) };
+    await expect(
+      new HttpIntentCompiler({ baseUrl, model: 'm' }).compile('x')
+    ).rejects.toMatchObject({ code: 'INVALID_OUTPUT' });
+  });
+
+  it('throws TIMEOUT when the server is too slow', async () => {
+    nextReply = { content: JSON.stringify(validOutput), delayMs: 200 };
+    await expect(
+      new HttpIntentCompiler({ baseUrl, model: 'm', timeoutMs: 20 }).compile('x')
+    ).rejects.toMatchObject({ code: 'TIMEOUT' });
+  });
+
+  it('throws NETWORK when the server is unreachable', async () => {
+    await expect(
+      new HttpIntentCompiler({ baseUrl: 'http://127.0.0.1:1/v1', model: 'm' }).compile('x')
+    ).rejects.toBeInstanceOf(IntentCompilerError);
+  });
+});
+
+// ============================================
+// Output Validation
+// ============================================
+
+describe('parseCompilerOutput', () => {
+  it('accepts JSON wrapped in a code fence', () => {
+    const output = parseCompilerOutput('```json\n' + JSON.stringify(validOutput) + '\n```');
+    expect(output.lens.type).toBe('data_grid');
+  });
+
+  it('rejects missing reasoning', () => {
+    expect(() =>
+      parseCompilerOutput(JSON.stringify({ ...validOutput, reasoning: '' }))
+    ).toThrow(IntentCompilerError);
+  });
+
+  it('rejects malformed initialObjects', () => {
+    expect(() =>
+      parseCompilerOutput(JSON.stringify({ ...validOutput, initialObjects: [{ type: 'note' }] }))
+    ).toThrow(/initialObject/);
+  });
+});
+
+// ============================================
+// Fallback
+// ============================================
+
+describe('FallbackIntentCompiler', () => {
+  it('returns the primary result when it succeeds', async () => {
+    nextReply = { content: JSON.stringify(validOutput) };
+    const compiler = new FallbackIntentCompiler(
+      new HttpIntentCompiler({ baseUrl, model: 'm', name: 'openai' }),
+      new MockIntentCompiler()
+    );
+
+    const result = await compiler.compile('Help me plan');
+
+    expect(result.compiledBy).toBe('openai');
+    expect(result.fallbackReason).toBeUndefined();
+  });
+
+  it('falls back to the mock when the backend fails', async () => {
+    nextReply = { status: 503 };
+    const compiler = new FallbackIntentCompiler(
+      new HttpIntentCompiler({ baseUrl, model: 'm', name: 'openai' }),
+      new MockIntentCompiler()
+    );
+
+    const result = await compiler.compile('Help me plan Q3');
+
+    expect(result.compiledBy).toBe('mock');
+    expect(result.workspace?.lens.type).toBe('block_doc');
+    expect(result.fallbackReason).toContain('503');
+  });
+});
+
+// ============================================
+// Factory
+// ============================================
+
+describe('createIntentCompiler', () => {
+  it('defaults to the mock backend', () => {
+    expect(createIntentCompiler().name).toBe('mock');
+  });
+
+  it('wraps network backends with the mock fallback', () => {
+    const compiler = createIntentCompiler({ backend: 'local', baseUrl, model: 'm' });
+    expect(compiler.name).toBe('local+mock');
+  });
+
+  it('uses the mock when no endpoint or model is configured', () => {
+    expect(createIntentCompiler({ backend: 'openai', model: 'm' }).name).toBe('mock');
+    expect(createIntentCompiler({ backend: 'local', baseUrl }).name).toBe('mock');
+  });
+
+  it('never sends an API key from the public environment', async () => {
+    vi.stubEnv('NEXT_PUBLIC_INTENT_COMPILER_API_KEY', 'sk-leaked');
+    nextReply = { content: JSON.stringify(validOutput) };
+
+    await createIntentCompiler({ backend: 'openai', baseUrl, model: 'm' }).compile('Plan Q3');
+
+    expect(lastRequest?.headers.authorization).toBeUndefined();
+    vi.unstubAllEnvs();
+  });
+});
@@ -0,0 +1,52 @@
+import { ClarificationTurn, CompiledIntent, LensType } from './types';
+
+/**
+ * Maximum clarification rounds before the best LOW-confidence
+ * workspace is accepted as-is. Keeps the dialogue from nagging.
+ */
+export const MAX_CLARIFICATION_ROUNDS = 3;
+
+/** Human labels for manual lens selection during clarification */
+export const LENS_LABELS: Record<LensType, string> = {
+    block_doc: 'Document',
+    data_grid: 'Grid',
+    infinite_canvas: 'Canvas',
+};
+
+/**
+ * Whether a compile result should trigger another clarification round.
+ * Requires LOW confidence, a question to ask, and rounds remaining.
+ */
+export function needsClarification(result: CompiledIntent, roundsSoFar: number): boolean {
+    return (
+        result.confidence === 'LOW' &&
+        !!result.clarificationQuestion &&
+        roundsSoFar < MAX_CLARIFICATION_ROUNDS
+    );
+}
+
+/**
+ * Build a HIGH-confidence result for a lens the user picked manually,
+ * ending the clarification dialogue.
+ */
+export function compileForLens(
+    intent: string,
+    lens: LensType,
+    turns: ClarificationTurn[] = []
+): CompiledIntent {
+    const answered = turns.length > 0 ? ` after ${turns.length} clarification${turns.length === 1 ? '' : 's'}` : '';
+    return {
+        success: true,
+        compiledBy: 'user',
+        confidence: 'HIGH',
+        workspace: {
+            id: `ws-${Date.now()}`,
+            lens: { type: lens },
+            context: {
+                originalIntent: intent,
+                reasoning: `${LENS_LABELS[lens]} chosen by user${answered}.`,
+            },
+            initialObjects: [],
+        },
+    };
+}
@@ -0,0 +1,34 @@
+import { CompiledIntent, CompileContext, IntentCompiler } from './types';
+
+/**
+ * Wraps a primary backend and answers from a fallback (usually the mock)
+ * when the primary throws or reports failure. The UI never sees a
+ * compiler error; it sees a fallbackReason instead.
+ */
+export class FallbackIntentCompiler implements IntentCompiler {
+    readonly name: string;
+
+    constructor(
+        private readonly primary: IntentCompiler,
+        private readonly fallback: IntentCompiler
+    ) {
+        this.name = `${primary.name}+${fallback.name}`;
+    }
+
+    async compile(intent: string, context?: CompileContext): Promise<CompiledIntent> {
+        let fallbackReason: string;
+        try {
+            const result = await this.primary.compile(intent, context);
+            if (result.success) {
+                return result;
+            }
+            fallbackReason = `${this.primary.name} could not compile the intent`;
+        } catch (error) {
+            fallbackReason = error instanceof Error ? error.message : String(error);
+        }
+
+        console.warn(`[IntentCompiler] Falling back to ${this.fallback.name}: ${fallbackReason}`);
+        const result = await this.fallback.compile(intent, context);
+        return { ...result, fallbackReason };
+    }
+}
@@ -0,0 +1,108 @@
+import { CompiledIntent, CompileContext, IntentCompiler, IntentCompilerError } from './types';
+import { COMPILER_SYSTEM_PROMPT, parseCompilerOutput, toCompiledIntent } from './validate';
+
+export interface HttpCompilerConfig {
+    /** Base URL of an OpenAI-compatible API, e.g. https://api.openai.com/v1 */
+    baseUrl: string;
+    model: string;
+    /**
+     * Bearer token; omit for local model servers. Never set this in code that
+     * runs in the browser (createIntentCompiler doesn't), or the key ships
+     * with the page.
+     */
+    apiKey?: string;
+    /** Request timeout in ms (default: 15000) */
+    timeoutMs?: number;
+    /** Backend name reported in CompiledIntent.compiledBy */
+    name?: string;
+}
+
+/** Default base URL for a local model server (Ollama, llama.cpp, LM Studio all speak this API) */
+export const DEFAULT_LOCAL_MODEL_URL = 'http://localhost:11434/v1';
+
+const DEFAULT_TIMEOUT_MS = 15_000;
+
+interface ChatCompletionResponse {
+    choices?: { message?: { content?: string | null } }[];
+}
+
+/**
+ * Intent compiler backed by an OpenAI-compatible chat completions endpoint.
+ * Both hosted APIs and local model servers are supported via baseUrl.
+ */
+export class HttpIntentCompiler implements IntentCompiler {
+    readonly name: string;
+    private readonly config: HttpCompilerConfig;
+
+    constructor(config: HttpCompilerConfig) {
+        this.config = config;
+        this.name = config.name ?? 'http';
+    }
+
+    async compile(intent: string, context?: CompileContext): Promise<CompiledIntent> {
+        const content = await this.requestCompletion(intent, context);
+        const output = parseCompilerOutput(content);
+        return toCompiledIntent(output, intent, this.name);
+    }
+
+    private async requestCompletion(intent: string, context?: CompileContext): Promise<string> {
+        const { baseUrl, model, apiKey, timeoutMs = DEFAULT_TIMEOUT_MS } = this.config;
+        const controller = new AbortController();
+        const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (apiKey) {
+            headers.Authorization = `Bearer ${apiKey}`;
+        }
+
+        let response: Response;
+        try {
+            response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+                method: 'POST',
+                headers,
+                signal: controller.signal,
+                body: JSON.stringify({
+                    model,
+                    temperature: 0,
+                    response_format: { type: 'json_object' },
+                    messages: [
+                        { role: 'system', content: COMPILER_SYSTEM_PROMPT },
+                        { role: 'user', content: intent },
+                        // Replay earlier clarification rounds as conversation turns
+                        ...(context?.clarifications ?? []).flatMap((turn) => [
+                            { role: 'assistant', content: turn.question },
+                            { role: 'user', content: turn.answer },
+                        ]),
+                    ],
+                }),
+            });
+        } catch (error) {
+            if (controller.signal.aborted) {
+                throw new IntentCompilerError(`Compiler request timed out after ${timeoutMs}ms`, 'TIMEOUT');
+            }
+            throw new IntentCompilerError(
+                `Compiler request failed: ${error instanceof Error ? error.message : String(error)}`,
+                'NETWORK'
+            );
+        } finally {
+            clearTimeout(timer);
+        }
+
+        if (!response.ok) {
+            throw new IntentCompilerError(`Compiler endpoint returned ${response.status}`, 'HTTP_STATUS');
+        }
+
+        let data: ChatCompletionResponse;
+        try {
+            data = await response.json();
+        } catch {
+            throw new IntentCompilerError('Compiler endpoint returned non-JSON body', 'INVALID_OUTPUT');
+        }
+
+        const content = data.choices?.[0]?.message?.content;
+        if (typeof content !== 'string') {
+            throw new IntentCompilerError('Compiler response has no message content', 'INVALID_OUTPUT');
+        }
+        return content;
+    }
+}
@@ -0,0 +1,91 @@
+/**
+ * Intent Compiler Module
+ *
+ * Pluggable backends for Intent -> WorkspaceDefinition compilation.
+ * Backend selection is read from NEXT_PUBLIC_INTENT_COMPILER:
+ * - 'mock' (default): keyword matching, no network
+ * - 'openai': OpenAI-compatible endpoint at NEXT_PUBLIC_INTENT_COMPILER_URL
+ * - 'local': local model server speaking the same API
+ * Network backends are always wrapped so failures fall back to the mock.
+ *
+ * The compiler runs in the browser and NEXT_PUBLIC_* variables are inlined
+ * into the client bundle, so no API key is read from the environment: only
+ * endpoints that need no key (a local model server, or a proxy on this
+ * machine that adds the key) are supported.
+ */
+
+import { MockIntentCompiler } from './mock-compiler';
+import { HttpIntentCompiler, DEFAULT_LOCAL_MODEL_URL } from './http-compiler';
+import { FallbackIntentCompiler } from './fallback-compiler';
+import type { IntentCompiler } from './types';
+
+export type {
+    LensType,
+    LensConfig,
+    WorkspaceObject,
+    WorkspaceDefinition,
+    CompiledIntent,
+    IntentCompiler,
+    ClarificationTurn,
+    CompileContext,
+} from './types';
+export { LENS_TYPES, IntentCompilerError } from './types';
+export { MockIntentCompiler, MOCK_CLARIFICATION_QUESTION } from './mock-compiler';
+export { HttpIntentCompiler, DEFAULT_LOCAL_MODEL_URL } from './http-compiler';
+export type { HttpCompilerConfig } from './http-compiler';
+export { FallbackIntentCompiler } from './fallback-compiler';
+export {
+    MAX_CLARIFICATION_ROUNDS,
+    LENS_LABELS,
+    needsClarification,
+    compileForLens,
+} from './clarification';
+export {
+    COMPILER_SYSTEM_PROMPT,
+    validateCompilerOutput,
+    parseCompilerOutput,
+} from './validate';
+
+export type IntentCompilerBackend = 'mock' | 'openai' | 'local';
+
+export interface IntentCompilerOptions {
+    backend?: IntentCompilerBackend;
+    baseUrl?: string;
+    model?: string;
+    timeoutMs?: number;
+}
+
+/**
+ * Create the configured intent compiler.
+ * Options override the NEXT_PUBLIC_INTENT_COMPILER_* environment variables.
+ */
+export function createIntentCompiler(options: IntentCompilerOptions = {}): IntentCompiler {
+    const backend =
+        options.backend ??
+        (process.env.NEXT_PUBLIC_INTENT_COMPILER as IntentCompilerBackend | undefined) ??
+        'mock';
+    const mock = new MockIntentCompiler();
+
+    if (backend === 'openai' || backend === 'local') {
+        const baseUrl =
+            options.baseUrl ??
+            process.env.NEXT_PUBLIC_INTENT_COMPILER_URL ??
+            (backend === 'local' ? DEFAULT_LOCAL_MODEL_URL : '');
+        const model = options.model ?? process.env.NEXT_PUBLIC_INTENT_COMPILER_MODEL ?? '';
+
+        if (!baseUrl || !model) {
+            console.warn(`[IntentCompiler] No endpoint or model configured for '${backend}' backend, using mock`);
+            return mock;
+        }
+
+        const http = new HttpIntentCompiler({
+            name: backend,
+            baseUrl,
+            model,
+            timeoutMs: options.timeoutMs,
+        });
+        return new FallbackIntentCompiler(http, mock);
+    }
+
+    return mock;
+}
@@ -1,13 +1,21 @@
-import { CompiledIntent, WorkspaceDefinition } from './types';
+import { CompiledIntent, CompileContext, IntentCompiler } from './types';
+
+export const MOCK_CLARIFICATION_QUESTION =
+    'Do you want to write something, review existing items, or map out ideas?';
 
 // Mock implementation for Phase H verification
-export class MockIntentCompiler {
-    async compile(intent: string): Promise<CompiledIntent> {
-        const normalized = intent.toLowerCase();
+export class MockIntentCompiler implements IntentCompiler {
+    readonly name = 'mock';
+
+    async compile(intent: string, context?: CompileContext): Promise<CompiledIntent> {
+        // Clarification answers are matched alongside the original intent
+        const answers = (context?.clarifications ?? []).map((turn) => turn.answer);
+        const normalized = [intent, ...answers].join(' ').toLowerCase();
 
         if (normalized.includes('plan') || normalized.includes('write')) {
             return {
                 success: true,
+                compiledBy: this.name,
                 confidence: 'HIGH',
                 workspace: {
                     id: `ws-${Date.now()}`,
@@ -24,6 +32,7 @@ export class MockIntentCompiler {
         if (normalized.includes('review') || normalized.includes('analyze')) {
             return {
                 success: true,
+                compiledBy: this.name,
                 confidence: 'HIGH',
                 workspace: {
                     id: `ws-${Date.now()}`,
@@ -37,10 +46,29 @@ export class MockIntentCompiler {
             };
         }
 
+        if (normalized.includes('map') || normalized.includes('brainstorm') || normalized.includes('ideas')) {
+            return {
+                success: true,
+                compiledBy: this.name,
+                confidence: 'HIGH',
+                workspace: {
+                    id: `ws-${Date.now()}`,
+                    lens: { type: 'infinite_canvas' },
+                    context: {
+                        originalIntent: intent,
+                        reasoning: 'User wants to map out or brainstorm ideas, best suited for a Canvas.',
+                    },
+                    initialObjects: [],
+                },
+            };
+        }
+
         // Default fallback
         return {
             success: true,
+            compiledBy: this.name,
             confidence: 'LOW',
+            clarificationQuestion: MOCK_CLARIFICATION_QUESTION,
             workspace: {
                 id: `ws-${Date.now()}`,
                 lens: { type: 'infinite_canvas' },
@@ -1,5 +1,7 @@
 export type LensType = 'block_doc' | 'data_grid' | 'infinite_canvas';
 
+export const LENS_TYPES: LensType[] = ['block_doc', 'data_grid', 'infinite_canvas'];
+
 export interface LensConfig {
     type: LensType;
     // Dynamic config based on the lens type
@@ -27,4 +29,47 @@ export interface CompiledIntent {
     workspace?: WorkspaceDefinition;
     clarificationQuestion?: string;
     confidence: 'HIGH' | 'LOW';
+    /** Name of the backend that produced this result */
+    compiledBy?: string;
+    /** Set when the primary backend failed and a fallback answered instead */
+    fallbackReason?: string;
+}
+
+/**
+ * One round of a clarification dialogue: the compiler's question and the user's answer.
+ */
+export interface ClarificationTurn {
+    question: string;
+    answer: string;
+}
+
+/**
+ * Accumulated context passed back to the compiler on recompilation.
+ */
+export interface CompileContext {
+    /** Previous clarification rounds, oldest first */
+    clarifications?: ClarificationTurn[];
+}
+
+/**
+ * A backend that turns a natural-language intent into a workspace.
+ * Implementations: MockIntentCompiler, HttpIntentCompiler, FallbackIntentCompiler.
+ */
+export interface IntentCompiler {
+    readonly name: string;
+    compile(intent: string, context?: CompileContext): Promise<CompiledIntent>;
+}
+
+/**
+ * Error raised by a compiler backend (transport failure, bad output).
+ * FallbackIntentCompiler catches these and answers from the fallback.
+ */
+export class IntentCompilerError extends Error {
+    constructor(
+        message: string,
+        public readonly code: 'NETWORK' | 'TIMEOUT' | 'HTTP_STATUS' | 'INVALID_OUTPUT'
+    ) {
+        super(message);
+        this.name = 'IntentCompilerError';
+    }
 }
@@ -0,0 +1,123 @@
+import {
+    CompiledIntent,
+    IntentCompilerError,
+    LENS_TYPES,
+    LensType,
+    WorkspaceObject,
+} from './types';
+
+/**
+ * Shape a model backend is asked to return (see COMPILER_SYSTEM_PROMPT).
+ * The compiler fills in id and originalIntent itself so the model
+ * cannot spoof them.
+ */
+export interface RawCompilerOutput {
+    lens: { type: LensType; [key: string]: unknown };
+    reasoning: string;
+    confidence: 'HIGH' | 'LOW';
+    clarificationQuestion?: string;
+    initialObjects?: WorkspaceObject[];
+}
+
+export const COMPILER_SYSTEM_PROMPT = `You compile a user's work intent into a workspace.
+Respond with a single JSON object and nothing else:
+{
+  "lens": { "type": ${LENS_TYPES.map((t) => `"${t}"`).join(' | ')} },
+  "reasoning": string,           // one sentence explaining the lens choice
+  "confidence": "HIGH" | "LOW",  // LOW if the intent is ambiguous
+  "clarificationQuestion": string, // required when confidence is LOW: one short question
+  "initialObjects": [ { "id": string, "type": string, "data": object } ] // optional
+}
+Use block_doc for writing or planning, data_grid for reviewing or analyzing records,
+infinite_canvas for brainstorming or mapping relationships.
+If earlier turns contain your questions and the user's answers, use them to reach HIGH confidence.`;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function invalid(message: string): IntentCompilerError {
+    return new IntentCompilerError(`Invalid compiler output: ${message}`, 'INVALID_OUTPUT');
+}
+
+/**
+ * Validate untrusted model output against the WorkspaceDefinition contract.
+ * Throws IntentCompilerError('INVALID_OUTPUT') on any mismatch.
+ */
+export function validateCompilerOutput(raw: unknown): RawCompilerOutput {
+    if (!isRecord(raw)) throw invalid('expected an object');
+
+    const { lens, reasoning, confidence, clarificationQuestion, initialObjects } = raw;
+
+    if (!isRecord(lens) || !LENS_TYPES.includes(lens.type as LensType)) {
+        throw invalid(`lens.type must be one of ${LENS_TYPES.join(', ')}`);
+    }
+    if (typeof reasoning !== 'string' || reasoning.trim() === '') {
+        throw invalid('reasoning must be a non-empty string');
+    }
+    if (confidence !== 'HIGH' && confidence !== 'LOW') {
+        throw invalid('confidence must be HIGH or LOW');
+    }
+    if (clarificationQuestion !== undefined && typeof clarificationQuestion !== 'string') {
+        throw invalid('clarificationQuestion must be a string');
+    }
+    if (initialObjects !== undefined) {
+        if (!Array.isArray(initialObjects)) throw invalid('initialObjects must be an array');
+        for (const obj of initialObjects) {
+            if (!isRecord(obj) || typeof obj.id !== 'string' || typeof obj.type !== 'string') {
+                throw invalid('each initialObject needs string id and type');
+            }
+        }
+    }
+
+    return {
+        lens: lens as RawCompilerOutput['lens'],
+        reasoning,
+        confidence,
+        clarificationQuestion,
+        initialObjects: initialObjects as WorkspaceObject[] | undefined,
+    };
+}
+
+/**
+ * Parse model text (possibly wrapped in a ```json fence) into validated output.
+ */
+export function parseCompilerOutput(text: string): RawCompilerOutput {
+    const unfenced = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+    let raw: unknown;
+    try {
+        raw = JSON.parse(unfenced);
+    } catch {
+        throw invalid('response is not JSON');
+    }
+    return validateCompilerOutput(raw);
+}
+
+/**
+ * Build a CompiledIntent from validated output.
+ */
+export function toCompiledIntent(
+    output: RawCompilerOutput,
+    intent: string,
+    compiledBy: string
+): CompiledIntent {
+    return {
+        success: true,
+        compiledBy,
+        confidence: output.confidence,
+        clarificationQuestion: output.clarificationQuestion,
+        workspace: {
+            id: `ws-${Date.now()}`,
+            lens: output.lens,
+            context: {
+                originalIntent: intent,
+                reasoning: output.reasoning,
+            },
+            initialObjects: (output.initialObjects ?? []).map((obj) => ({
+                id: obj.id,
+                type: obj.type,
+                data: obj.data ?? {},
+            })),
+        },
+    };
+}
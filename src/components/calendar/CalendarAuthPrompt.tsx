@@ -1,15 +1,128 @@
 'use client';
 
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { useCalendar } from '@/calendar/use-calendar';
+import type { CalendarProviderConfig, CalendarProviderId } from '@/calendar/types';
+import { getRulesEngine } from '@/rules/rules-engine';
+import { CalendarRulesPanel } from './CalendarRulesPanel';
+import { TimingSettingsPanel } from './TimingSettingsPanel';
+
+const providerLabels: Record<CalendarProviderId, string> = {
+  gcal: 'Google Calendar',
+  outlook: 'Outlook',
+  ics: 'iCalendar',
+  caldav: 'CalDAV',
+};
+
+/**
+ * Form for connecting an .ics file/URL or a CalDAV server.
+ */
+function CalendarSourceForm({ onConnect }: { onConnect: (config: CalendarProviderConfig) => Promise<void> }) {
+  const [kind, setKind] = useState<'ics' | 'caldav'>('ics');
+  const [url, setUrl] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const canSubmit = kind === 'ics' ? Boolean(url.trim() || file) : Boolean(url.trim());
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    try {
+      if (kind === 'caldav') {
+        await onConnect({
+          provider: 'caldav',
+          calendarUrl: url.trim(),
+          username: username.trim() || undefined,
+          password: password || undefined,
+        });
+      } else if (url.trim()) {
+        await onConnect({ provider: 'ics', url: url.trim() });
+      } else if (file) {
+        await onConnect({ provider: 'ics', text: await file.text(), name: file.name });
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full rounded-lg border border-gray-200 px-3 py-2 text-sm';
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-4 flex flex-col gap-2">
+      <div className="flex gap-1 rounded-lg bg-gray-100 p-1">
+        {(['ics', 'caldav'] as const).map((k) => (
+          <button
+            key={k}
+            type="button"
+            onClick={() => setKind(k)}
+            className={`flex-1 rounded-md px-3 py-1 text-xs font-medium ${
+              kind === k ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            {k === 'ics' ? '.ics file or URL' : 'CalDAV server'}
+          </button>
+        ))}
+      </div>
+
+      <input
+        type="url"
+        value={url}
+        onChange={(e) => setUrl(e.target.value)}
+        placeholder={kind === 'ics' ? 'https://example.com/calendar.ics' : 'https://dav.example.com/user/calendar/'}
+        className={inputClass}
+        aria-label={kind === 'ics' ? 'Calendar feed URL' : 'CalDAV calendar URL'}
+      />
+
+      {kind === 'ics' ? (
+        <input
+          type="file"
+          accept=".ics,text/calendar"
+          onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+          className="text-xs text-gray-500"
+          aria-label="Calendar file"
+        />
+      ) : (
+        <>
+          <input
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            placeholder="Username"
+            autoComplete="username"
+            className={inputClass}
+          />
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            placeholder="Password or app password"
+            autoComplete="current-password"
+            className={inputClass}
+          />
+        </>
+      )}
+
+      <button
+        type="submit"
+        disabled={!canSubmit || isSaving}
+        className="rounded-lg bg-gray-900 px-4 py-2 text-sm font-medium text-white hover:bg-gray-800 disabled:opacity-50"
+      >
+        {isSaving ? 'Connecting...' : 'Connect'}
+      </button>
+    </form>
+  );
+}
 
 /**
  * Calendar authentication prompt.
- * Shown when user needs to connect their Google Calendar.
+ * Shown when user needs to connect a calendar (Google, .ics or CalDAV).
  */
 export function CalendarAuthPrompt() {
-  const { signIn, isAuthenticated } = useCalendar();
+  const { signIn, connect, isAuthenticated } = useCalendar();
   const [isConnecting, setIsConnecting] = useState(false);
+  const [showOtherSources, setShowOtherSources] = useState(false);
 
   if (isAuthenticated) {
     return null;
@@ -104,6 +217,17 @@ export function CalendarAuthPrompt() {
         )}
       </button>
 
+      {showOtherSources ? (
+        <CalendarSourceForm onConnect={connect} />
+      ) : (
+        <button
+          onClick={() => setShowOtherSources(true)}
+          className="mt-3 w-full text-center text-sm text-gray-500 hover:text-gray-700"
+        >
+          Use an .ics file or CalDAV server instead
+        </button>
+      )}
+
       <p className="mt-4 text-center text-xs text-gray-500">
         Your calendar data stays on your device.
         <br />
@@ -118,24 +242,72 @@ export function CalendarAuthPrompt() {
  * Shows connection status and allows reconnecting.
  */
 export function CalendarStatusIndicator() {
-  const { isAuthenticated, signIn, signOut, snapshotInfo, error } = useCalendar();
+  const {
+    events,
+    isAuthenticated,
+    signIn,
+    signInWithOutlook,
+    connect,
+    signOut,
+    snapshotInfo,
+    error,
+    provider,
+    calendarRules,
+    loadCalendarRules,
+    updateCalendarRules,
+  } = useCalendar();
+  const [showSources, setShowSources] = useState(false);
+  const [showRules, setShowRules] = useState(false);
+  const [showTiming, setShowTiming] = useState(false);
+
+  // One entry per recurring series, for timing overrides
+  const series = useMemo(() => {
+    const byId = new Map<string, string>();
+    for (const event of events) {
+      if (event.recurringEventId && event.iCalUid && !byId.has(event.iCalUid)) {
+        byId.set(event.iCalUid, event.title);
+      }
+    }
+    return Array.from(byId, ([id, title]) => ({ id, title }));
+  }, [events]);
 
   if (!isAuthenticated) {
     return (
-      <button
-        onClick={signIn}
-        className="flex items-center gap-1.5 rounded-lg bg-gray-100 px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-200"
-      >
-        <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-          <path
-            strokeLinecap="round"
-            strokeLinejoin="round"
-            strokeWidth={2}
-            d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z"
-          />
-        </svg>
-        Connect Calendar
-      </button>
+      <div className="relative">
+        <button
+          onClick={() => setShowSources((open) => !open)}
+          className="flex items-center gap-1.5 rounded-lg bg-gray-100 px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-200"
+        >
+          <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z"
+            />
+          </svg>
+          Connect Calendar
+        </button>
+
+        {showSources && (
+          <div className="absolute right-0 top-full z-10 mt-1 w-72 rounded-lg bg-white p-3 shadow-lg">
+            {error && <p className="mb-2 text-xs text-red-600">{error.message}</p>}
+            <button
+              onClick={signIn}
+              className="w-full rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
+            >
+              Google Calendar
+            </button>
+            <button
+              onClick={signInWithOutlook}
+              className="mt-2 w-full rounded-lg bg-sky-700 px-4 py-2 text-sm font-medium text-white hover:bg-sky-800"
+            >
+              Outlook / Microsoft 365
+            </button>
+            <CalendarSourceForm onConnect={connect} />
+          </div>
+        )}
+      </div>
     );
   }
 
@@ -170,18 +342,52 @@ export function CalendarStatusIndicator() {
         {snapshotInfo.isStale && ' (stale)'}
       </span>
 
-      {/* Dropdown on hover */}
-      <div className="absolute right-0 top-full z-10 mt-1 hidden w-48 rounded-lg bg-white p-2 shadow-lg group-hover:block">
-        <p className="mb-2 text-xs text-gray-500">
-          Last updated: {snapshotInfo.cacheAge || 'Never'}
-        </p>
-        <button
-          onClick={signOut}
-          className="w-full rounded px-2 py-1 text-left text-xs text-red-600 hover:bg-red-50"
-        >
-          Disconnect Calendar
-        </button>
-      </div>
+      {showRules ? (
+        <div className="absolute right-0 top-full z-10 mt-1">
+          <CalendarRulesPanel
+            rules={calendarRules}
+            onLoad={loadCalendarRules}
+            onSave={updateCalendarRules}
+            onClose={() => setShowRules(false)}
+          />
+        </div>
+      ) : showTiming ? (
+        <div className="absolute right-0 top-full z-10 mt-1">
+          <TimingSettingsPanel
+            series={series}
+            onApply={(settings) => getRulesEngine().setTimingSettings(settings)}
+            onClose={() => setShowTiming(false)}
+          />
+        </div>
+      ) : (
+        /* Dropdown on hover */
+        <div className="absolute right-0 top-full z-10 mt-1 hidden w-48 rounded-lg bg-white p-2 shadow-lg group-hover:block">
+          <p className="text-xs text-gray-500">
+            Source: {providerLabels[provider]}
+          </p>
+          <p className="mb-2 text-xs text-gray-500">
+            Last updated: {snapshotInfo.cacheAge || 'Never'}
+          </p>
+          <button
+            onClick={() => setShowRules(true)}
+            className="w-full rounded px-2 py-1 text-left text-xs text-gray-600 hover:bg-gray-50"
+          >
+            Choose calendars
+          </button>
+          <button
+            onClick={() => setShowTiming(true)}
+            className="w-full rounded px-2 py-1 text-left text-xs text-gray-600 hover:bg-gray-50"
+          >
+            Prep &amp; synthesis timing
+          </button>
+          <button
+            onClick={signOut}
+            className="w-full rounded px-2 py-1 text-left text-xs text-red-600 hover:bg-red-50"
+          >
+            Disconnect Calendar
+          </button>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,140 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { CalendarRule } from '@/calendar/types';
+import type { MeetingTrigger } from '@/rules/types';
+
+export interface CalendarRulesPanelProps {
+  /** Rules from useCalendar().calendarRules */
+  rules: CalendarRule[];
+  /** Load the provider's calendars (useCalendar().loadCalendarRules) */
+  onLoad: () => Promise<void>;
+  /** Persist rules (useCalendar().updateCalendarRules) */
+  onSave: (rules: CalendarRule[]) => Promise<void>;
+  onClose: () => void;
+}
+
+const triggerLabels: Record<MeetingTrigger, string> = {
+  prep: 'Prep',
+  capture: 'Capture',
+  synthesis: 'Synthesis',
+};
+
+const triggerOrder: MeetingTrigger[] = ['prep', 'capture', 'synthesis'];
+
+/**
+ * Pick which calendars feed the snapshot and which modes each may trigger.
+ * Order sets priority when the same meeting is on several calendars.
+ */
+export function CalendarRulesPanel({ rules, onLoad, onSave, onClose }: CalendarRulesPanelProps) {
+  const [draft, setDraft] = useState<CalendarRule[]>(rules);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    onLoad().finally(() => setLoading(false));
+  }, [onLoad]);
+
+  useEffect(() => {
+    setDraft(rules);
+  }, [rules]);
+
+  const updateRule = (index: number, patch: Partial<CalendarRule>) => {
+    setDraft((current) => current.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+  };
+
+  const toggleTrigger = (index: number, trigger: MeetingTrigger) => {
+    const rule = draft[index];
+    const suppressed = rule.suppressedTriggers.includes(trigger)
+      ? rule.suppressedTriggers.filter((t) => t !== trigger)
+      : [...rule.suppressedTriggers, trigger];
+    updateRule(index, { suppressedTriggers: suppressed });
+  };
+
+  const moveUp = (index: number) => {
+    if (index === 0) return;
+    setDraft((current) => {
+      const next = [...current];
+      [next[index - 1], next[index]] = [next[index], next[index - 1]];
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onSave(draft);
+      onClose();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="w-96 rounded-lg bg-white p-4 text-gray-700 shadow-lg">
+      <div className="mb-3 flex items-center justify-between">
+        <h3 className="text-sm font-medium text-gray-900">Calendars</h3>
+        <button onClick={onClose} className="text-xs text-gray-400 hover:text-gray-600">
+          Close
+        </button>
+      </div>
+
+      {loading ? (
+        <p className="text-xs text-gray-400">Loading calendars...</p>
+      ) : draft.length === 0 ? (
+        <p className="text-xs text-gray-400">No calendars found.</p>
+      ) : (
+        <ul className="flex flex-col gap-2">
+          {draft.map((rule, index) => (
+            <li key={rule.calendarId} className="rounded-lg border border-gray-100 px-3 py-2">
+              <div className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={rule.included}
+                  onChange={(e) => updateRule(index, { included: e.target.checked })}
+                  aria-label={`Include ${rule.name}`}
+                />
+                <span className="flex-1 truncate text-sm">{rule.name}</span>
+                {index > 0 && (
+                  <button
+                    onClick={() => moveUp(index)}
+                    className="text-xs text-gray-400 hover:text-gray-600"
+                    aria-label={`Move ${rule.name} up`}
+                  >
+                    ↑
+                  </button>
+                )}
+              </div>
+              {rule.included && (
+                <div className="mt-1 flex gap-3 pl-6 text-xs text-gray-500">
+                  {triggerOrder.map((trigger) => (
+                    <label key={trigger} className="flex items-center gap-1">
+                      <input
+                        type="checkbox"
+                        checked={!rule.suppressedTriggers.includes(trigger)}
+                        onChange={() => toggleTrigger(index, trigger)}
+                      />
+                      {triggerLabels[trigger]}
+                    </label>
+                  ))}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <p className="mt-3 text-xs text-gray-400">
+        Unchecked modes won&apos;t be triggered by meetings that appear only on that calendar.
+      </p>
+
+      <button
+        onClick={handleSave}
+        disabled={loading || saving}
+        className="mt-3 w-full rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+      >
+        {saving ? 'Saving...' : 'Save'}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import type { MeetingTimingConfig, TimingConfig, TimingSettings } from '@/rules/types';
+import {
+  getTimingSettings,
+  saveGlobalTiming,
+  saveTimingOverride,
+  deleteTimingOverride,
+  TimingOverrideInput,
+} from '@/storage/timing-settings-api';
+
+export interface TimingSettingsPanelProps {
+  /** Recurring series on the calendar, offered as override targets */
+  series: Array<{ id: string; title: string }>;
+  /** Called with the saved settings (apply them to the rules engine) */
+  onApply: (settings: TimingSettings) => void;
+  onClose: () => void;
+}
+
+type OverrideDraft = TimingOverrideInput & { key: string };
+
+const windowFields: Array<{ field: keyof MeetingTimingConfig; label: string }> = [
+  { field: 'prepWindowMinutes', label: 'Prep' },
+  { field: 'synthesisWindowMinutes', label: 'Synthesis' },
+  { field: 'meetingGraceMinutes', label: 'Grace' },
+];
+
+function parseOptionalNumber(value: string): number | undefined {
+  return value.trim() === '' ? undefined : Number(value);
+}
+
+/**
+ * Edit the global prep/synthesis windows and per-meeting overrides,
+ * e.g. a day of prep for board meetings or 10 minutes for 1:1s.
+ */
+export function TimingSettingsPanel({ series, onApply, onClose }: TimingSettingsPanelProps) {
+  const [global, setGlobal] = useState<TimingConfig | null>(null);
+  const [overrides, setOverrides] = useState<OverrideDraft[]>([]);
+  const [savedIds, setSavedIds] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getTimingSettings().then((settings) => {
+      setGlobal(settings.global);
+      setOverrides(settings.overrides.map((o) => ({ ...o, key: o.id })));
+      setSavedIds(settings.overrides.map((o) => o.id));
+    });
+  }, []);
+
+  const updateOverride = (key: string, patch: Partial<OverrideDraft>) => {
+    setOverrides((current) => current.map((o) => (o.key === key ? { ...o, ...patch } : o)));
+  };
+
+  const addOverride = () => {
+    setOverrides((current) => [
+      ...current,
+      { key: `new-${Date.now()}`, label: '', match: {}, config: {} },
+    ]);
+  };
+
+  const handleSave = async () => {
+    if (!global) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await saveGlobalTiming(global);
+
+      const keptIds = overrides.flatMap((o) => (o.id ? [o.id] : []));
+      for (const id of savedIds.filter((id) => !keptIds.includes(id))) {
+        await deleteTimingOverride(id);
+      }
+      for (const { id, label, match, config } of overrides) {
+        await saveTimingOverride({ id, label, match, config });
+      }
+
+      onApply(await getTimingSettings());
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not save timing settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="w-96 rounded-lg bg-white p-4 text-gray-700 shadow-lg">
+      <div className="mb-3 flex items-center justify-between">
+        <h3 className="text-sm font-medium text-gray-900">Timing</h3>
+        <button onClick={onClose} className="text-xs text-gray-400 hover:text-gray-600">
+          Close
+        </button>
+      </div>
+
+      {!global ? (
+        <p className="text-xs text-gray-400">Loading settings...</p>
+      ) : (
+        <>
+          <div className="flex gap-2">
+            {windowFields.map(({ field, label }) => (
+              <label key={field} className="flex flex-1 flex-col text-xs text-gray-500">
+                {label} (min)
+                <input
+                  type="number"
+                  min={0}
+                  value={global[field]}
+                  onChange={(e) => setGlobal({ ...global, [field]: Number(e.target.value) })}
+                  className="mt-1 rounded border border-gray-200 px-2 py-1 text-sm text-gray-700"
+                />
+              </label>
+            ))}
+          </div>
+
+          <h4 className="mb-2 mt-4 text-xs font-medium text-gray-900">Per-meeting overrides</h4>
+          <ul className="flex flex-col gap-2">
+            {overrides.map((override) => (
+              <li key={override.key} className="rounded-lg border border-gray-100 px-3 py-2 text-xs">
+                <div className="flex items-center gap-2">
+                  <input
+                    value={override.label}
+                    onChange={(e) => updateOverride(override.key, { label: e.target.value })}
+                    placeholder="Label, e.g. Board meetings"
+                    className="flex-1 rounded border border-gray-200 px-2 py-1 text-sm"
+                  />
+                  <button
+                    onClick={() => setOverrides((current) => current.filter((o) => o.key !== override.key))}
+                    className="text-gray-400 hover:text-red-600"
+                    aria-label={`Remove ${override.label || 'override'}`}
+                  >
+                    ✕
+                  </button>
+                </div>
+
+                <div className="mt-2 flex gap-2">
+                  <select
+                    value={override.match.seriesId ?? ''}
+                    onChange={(e) =>
+                      updateOverride(override.key, {
+                        match: { ...override.match, seriesId: e.target.value || undefined },
+                      })
+                    }
+                    className="flex-1 rounded border border-gray-200 px-1 py-1"
+                  >
+                    <option value="">Any series</option>
+                    {override.match.seriesId && !series.some((s) => s.id === override.match.seriesId) && (
+                      <option value={override.match.seriesId}>Saved series</option>
+                    )}
+                    {series.map((s) => (
+                      <option key={s.id} value={s.id}>
+                        {s.title}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    value={override.match.attendeePattern ?? ''}
+                    onChange={(e) =>
+                      updateOverride(override.key, {
+                        match: { ...override.match, attendeePattern: e.target.value || undefined },
+                      })
+                    }
+                    placeholder="*@board.example.com"
+                    className="flex-1 rounded border border-gray-200 px-2 py-1"
+                  />
+                  <input
+                    type="number"
+                    min={0}
+                    value={override.match.maxAttendees ?? ''}
+                    onChange={(e) =>
+                      updateOverride(override.key, {
+                        match: { ...override.match, maxAttendees: parseOptionalNumber(e.target.value) },
+                      })
+                    }
+                    placeholder="Max people"
+                    className="w-20 rounded border border-gray-200 px-2 py-1"
+                  />
+                </div>
+
+                <div className="mt-2 flex gap-2">
+                  {windowFields.map(({ field, label }) => (
+                    <input
+                      key={field}
+                      type="number"
+                      min={0}
+                      value={override.config[field] ?? ''}
+                      onChange={(e) =>
+                        updateOverride(override.key, {
+                          config: { ...override.config, [field]: parseOptionalNumber(e.target.value) },
+                        })
+                      }
+                      placeholder={`${label} ${global[field]}`}
+                      aria-label={`${label} minutes`}
+                      className="w-full rounded border border-gray-200 px-2 py-1"
+                    />
+                  ))}
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          <button onClick={addOverride} className="mt-2 text-xs text-blue-600 hover:text-blue-700">
+            + Add override
+          </button>
+        </>
+      )}
+
+      {error && <p className="mt-3 text-xs text-red-600">{error}</p>}
+
+      <p className="mt-3 text-xs text-gray-400">
+        Blank override fields use the global value. Series overrides win over attendee overrides.
+      </p>
+
+      <button
+        onClick={handleSave}
+        disabled={!global || saving}
+        className="mt-3 w-full rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+      >
+        {saving ? 'Saving...' : 'Save'}
+      </button>
+    </div>
+  );
+}
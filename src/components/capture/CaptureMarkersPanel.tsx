@@ -4,16 +4,23 @@ import { useState, useCallback, useEffect } from 'react';
 import { toast } from 'sonner';
 import { useMeetingContext } from '@/contexts/MeetingContext';
 import { useLinkingContext } from '@/contexts/LinkingContext';
-import { WorkObjectActionMenu } from '@/components/shared/WorkObjectActionMenu';
+import { useSuggestionsContext } from '@/contexts/SuggestionsContext';
+import { WorkObjectActionMenu, type SuggestedMenuAction } from '@/components/shared/WorkObjectActionMenu';
+import { useMarkerTypes } from '@/hooks/use-marker-types';
+import { findMarkerTypeByHotkey, getMarkerTypeDefinition, MARKER_COLOR_CLASSES } from '@/lib/marker-types';
+import { describeSuggestion, getSuggestionsForMarker, type MarkerSuggestion } from '@/lib/agent-suggestions';
 import type { LinkType } from '@/storage/work-object-types';
+import type { ActionDetails, MarkerType } from '@/storage/types';
 
-export type MarkerType = 'decision' | 'action' | 'risk' | 'question';
+export type { MarkerType };
 
 export interface Marker {
   id: string;
   type: MarkerType;
   label?: string;
   timestamp: number;
+  /** Owner, due date and status (action markers only) */
+  action?: ActionDetails;
 }
 
 export interface CaptureMarkersPanelProps {
@@ -25,13 +32,6 @@ export interface CaptureMarkersPanelProps {
   onMarkerDelete?: (markerId: string) => void;
 }
 
-const markerConfig: Record<MarkerType, { label: string; color: string; hotkey: string }> = {
-  decision: { label: 'Decision', color: 'bg-purple-600 hover:bg-purple-700', hotkey: 'D' },
-  action: { label: 'Action', color: 'bg-blue-600 hover:bg-blue-700', hotkey: 'A' },
-  risk: { label: 'Risk', color: 'bg-amber-600 hover:bg-amber-700', hotkey: 'R' },
-  question: { label: 'Question', color: 'bg-emerald-600 hover:bg-emerald-700', hotkey: 'Q' },
-};
-
 export function CaptureMarkersPanel({
   markers: propMarkers = [],
   onMarkerCreate,
@@ -40,6 +40,7 @@ export function CaptureMarkersPanel({
 }: CaptureMarkersPanelProps) {
   const [showLabelInput, setShowLabelInput] = useState<MarkerType | null>(null);
   const [labelValue, setLabelValue] = useState('');
+  const markerTypes = useMarkerTypes();
 
   // Use context for marker creation and reading live data
   const meetingContext = useMeetingContext();
@@ -53,6 +54,21 @@ export function CaptureMarkersPanel({
     ? (markerId: string, linkType: LinkType) => linkingContext.startLinking(`wo:marker:mtg:${meetingContext.meetingId}:${markerId}`, linkType)
     : undefined);
   const onMarkerDelete = propsOnMarkerDelete ?? meetingContext?.deleteMarker;
+
+  // Agent suggestions: ghost markers in the recent list, flags and links in each marker's menu
+  const suggestionsContext = useSuggestionsContext();
+  const suggestions = suggestionsContext?.suggestions ?? [];
+  const ghostMarkers = suggestions.filter((s): s is MarkerSuggestion => s.kind === 'marker').slice(-3);
+  const menuSuggestions = (markerId: string): SuggestedMenuAction[] =>
+    suggestionsContext
+      ? getSuggestionsForMarker(suggestions, markerId).map((suggestion) => ({
+          id: suggestion.id,
+          label: describeSuggestion(suggestion, markers),
+          reason: suggestion.reason,
+          onAccept: () => suggestionsContext.accept(suggestion),
+          onReject: () => suggestionsContext.reject(suggestion),
+        }))
+      : [];
   const createMarker = useCallback(
     async (type: MarkerType, label?: string) => {
       try {
@@ -61,15 +77,13 @@ export function CaptureMarkersPanel({
         } else if (meetingContext) {
           await meetingContext.addMarker(type, label);
         }
-        // Capitalize first letter for display
-        const typeLabel = type.charAt(0).toUpperCase() + type.slice(1);
-        toast.success(`${typeLabel} captured`);
+        toast.success(`${getMarkerTypeDefinition(markerTypes, type).label} captured`);
       } catch (error) {
         toast.error('Failed to save marker');
         console.error('Marker creation failed:', error);
       }
     },
-    [onMarkerCreate, meetingContext]
+    [onMarkerCreate, meetingContext, markerTypes]
   );
 
   const handleMarkerClick = useCallback((type: MarkerType) => {
@@ -97,9 +111,9 @@ export function CaptureMarkersPanel({
   const markerCounts = markers.reduce((acc, m) => {
     acc[m.type] = (acc[m.type] || 0) + 1;
     return acc;
-  }, {} as Record<MarkerType, number>);
+  }, {} as Record<string, number>);
 
-  // DARQ hotkey listener - active only in capture mode
+  // Marker hotkey listener (D/A/R/Q by default) - active only in capture mode
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       // Ignore repeated key events (key held down)
@@ -117,46 +131,34 @@ export function CaptureMarkersPanel({
       if (showLabelInput) return;
 
       // Map key to marker type
-      const keyToMarker: Record<string, MarkerType> = {
-        d: 'decision',
-        D: 'decision',
-        a: 'action',
-        A: 'action',
-        r: 'risk',
-        R: 'risk',
-        q: 'question',
-        Q: 'question',
-      };
-
-      const markerType = keyToMarker[e.key];
+      const markerType = findMarkerTypeByHotkey(markerTypes, e.key);
       if (markerType) {
         // Create marker immediately (same path as button with skip)
-        createMarker(markerType, undefined);
+        createMarker(markerType.id, undefined);
       }
     };
 
     // Attach at document level to catch all keys
     document.addEventListener('keydown', handleKeyDown);
     return () => document.removeEventListener('keydown', handleKeyDown);
-  }, [createMarker, showLabelInput]);
+  }, [createMarker, showLabelInput, markerTypes]);
 
   return (
     <div className="flex flex-1 flex-col items-center justify-center p-8">
       {/* Main marker buttons */}
       <div className="grid grid-cols-2 gap-4">
-        {(Object.keys(markerConfig) as MarkerType[]).map((type) => {
-          const config = markerConfig[type];
-          const count = markerCounts[type] || 0;
+        {markerTypes.types.map((config) => {
+          const count = markerCounts[config.id] || 0;
 
           return (
             <button
-              key={type}
-              onClick={() => handleMarkerClick(type)}
-              className={`relative flex h-24 w-32 flex-col items-center justify-center rounded-xl ${config.color} text-white shadow-lg transition-transform active:scale-95`}
+              key={config.id}
+              onClick={() => handleMarkerClick(config.id)}
+              className={`relative flex h-24 w-32 flex-col items-center justify-center rounded-xl ${MARKER_COLOR_CLASSES[config.color].button} text-white shadow-lg transition-transform active:scale-95`}
             >
               <span className="text-lg font-semibold">{config.label}</span>
               {/* Only show hotkey hint when hotkeys are active (no overlay open) */}
-              {!showLabelInput && (
+              {!showLabelInput && config.hotkey && (
                 <span className="mt-1 text-xs opacity-75">Press {config.hotkey}</span>
               )}
               {count > 0 && (
@@ -208,44 +210,82 @@ export function CaptureMarkersPanel({
       )}
 
       {/* Recent markers */}
-      {markers.length > 0 && (
+      {(markers.length > 0 || ghostMarkers.length > 0) && (
         <div className="mt-8 w-full max-w-md">
           <p className="mb-2 text-xs uppercase tracking-wide text-gray-500">
             Recent
           </p>
           <div className="flex flex-col gap-1">
-            {markers.slice(-5).reverse().map((marker) => (
-              <div
-                key={marker.id}
-                className="group flex items-center gap-3 rounded-lg bg-gray-800/50 px-3 py-2"
-              >
-                <span className={`h-2 w-2 rounded-full ${markerConfig[marker.type].color.split(' ')[0]}`} />
-                <span className="text-sm text-gray-400">
-                  {marker.label || markerConfig[marker.type].label}
-                </span>
-                <span className="ml-auto text-xs text-gray-600">
-                  {new Date(marker.timestamp).toLocaleTimeString([], {
-                    hour: '2-digit',
-                    minute: '2-digit',
-                  })}
-                </span>
-                {/* Action menu - visible on hover */}
-                <div className="opacity-0 transition-opacity group-hover:opacity-100">
-                  <WorkObjectActionMenu
-                    onStartLinking={
-                      onStartLinking
-                        ? (linkType) => onStartLinking(marker.id, linkType)
-                        : undefined
-                    }
-                    onDelete={
-                      onMarkerDelete
-                        ? () => onMarkerDelete(marker.id)
-                        : undefined
-                    }
-                  />
+            {/* Suggested markers: ghost rows until accepted */}
+            {ghostMarkers.map((suggestion) => {
+              const config = getMarkerTypeDefinition(markerTypes, suggestion.markerType);
+
+              return (
+                <div
+                  key={suggestion.id}
+                  className="flex items-center gap-3 rounded-lg border border-dashed border-gray-700 px-3 py-2"
+                  title={suggestion.reason}
+                >
+                  <span className={`h-2 w-2 rounded-full opacity-50 ${MARKER_COLOR_CLASSES[config.color].dot}`} />
+                  <span className="truncate text-sm italic text-gray-500">
+                    {suggestion.text}
+                  </span>
+                  <span className="ml-auto text-xs text-gray-600">Suggested {config.label.toLowerCase()}</span>
+                  <button
+                    onClick={() => suggestionsContext?.accept(suggestion)}
+                    className="text-xs text-emerald-400 hover:text-emerald-300"
+                    aria-label={`Accept suggested ${config.label.toLowerCase()}`}
+                  >
+                    ✓
+                  </button>
+                  <button
+                    onClick={() => suggestionsContext?.reject(suggestion)}
+                    className="text-xs text-gray-500 hover:text-gray-300"
+                    aria-label={`Reject suggested ${config.label.toLowerCase()}`}
+                  >
+                    ✕
+                  </button>
+                </div>
+              );
+            })}
+            {markers.slice(-5).reverse().map((marker) => {
+              const config = getMarkerTypeDefinition(markerTypes, marker.type);
+              const markerSuggestions = menuSuggestions(marker.id);
+
+              return (
+                <div
+                  key={marker.id}
+                  className="group flex items-center gap-3 rounded-lg bg-gray-800/50 px-3 py-2"
+                >
+                  <span className={`h-2 w-2 rounded-full ${MARKER_COLOR_CLASSES[config.color].dot}`} />
+                  <span className="text-sm text-gray-400">
+                    {marker.label || config.label}
+                  </span>
+                  <span className="ml-auto text-xs text-gray-600">
+                    {new Date(marker.timestamp).toLocaleTimeString([], {
+                      hour: '2-digit',
+                      minute: '2-digit',
+                    })}
+                  </span>
+                  {/* Action menu - visible on hover, or while it holds suggestions */}
+                  <div className={markerSuggestions.length > 0 ? '' : 'opacity-0 transition-opacity group-hover:opacity-100'}>
+                    <WorkObjectActionMenu
+                      onStartLinking={
+                        onStartLinking
+                          ? (linkType) => onStartLinking(marker.id, linkType)
+                          : undefined
+                      }
+                      onDelete={
+                        onMarkerDelete
+                          ? () => onMarkerDelete(marker.id)
+                          : undefined
+                      }
+                      suggestions={markerSuggestions}
+                    />
+                  </div>
                 </div>
-              </div>
-            ))}
+              );
+            })}
           </div>
         </div>
       )}
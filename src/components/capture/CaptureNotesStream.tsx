@@ -0,0 +1,118 @@
+'use client';
+
+import { useState, useRef, useEffect } from 'react';
+import { toast } from 'sonner';
+import { useMeetingContext } from '@/contexts/MeetingContext';
+import { useCaptureNotes } from '@/hooks/use-capture-notes';
+import { useMarkerTypes } from '@/hooks/use-marker-types';
+import { getMarkerTypeDefinition, MARKER_COLOR_CLASSES } from '@/lib/marker-types';
+import { formatNoteOffset } from '@/storage/capture-note-api';
+import type { MarkerType } from './CaptureMarkersPanel';
+
+export interface CaptureNotesStreamProps {
+  /** Max notes shown (newest first) */
+  maxVisible?: number;
+}
+
+export function CaptureNotesStream({ maxVisible = 8 }: CaptureNotesStreamProps) {
+  const [text, setText] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+  const markerTypes = useMarkerTypes();
+  const meetingContext = useMeetingContext();
+  const meetingId = meetingContext?.meetingId ?? null;
+  const { notes, addNote, promote, remove } = useCaptureNotes(meetingId, meetingContext?.refresh);
+
+  // N focuses the note input (ignored while typing elsewhere)
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.repeat || (e.key !== 'n' && e.key !== 'N')) return;
+
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+
+      e.preventDefault();
+      inputRef.current?.focus();
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const handleSubmit = async () => {
+    if (!text.trim()) return;
+    try {
+      await addNote(text);
+      setText('');
+    } catch (error) {
+      toast.error('Failed to save note');
+      console.error('Note creation failed:', error);
+    }
+  };
+
+  const handlePromote = async (noteId: string, type: MarkerType) => {
+    try {
+      await promote(noteId, type);
+      toast.success(`Note promoted to ${getMarkerTypeDefinition(markerTypes, type).label.toLowerCase()}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to promote note');
+    }
+  };
+
+  if (!meetingId) return null;
+
+  return (
+    <div className="mx-auto w-full max-w-md px-8 pb-6">
+      <input
+        ref={inputRef}
+        type="text"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') handleSubmit();
+          if (e.key === 'Escape') {
+            setText('');
+            inputRef.current?.blur();
+          }
+        }}
+        placeholder="Type a note, Enter to save (N to focus)"
+        className="w-full rounded-lg bg-gray-800 px-4 py-2 text-sm text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+
+      {notes.length > 0 && (
+        <ul className="mt-3 flex flex-col gap-1">
+          {notes.slice(-maxVisible).reverse().map((note) => (
+            <li key={note.id} className="group flex items-start gap-3 rounded-lg bg-gray-800/50 px-3 py-2">
+              <span className="mt-0.5 font-mono text-xs text-gray-500">{formatNoteOffset(note.offsetMs)}</span>
+              <span className="flex-1 text-sm text-gray-300">{note.text}</span>
+              {note.promotedTo ? (
+                <span className="rounded bg-gray-700 px-1.5 py-0.5 text-xs text-gray-400">
+                  {getMarkerTypeDefinition(markerTypes, note.promotedTo.type).label}
+                </span>
+              ) : (
+                <div className="flex gap-1 opacity-0 transition-opacity group-hover:opacity-100">
+                  {markerTypes.types.map((option) => (
+                    <button
+                      key={option.id}
+                      onClick={() => handlePromote(note.id, option.id)}
+                      title={`Promote to ${option.label}`}
+                      className={`rounded px-1.5 py-0.5 text-xs ${MARKER_COLOR_CLASSES[option.color].option}`}
+                    >
+                      {option.hotkey ?? option.label[0]}
+                    </button>
+                  ))}
+                  <button
+                    onClick={() => remove(note.id)}
+                    title="Delete note"
+                    className="rounded px-1.5 py-0.5 text-xs text-gray-500 hover:bg-gray-700"
+                  >
+                    ✕
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,8 @@
 
 import { useState, useCallback, useEffect, useRef } from 'react';
 import { MarkerType } from './CaptureMarkersPanel';
+import { useMarkerTypes } from '@/hooks/use-marker-types';
+import { getMarkerTypeDefinition } from '@/lib/marker-types';
 
 export interface MarkerLabelInputProps {
   markerType: MarkerType;
@@ -9,13 +11,6 @@ export interface MarkerLabelInputProps {
   onCancel?: () => void;
 }
 
-const markerLabels: Record<MarkerType, string> = {
-  decision: 'Decision',
-  action: 'Action',
-  risk: 'Risk',
-  question: 'Question',
-};
-
 export function MarkerLabelInput({
   markerType,
   onSubmit,
@@ -23,6 +18,7 @@ export function MarkerLabelInput({
 }: MarkerLabelInputProps) {
   const [value, setValue] = useState('');
   const inputRef = useRef<HTMLInputElement>(null);
+  const markerTypes = useMarkerTypes();
 
   useEffect(() => {
     inputRef.current?.focus();
@@ -43,7 +39,7 @@ export function MarkerLabelInput({
   return (
     <div className="fixed bottom-20 left-1/2 w-80 -translate-x-1/2 rounded-xl bg-gray-800 p-4 shadow-2xl">
       <p className="mb-2 text-xs text-gray-400">
-        Label this {markerLabels[markerType].toLowerCase()} (optional)
+        Label this {getMarkerTypeDefinition(markerTypes, markerType).label.toLowerCase()} (optional)
       </p>
       <input
         ref={inputRef}
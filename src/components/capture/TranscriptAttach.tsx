@@ -0,0 +1,52 @@
+'use client';
+
+import { useRef, type ChangeEvent } from 'react';
+import { toast } from 'sonner';
+import { useMeetingContext } from '@/contexts/MeetingContext';
+import { useTranscript } from '@/hooks/use-transcript';
+
+export function TranscriptAttach() {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const meetingContext = useMeetingContext();
+  const meetingId = meetingContext?.meetingId ?? null;
+  const { segments, importFile, clear } = useTranscript(meetingId);
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const count = await importFile(file);
+      toast.success(`Transcript attached (${count} segments)`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to import transcript');
+    }
+  };
+
+  if (!meetingId) return null;
+
+  return (
+    <div className="mx-auto flex w-full max-w-md items-center gap-3 px-8 pb-6 text-xs text-gray-500">
+      <button
+        onClick={() => inputRef.current?.click()}
+        className="rounded-lg bg-gray-800 px-3 py-1.5 text-gray-300 hover:bg-gray-700"
+      >
+        Attach transcript
+      </button>
+      <span>{segments.length > 0 ? `${segments.length} segments` : '.vtt, .srt, Zoom/Teams .txt or local Whisper .json'}</span>
+      {segments.length > 0 && (
+        <button onClick={clear} className="ml-auto text-gray-500 hover:text-gray-300">
+          Clear
+        </button>
+      )}
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".vtt,.srt,.txt,.json,text/vtt,text/plain,application/json"
+        onChange={handleFile}
+        className="hidden"
+      />
+    </div>
+  );
+}
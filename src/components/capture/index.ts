@@ -1,9 +1,12 @@
 export { CaptureMarkersPanel } from './CaptureMarkersPanel';
+export { CaptureNotesStream } from './CaptureNotesStream';
+export { TranscriptAttach } from './TranscriptAttach';
 export { GoalsChecklistStrip } from './GoalsChecklistStrip';
 export { BottomHintBar } from './BottomHintBar';
 export { MarkerLabelInput } from './MarkerLabelInput';
 
 export type { CaptureMarkersPanelProps, MarkerType, Marker } from './CaptureMarkersPanel';
+export type { CaptureNotesStreamProps } from './CaptureNotesStream';
 export type { GoalsChecklistStripProps } from './GoalsChecklistStrip';
 export type { BottomHintBarProps, HotkeyHint } from './BottomHintBar';
 export type { MarkerLabelInputProps } from './MarkerLabelInput';
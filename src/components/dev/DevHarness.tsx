@@ -1,9 +1,22 @@
 'use client';
 
-import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef, ChangeEvent } from 'react';
 import { Mode } from '@/types/ui-plan';
-import { useEvents, useMeeting, useCompaction, storage } from '@/storage';
-import { MeetingState, EventRecord } from '@/storage';
+import {
+  useEvents,
+  useMeeting,
+  useCompaction,
+  storage,
+  importModeRules,
+  resetModeRules,
+  importMarkerTypes,
+  resetMarkerTypes,
+} from '@/storage';
+import { MeetingState, EventRecord, MarkerType } from '@/storage';
+import { getRulesEngine } from '@/rules/rules-engine';
+import { RuleSetValidationError } from '@/rules/rule-set';
+import { useMarkerTypes } from '@/hooks/use-marker-types';
+import { MarkerTypeValidationError } from '@/lib/marker-types';
 
 interface DevHarnessProps {
   currentMode: Mode;
@@ -17,6 +30,7 @@ const modeOptions: { value: Mode; label: string }[] = [
   { value: 'meeting_prep', label: 'Meeting Prep' },
   { value: 'meeting_capture', label: 'Meeting Capture' },
   { value: 'meeting_synthesis_min', label: 'Synthesis' },
+  { value: 'meeting_transition', label: 'Transition' },
 ];
 
 const sampleGoals = [
@@ -25,8 +39,6 @@ const sampleGoals = [
   'Confirm next steps',
 ];
 
-const markerTypes = ['decision', 'action', 'risk', 'question'] as const;
-
 export function DevHarness({
   currentMode,
   onModeChange,
@@ -38,12 +50,17 @@ export function DevHarness({
   const [meetingMinutesAway, setMeetingMinutesAway] = useState(30);
   const [meetingDuration, setMeetingDuration] = useState(60);
   const [selectedGoals, setSelectedGoals] = useState<string[]>([]);
-  const [markerType, setMarkerType] = useState<typeof markerTypes[number]>('decision');
+  const [markerType, setMarkerType] = useState<MarkerType>('decision');
   const [markerLabel, setMarkerLabel] = useState('');
   const [slowHydration, setSlowHydration] = useState(false);
   const [timeOverrideEnabled, setTimeOverrideEnabled] = useState(false);
   const [overrideDate, setOverrideDate] = useState('');
   const [overrideTime, setOverrideTime] = useState('');
+  const [rulesStatus, setRulesStatus] = useState<string | null>(null);
+  const rulesInputRef = useRef<HTMLInputElement>(null);
+  const [markerTypesStatus, setMarkerTypesStatus] = useState<string | null>(null);
+  const markerTypesInputRef = useRef<HTMLInputElement>(null);
+  const markerTypes = useMarkerTypes();
 
   // Storage hooks - memoize filter to prevent infinite re-renders
   const eventsFilter = useMemo(() => ({ limit: 50 }), []);
@@ -134,6 +151,45 @@ export function DevHarness({
     URL.revokeObjectURL(url);
   };
 
+  const handleImportRules = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const rules = await importModeRules(await file.text());
+      getRulesEngine().setModeRules(rules);
+      setRulesStatus(`Loaded ${rules.rules.length} rules`);
+    } catch (err) {
+      setRulesStatus(err instanceof RuleSetValidationError ? `Invalid rules: ${err.message}` : 'Import failed');
+    }
+  };
+
+  const handleResetRules = async () => {
+    getRulesEngine().setModeRules(await resetModeRules());
+    setRulesStatus('Using default rules');
+  };
+
+  const handleImportMarkerTypes = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const registry = await importMarkerTypes(await file.text());
+      setMarkerTypesStatus(`Loaded ${registry.types.length} marker types (reopen capture to apply)`);
+    } catch (err) {
+      setMarkerTypesStatus(
+        err instanceof MarkerTypeValidationError ? `Invalid marker types: ${err.message}` : 'Import failed'
+      );
+    }
+  };
+
+  const handleResetMarkerTypes = async () => {
+    await resetMarkerTypes();
+    setMarkerTypesStatus('Using default marker types');
+  };
+
   const toggleGoal = (goal: string) => {
     setSelectedGoals((prev) =>
       prev.includes(goal) ? prev.filter((g) => g !== goal) : [...prev, goal]
@@ -294,12 +350,12 @@ export function DevHarness({
           <div className="space-y-2">
             <select
               value={markerType}
-              onChange={(e) => setMarkerType(e.target.value as typeof markerTypes[number])}
+              onChange={(e) => setMarkerType(e.target.value)}
               className="w-full rounded bg-gray-700 px-2 py-1.5 text-sm"
             >
-              {markerTypes.map((t) => (
-                <option key={t} value={t}>
-                  {t.charAt(0).toUpperCase() + t.slice(1)}
+              {markerTypes.types.map((t) => (
+                <option key={t.id} value={t.id}>
+                  {t.label}
                 </option>
               ))}
             </select>
@@ -389,6 +445,68 @@ export function DevHarness({
           </p>
         </section>
 
+        {/* Mode Rules */}
+        <section className="rounded-lg bg-gray-800 p-3">
+          <h3 className="mb-2 text-xs font-semibold uppercase tracking-wide text-gray-400">
+            Mode Rules
+          </h3>
+          <div className="flex gap-2">
+            <button
+              onClick={() => rulesInputRef.current?.click()}
+              className="flex-1 rounded bg-gray-700 py-1.5 text-sm hover:bg-gray-600"
+            >
+              Import JSON
+            </button>
+            <button
+              onClick={handleResetRules}
+              className="flex-1 rounded bg-gray-700 py-1.5 text-sm hover:bg-gray-600"
+            >
+              Reset to default
+            </button>
+          </div>
+          <input
+            ref={rulesInputRef}
+            type="file"
+            accept="application/json"
+            onChange={handleImportRules}
+            className="hidden"
+          />
+          <p className="mt-2 text-xs text-gray-500">
+            {rulesStatus ?? 'Rule sets follow src/rules/default-mode-rules.json'}
+          </p>
+        </section>
+
+        {/* Marker Types */}
+        <section className="rounded-lg bg-gray-800 p-3">
+          <h3 className="mb-2 text-xs font-semibold uppercase tracking-wide text-gray-400">
+            Marker Types
+          </h3>
+          <div className="flex gap-2">
+            <button
+              onClick={() => markerTypesInputRef.current?.click()}
+              className="flex-1 rounded bg-gray-700 py-1.5 text-sm hover:bg-gray-600"
+            >
+              Import JSON
+            </button>
+            <button
+              onClick={handleResetMarkerTypes}
+              className="flex-1 rounded bg-gray-700 py-1.5 text-sm hover:bg-gray-600"
+            >
+              Reset to default
+            </button>
+          </div>
+          <input
+            ref={markerTypesInputRef}
+            type="file"
+            accept="application/json"
+            onChange={handleImportMarkerTypes}
+            className="hidden"
+          />
+          <p className="mt-2 text-xs text-gray-500">
+            {markerTypesStatus ?? 'Registries follow DEFAULT_MARKER_TYPES in src/lib/marker-types.ts'}
+          </p>
+        </section>
+
         {/* Event Log */}
         <section className="rounded-lg bg-gray-800 p-3">
           <div className="mb-2 flex items-center justify-between">
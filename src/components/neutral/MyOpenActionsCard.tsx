@@ -0,0 +1,100 @@
+'use client';
+
+import { useState, useEffect, useMemo } from 'react';
+import { getOpenActions, isActionOverdue, toLocalDateString, type ActionItem } from '@/storage/action-api';
+
+/** localStorage key for the owner whose actions are shown */
+export const MY_OWNER_STORAGE_KEY = 'agentic-my-owner';
+
+export interface MyOpenActionsCardProps {
+  /** Maximum number of actions to list */
+  limit?: number;
+}
+
+export function MyOpenActionsCard({ limit = 5 }: MyOpenActionsCardProps) {
+  const [actions, setActions] = useState<ActionItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [owner, setOwner] = useState<string>(() =>
+    typeof window === 'undefined' ? '' : (localStorage.getItem(MY_OWNER_STORAGE_KEY) ?? '')
+  );
+
+  useEffect(() => {
+    getOpenActions()
+      .then(setActions)
+      .catch((error) => console.error('[MyOpenActions] Failed to load actions:', error))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const owners = useMemo(
+    () => Array.from(new Set(actions.flatMap((a) => (a.owner ? [a.owner] : [])))).sort(),
+    [actions]
+  );
+  const visible = actions.filter((a) => !owner || a.owner === owner);
+  const today = toLocalDateString();
+
+  const handleOwnerChange = (value: string) => {
+    setOwner(value);
+    if (value) {
+      localStorage.setItem(MY_OWNER_STORAGE_KEY, value);
+    } else {
+      localStorage.removeItem(MY_OWNER_STORAGE_KEY);
+    }
+  };
+
+  if (loading || actions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="rounded-xl bg-white p-6 shadow-sm">
+      <div className="mb-3 flex items-center justify-between">
+        <h3 className="text-sm font-medium text-gray-500">
+          Open Actions ({visible.length})
+        </h3>
+        <select
+          value={owner}
+          onChange={(e) => handleOwnerChange(e.target.value)}
+          className="rounded border border-gray-200 px-2 py-1 text-xs text-gray-600"
+          aria-label="Owner"
+        >
+          <option value="">Everyone</option>
+          {owners.map((name) => (
+            <option key={name} value={name}>
+              {name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="text-sm text-gray-400">Nothing open for {owner}.</p>
+      ) : (
+        <ul className="flex flex-col gap-2">
+          {visible.slice(0, limit).map((action) => (
+            <li
+              key={action.workObjectId}
+              className="rounded-lg border border-gray-100 bg-gray-50 px-4 py-3"
+            >
+              <p className="text-sm text-gray-900">
+                {action.label || <span className="italic text-gray-400">Unlabeled action</span>}
+              </p>
+              <p className="mt-1 text-xs text-gray-500">
+                {action.meetingTitle}
+                {action.owner && !owner && ` · ${action.owner}`}
+                {action.dueDate && (
+                  <span className={isActionOverdue(action, today) ? 'font-medium text-red-600' : ''}>
+                    {' '}· due {action.dueDate}
+                  </span>
+                )}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {visible.length > limit && (
+        <p className="mt-2 text-xs text-gray-400">+{visible.length - limit} more</p>
+      )}
+    </div>
+  );
+}
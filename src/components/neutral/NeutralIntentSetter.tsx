@@ -1,17 +1,37 @@
 'use client';
 
 import { useState, useCallback } from 'react';
+import { LENS_TYPES, LENS_LABELS, type LensType } from '@/compiler';
 
 export interface NeutralIntentSetterProps {
   onIntentSubmit?: (intent: string) => void;
   placeholder?: string;
+  /** Question from the compiler; when set, the input collects an answer */
+  clarificationQuestion?: string | null;
+  /** 1-based clarification round, shown next to the question */
+  clarificationRound?: number;
+  /** Whether the compiler is working on the last submission */
+  isCompiling?: boolean;
+  /** Why the last submission could not be compiled */
+  compilationError?: string | null;
+  /** Pick a lens directly, ending the clarification dialogue */
+  onLensSelect?: (lens: LensType) => void;
+  /** Abandon the clarification dialogue */
+  onClarificationCancel?: () => void;
 }
 
 export function NeutralIntentSetter({
   onIntentSubmit,
   placeholder = "What do you want to focus on?",
+  clarificationQuestion,
+  clarificationRound,
+  isCompiling = false,
+  compilationError,
+  onLensSelect,
+  onClarificationCancel,
 }: NeutralIntentSetterProps) {
   const [intent, setIntent] = useState('');
+  const isClarifying = !!clarificationQuestion;
 
   const handleSubmit = useCallback((e: React.FormEvent) => {
     e.preventDefault();
@@ -24,24 +44,66 @@ export function NeutralIntentSetter({
   return (
     <div className="rounded-xl bg-white p-6 shadow-sm">
       <h2 className="mb-4 text-lg font-medium text-gray-900">
-        What's on your mind?
+        {isClarifying ? 'One quick question' : "What's on your mind?"}
       </h2>
+      {isClarifying && (
+        <div className="mb-4 rounded-lg bg-blue-50 px-4 py-3" data-testid="clarification-question">
+          <p className="text-sm text-blue-900">{clarificationQuestion}</p>
+          {clarificationRound !== undefined && (
+            <p className="mt-1 text-xs text-blue-600">Clarification {clarificationRound}</p>
+          )}
+        </div>
+      )}
       <form onSubmit={handleSubmit}>
         <input
           type="text"
           value={intent}
           onChange={(e) => setIntent(e.target.value)}
-          placeholder={placeholder}
+          placeholder={isClarifying ? 'Type your answer...' : placeholder}
+          disabled={isCompiling}
           className="w-full rounded-lg border border-gray-200 px-4 py-3 text-gray-900 placeholder-gray-400 focus:border-blue-500 focus:outline-none focus:ring-2 focus:ring-blue-500/20"
         />
         <button
           type="submit"
-          disabled={!intent.trim()}
+          disabled={!intent.trim() || isCompiling}
           className="mt-3 w-full rounded-lg bg-blue-600 px-4 py-2.5 font-medium text-white transition hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50"
         >
-          Set Intent
+          {isCompiling ? 'Thinking...' : isClarifying ? 'Answer' : 'Set Intent'}
         </button>
       </form>
+      {compilationError && (
+        <p className="mt-3 rounded-lg bg-red-50 px-4 py-2 text-sm text-red-700" role="alert">
+          Couldn&apos;t compile that intent: {compilationError}
+        </p>
+      )}
+      {isClarifying && (
+        <div className="mt-4 flex flex-wrap items-center gap-2">
+          {onLensSelect && (
+            <>
+              <span className="text-xs text-gray-500">Or pick a view:</span>
+              {LENS_TYPES.map((lens) => (
+                <button
+                  key={lens}
+                  type="button"
+                  onClick={() => onLensSelect(lens)}
+                  className="rounded-full bg-gray-100 px-3 py-1 text-xs font-medium text-gray-700 hover:bg-gray-200"
+                >
+                  {LENS_LABELS[lens]}
+                </button>
+              ))}
+            </>
+          )}
+          {onClarificationCancel && (
+            <button
+              type="button"
+              onClick={onClarificationCancel}
+              className="ml-auto text-xs text-gray-400 hover:text-gray-600"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      )}
     </div>
   );
 }
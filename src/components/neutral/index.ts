@@ -1,7 +1,9 @@
 export { NeutralIntentSetter } from './NeutralIntentSetter';
 export { SuggestedIntents } from './SuggestedIntents';
 export { AdjacentModeSuggestions } from './AdjacentModeSuggestions';
+export { MyOpenActionsCard } from './MyOpenActionsCard';
 
 export type { NeutralIntentSetterProps } from './NeutralIntentSetter';
 export type { SuggestedIntentsProps } from './SuggestedIntents';
 export type { AdjacentModeSuggestionsProps, AdjacentModeSuggestion } from './AdjacentModeSuggestions';
+export type { MyOpenActionsCardProps } from './MyOpenActionsCard';
@@ -1,6 +1,10 @@
 'use client';
 
 import { useState } from 'react';
+import { toast } from 'sonner';
+import { useMeetingContext } from '@/contexts/MeetingContext';
+import { useCarryOver } from '@/hooks/use-carry-over';
+import type { CarryOverItem } from '@/storage/series-api';
 
 export interface ContextSnippet {
   id: string;
@@ -20,8 +24,75 @@ export function ContextSnippetsCard({
 }: ContextSnippetsCardProps) {
   const [collapsed, setCollapsed] = useState(initialCollapsed);
   const [expandedSnippetId, setExpandedSnippetId] = useState<string | null>(null);
+  const meetingContext = useMeetingContext();
+  const carryOver = useCarryOver(meetingContext?.meetingId ?? null, meetingContext?.refresh);
+
+  const handleCarryForward = async (item: CarryOverItem) => {
+    try {
+      await carryOver.carryForward(item);
+      toast.success(item.kind === 'goal' ? 'Goal carried forward' : 'Marker carried forward');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to carry item forward');
+    }
+  };
+
+  const handleClose = async (item: CarryOverItem) => {
+    try {
+      await carryOver.close(item);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to close item');
+    }
+  };
+
+  const carryOverSection = carryOver.items.length > 0 && (
+    <div className="mb-4 rounded-lg border border-amber-100 bg-amber-50 p-4">
+      <h4 className="text-xs font-medium uppercase tracking-wide text-amber-700">
+        Open from last time
+        {carryOver.previousMeeting && (
+          <span className="ml-1 font-normal normal-case text-amber-600">
+            ({new Date(carryOver.previousMeeting.startTime).toLocaleDateString()})
+          </span>
+        )}
+      </h4>
+      <ul className="mt-2 flex flex-col gap-2">
+        {carryOver.items.map((item) => (
+          <li key={item.workObjectId} className="flex items-center gap-2">
+            <span className="rounded bg-white px-1.5 py-0.5 text-xs text-gray-500">
+              {item.kind === 'goal' ? 'goal' : item.markerType}
+            </span>
+            <span className="flex-1 text-sm text-gray-700">
+              {item.text || <span className="italic text-gray-400">Unlabeled</span>}
+            </span>
+            <button
+              onClick={() => handleCarryForward(item)}
+              className="rounded px-2 py-0.5 text-xs text-blue-600 hover:bg-blue-50"
+            >
+              Carry forward
+            </button>
+            <button
+              onClick={() => handleClose(item)}
+              className="rounded px-2 py-0.5 text-xs text-gray-500 hover:bg-gray-100"
+            >
+              Close
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
 
   if (snippets.length === 0) {
+    if (carryOverSection) {
+      return (
+        <div className="rounded-xl bg-white p-6 shadow-sm">
+          <h3 className="mb-3 text-sm font-medium text-gray-500">
+            Context
+          </h3>
+          {carryOverSection}
+        </div>
+      );
+    }
+
     return (
       <div className="rounded-xl bg-gray-50 p-6">
         <h3 className="text-sm font-medium text-gray-400">
@@ -36,6 +107,7 @@ export function ContextSnippetsCard({
 
   return (
     <div className="rounded-xl bg-white p-6 shadow-sm">
+      {carryOverSection}
       <button
         onClick={() => setCollapsed(!collapsed)}
         className="flex w-full items-center justify-between"
@@ -1,11 +1,11 @@
 'use client';
 
 import { useState } from 'react';
-import { DecisionCapsule, Mode } from '@/types/ui-plan';
+import { CapsuleAction, DecisionCapsule } from '@/types/ui-plan';
 
 export interface DecisionCapsulePanelProps {
   capsule: DecisionCapsule;
-  onAction?: (action: { type: string; target?: Mode }) => void;
+  onAction?: (action: CapsuleAction) => void;
 }
 
 const confidenceColors = {
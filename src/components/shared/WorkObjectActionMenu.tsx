@@ -6,17 +6,33 @@
  * Universal dropdown menu for WorkObject actions including:
  * - Link to... (with link type submenu)
  * - Delete (soft-delete)
+ * - Agent suggestions (ghost entries to accept or reject)
  * - Flag toggles (future)
  */
 
 import { useState, useRef, useEffect, useCallback, type ReactNode } from 'react';
 import type { LinkType } from '@/storage/work-object-types';
 
+/**
+ * An agent suggestion for this item, shown as a ghost entry. Nothing is
+ * stored unless the user accepts it.
+ */
+export interface SuggestedMenuAction {
+  id: string;
+  label: string;
+  /** Why the agent suggests it */
+  reason?: string;
+  onAccept: () => void;
+  onReject: () => void;
+}
+
 interface WorkObjectActionMenuProps {
   /** Called when user starts linking with a specific type */
   onStartLinking?: (linkType: LinkType) => void;
   /** Called when user wants to delete the item */
   onDelete?: () => void;
+  /** Agent suggestions for this item */
+  suggestions?: SuggestedMenuAction[];
   /** Whether the menu is disabled */
   disabled?: boolean;
   /** Custom trigger element (defaults to three-dot button) */
@@ -35,6 +51,7 @@ const linkTypeOptions: Array<{ type: LinkType; label: string; icon: string }> =
 export function WorkObjectActionMenu({
   onStartLinking,
   onDelete,
+  suggestions = [],
   disabled = false,
   trigger,
   position = 'bottom-right',
@@ -111,7 +128,7 @@ export function WorkObjectActionMenu({
           ref={triggerRef}
           onClick={handleToggle}
           disabled={disabled}
-          className="rounded p-1 text-gray-400 transition-colors hover:bg-gray-700 hover:text-white disabled:cursor-not-allowed disabled:opacity-50"
+          className="relative rounded p-1 text-gray-400 transition-colors hover:bg-gray-700 hover:text-white disabled:cursor-not-allowed disabled:opacity-50"
           aria-label="Actions"
           aria-expanded={isOpen}
           aria-haspopup="menu"
@@ -121,6 +138,10 @@ export function WorkObjectActionMenu({
             <circle cx="8" cy="8" r="1.5" />
             <circle cx="8" cy="13" r="1.5" />
           </svg>
+          {/* Pending suggestions indicator */}
+          {suggestions.length > 0 && (
+            <span className="absolute right-0 top-0 h-1.5 w-1.5 rounded-full bg-sky-400" />
+          )}
         </button>
       )}
 
@@ -166,8 +187,44 @@ export function WorkObjectActionMenu({
             </div>
           )}
 
+          {/* Agent suggestions: ghost entries until accepted */}
+          {suggestions.length > 0 && (
+            <>
+              {onStartLinking && <div className="my-1 border-t border-gray-700" />}
+              <p className="px-3 pb-1 pt-2 text-xs uppercase tracking-wide text-gray-500">Suggested</p>
+              {suggestions.map((suggestion) => (
+                <div
+                  key={suggestion.id}
+                  className="mx-1 flex items-center gap-2 rounded border border-dashed border-gray-600 px-2 py-1.5 text-sm italic text-gray-400"
+                  title={suggestion.reason}
+                >
+                  <span className="flex-1">{suggestion.label}</span>
+                  <button
+                    onClick={() => {
+                      suggestion.onAccept();
+                      setIsOpen(false);
+                    }}
+                    className="not-italic text-emerald-400 hover:text-emerald-300"
+                    role="menuitem"
+                    aria-label={`Accept: ${suggestion.label}`}
+                  >
+                    ✓
+                  </button>
+                  <button
+                    onClick={suggestion.onReject}
+                    className="not-italic text-gray-500 hover:text-gray-300"
+                    role="menuitem"
+                    aria-label={`Reject: ${suggestion.label}`}
+                  >
+                    ✕
+                  </button>
+                </div>
+              ))}
+            </>
+          )}
+
           {/* Divider */}
-          {onStartLinking && onDelete && (
+          {(onStartLinking || suggestions.length > 0) && onDelete && (
             <div className="my-1 border-t border-gray-700" />
           )}
 
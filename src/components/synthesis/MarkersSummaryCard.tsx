@@ -1,29 +1,39 @@
 'use client';
 
-import { Marker, MarkerType } from '@/components/capture/CaptureMarkersPanel';
+import { useState } from 'react';
+import { Marker } from '@/components/capture/CaptureMarkersPanel';
+import { useMeetingContext } from '@/contexts/MeetingContext';
+import { useSuggestionsContext } from '@/contexts/SuggestionsContext';
+import { useMarkerTypes } from '@/hooks/use-marker-types';
+import { useTranscript } from '@/hooks/use-transcript';
+import { groupMarkers, getMarkerTypeDefinition, MARKER_COLOR_CLASSES } from '@/lib/marker-types';
+import { describeSuggestion, getSuggestionsForMarker, type MarkerSuggestion } from '@/lib/agent-suggestions';
+import { alignTranscriptToMarkers } from '@/lib/transcript';
+import { formatNoteOffset } from '@/storage/capture-note-api';
 
 export interface MarkersSummaryCardProps {
-  markers: Marker[];
+  /** Markers to summarize (falls back to the active meeting) */
+  markers?: Marker[];
 }
 
-const markerConfig: Record<MarkerType, { label: string; pluralLabel: string; color: string }> = {
-  decision: { label: 'Decision', pluralLabel: 'Decisions', color: 'bg-purple-100 text-purple-800' },
-  action: { label: 'Action', pluralLabel: 'Actions', color: 'bg-blue-100 text-blue-800' },
-  risk: { label: 'Risk', pluralLabel: 'Risks', color: 'bg-amber-100 text-amber-800' },
-  question: { label: 'Question', pluralLabel: 'Questions', color: 'bg-emerald-100 text-emerald-800' },
-};
+export function MarkersSummaryCard({ markers: propsMarkers }: MarkersSummaryCardProps) {
+  const meetingContext = useMeetingContext();
+  const hasActiveMeeting = !!meetingContext?.meetingId;
+  const markers = hasActiveMeeting ? meetingContext.markers : (propsMarkers ?? []);
 
-export function MarkersSummaryCard({ markers }: MarkersSummaryCardProps) {
-  // Group markers by type
-  const grouped = markers.reduce((acc, marker) => {
-    if (!acc[marker.type]) {
-      acc[marker.type] = [];
-    }
-    acc[marker.type].push(marker);
-    return acc;
-  }, {} as Record<MarkerType, Marker[]>);
+  // Group markers by synthesis group (types sharing a group are listed together)
+  const markerTypes = useMarkerTypes();
+  const groups = groupMarkers(markerTypes, markers);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
 
-  const typeOrder: MarkerType[] = ['decision', 'action', 'risk', 'question'];
+  // Transcript around each marker, when one is attached to the meeting
+  const { segments } = useTranscript(meetingContext?.meetingId ?? null);
+  const transcriptByMarker = alignTranscriptToMarkers(segments, markers);
+
+  // Agent suggestions, shown as ghost items until accepted
+  const suggestionsContext = useSuggestionsContext();
+  const suggestions = suggestionsContext?.suggestions ?? [];
+  const ghostMarkers = suggestions.filter((s): s is MarkerSuggestion => s.kind === 'marker');
 
   return (
     <div className="rounded-xl bg-white p-6 shadow-sm">
@@ -31,46 +41,142 @@ export function MarkersSummaryCard({ markers }: MarkersSummaryCardProps) {
         Meeting Markers ({markers.length})
       </h3>
 
-      {markers.length === 0 ? (
+      {markers.length === 0 && ghostMarkers.length === 0 ? (
         <p className="py-4 text-center text-sm text-gray-400">
           No markers captured during this meeting
         </p>
       ) : (
         <div className="flex flex-col gap-4">
-          {typeOrder.map((type) => {
-            const items = grouped[type];
-            if (!items || items.length === 0) return null;
-
-            const config = markerConfig[type];
+          {groups.map(({ group, types, items }) => {
+            const [first] = types;
+            const heading = items.length === 1 ? first.label : group;
 
             return (
-              <div key={type}>
+              <div key={group}>
                 <div className="mb-2 flex items-center gap-2">
-                  <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${config.color}`}>
-                    {items.length} {items.length === 1 ? config.label : config.pluralLabel}
+                  <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${MARKER_COLOR_CLASSES[first.color].badge}`}>
+                    {items.length} {heading}
                   </span>
                 </div>
                 <div className="flex flex-col gap-1">
-                  {items.map((marker) => (
+                  {items.map((marker) => {
+                    const config = types.find((t) => t.id === marker.type) ?? first;
+                    const transcript = transcriptByMarker[marker.id];
+                    const expanded = expandedId === marker.id;
+                    const markerSuggestions = getSuggestionsForMarker(suggestions, marker.id);
+
+                    return (
+                      <div key={marker.id} className="rounded-lg bg-gray-50">
+                        <button
+                          onClick={() => setExpandedId(expanded ? null : marker.id)}
+                          disabled={!transcript}
+                          className="flex w-full items-center gap-3 px-3 py-2 text-left disabled:cursor-default"
+                        >
+                          {types.length > 1 && (
+                            <span className={`h-2 w-2 rounded-full ${MARKER_COLOR_CLASSES[config.color].dot}`} />
+                          )}
+                          <span className="text-sm text-gray-700">
+                            {marker.label || `Unmarked ${config.label.toLowerCase()}`}
+                          </span>
+                          {transcript && (
+                            <span className="text-xs text-gray-400">{expanded ? '▾' : '▸'} transcript</span>
+                          )}
+                          <span className="ml-auto text-xs text-gray-400">
+                            {new Date(marker.timestamp).toLocaleTimeString([], {
+                              hour: '2-digit',
+                              minute: '2-digit',
+                            })}
+                          </span>
+                        </button>
+                        {expanded && transcript && (
+                          <ul className="flex flex-col gap-1 border-t border-gray-200 px-3 py-2">
+                            {transcript.map((segment) => (
+                              <li key={segment.id} className="flex gap-3 text-xs text-gray-600">
+                                {/* Offset from the marker: what was said just before or after it */}
+                                <span className="font-mono text-gray-400">
+                                  {formatNoteOffset(segment.startTime - marker.timestamp)}
+                                </span>
+                                <span>
+                                  {segment.speaker && (
+                                    <span className="font-medium text-gray-700">{segment.speaker}: </span>
+                                  )}
+                                  {segment.text}
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                        {markerSuggestions.length > 0 && (
+                          <div className="flex flex-wrap gap-1 px-3 pb-2">
+                            {markerSuggestions.map((suggestion) => (
+                              <span
+                                key={suggestion.id}
+                                className="flex items-center gap-1 rounded-full border border-dashed border-gray-300 px-2 py-0.5 text-xs italic text-gray-400"
+                                title={suggestion.reason}
+                              >
+                                {describeSuggestion(suggestion, markers)}
+                                <button
+                                  onClick={() => suggestionsContext?.accept(suggestion)}
+                                  className="not-italic text-emerald-600 hover:text-emerald-800"
+                                  aria-label="Accept suggestion"
+                                >
+                                  ✓
+                                </button>
+                                <button
+                                  onClick={() => suggestionsContext?.reject(suggestion)}
+                                  className="not-italic text-gray-400 hover:text-gray-600"
+                                  aria-label="Reject suggestion"
+                                >
+                                  ✕
+                                </button>
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+
+          {/* Suggested markers: ghost rows until accepted */}
+          {ghostMarkers.length > 0 && (
+            <div>
+              <p className="mb-2 text-xs uppercase tracking-wide text-gray-400">Suggested</p>
+              <div className="flex flex-col gap-1">
+                {ghostMarkers.map((suggestion) => {
+                  const config = getMarkerTypeDefinition(markerTypes, suggestion.markerType);
+
+                  return (
                     <div
-                      key={marker.id}
-                      className="flex items-center gap-3 rounded-lg bg-gray-50 px-3 py-2"
+                      key={suggestion.id}
+                      className="flex items-center gap-3 rounded-lg border border-dashed border-gray-300 px-3 py-2"
+                      title={suggestion.reason}
                     >
-                      <span className="text-sm text-gray-700">
-                        {marker.label || `Unmarked ${config.label.toLowerCase()}`}
-                      </span>
-                      <span className="ml-auto text-xs text-gray-400">
-                        {new Date(marker.timestamp).toLocaleTimeString([], {
-                          hour: '2-digit',
-                          minute: '2-digit',
-                        })}
+                      <span className={`rounded-full px-2 py-0.5 text-xs font-medium opacity-60 ${MARKER_COLOR_CLASSES[config.color].badge}`}>
+                        {config.label}
                       </span>
+                      <span className="text-sm italic text-gray-500">{suggestion.text}</span>
+                      <button
+                        onClick={() => suggestionsContext?.accept(suggestion)}
+                        className="ml-auto text-xs font-medium text-blue-600 hover:text-blue-800"
+                      >
+                        Accept
+                      </button>
+                      <button
+                        onClick={() => suggestionsContext?.reject(suggestion)}
+                        className="text-xs text-gray-400 hover:text-gray-600"
+                      >
+                        Reject
+                      </button>
                     </div>
-                  ))}
-                </div>
+                  );
+                })}
               </div>
-            );
-          })}
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -1,12 +1,47 @@
 'use client';
 
 import { useState } from 'react';
+import { toast } from 'sonner';
+import { useMeetingContext } from '@/contexts/MeetingContext';
+import type { Marker } from '@/components/capture/CaptureMarkersPanel';
+import type { ActionChanges } from '@/storage/action-api';
+import type { ActionStatus } from '@/storage/types';
 
 export interface NextActionsCardProps {
   onCreateFollowUp?: (type: 'email' | 'intent', content: string) => void;
+  /** Markers to list action items from (falls back to the active meeting) */
+  markers?: Marker[];
+  /** Candidate owners (falls back to the active meeting's attendees) */
+  attendees?: string[];
+  onActionUpdate?: (markerId: string, changes: ActionChanges) => Promise<void>;
 }
 
-export function NextActionsCard({ onCreateFollowUp }: NextActionsCardProps) {
+const statusClasses: Record<ActionStatus, string> = {
+  open: 'text-gray-900',
+  done: 'text-gray-400 line-through',
+  dropped: 'text-gray-400 italic',
+};
+
+export function NextActionsCard({
+  onCreateFollowUp,
+  markers: propsMarkers,
+  attendees: propsAttendees,
+  onActionUpdate: propsOnActionUpdate,
+}: NextActionsCardProps) {
+  const meetingContext = useMeetingContext();
+  const hasActiveMeeting = !!meetingContext?.meetingId;
+  const markers = hasActiveMeeting ? meetingContext.markers : (propsMarkers ?? []);
+  const attendees = hasActiveMeeting ? (meetingContext.meeting?.attendees ?? []) : (propsAttendees ?? []);
+  const onActionUpdate = propsOnActionUpdate ?? meetingContext?.updateAction;
+  const actions = markers.filter((m) => m.type === 'action');
+
+  const handleActionUpdate = async (markerId: string, changes: ActionChanges) => {
+    try {
+      await onActionUpdate?.(markerId, changes);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to update action');
+    }
+  };
   const [showEmailDraft, setShowEmailDraft] = useState(false);
   const [emailContent, setEmailContent] = useState('');
   const [showIntentInput, setShowIntentInput] = useState(false);
@@ -34,6 +69,62 @@ export function NextActionsCard({ onCreateFollowUp }: NextActionsCardProps) {
         Next Actions
       </h3>
 
+      {actions.length > 0 && (
+        <ul className="mb-4 flex flex-col gap-2">
+          {actions.map((marker) => {
+            const status = marker.action?.status ?? 'open';
+            return (
+              <li key={marker.id} className="rounded-lg border border-gray-100 bg-gray-50 px-4 py-3">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={status === 'done'}
+                    disabled={!onActionUpdate}
+                    onChange={(e) => handleActionUpdate(marker.id, { status: e.target.checked ? 'done' : 'open' })}
+                    className="h-4 w-4 rounded border-gray-300 text-blue-600"
+                    aria-label="Done"
+                  />
+                  <span className={`flex-1 text-sm ${statusClasses[status]}`}>
+                    {marker.label || <span className="italic text-gray-400">Unlabeled action</span>}
+                  </span>
+                  <button
+                    onClick={() => handleActionUpdate(marker.id, { status: status === 'dropped' ? 'open' : 'dropped' })}
+                    disabled={!onActionUpdate}
+                    className="text-xs text-gray-400 hover:text-gray-600"
+                  >
+                    {status === 'dropped' ? 'Reopen' : 'Drop'}
+                  </button>
+                </div>
+                <div className="mt-2 flex gap-2 pl-6">
+                  <select
+                    value={marker.action?.owner ?? ''}
+                    disabled={!onActionUpdate}
+                    onChange={(e) => handleActionUpdate(marker.id, { owner: e.target.value || null })}
+                    className="rounded border border-gray-200 bg-white px-2 py-1 text-xs text-gray-700"
+                    aria-label="Owner"
+                  >
+                    <option value="">Unassigned</option>
+                    {attendees.map((attendee) => (
+                      <option key={attendee} value={attendee}>
+                        {attendee}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="date"
+                    value={marker.action?.dueDate ?? ''}
+                    disabled={!onActionUpdate}
+                    onChange={(e) => handleActionUpdate(marker.id, { dueDate: e.target.value || null })}
+                    className="rounded border border-gray-200 bg-white px-2 py-1 text-xs text-gray-700"
+                    aria-label="Due date"
+                  />
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
       <div className="flex flex-col gap-3">
         {/* Email draft option */}
         {!showEmailDraft ? (
@@ -0,0 +1,109 @@
+'use client';
+
+import { useState, useMemo } from 'react';
+import { toast } from 'sonner';
+import { useMeetingContext } from '@/contexts/MeetingContext';
+import { useMarkerTypes } from '@/hooks/use-marker-types';
+import { buildRecap, buildRecapMailto, renderRecap, type RecapFormat } from '@/lib/recap';
+import type { MeetingState } from '@/storage/types';
+
+export interface RecapExportCardProps {
+  /** Meeting to recap (falls back to the active meeting) */
+  meeting?: MeetingState;
+}
+
+const formatConfig: Record<RecapFormat, { label: string; extension: string; mimeType: string }> = {
+  markdown: { label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  html: { label: 'HTML', extension: 'html', mimeType: 'text/html' },
+  text: { label: 'Email', extension: 'txt', mimeType: 'text/plain' },
+};
+
+const formatOrder: RecapFormat[] = ['markdown', 'html', 'text'];
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'meeting';
+}
+
+export function RecapExportCard({ meeting: propsMeeting }: RecapExportCardProps) {
+  const meetingContext = useMeetingContext();
+  const meeting = meetingContext?.meeting ?? propsMeeting;
+  const [format, setFormat] = useState<RecapFormat>('markdown');
+  const markerTypes = useMarkerTypes();
+
+  const recap = useMemo(() => (meeting ? buildRecap(meeting, markerTypes) : null), [meeting, markerTypes]);
+  const content = useMemo(() => (recap ? renderRecap(recap, format) : ''), [recap, format]);
+
+  if (!recap) {
+    return null;
+  }
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(content);
+      toast.success('Recap copied');
+    } catch {
+      toast.error('Could not copy to clipboard');
+    }
+  };
+
+  const handleDownload = () => {
+    const { extension, mimeType } = formatConfig[format];
+    const blob = new Blob([content], { type: mimeType });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `recap-${slugify(recap.title)}-${recap.date}.${extension}`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="rounded-xl bg-white p-6 shadow-sm">
+      <div className="mb-4 flex items-center justify-between">
+        <h3 className="text-sm font-medium text-gray-500">
+          Recap
+        </h3>
+        <div className="flex gap-1 rounded-lg bg-gray-100 p-1">
+          {formatOrder.map((f) => (
+            <button
+              key={f}
+              onClick={() => setFormat(f)}
+              className={`rounded-md px-3 py-1 text-xs font-medium ${
+                format === f ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {formatConfig[f].label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <pre className="max-h-64 overflow-auto whitespace-pre-wrap rounded-lg border border-gray-100 bg-gray-50 p-4 text-xs text-gray-700">
+        {content}
+      </pre>
+
+      <div className="mt-3 flex gap-2">
+        <button
+          onClick={handleCopy}
+          className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
+        >
+          Copy
+        </button>
+        <button
+          onClick={handleDownload}
+          className="rounded-lg px-4 py-2 text-sm text-gray-600 hover:bg-gray-100"
+        >
+          Download .{formatConfig[format].extension}
+        </button>
+        {format === 'text' && (
+          <a
+            href={buildRecapMailto(recap)}
+            className="rounded-lg px-4 py-2 text-sm text-gray-600 hover:bg-gray-100"
+          >
+            Open in email
+          </a>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+'use client';
+
+import { useRef, type ChangeEvent } from 'react';
+import { toast } from 'sonner';
+import { useMeetingContext } from '@/contexts/MeetingContext';
+import { useSuggestionsContext } from '@/contexts/SuggestionsContext';
+import { useMarkerTypes } from '@/hooks/use-marker-types';
+import { useTranscriptImport } from '@/hooks/use-transcript-import';
+import { getMarkerTypeDefinition, MARKER_COLOR_CLASSES } from '@/lib/marker-types';
+import type { MarkerCandidate } from '@/lib/marker-candidates';
+import { formatNoteOffset } from '@/storage/capture-note-api';
+
+export interface TranscriptImportCardProps {
+  /** Calendar event the transcript belongs to (falls back to the active meeting) */
+  eventId?: string;
+}
+
+export function TranscriptImportCard({ eventId }: TranscriptImportCardProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const meetingContext = useMeetingContext();
+  const markerTypes = useMarkerTypes();
+  const suggestionsContext = useSuggestionsContext();
+  const { meetingUid, candidates, importFile, accept, dismiss } = useTranscriptImport(
+    eventId ?? null,
+    meetingContext?.meetingId ?? null
+  );
+
+  // For the active meeting, candidates show up as ghost markers in Meeting Markers
+  const isActiveMeeting = !!meetingUid && meetingUid === meetingContext?.meetingId;
+  const listCandidates = !(suggestionsContext && isActiveMeeting);
+
+  if (!eventId && !meetingContext?.meetingId) {
+    return null;
+  }
+
+  const handleFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const result = await importFile(file);
+      suggestionsContext?.refresh();
+      toast.success(`Imported ${result.segments} segments, ${result.candidates} suggested markers`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to import transcript');
+    }
+  };
+
+  const handleAccept = async (toAccept: MarkerCandidate[]) => {
+    try {
+      const count = await accept(toAccept);
+      if (isActiveMeeting) meetingContext?.refresh();
+      toast.success(count === 1 ? 'Marker added' : `${count} markers added`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to add markers');
+    }
+  };
+
+  return (
+    <div className="rounded-xl bg-white p-6 shadow-sm">
+      <div className="mb-4 flex items-center justify-between">
+        <h3 className="text-sm font-medium text-gray-500">
+          Transcript
+        </h3>
+        <div className="flex gap-2">
+          {listCandidates && candidates.length > 1 && (
+            <button
+              onClick={() => handleAccept(candidates)}
+              className="rounded-lg px-3 py-1 text-xs font-medium text-gray-600 hover:bg-gray-100"
+            >
+              Accept all
+            </button>
+          )}
+          <button
+            onClick={() => inputRef.current?.click()}
+            className="rounded-lg bg-gray-100 px-3 py-1 text-xs font-medium text-gray-700 hover:bg-gray-200"
+          >
+            Import
+          </button>
+        </div>
+      </div>
+
+      {candidates.length === 0 ? (
+        <p className="py-4 text-center text-sm text-gray-400">
+          Import a VTT, SRT, Zoom or Teams transcript to find decisions, actions and questions
+        </p>
+      ) : !listCandidates ? (
+        <p className="py-4 text-center text-sm text-gray-400">
+          {candidates.length} suggested {candidates.length === 1 ? 'marker' : 'markers'} to review in Meeting Markers
+        </p>
+      ) : (
+        <ul className="flex flex-col gap-1">
+          {candidates.map((candidate) => {
+            const config = getMarkerTypeDefinition(markerTypes, candidate.type);
+
+            return (
+              <li key={candidate.id} className="flex items-start gap-3 rounded-lg bg-gray-50 px-3 py-2">
+                <span className={`mt-0.5 rounded-full px-2 py-0.5 text-xs font-medium ${MARKER_COLOR_CLASSES[config.color].badge}`}>
+                  {config.label}
+                </span>
+                <div className="min-w-0 flex-1">
+                  <p className="text-sm text-gray-700">{candidate.text}</p>
+                  <p className="text-xs text-gray-400" title={`Matched "${candidate.cue}"`}>
+                    <span className="font-mono">{formatNoteOffset(candidate.offsetMs)}</span>
+                    {candidate.speaker && ` · ${candidate.speaker}`}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleAccept([candidate])}
+                  className="text-xs font-medium text-blue-600 hover:text-blue-800"
+                >
+                  Accept
+                </button>
+                <button
+                  onClick={() => dismiss(candidate.id)}
+                  className="text-xs text-gray-400 hover:text-gray-600"
+                >
+                  Dismiss
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".vtt,.srt,.txt,.json,text/vtt,text/plain,application/json"
+        onChange={handleFile}
+        className="hidden"
+      />
+    </div>
+  );
+}
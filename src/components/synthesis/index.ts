@@ -1,7 +1,11 @@
 export { GoalsOutcomeCard } from './GoalsOutcomeCard';
 export { MarkersSummaryCard } from './MarkersSummaryCard';
 export { NextActionsCard } from './NextActionsCard';
+export { RecapExportCard } from './RecapExportCard';
+export { TranscriptImportCard } from './TranscriptImportCard';
 
 export type { GoalsOutcomeCardProps } from './GoalsOutcomeCard';
 export type { MarkersSummaryCardProps } from './MarkersSummaryCard';
 export type { NextActionsCardProps } from './NextActionsCard';
+export type { RecapExportCardProps } from './RecapExportCard';
+export type { TranscriptImportCardProps } from './TranscriptImportCard';
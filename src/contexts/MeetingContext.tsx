@@ -6,10 +6,13 @@
  * Provides meeting state and operations to components throughout the app.
  * Used by CaptureMarkersPanel to create markers via hotkeys and read live marker data.
  * Used by My3GoalsCard for goal CRUD operations.
+ * Used by NextActionsCard to assign and close action markers.
+ * Used by ContextSnippetsCard to refresh after carrying items forward.
  */
 
 import { createContext, useContext, ReactNode, useCallback } from 'react';
 import { storage, MeetingState } from '@/storage';
+import { updateActionMarker, type ActionChanges } from '@/storage/action-api';
 import type { MarkerType, Marker } from '@/components/capture/CaptureMarkersPanel';
 import type { My3Goal } from '@/components/prep/My3GoalsCard';
 
@@ -21,11 +24,14 @@ interface MeetingContextValue {
   // Marker operations
   addMarker: (type: MarkerType, label?: string) => Promise<void>;
   deleteMarker: (markerId: string) => Promise<void>;
+  updateAction: (markerId: string, changes: ActionChanges) => Promise<void>;
   // Goal operations
   addGoal: (text: string) => Promise<void>;
   updateGoal: (goalId: string, text: string) => Promise<void>;
   deleteGoal: (goalId: string) => Promise<void>;
   toggleGoal: (goalId: string, achieved: boolean) => Promise<void>;
+  // Reload meeting data after changes made outside the context
+  refresh: () => void;
 }
 
 const MeetingContext = createContext<MeetingContextValue | null>(null);
@@ -62,6 +68,15 @@ export function MeetingProvider({
     [meetingId, onDataChanged]
   );
 
+  const updateAction = useCallback(
+    async (markerId: string, changes: ActionChanges) => {
+      if (!meetingId) return;
+      await updateActionMarker(meetingId, markerId, changes);
+      onDataChanged?.();
+    },
+    [meetingId, onDataChanged]
+  );
+
   // Goal operations
   const addGoal = useCallback(
     async (text: string) => {
@@ -101,6 +116,10 @@ export function MeetingProvider({
     [meetingId, onDataChanged]
   );
 
+  const refresh = useCallback(() => {
+    onDataChanged?.();
+  }, [onDataChanged]);
+
   // Convert storage markers to component marker format (filter out soft-deleted)
   const markers: Marker[] = (meeting?.markers ?? [])
     .filter((m) => !(m as { deletedAt?: number }).deletedAt)
@@ -109,6 +128,7 @@ export function MeetingProvider({
       type: m.type as MarkerType,
       label: m.label,
       timestamp: m.timestamp,
+      action: m.action,
     }));
 
   // Convert storage goals to component goal format (filter out soft-deleted)
@@ -130,10 +150,12 @@ export function MeetingProvider({
         goals,
         addMarker,
         deleteMarker,
+        updateAction,
         addGoal,
         updateGoal,
         deleteGoal,
         toggleGoal,
+        refresh,
       }}
     >
       {children}
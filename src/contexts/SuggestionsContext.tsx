@@ -0,0 +1,115 @@
+'use client';
+
+/**
+ * Suggestions Context
+ *
+ * Provides the agent's suggestions for the active meeting to components
+ * that render them as ghost items.
+ * Used by CaptureMarkersPanel and MarkersSummaryCard to show suggested
+ * markers, flags and links, and by WorkObjectActionMenu (through them) to
+ * accept or reject them.
+ * Used by TranscriptImportCard to refresh after an import.
+ * Must be nested inside MeetingProvider.
+ */
+
+import { createContext, useContext, useEffect, useState, useCallback, ReactNode } from 'react';
+import { toast } from 'sonner';
+import { useMeetingContext } from './MeetingContext';
+import { getSuggestions, acceptSuggestion, rejectSuggestion } from '@/storage/suggestion-api';
+import { LinkValidationError } from '@/storage/work-object-api';
+import type { AgentSuggestion } from '@/lib/agent-suggestions';
+
+interface SuggestionsContextValue {
+  suggestions: AgentSuggestion[];
+  /** Create what the suggestion proposes */
+  accept: (suggestion: AgentSuggestion) => Promise<void>;
+  /** Dismiss the suggestion for good */
+  reject: (suggestion: AgentSuggestion) => Promise<void>;
+  /** Recompute after changes the meeting doesn't reflect (e.g. a transcript import) */
+  refresh: () => void;
+}
+
+const SuggestionsContext = createContext<SuggestionsContextValue | null>(null);
+
+export function SuggestionsProvider({ children }: { children: ReactNode }) {
+  const meetingContext = useMeetingContext();
+  const meetingId = meetingContext?.meetingId ?? null;
+  const meetingUpdatedAt = meetingContext?.meeting?.updatedAt;
+  const refreshMeeting = meetingContext?.refresh;
+
+  const [suggestions, setSuggestions] = useState<AgentSuggestion[]>([]);
+  const [version, setVersion] = useState(0);
+
+  // Recompute when the meeting changes (new markers, labels) or after a decision
+  useEffect(() => {
+    if (!meetingId) return;
+
+    let cancelled = false;
+    getSuggestions(meetingId)
+      .then((result) => {
+        if (!cancelled) setSuggestions(result);
+      })
+      .catch((error) => console.error('[Suggestions] Failed to load suggestions:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [meetingId, meetingUpdatedAt, version]);
+
+  const accept = useCallback(
+    async (suggestion: AgentSuggestion) => {
+      if (!meetingId) return;
+      setSuggestions((prev) => prev.filter((s) => s.id !== suggestion.id));
+
+      try {
+        await acceptSuggestion(meetingId, suggestion);
+        refreshMeeting?.();
+      } catch (error) {
+        if (error instanceof LinkValidationError) {
+          toast.error(`Cannot create link: ${error.message}`);
+        } else {
+          toast.error('Failed to accept suggestion');
+          console.error('Suggestion accept failed:', error);
+        }
+      }
+      setVersion((v) => v + 1);
+    },
+    [meetingId, refreshMeeting]
+  );
+
+  const reject = useCallback(
+    async (suggestion: AgentSuggestion) => {
+      if (!meetingId) return;
+      setSuggestions((prev) => prev.filter((s) => s.id !== suggestion.id));
+
+      try {
+        await rejectSuggestion(meetingId, suggestion);
+      } catch (error) {
+        toast.error('Failed to reject suggestion');
+        console.error('Suggestion reject failed:', error);
+        // Not recorded, so bring it back
+        setVersion((v) => v + 1);
+      }
+    },
+    [meetingId]
+  );
+
+  const refresh = useCallback(() => setVersion((v) => v + 1), []);
+
+  return (
+    <SuggestionsContext.Provider
+      value={{
+        suggestions: meetingId ? suggestions : [],
+        accept,
+        reject,
+        refresh,
+      }}
+    >
+      {children}
+    </SuggestionsContext.Provider>
+  );
+}
+
+export function useSuggestionsContext() {
+  return useContext(SuggestionsContext);
+}
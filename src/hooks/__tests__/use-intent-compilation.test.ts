@@ -0,0 +1,157 @@
+/**
+ * Intent Compilation Hook Tests
+ *
+ * Tests the clarification dialogue for low-confidence intents.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useIntentCompilation } from '../use-intent-compilation';
+import {
+  MockIntentCompiler,
+  MOCK_CLARIFICATION_QUESTION,
+  MAX_CLARIFICATION_ROUNDS,
+  type CompiledIntent,
+  type IntentCompiler,
+} from '@/compiler';
+
+function setup(compiler: IntentCompiler = new MockIntentCompiler()) {
+  const onReady = vi.fn();
+  const hook = renderHook(() => useIntentCompilation(compiler, onReady));
+  return { ...hook, onReady };
+}
+
+describe('useIntentCompilation', () => {
+  it('starts idle', () => {
+    const { result } = setup();
+    expect(result.current.status.state).toBe('idle');
+    expect(result.current.status.question).toBeNull();
+  });
+
+  it('opens the workspace directly for HIGH confidence intents', async () => {
+    const { result, onReady } = setup();
+
+    await act(async () => {
+      await result.current.submit('Help me plan Q3 OKRs');
+    });
+
+    expect(result.current.status.state).toBe('idle');
+    expect(onReady).toHaveBeenCalledWith(
+      expect.objectContaining({ lens: { type: 'block_doc' } }),
+      expect.objectContaining({ confidence: 'HIGH' })
+    );
+  });
+
+  it('asks a clarification question for LOW confidence intents', async () => {
+    const { result, onReady } = setup();
+
+    await act(async () => {
+      await result.current.submit('Something about Acme');
+    });
+
+    expect(result.current.status.state).toBe('clarifying');
+    expect(result.current.status.question).toBe(MOCK_CLARIFICATION_QUESTION);
+    expect(onReady).not.toHaveBeenCalled();
+  });
+
+  it('recompiles with the answer until confidence is HIGH', async () => {
+    const compiler = new MockIntentCompiler();
+    const compileSpy = vi.spyOn(compiler, 'compile');
+    const { result, onReady } = setup(compiler);
+
+    await act(async () => {
+      await result.current.submit('Something about Acme');
+    });
+    await act(async () => {
+      await result.current.submit('review the open items');
+    });
+
+    expect(compileSpy).toHaveBeenLastCalledWith('Something about Acme', {
+      clarifications: [{ question: MOCK_CLARIFICATION_QUESTION, answer: 'review the open items' }],
+    });
+    expect(result.current.status.state).toBe('idle');
+    expect(onReady).toHaveBeenCalledWith(
+      expect.objectContaining({
+        lens: { type: 'data_grid' },
+        context: expect.objectContaining({ originalIntent: 'Something about Acme' }),
+      }),
+      expect.anything()
+    );
+  });
+
+  it('accepts the LOW confidence workspace after the round limit', async () => {
+    const { result, onReady } = setup();
+
+    await act(async () => {
+      await result.current.submit('Something about Acme');
+    });
+    for (let i = 0; i < MAX_CLARIFICATION_ROUNDS; i++) {
+      await act(async () => {
+        await result.current.submit('not sure');
+      });
+    }
+
+    expect(result.current.status.state).toBe('idle');
+    expect(onReady).toHaveBeenCalledWith(
+      expect.objectContaining({ lens: { type: 'infinite_canvas' } }),
+      expect.objectContaining({ confidence: 'LOW' })
+    );
+  });
+
+  it('ends the dialogue when the user picks a lens', async () => {
+    const { result, onReady } = setup();
+
+    await act(async () => {
+      await result.current.submit('Something about Acme');
+    });
+    act(() => {
+      result.current.chooseLens('data_grid');
+    });
+
+    expect(result.current.status.state).toBe('idle');
+    const [workspace, compiled] = onReady.mock.calls[0] as [unknown, CompiledIntent];
+    expect(workspace).toMatchObject({ lens: { type: 'data_grid' } });
+    expect(compiled.compiledBy).toBe('user');
+  });
+
+  it('returns to idle with the error when the compiler rejects', async () => {
+    const mock = new MockIntentCompiler();
+    const compiler: IntentCompiler = {
+      name: 'flaky',
+      compile: vi
+        .fn()
+        .mockRejectedValueOnce(new Error('Compiler endpoint returned 500'))
+        .mockImplementation((intent, context) => mock.compile(intent, context)),
+    };
+    const { result, onReady } = setup(compiler);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await act(async () => {
+      await result.current.submit('Help me plan Q3 OKRs');
+    });
+
+    expect(result.current.status).toMatchObject({ state: 'idle', error: 'Compiler endpoint returned 500' });
+    expect(onReady).not.toHaveBeenCalled();
+
+    await act(async () => {
+      await result.current.submit('Help me plan Q3 OKRs');
+    });
+    expect(result.current.status.error).toBeNull();
+    expect(onReady).toHaveBeenCalled();
+  });
+
+  it('discards a pending clarification on cancel', async () => {
+    const { result, onReady } = setup();
+
+    await act(async () => {
+      await result.current.submit('Something about Acme');
+    });
+    act(() => {
+      result.current.cancel();
+    });
+
+    expect(result.current.status.state).toBe('idle');
+    expect(result.current.status.turns).toEqual([]);
+    expect(onReady).not.toHaveBeenCalled();
+  });
+});
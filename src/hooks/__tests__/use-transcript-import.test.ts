@@ -0,0 +1,56 @@
+/**
+ * Transcript Import Hook Tests
+ *
+ * Tests which meeting a transcript goes into: the meeting stored for the
+ * calendar event, or the active meeting when the event has none.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { useTranscriptImport } from '../use-transcript-import';
+
+vi.mock('@/storage/meeting-uid-api', () => ({
+  findMeetingIdByEventId: vi.fn(),
+}));
+
+vi.mock('@/storage/transcript-api', () => ({
+  getMarkerCandidates: vi.fn(),
+  importTranscriptFile: vi.fn(),
+  acceptMarkerCandidates: vi.fn(),
+}));
+
+import { findMeetingIdByEventId } from '@/storage/meeting-uid-api';
+import { getMarkerCandidates, importTranscriptFile } from '@/storage/transcript-api';
+
+// jsdom's File has no text()
+const file = { name: 'call.vtt', text: async () => 'WEBVTT' } as File;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(getMarkerCandidates).mockResolvedValue([]);
+  vi.mocked(importTranscriptFile).mockResolvedValue([]);
+});
+
+describe('useTranscriptImport', () => {
+  it('imports into the meeting stored for the calendar event', async () => {
+    vi.mocked(findMeetingIdByEventId).mockResolvedValue('mtg-stored');
+
+    const { result } = renderHook(() => useTranscriptImport('evt-1', 'mtg-active'));
+    await waitFor(() => expect(result.current.meetingUid).toBe('mtg-stored'));
+    await act(() => result.current.importFile(file));
+
+    expect(importTranscriptFile).toHaveBeenCalledWith('mtg-stored', 'call.vtt', 'WEBVTT');
+  });
+
+  it('falls back to the active meeting when the event has no stored meeting', async () => {
+    vi.mocked(findMeetingIdByEventId).mockResolvedValue(null);
+
+    const { result } = renderHook(() => useTranscriptImport('evt-live', 'mtg-active'));
+    await waitFor(() => expect(findMeetingIdByEventId).toHaveBeenCalledWith('evt-live'));
+    await act(() => result.current.importFile(file));
+
+    expect(result.current.meetingUid).toBe('mtg-active');
+    expect(getMarkerCandidates).toHaveBeenCalledWith('mtg-active');
+    expect(importTranscriptFile).toHaveBeenCalledWith('mtg-active', 'call.vtt', 'WEBVTT');
+  });
+});
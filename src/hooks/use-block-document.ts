@@ -0,0 +1,112 @@
+'use client';
+
+/**
+ * Block Document Hook
+ *
+ * Loads and edits the block document for a WorkObject scope.
+ * Updates are applied to local state first, then persisted, so typing
+ * stays responsive while every change still lands in IndexedDB.
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  getDocBlocks,
+  createDocBlock,
+  updateDocBlock,
+  deleteDocBlock,
+  orderBetween,
+  type BlockType,
+  type DocBlock,
+} from '@/storage/block-doc-api';
+import type { WorkObjectScope } from '@/storage/work-object-types';
+
+// ============================================
+// Session Scope
+// ============================================
+
+/** sessionStorage key for the current session scope ID */
+export const SESSION_ID_STORAGE_KEY = 'agentic-session-id';
+
+/**
+ * Get the session ID for objects created outside a meeting.
+ * Kept in sessionStorage so documents survive reloads of the same tab.
+ */
+export function getOrCreateSessionId(): string {
+  const existing = sessionStorage.getItem(SESSION_ID_STORAGE_KEY);
+  if (existing) return existing;
+
+  const id = crypto.randomUUID();
+  sessionStorage.setItem(SESSION_ID_STORAGE_KEY, id);
+  return id;
+}
+
+// ============================================
+// Hook Implementation
+// ============================================
+
+export function useBlockDocument(scope: WorkObjectScope | null): {
+  blocks: DocBlock[];
+  loading: boolean;
+  insertBlock: (afterId: string | null, blockType?: BlockType, text?: string) => Promise<DocBlock | null>;
+  updateBlock: (id: string, changes: Partial<Pick<DocBlock, 'blockType' | 'text' | 'checked'>>) => Promise<void>;
+  deleteBlock: (id: string) => Promise<void>;
+} {
+  const [blocks, setBlocks] = useState<DocBlock[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  // Latest blocks for order calculation inside callbacks
+  const blocksRef = useRef<DocBlock[]>([]);
+  useEffect(() => {
+    blocksRef.current = blocks;
+  }, [blocks]);
+
+  useEffect(() => {
+    if (!scope) return;
+
+    let cancelled = false;
+    getDocBlocks(scope)
+      .then((loaded) => {
+        if (!cancelled) setBlocks(loaded);
+      })
+      .catch((error) => console.error('[BlockDoc] Failed to load blocks:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [scope]);
+
+  const insertBlock = useCallback(
+    async (afterId: string | null, blockType: BlockType = 'paragraph', text = '') => {
+      if (!scope) return null;
+
+      const current = blocksRef.current;
+      const index = afterId ? current.findIndex((b) => b.id === afterId) : -1;
+      const before = index >= 0 ? current[index].order : undefined;
+      const after = afterId ? current[index + 1]?.order : current[0]?.order;
+      const order = afterId ? orderBetween(before, after) : orderBetween(undefined, after);
+
+      const block = await createDocBlock(scope, { blockType, text, order });
+      setBlocks((prev) => [...prev, block].sort((a, b) => a.order - b.order));
+      return block;
+    },
+    [scope]
+  );
+
+  const updateBlock = useCallback(
+    async (id: string, changes: Partial<Pick<DocBlock, 'blockType' | 'text' | 'checked'>>) => {
+      setBlocks((prev) => prev.map((b) => (b.id === id ? { ...b, ...changes } : b)));
+      await updateDocBlock(id, changes);
+    },
+    []
+  );
+
+  const deleteBlock = useCallback(async (id: string) => {
+    setBlocks((prev) => prev.filter((b) => b.id !== id));
+    await deleteDocBlock(id);
+  }, []);
+
+  return { blocks, loading: !!scope && loading, insertBlock, updateBlock, deleteBlock };
+}
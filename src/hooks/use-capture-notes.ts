@@ -0,0 +1,75 @@
+'use client';
+
+/**
+ * Capture Notes Hook
+ *
+ * Loads a meeting's capture notes and adds, promotes and deletes them,
+ * keeping the local list in step with storage.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  getCaptureNotes,
+  createCaptureNote,
+  promoteCaptureNote,
+  deleteCaptureNote,
+  type CaptureNote,
+} from '@/storage/capture-note-api';
+import type { MarkerType } from '@/storage/types';
+
+export function useCaptureNotes(
+  meetingId: string | null,
+  onMarkerCreated?: () => void
+): {
+  notes: CaptureNote[];
+  loading: boolean;
+  addNote: (text: string) => Promise<void>;
+  promote: (noteId: string, type: MarkerType) => Promise<void>;
+  remove: (noteId: string) => Promise<void>;
+} {
+  const [notes, setNotes] = useState<CaptureNote[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!meetingId) return;
+
+    let cancelled = false;
+    getCaptureNotes(meetingId)
+      .then((result) => {
+        if (!cancelled) setNotes(result);
+      })
+      .catch((error) => console.error('[CaptureNotes] Failed to load notes:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [meetingId]);
+
+  const addNote = useCallback(
+    async (text: string) => {
+      if (!meetingId) return;
+      const note = await createCaptureNote(meetingId, text);
+      setNotes((prev) => [...prev, note]);
+    },
+    [meetingId]
+  );
+
+  const promote = useCallback(
+    async (noteId: string, type: MarkerType) => {
+      const { note } = await promoteCaptureNote(noteId, type);
+      setNotes((prev) => prev.map((n) => (n.id === noteId ? note : n)));
+      onMarkerCreated?.();
+    },
+    [onMarkerCreated]
+  );
+
+  const remove = useCallback(async (noteId: string) => {
+    await deleteCaptureNote(noteId);
+    setNotes((prev) => prev.filter((n) => n.id !== noteId));
+  }, []);
+
+  return { notes, loading: !!meetingId && loading, addNote, promote, remove };
+}
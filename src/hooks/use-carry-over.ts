@@ -0,0 +1,73 @@
+'use client';
+
+/**
+ * Carry-Over Hook
+ *
+ * Loads open items from the previous instance of a recurring meeting and
+ * lets the user carry them into the current meeting or close them.
+ * Resolved items drop out of the list immediately.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import {
+  getCarryOverItems,
+  carryForwardItem,
+  closeCarryOverItem,
+  type CarryOverItem,
+} from '@/storage/series-api';
+import type { MeetingState } from '@/storage/types';
+
+export function useCarryOver(
+  meetingId: string | null,
+  onCarried?: () => void
+): {
+  items: CarryOverItem[];
+  previousMeeting: MeetingState | null;
+  loading: boolean;
+  carryForward: (item: CarryOverItem) => Promise<void>;
+  close: (item: CarryOverItem) => Promise<void>;
+} {
+  const [items, setItems] = useState<CarryOverItem[]>([]);
+  const [previousMeeting, setPreviousMeeting] = useState<MeetingState | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!meetingId) return;
+
+    let cancelled = false;
+    getCarryOverItems(meetingId)
+      .then((result) => {
+        if (cancelled) return;
+        setItems(result.items);
+        setPreviousMeeting(result.previousMeeting);
+      })
+      .catch((error) => console.error('[CarryOver] Failed to load items:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [meetingId]);
+
+  const removeItem = (item: CarryOverItem) =>
+    setItems((prev) => prev.filter((i) => i.workObjectId !== item.workObjectId));
+
+  const carryForward = useCallback(
+    async (item: CarryOverItem) => {
+      if (!meetingId) return;
+      await carryForwardItem(meetingId, item);
+      removeItem(item);
+      onCarried?.();
+    },
+    [meetingId, onCarried]
+  );
+
+  const close = useCallback(async (item: CarryOverItem) => {
+    await closeCarryOverItem(item);
+    removeItem(item);
+  }, []);
+
+  return { items, previousMeeting, loading: !!meetingId && loading, carryForward, close };
+}
@@ -0,0 +1,140 @@
+'use client';
+
+/**
+ * Intent Compilation Dialogue
+ *
+ * Drives the multi-turn clarify step for the agentic work surface:
+ * idle → compiling → (clarifying → compiling)* → idle
+ *
+ * While clarifying, the next submitted text is treated as an answer and
+ * the intent is recompiled with all answers so far. The dialogue ends when
+ * the compiler reaches HIGH confidence, the round limit is hit, or the user
+ * picks a lens manually. If the compiler throws, the dialogue returns to
+ * idle with the failure in `error`.
+ */
+
+import { useState, useCallback, useRef } from 'react';
+import {
+  compileForLens,
+  needsClarification,
+  type ClarificationTurn,
+  type CompiledIntent,
+  type IntentCompiler,
+  type LensType,
+  type WorkspaceDefinition,
+} from '@/compiler';
+
+// ============================================
+// Types
+// ============================================
+
+export type IntentCompilationState = 'idle' | 'compiling' | 'clarifying';
+
+export interface IntentCompilationStatus {
+  state: IntentCompilationState;
+  /** Intent being compiled (null when idle) */
+  intent: string | null;
+  /** Question awaiting an answer (only while clarifying) */
+  question: string | null;
+  /** Answered rounds so far */
+  turns: ClarificationTurn[];
+  /** Why the last compilation failed (only while idle) */
+  error: string | null;
+}
+
+const IDLE_STATUS: IntentCompilationStatus = {
+  state: 'idle',
+  intent: null,
+  question: null,
+  turns: [],
+  error: null,
+};
+
+// ============================================
+// Hook Implementation
+// ============================================
+
+export function useIntentCompilation(
+  compiler: IntentCompiler,
+  onWorkspaceReady: (workspace: WorkspaceDefinition, result: CompiledIntent) => void
+): {
+  status: IntentCompilationStatus;
+  submit: (text: string) => Promise<void>;
+  chooseLens: (lens: LensType) => void;
+  cancel: () => void;
+} {
+  const [status, setStatus] = useState<IntentCompilationStatus>(IDLE_STATUS);
+
+  // Mirror of status for async callbacks (avoids stale closures)
+  const statusRef = useRef(status);
+  const update = useCallback((next: IntentCompilationStatus) => {
+    statusRef.current = next;
+    setStatus(next);
+  }, []);
+
+  const finish = useCallback(
+    (result: CompiledIntent) => {
+      update(IDLE_STATUS);
+      if (result.success && result.workspace) {
+        onWorkspaceReady(result.workspace, result);
+      }
+    },
+    [update, onWorkspaceReady]
+  );
+
+  const run = useCallback(
+    async (intent: string, turns: ClarificationTurn[]) => {
+      update({ state: 'compiling', intent, question: null, turns, error: null });
+
+      let result: CompiledIntent | null = null;
+      let error: string | null = null;
+      try {
+        result = await compiler.compile(intent, { clarifications: turns });
+      } catch (e) {
+        console.error('[IntentCompilation] Compiler failed:', e);
+        error = e instanceof Error ? e.message : 'Failed to compile intent';
+      }
+
+      // Cancelled or superseded while awaiting the compiler
+      if (statusRef.current.intent !== intent || statusRef.current.state !== 'compiling') {
+        return;
+      }
+
+      if (!result) {
+        update({ ...IDLE_STATUS, error });
+        return;
+      }
+      if (needsClarification(result, turns.length)) {
+        update({ state: 'clarifying', intent, question: result.clarificationQuestion!, turns, error: null });
+        return;
+      }
+      finish(result);
+    },
+    [compiler, update, finish]
+  );
+
+  const submit = useCallback(
+    async (text: string) => {
+      const current = statusRef.current;
+      if (current.state === 'clarifying' && current.intent && current.question) {
+        await run(current.intent, [...current.turns, { question: current.question, answer: text }]);
+        return;
+      }
+      await run(text, []);
+    },
+    [run]
+  );
+
+  const chooseLens = useCallback(
+    (lens: LensType) => {
+      const current = statusRef.current;
+      if (!current.intent) return;
+      finish(compileForLens(current.intent, lens, current.turns));
+    },
+    [finish]
+  );
+
+  const cancel = useCallback(() => update(IDLE_STATUS), [update]);
+
+  return { status, submit, chooseLens, cancel };
+}
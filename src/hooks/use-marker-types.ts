@@ -0,0 +1,31 @@
+'use client';
+
+/**
+ * Marker Types Hook
+ *
+ * Loads the team's marker type registry. Renders with the default marker
+ * types until the saved registry has loaded.
+ */
+
+import { useState, useEffect } from 'react';
+import { getMarkerTypes } from '@/storage/marker-types-api';
+import { DEFAULT_MARKER_TYPES, type MarkerTypeRegistry } from '@/lib/marker-types';
+
+export function useMarkerTypes(): MarkerTypeRegistry {
+  const [registry, setRegistry] = useState<MarkerTypeRegistry>(DEFAULT_MARKER_TYPES);
+
+  useEffect(() => {
+    let cancelled = false;
+    getMarkerTypes()
+      .then((result) => {
+        if (!cancelled) setRegistry(result);
+      })
+      .catch((error) => console.error('[MarkerTypes] Failed to load marker types:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return registry;
+}
@@ -0,0 +1,105 @@
+'use client';
+
+/**
+ * Transcript Import Hook
+ *
+ * Imports a transcript recorded by another tool into a past meeting and
+ * offers the candidate markers found in it. The meeting is the one stored
+ * for the calendar event when there is one, otherwise the active meeting.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { findMeetingIdByEventId } from '@/storage/meeting-uid-api';
+import {
+  getMarkerCandidates,
+  importTranscriptFile,
+  acceptMarkerCandidates,
+} from '@/storage/transcript-api';
+import type { MarkerCandidate } from '@/lib/marker-candidates';
+
+export function useTranscriptImport(
+  eventId: string | null,
+  meetingId: string | null
+): {
+  meetingUid: string | null;
+  candidates: MarkerCandidate[];
+  importFile: (file: File) => Promise<{ segments: number; candidates: number }>;
+  accept: (candidates: MarkerCandidate[]) => Promise<number>;
+  dismiss: (candidateId: string) => void;
+} {
+  const [resolved, setResolved] = useState<{ eventId: string; uid: string | null } | null>(null);
+  const [candidates, setCandidates] = useState<MarkerCandidate[]>([]);
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!eventId) return;
+
+    let cancelled = false;
+    findMeetingIdByEventId(eventId)
+      .then((uid) => {
+        if (!cancelled) setResolved({ eventId, uid });
+      })
+      .catch((error) => console.error('[TranscriptImport] Failed to resolve meeting:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [eventId]);
+
+  // Events opened outside a stored meeting (e.g. a live calendar) have no mapping
+  const eventUid = eventId && resolved?.eventId === eventId ? resolved.uid : null;
+  const meetingUid = eventUid ?? meetingId;
+
+  useEffect(() => {
+    if (!meetingUid) return;
+
+    let cancelled = false;
+    getMarkerCandidates(meetingUid)
+      .then((result) => {
+        if (!cancelled) setCandidates(result);
+      })
+      .catch((error) => console.error('[TranscriptImport] Failed to load candidates:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [meetingUid]);
+
+  /** Import a VTT, SRT, Zoom, Teams or Whisper file and refresh the candidates */
+  const importFile = useCallback(
+    async (file: File) => {
+      if (!meetingUid) return { segments: 0, candidates: 0 };
+
+      const segments = await importTranscriptFile(meetingUid, file.name, await file.text());
+      const found = await getMarkerCandidates(meetingUid);
+      setCandidates(found);
+      setDismissed(new Set());
+      return { segments: segments.length, candidates: found.length };
+    },
+    [meetingUid]
+  );
+
+  /** Add the given candidates as markers; resolves to the number added */
+  const accept = useCallback(
+    async (toAccept: MarkerCandidate[]) => {
+      if (!meetingUid || toAccept.length === 0) return 0;
+      await acceptMarkerCandidates(meetingUid, toAccept);
+      const acceptedIds = new Set(toAccept.map((c) => c.id));
+      setCandidates((prev) => prev.filter((c) => !acceptedIds.has(c.id)));
+      return toAccept.length;
+    },
+    [meetingUid]
+  );
+
+  const dismiss = useCallback((candidateId: string) => {
+    setDismissed((prev) => new Set(prev).add(candidateId));
+  }, []);
+
+  return {
+    meetingUid,
+    candidates: meetingUid ? candidates.filter((c) => !dismissed.has(c.id)) : [],
+    importFile,
+    accept,
+    dismiss,
+  };
+}
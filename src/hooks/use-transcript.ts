@@ -0,0 +1,59 @@
+'use client';
+
+/**
+ * Transcript Hook
+ *
+ * Loads a meeting's transcript segments and imports or clears them,
+ * keeping the local list in step with storage.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { getTranscript, importTranscriptFile, clearTranscript } from '@/storage/transcript-api';
+import type { StoredTranscriptSegment } from '@/storage/types';
+
+export function useTranscript(meetingId: string | null): {
+  segments: StoredTranscriptSegment[];
+  loading: boolean;
+  importFile: (file: File) => Promise<number>;
+  clear: () => Promise<void>;
+} {
+  const [segments, setSegments] = useState<StoredTranscriptSegment[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!meetingId) return;
+
+    let cancelled = false;
+    getTranscript(meetingId)
+      .then((result) => {
+        if (!cancelled) setSegments(result);
+      })
+      .catch((error) => console.error('[Transcript] Failed to load transcript:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [meetingId]);
+
+  /** Import a VTT, SRT, Zoom, Teams or Whisper JSON file; resolves to the number of segments added */
+  const importFile = useCallback(
+    async (file: File) => {
+      if (!meetingId) return 0;
+      const added = await importTranscriptFile(meetingId, file.name, await file.text());
+      setSegments(await getTranscript(meetingId));
+      return added.length;
+    },
+    [meetingId]
+  );
+
+  const clear = useCallback(async () => {
+    if (!meetingId) return;
+    await clearTranscript(meetingId);
+    setSegments([]);
+  }, [meetingId]);
+
+  return { segments, loading: !!meetingId && loading, importFile, clear };
+}
@@ -0,0 +1,95 @@
+/**
+ * Agent Suggestion Tests
+ *
+ * Tests the suggestion pipeline: markers from transcript candidates, flag
+ * and link rules, and leaving out what the user already decided.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildSuggestions,
+  getSuggestionsForMarker,
+  describeSuggestion,
+  type SuggestionMarker,
+} from '../agent-suggestions';
+import type { MarkerCandidate } from '../marker-candidates';
+
+function marker(id: string, type: string, label?: string, extra: Partial<SuggestionMarker> = {}): SuggestionMarker {
+  return { id, type, label, timestamp: Number(id.slice(1)) * 1000, ...extra };
+}
+
+const candidate: MarkerCandidate = {
+  id: 'seg-1:0',
+  type: 'decision',
+  text: 'We decided to go with Postgres.',
+  speaker: 'Alice',
+  timestamp: 5000,
+  offsetMs: 5000,
+  cue: 'We decided',
+};
+
+describe('buildSuggestions', () => {
+  it('suggests markers, then flags, then links', () => {
+    const suggestions = buildSuggestions({
+      markers: [
+        marker('m1', 'decision', 'Migrate billing database to Postgres'),
+        marker('m2', 'action', 'Plan billing database migration', { action: { owner: 'Bob', status: 'open' } }),
+        marker('m3', 'question', 'Vendor delay risk?'),
+      ],
+      candidates: [candidate],
+    });
+
+    expect(suggestions.map((s) => s.id)).toEqual([
+      'marker:seg-1:0',
+      'flag:m3:risk',
+      'link:m2:m1:supports',
+    ]);
+    expect(suggestions[0]).toMatchObject({ markerType: 'decision', reason: 'Alice said "We decided"' });
+  });
+
+  it('flags open actions nobody owns, but not risks as risks', () => {
+    const suggestions = buildSuggestions({
+      markers: [marker('m1', 'action', 'Send deck'), marker('m2', 'risk', 'Vendor delay')],
+    });
+
+    expect(suggestions).toEqual([
+      expect.objectContaining({ id: 'flag:m1:followup', reason: 'Action has no owner or due date' }),
+    ]);
+  });
+
+  it('links duplicates and leaves out decided, linked, rejected and deleted items', () => {
+    const markers = [
+      marker('m1', 'decision', 'Ship on Friday'),
+      marker('m2', 'decision', 'Ship on friday!'),
+      marker('m3', 'decision', 'Ship on Friday', { deletedAt: 1 }),
+      marker('m4', 'risk', 'Blocked on vendor contract renewal'),
+      marker('m5', 'question', 'Vendor contract renewal blocked by legal?'),
+    ];
+
+    expect(buildSuggestions({ markers }).map((s) => s.id)).toEqual([
+      'flag:m5:risk',
+      'link:m2:m1:duplicates',
+      'link:m5:m4:related',
+    ]);
+    expect(
+      buildSuggestions({
+        markers,
+        decidedFlags: [{ markerId: 'm5', flagType: 'risk' }],
+        linkedPairs: [['m1', 'm2']],
+        rejectedIds: ['link:m5:m4:related'],
+      })
+    ).toEqual([]);
+  });
+});
+
+describe('getSuggestionsForMarker / describeSuggestion', () => {
+  it('shows flags and outgoing links on a marker', () => {
+    const markers = [marker('m1', 'decision', 'Ship on Friday'), marker('m2', 'decision', 'Ship on Friday')];
+    const suggestions = buildSuggestions({ markers, candidates: [candidate] });
+
+    expect(getSuggestionsForMarker(suggestions, 'm1')).toEqual([]);
+    const [link] = getSuggestionsForMarker(suggestions, 'm2');
+    expect(describeSuggestion(link, markers)).toBe('Duplicate of "Ship on Friday"');
+    expect(describeSuggestion(suggestions[0], markers)).toBe(candidate.text);
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Marker Candidate Tests
+ *
+ * Tests the heuristic extractor: rule precedence, sentence splitting,
+ * filler and duplicate handling.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { extractMarkerCandidates } from '../marker-candidates';
+
+const START = 1_000_000;
+
+function segment(id: string, offsetSec: number, text: string, speaker?: string) {
+  return { id, startTime: START + offsetSec * 1000, text, speaker };
+}
+
+describe('extractMarkerCandidates', () => {
+  it('finds decisions, actions and questions sentence by sentence', () => {
+    const candidates = extractMarkerCandidates(
+      [
+        segment('s2', 90, 'Who owns the vendor contract? I’ll send the deck by Friday.', 'Bob'),
+        segment('s1', 30, 'Thanks everyone. We decided to go with Postgres.', 'Alice'),
+      ],
+      START
+    );
+
+    expect(candidates).toEqual([
+      {
+        id: 's1:1',
+        type: 'decision',
+        text: 'We decided to go with Postgres.',
+        speaker: 'Alice',
+        timestamp: START + 30000,
+        offsetMs: 30000,
+        cue: 'We decided',
+      },
+      expect.objectContaining({ id: 's2:0', type: 'question', text: 'Who owns the vendor contract?' }),
+      expect.objectContaining({ id: 's2:1', type: 'action', text: "I'll send the deck by Friday.", cue: "I'll" }),
+    ]);
+  });
+
+  it('prefers actions over questions and skips filler and repeats', () => {
+    const candidates = extractMarkerCandidates(
+      [
+        segment('s1', 0, 'Can you draft the plan? Right?'),
+        segment('s2', 10, 'Okay, agreed.'),
+        segment('s3', 20, 'Can you draft the plan?'),
+      ],
+      START
+    );
+
+    expect(candidates.map((c) => [c.id, c.type])).toEqual([['s1:0', 'action']]);
+  });
+});
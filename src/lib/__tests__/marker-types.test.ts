@@ -0,0 +1,114 @@
+/**
+ * Marker Type Registry Tests
+ *
+ * Tests registry validation, hotkey lookup, the fallback for unknown types
+ * and grouping markers for synthesis.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_MARKER_TYPES,
+  MarkerTypeValidationError,
+  findMarkerTypeByHotkey,
+  getMarkerTypeDefinition,
+  groupMarkers,
+  parseMarkerTypes,
+  validateMarkerTypes,
+  type MarkerTypeRegistry,
+} from '../marker-types';
+
+// ============================================
+// Test Helpers
+// ============================================
+
+const teamTypes: MarkerTypeRegistry = validateMarkerTypes({
+  version: 1,
+  types: [
+    ...DEFAULT_MARKER_TYPES.types,
+    { id: 'blocker', label: 'Blocker', color: 'red', hotkey: 'b', group: 'Risks' },
+    { id: 'idea', label: 'Idea', color: 'sky', hotkey: 'I' },
+    { id: 'kudos', label: 'Kudos', pluralLabel: 'Kudos', color: 'pink', hotkey: 'K' },
+  ],
+});
+
+function marker(id: string, type: string) {
+  return { id, type };
+}
+
+// ============================================
+// Validation
+// ============================================
+
+describe('validateMarkerTypes', () => {
+  it('accepts the defaults and fills in plural labels and groups', () => {
+    expect(validateMarkerTypes(DEFAULT_MARKER_TYPES)).toEqual(DEFAULT_MARKER_TYPES);
+    expect(teamTypes.types.slice(4)).toEqual([
+      { id: 'blocker', label: 'Blocker', pluralLabel: 'Blockers', color: 'red', hotkey: 'B', group: 'Risks' },
+      { id: 'idea', label: 'Idea', pluralLabel: 'Ideas', color: 'sky', hotkey: 'I', group: 'Ideas' },
+      { id: 'kudos', label: 'Kudos', pluralLabel: 'Kudos', color: 'pink', hotkey: 'K', group: 'Kudos' },
+    ]);
+  });
+
+  it('names the first invalid field', () => {
+    const withType = (type: Record<string, unknown>) => ({
+      version: 1,
+      types: [...DEFAULT_MARKER_TYPES.types, { id: 'idea', label: 'Idea', color: 'sky', ...type }],
+    });
+
+    expect(() => validateMarkerTypes(withType({ color: 'teal' }))).toThrow('types[4].color');
+    expect(() => validateMarkerTypes(withType({ id: 'Idea!' }))).toThrow('types[4].id');
+    expect(() => validateMarkerTypes(withType({ id: 'risk' }))).toThrow('duplicate id "risk"');
+    expect(() => validateMarkerTypes(withType({ hotkey: 'd' }))).toThrow('"D" is already used');
+    expect(() => validateMarkerTypes(withType({ hotkey: 'n' }))).toThrow('"N" is reserved');
+    expect(() => validateMarkerTypes(withType({ emoji: '💡' }))).toThrow(MarkerTypeValidationError);
+  });
+
+  it('rejects malformed JSON', () => {
+    expect(() => parseMarkerTypes('{ nope')).toThrow(MarkerTypeValidationError);
+  });
+});
+
+// ============================================
+// Lookup
+// ============================================
+
+describe('lookup', () => {
+  it('finds types by hotkey regardless of case', () => {
+    expect(findMarkerTypeByHotkey(teamTypes, 'b')?.id).toBe('blocker');
+    expect(findMarkerTypeByHotkey(teamTypes, 'D')?.id).toBe('decision');
+    expect(findMarkerTypeByHotkey(teamTypes, 'x')).toBeUndefined();
+  });
+
+  it('falls back to a gray "Other" type for unregistered ids', () => {
+    expect(getMarkerTypeDefinition(DEFAULT_MARKER_TYPES, 'follow_up')).toEqual({
+      id: 'follow_up',
+      label: 'Follow up',
+      pluralLabel: 'Follow ups',
+      color: 'gray',
+      group: 'Other',
+    });
+  });
+});
+
+// ============================================
+// Grouping
+// ============================================
+
+describe('groupMarkers', () => {
+  it('groups by synthesis group in registry order, unknown types last', () => {
+    const groups = groupMarkers(teamTypes, [
+      marker('m1', 'kudos'),
+      marker('m2', 'blocker'),
+      marker('m3', 'legacy'),
+      marker('m4', 'decision'),
+      marker('m5', 'risk'),
+    ]);
+
+    expect(groups.map((g) => [g.group, g.types.map((t) => t.id), g.items.map((m) => m.id)])).toEqual([
+      ['Decisions', ['decision'], ['m4']],
+      ['Risks', ['blocker', 'risk'], ['m2', 'm5']],
+      ['Kudos', ['kudos'], ['m1']],
+      ['Other', ['legacy'], ['m3']],
+    ]);
+  });
+});
@@ -10,6 +10,8 @@ import {
   computeMetrics,
   computeBounceRates,
   aggregateOverrideReasons,
+  countMarkersByType,
+  countSuggestionOutcomes,
   safePercent,
 } from '../metrics';
 import { EventRecord, MeetingState } from '@/storage/types';
@@ -305,6 +307,52 @@ describe('Marker Utilization', () => {
     expect(result.counts.meetingsWithMarkers).toBe(1);
     expect(result.markerUtilization).toBe(50);
   });
+
+  it('counts created markers per type, including custom types', () => {
+    const events: EventRecord[] = [
+      createEvent('marker_created', { meetingId: 'meeting-1', type: 'decision' }),
+      createEvent('marker_created', { meetingId: 'meeting-1', type: 'blocker' }),
+      createEvent('marker_created', { meetingId: 'meeting-2', type: 'blocker' }),
+      createEvent('marker_created', { meetingId: 'meeting-2', type: 'kudos' }),
+    ];
+
+    expect(countMarkersByType(events)).toEqual([
+      { type: 'blocker', count: 2 },
+      { type: 'decision', count: 1 },
+      { type: 'kudos', count: 1 },
+    ]);
+    expect(computeMetrics(events, []).markersByType).toHaveLength(3);
+  });
+});
+
+// ============================================
+// Suggestion Acceptance Tests
+// ============================================
+
+describe('Suggestion Acceptance', () => {
+  it('calculates accepted / (accepted + rejected), per kind and overall', () => {
+    const events: EventRecord[] = [
+      createEvent('suggestion_accepted', { meetingId: 'meeting-1', kind: 'marker' }),
+      createEvent('suggestion_accepted', { meetingId: 'meeting-1', kind: 'flag' }),
+      createEvent('suggestion_rejected', { meetingId: 'meeting-1', kind: 'marker' }),
+      createEvent('suggestion_rejected', { meetingId: 'meeting-2', kind: 'marker' }),
+    ];
+
+    const result = computeMetrics(events, []);
+
+    expect(result.counts.suggestionsAccepted).toBe(2);
+    expect(result.counts.suggestionsRejected).toBe(2);
+    expect(result.suggestionAcceptance).toBe(50);
+    expect(
+      countSuggestionOutcomes(
+        events.filter((e) => e.type === 'suggestion_accepted'),
+        events.filter((e) => e.type === 'suggestion_rejected')
+      )
+    ).toEqual([
+      { kind: 'marker', accepted: 1, rejected: 2 },
+      { kind: 'flag', accepted: 1, rejected: 0 },
+    ]);
+  });
 });
 
 // ============================================
@@ -0,0 +1,246 @@
+/**
+ * Recap Rendering Tests
+ *
+ * Tests recap building and the Markdown, HTML and plain-text renderers.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildRecap,
+  renderRecapMarkdown,
+  renderRecapHtml,
+  renderRecapPlainText,
+  buildRecapMailto,
+} from '../recap';
+import { DEFAULT_MARKER_TYPES, type MarkerTypeRegistry } from '../marker-types';
+import { MeetingState } from '@/storage/types';
+
+// ============================================
+// Test Helpers
+// ============================================
+
+function createMeeting(overrides: Partial<MeetingState> = {}): MeetingState {
+  return {
+    id: 'meeting-1',
+    title: 'Weekly Sync',
+    startTime: Date.UTC(2026, 0, 15, 9),
+    endTime: Date.UTC(2026, 0, 15, 10),
+    attendees: ['Alice Chen', 'bob@example.com'],
+    goal: 'Align on Q1 roadmap',
+    my3Goals: [
+      { id: 'g1', text: 'Agree on timeline', achieved: true },
+      { id: 'g2', text: 'Surface blockers', achieved: false },
+      { id: 'g3', text: 'Deleted goal', achieved: false, deletedAt: 1 },
+    ],
+    markers: [
+      { id: 'm1', type: 'decision', label: 'Launch Feb 15', timestamp: 0, meetingId: 'meeting-1' },
+      {
+        id: 'm2',
+        type: 'action',
+        label: 'Update roadmap',
+        timestamp: 0,
+        meetingId: 'meeting-1',
+        action: { owner: 'Alice Chen', dueDate: '2026-01-20', status: 'open' },
+      },
+      { id: 'm3', type: 'risk', timestamp: 0, meetingId: 'meeting-1' },
+      {
+        id: 'm4',
+        type: 'action',
+        label: 'Old idea',
+        timestamp: 0,
+        meetingId: 'meeting-1',
+        action: { status: 'dropped' },
+      },
+      { id: 'm5', type: 'question', label: 'Removed', timestamp: 0, meetingId: 'meeting-1', deletedAt: 1 },
+    ],
+    synthesisCompleted: false,
+    createdAt: 0,
+    updatedAt: 0,
+    ...overrides,
+  };
+}
+
+// ============================================
+// buildRecap
+// ============================================
+
+describe('buildRecap', () => {
+  it('collects outcomes, grouped markers and next actions', () => {
+    const recap = buildRecap(createMeeting());
+
+    expect(recap.date).toBe('2026-01-15');
+    expect(recap.outcomes).toEqual([
+      { text: 'Agree on timeline', achieved: true },
+      { text: 'Surface blockers', achieved: false },
+    ]);
+    expect(recap.markerGroups).toEqual([
+      { types: ['decision'], label: 'Decisions', items: ['Launch Feb 15'] },
+      { types: ['risk'], label: 'Risks', items: ['Unlabeled'] },
+    ]);
+    expect(recap.nextActions).toEqual([
+      { label: 'Update roadmap', owner: 'Alice Chen', dueDate: '2026-01-20', status: 'open' },
+    ]);
+  });
+
+  it('groups custom and unknown marker types by synthesis group', () => {
+    const markerTypes: MarkerTypeRegistry = {
+      version: 1,
+      types: [
+        ...DEFAULT_MARKER_TYPES.types,
+        { id: 'blocker', label: 'Blocker', pluralLabel: 'Blockers', color: 'red', hotkey: 'B', group: 'Risks' },
+      ],
+    };
+    const meeting = createMeeting();
+    meeting.markers.push(
+      { id: 'm6', type: 'blocker', label: 'Vendor contract', timestamp: 0, meetingId: 'meeting-1' },
+      { id: 'm7', type: 'kudos', label: 'Thanks Bob', timestamp: 0, meetingId: 'meeting-1' }
+    );
+
+    expect(buildRecap(meeting, markerTypes).markerGroups).toEqual([
+      { types: ['decision'], label: 'Decisions', items: ['Launch Feb 15'] },
+      { types: ['risk', 'blocker'], label: 'Risks', items: ['Unlabeled', 'Vendor contract'] },
+      { types: ['kudos'], label: 'Other', items: ['Thanks Bob'] },
+    ]);
+  });
+
+  it('dates the recap by the local calendar day', () => {
+    const tz = process.env.TZ;
+    process.env.TZ = 'America/Los_Angeles';
+    try {
+      // 23:30 on Jan 14 in Los Angeles is already Jan 15 in UTC
+      const meeting = createMeeting({ startTime: Date.UTC(2026, 0, 15, 7, 30) });
+      expect(buildRecap(meeting).date).toBe('2026-01-14');
+    } finally {
+      if (tz === undefined) delete process.env.TZ;
+      else process.env.TZ = tz;
+    }
+  });
+
+  it('omits a blank goal', () => {
+    expect(buildRecap(createMeeting({ goal: '  ' })).goal).toBeUndefined();
+  });
+});
+
+// ============================================
+// Renderers
+// ============================================
+
+describe('renderRecapMarkdown', () => {
+  it('renders sections with checkboxes and action owners', () => {
+    expect(renderRecapMarkdown(buildRecap(createMeeting()))).toBe(
+      [
+        '# Weekly Sync — 2026-01-15',
+        '',
+        '**Attendees:** Alice Chen, bob@example.com',
+        '',
+        '## Goal',
+        '',
+        'Align on Q1 roadmap',
+        '',
+        '## My 3 Outcomes',
+        '',
+        '- [x] Agree on timeline',
+        '- [ ] Surface blockers',
+        '',
+        '## Decisions',
+        '',
+        '- Launch Feb 15',
+        '',
+        '## Risks',
+        '',
+        '- Unlabeled',
+        '',
+        '## Next Actions',
+        '',
+        '- [ ] Update roadmap (Alice Chen, due 2026-01-20)',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('skips empty sections', () => {
+    const markdown = renderRecapMarkdown(
+      buildRecap(createMeeting({ goal: undefined, my3Goals: [], markers: [], attendees: [] }))
+    );
+
+    expect(markdown).toBe('# Weekly Sync — 2026-01-15\n');
+  });
+});
+
+describe('renderRecapHtml', () => {
+  it('escapes user text', () => {
+    const html = renderRecapHtml(
+      buildRecap(
+        createMeeting({
+          title: 'Q&A <script>',
+          markers: [{ id: 'm1', type: 'decision', label: '"Ship" it', timestamp: 0, meetingId: 'meeting-1' }],
+        })
+      )
+    );
+
+    expect(html).toContain('<h1>Q&amp;A &lt;script&gt; — 2026-01-15</h1>');
+    expect(html).toContain('<li>&quot;Ship&quot; it</li>');
+    expect(html).not.toContain('<script>');
+  });
+
+  it('escapes custom group labels', () => {
+    const markerTypes: MarkerTypeRegistry = {
+      version: 1,
+      types: [
+        ...DEFAULT_MARKER_TYPES.types,
+        { id: 'win', label: 'Win', pluralLabel: 'Wins', color: 'emerald', hotkey: 'W', group: '<img src=x onerror=alert(1)>' },
+      ],
+    };
+    const html = renderRecapHtml(
+      buildRecap(
+        createMeeting({ markers: [{ id: 'm1', type: 'win', label: 'Closed Acme', timestamp: 0, meetingId: 'meeting-1' }] }),
+        markerTypes
+      )
+    );
+
+    expect(html).toContain('<h2>&lt;img src=x onerror=alert(1)&gt;</h2>');
+    expect(html).not.toContain('<img');
+  });
+
+  it('strikes through done actions', () => {
+    const html = renderRecapHtml(
+      buildRecap(
+        createMeeting({
+          markers: [
+            {
+              id: 'm1',
+              type: 'action',
+              label: 'Send notes',
+              timestamp: 0,
+              meetingId: 'meeting-1',
+              action: { status: 'done' },
+            },
+          ],
+        })
+      )
+    );
+
+    expect(html).toContain('<li><s>Send notes (Unassigned)</s></li>');
+  });
+});
+
+describe('renderRecapPlainText', () => {
+  it('renders an email-friendly body', () => {
+    const text = renderRecapPlainText(buildRecap(createMeeting()));
+
+    expect(text).toContain('Recap: Weekly Sync (2026-01-15)\n');
+    expect(text).toContain('Outcomes:\n  [done] Agree on timeline\n  [open] Surface blockers\n');
+    expect(text).toContain('Next actions:\n  - Update roadmap (Alice Chen, due 2026-01-20)\n');
+    expect(text).not.toContain('#');
+  });
+});
+
+describe('buildRecapMailto', () => {
+  it('addresses email attendees and encodes subject and body', () => {
+    const url = buildRecapMailto(buildRecap(createMeeting()));
+
+    expect(url.startsWith('mailto:bob%40example.com?subject=Recap%3A%20Weekly%20Sync')).toBe(true);
+    const body = decodeURIComponent(url.split('&body=')[1]);
+    expect(body).toBe(renderRecapPlainText(buildRecap(createMeeting())));
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Transcript Parsing Tests
+ *
+ * Tests the VTT, SRT, Zoom, Teams and Whisper parsers and aligning segments
+ * to markers.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseTimestamp,
+  parseVtt,
+  parseSrt,
+  parseWhisperJson,
+  parseZoomTranscript,
+  parseTeamsTranscript,
+  parseTranscriptFile,
+  alignTranscriptToMarkers,
+  TranscriptParseError,
+} from '../transcript';
+
+// ============================================
+// Parsing
+// ============================================
+
+describe('parseTimestamp', () => {
+  it('reads VTT and SRT timestamps, with or without hours', () => {
+    expect(parseTimestamp('00:01:02.500')).toBe(62500);
+    expect(parseTimestamp('01:02:03,004')).toBe(3723004);
+    expect(parseTimestamp('12:05.5')).toBe(725500);
+    expect(parseTimestamp('1:02:03')).toBe(3723000);
+    expect(parseTimestamp('12 seconds')).toBeNull();
+  });
+});
+
+describe('parseVtt', () => {
+  it('reads cues, voice tags and multi-line text, skipping notes', () => {
+    const vtt = [
+      'WEBVTT',
+      '',
+      'NOTE exported locally',
+      '',
+      'intro',
+      '00:00:01.000 --> 00:00:04.000 align:start',
+      '<v Alice>We ship on <b>Friday</b>',
+      '',
+      '00:00:05.000 --> 00:00:07.500',
+      'Unless the vendor',
+      'slips again',
+    ].join('\n');
+
+    expect(parseVtt(vtt)).toEqual([
+      { startMs: 1000, endMs: 4000, text: 'We ship on Friday', speaker: 'Alice' },
+      { startMs: 5000, endMs: 7500, text: 'Unless the vendor slips again' },
+    ]);
+  });
+
+  it('rejects files without a header or with broken timings', () => {
+    expect(() => parseVtt('00:00:01.000 --> 00:00:02.000\nHi')).toThrow(TranscriptParseError);
+    expect(() => parseVtt('WEBVTT\n\n00:00:05.000 --> 00:00:01.000\nBackwards')).toThrow('Line 3');
+  });
+});
+
+describe('parseSrt', () => {
+  it('reads numbered cues with comma timestamps', () => {
+    const srt = '1\r\n00:00:01,000 --> 00:00:02,000\r\nHello\r\n\r\n2\r\n00:00:03,000 --> 00:00:04,000\r\nWorld\r\n';
+
+    expect(parseSrt(srt)).toEqual([
+      { startMs: 1000, endMs: 2000, text: 'Hello' },
+      { startMs: 3000, endMs: 4000, text: 'World' },
+    ]);
+  });
+});
+
+describe('parseZoomTranscript', () => {
+  it('reads speaker blocks, each running until the next one starts', () => {
+    const zoom = ['[Alice Chen] 00:00:05', 'We decided to ship Friday.', '', '[Bob] 00:00:12', 'Okay', 'sounds good'].join('\n');
+
+    expect(parseZoomTranscript(zoom)).toEqual([
+      { startMs: 5000, endMs: 12000, text: 'We decided to ship Friday.', speaker: 'Alice Chen' },
+      { startMs: 12000, endMs: 12000, text: 'Okay sounds good', speaker: 'Bob' },
+    ]);
+  });
+});
+
+describe('parseTeamsTranscript', () => {
+  it('reads "Speaker   m:ss" blocks', () => {
+    const teams = 'Alice Chen   0:03\r\nCan you send the deck?\r\n\r\nBob Li   1:10\r\nYes.\r\n';
+
+    expect(parseTeamsTranscript(teams)).toEqual([
+      { startMs: 3000, endMs: 70000, text: 'Can you send the deck?', speaker: 'Alice Chen' },
+      { startMs: 70000, endMs: 70000, text: 'Yes.', speaker: 'Bob Li' },
+    ]);
+  });
+});
+
+describe('parseWhisperJson', () => {
+  it('reads verbose JSON and whisper.cpp output', () => {
+    expect(parseWhisperJson('{"segments":[{"start":1.5,"end":3,"text":" Budget is fine"}]}')).toEqual([
+      { startMs: 1500, endMs: 3000, text: 'Budget is fine' },
+    ]);
+    expect(parseWhisperJson('{"transcription":[{"offsets":{"from":0,"to":900},"text":" Hi"}]}')).toEqual([
+      { startMs: 0, endMs: 900, text: 'Hi' },
+    ]);
+    expect(() => parseWhisperJson('{"text":"no timings"}')).toThrow(TranscriptParseError);
+  });
+});
+
+describe('parseTranscriptFile', () => {
+  it('picks the format from the extension or the content', () => {
+    expect(parseTranscriptFile('call.srt', '1\n00:00:01,000 --> 00:00:02,000\nHi').source).toBe('srt');
+    expect(parseTranscriptFile('call.txt', 'WEBVTT\n\n00:01.000 --> 00:02.000\nHi').source).toBe('vtt');
+    expect(parseTranscriptFile('whisper-out', '{"segments":[]}').source).toBe('whisper');
+    expect(parseTranscriptFile('zoom.txt', '[Alice] 00:00:01\nHi').source).toBe('zoom');
+    expect(parseTranscriptFile('teams.txt', 'Alice  0:01\nHi').source).toBe('teams');
+    expect(parseTranscriptFile('notes.txt', '1\n00:00:01,000 --> 00:00:02,000\nMeet at  10:30').source).toBe('srt');
+  });
+
+  it('reads speakers from Zoom VTT cue text only when every cue has one', () => {
+    const zoomVtt = 'WEBVTT\n\n1\n00:00:01.000 --> 00:00:02.000\nAlice Chen: Hi all\n\n2\n00:00:03.000 --> 00:00:04.000\nBob: Hey';
+    expect(parseTranscriptFile('GMT20260115.vtt', zoomVtt)).toEqual({
+      source: 'zoom',
+      segments: [
+        { startMs: 1000, endMs: 2000, text: 'Hi all', speaker: 'Alice Chen' },
+        { startMs: 3000, endMs: 4000, text: 'Hey', speaker: 'Bob' },
+      ],
+    });
+
+    const plainVtt = 'WEBVTT\n\n00:00:01.000 --> 00:00:02.000\nNote: budget is fine\n\n00:00:03.000 --> 00:00:04.000\nAgreed';
+    expect(parseTranscriptFile('call.vtt', plainVtt).source).toBe('vtt');
+  });
+});
+
+// ============================================
+// Alignment
+// ============================================
+
+describe('alignTranscriptToMarkers', () => {
+  const segment = (id: string, startSec: number, endSec: number) => ({
+    id,
+    startTime: startSec * 1000,
+    endTime: endSec * 1000,
+  });
+
+  it('keeps segments overlapping 30s before to 10s after each marker', () => {
+    const segments = [segment('late', 200, 210), segment('early', 10, 25), segment('before', 65, 80), segment('after', 105, 112)];
+    const markers = [
+      { id: 'm1', timestamp: 100000 },
+      { id: 'm2', timestamp: 500000 },
+    ];
+
+    expect(alignTranscriptToMarkers(segments, markers)).toEqual({
+      m1: [segment('before', 65, 80), segment('after', 105, 112)],
+    });
+  });
+});
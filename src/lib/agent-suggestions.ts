@@ -0,0 +1,260 @@
+/**
+ * Agent Suggestions
+ *
+ * Deterministic rules that propose markers (from transcript candidates),
+ * flags on existing markers and links between them. Suggestions are only
+ * proposals: the UI shows them as ghost items and nothing is stored until
+ * the user accepts one.
+ * Extracted for testability.
+ */
+
+import type { ActionDetails, MarkerType } from '@/storage/types';
+import type { FlagType, LinkType } from '@/storage/work-object-types';
+import type { MarkerCandidate } from './marker-candidates';
+
+// ============================================
+// Types
+// ============================================
+
+export type SuggestionKind = 'marker' | 'flag' | 'link';
+
+interface SuggestionBase {
+  /** Stable across runs, so a rejection keeps hiding the same suggestion */
+  id: string;
+  /** Why the agent suggests it, shown next to the ghost item */
+  reason: string;
+}
+
+export interface MarkerSuggestion extends SuggestionBase {
+  kind: 'marker';
+  markerType: MarkerType;
+  /** Sentence the marker comes from */
+  text: string;
+  /** When it was said (ms timestamp) */
+  timestamp: number;
+}
+
+export interface FlagSuggestion extends SuggestionBase {
+  kind: 'flag';
+  markerId: string;
+  flagType: FlagType;
+}
+
+export interface LinkSuggestion extends SuggestionBase {
+  kind: 'link';
+  fromMarkerId: string;
+  toMarkerId: string;
+  linkType: LinkType;
+}
+
+export type AgentSuggestion = MarkerSuggestion | FlagSuggestion | LinkSuggestion;
+
+/**
+ * Marker fields the rules look at.
+ */
+export interface SuggestionMarker {
+  id: string;
+  type: MarkerType;
+  label?: string;
+  timestamp: number;
+  action?: ActionDetails;
+  deletedAt?: number;
+}
+
+export interface SuggestionInput {
+  markers: SuggestionMarker[];
+  /** Transcript candidates not yet accepted as markers */
+  candidates?: MarkerCandidate[];
+  /** Flags the user has already set or cleared; never suggested again */
+  decidedFlags?: Array<{ markerId: string; flagType: FlagType }>;
+  /** Marker pairs already linked (in either direction) */
+  linkedPairs?: Array<[string, string]>;
+  /** Suggestion IDs the user has rejected */
+  rejectedIds?: string[];
+}
+
+// ============================================
+// Rules
+// ============================================
+
+const FLAG_RULES: Array<{ flagType: FlagType; pattern: RegExp; skipType?: MarkerType }> = [
+  { flagType: 'risk', pattern: /\b(?:risks?|risky|blockers?|blocked|concerns?|delay(?:ed|s)?|slips?|slipping)\b/i, skipType: 'risk' },
+  { flagType: 'important', pattern: /\b(?:critical|urgent|important|must|deadline|priority)\b/i },
+  { flagType: 'followup', pattern: /\b(?:follow(?:-| )up|check back|circle back|revisit|tbd|later)\b/i },
+];
+
+const STOPWORDS = new Set([
+  'about', 'after', 'also', 'been', 'before', 'could', 'from', 'have', 'into', 'just', 'more', 'need',
+  'should', 'some', 'than', 'that', 'their', 'them', 'then', 'there', 'they', 'this', 'what', 'when',
+  'will', 'with', 'would',
+]);
+
+/** Share of label keywords two markers must have in common to be related */
+const RELATED_OVERLAP = 0.5;
+
+function normalizeLabel(label: string): string {
+  return label.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function keywords(label: string): Set<string> {
+  return new Set(normalizeLabel(label).split(' ').filter((w) => w.length >= 4 && !STOPWORDS.has(w)));
+}
+
+function suggestFlags(marker: SuggestionMarker): FlagSuggestion[] {
+  const suggestions: FlagSuggestion[] = [];
+  const label = marker.label ?? '';
+
+  for (const { flagType, pattern, skipType } of FLAG_RULES) {
+    if (marker.type === skipType) continue;
+    const match = label.match(pattern);
+    if (match) {
+      suggestions.push({
+        kind: 'flag',
+        id: `flag:${marker.id}:${flagType}`,
+        markerId: marker.id,
+        flagType,
+        reason: `Label mentions "${match[0]}"`,
+      });
+    }
+  }
+
+  // Open actions nobody has picked up need chasing
+  const action = marker.action;
+  const isOpen = !action || action.status === 'open';
+  if (
+    marker.type === 'action' &&
+    isOpen &&
+    !action?.owner &&
+    !action?.dueDate &&
+    !suggestions.some((s) => s.flagType === 'followup')
+  ) {
+    suggestions.push({
+      kind: 'flag',
+      id: `flag:${marker.id}:followup`,
+      markerId: marker.id,
+      flagType: 'followup',
+      reason: 'Action has no owner or due date',
+    });
+  }
+
+  return suggestions;
+}
+
+/**
+ * Link a later marker to an earlier one: duplicates when labels match,
+ * "supports" when an action shares keywords with a decision, otherwise
+ * "related".
+ */
+function suggestLink(earlier: SuggestionMarker, later: SuggestionMarker): LinkSuggestion | null {
+  if (!earlier.label || !later.label) return null;
+
+  const link = (linkType: LinkType, fromMarkerId: string, toMarkerId: string, reason: string): LinkSuggestion => ({
+    kind: 'link',
+    id: `link:${fromMarkerId}:${toMarkerId}:${linkType}`,
+    fromMarkerId,
+    toMarkerId,
+    linkType,
+    reason,
+  });
+
+  if (normalizeLabel(earlier.label) === normalizeLabel(later.label)) {
+    return link('duplicates', later.id, earlier.id, 'Same label');
+  }
+
+  const a = keywords(earlier.label);
+  const b = keywords(later.label);
+  const shared = [...a].filter((w) => b.has(w));
+  if (shared.length < 2 || shared.length / Math.min(a.size, b.size) < RELATED_OVERLAP) return null;
+
+  const reason = `Both mention ${shared.slice(0, 3).join(', ')}`;
+  if (earlier.type === 'decision' && later.type === 'action') return link('supports', later.id, earlier.id, reason);
+  if (earlier.type === 'action' && later.type === 'decision') return link('supports', earlier.id, later.id, reason);
+  return link('related', later.id, earlier.id, reason);
+}
+
+// ============================================
+// Pipeline
+// ============================================
+
+/**
+ * Build the agent's suggestions for a meeting: new markers first (in
+ * speaking order), then flags, then links. Anything the user already
+ * decided on or rejected is left out.
+ */
+export function buildSuggestions(input: SuggestionInput): AgentSuggestion[] {
+  const rejected = new Set(input.rejectedIds ?? []);
+  const decidedFlags = new Set((input.decidedFlags ?? []).map((f) => `${f.markerId}:${f.flagType}`));
+  const linked = new Set((input.linkedPairs ?? []).flatMap(([a, b]) => [`${a}:${b}`, `${b}:${a}`]));
+  const markers = input.markers.filter((m) => !m.deletedAt).sort((a, b) => a.timestamp - b.timestamp);
+
+  const markerSuggestions: MarkerSuggestion[] = (input.candidates ?? []).map((candidate) => ({
+    kind: 'marker',
+    id: `marker:${candidate.id}`,
+    markerType: candidate.type,
+    text: candidate.text,
+    timestamp: candidate.timestamp,
+    reason: candidate.speaker ? `${candidate.speaker} said "${candidate.cue}"` : `Transcript says "${candidate.cue}"`,
+  }));
+
+  const flagSuggestions = markers
+    .flatMap(suggestFlags)
+    .filter((s) => !decidedFlags.has(`${s.markerId}:${s.flagType}`));
+
+  const linkSuggestions: LinkSuggestion[] = [];
+  markers.forEach((later, i) => {
+    for (const earlier of markers.slice(0, i)) {
+      if (linked.has(`${earlier.id}:${later.id}`)) continue;
+      const suggestion = suggestLink(earlier, later);
+      if (suggestion) linkSuggestions.push(suggestion);
+    }
+  });
+
+  return [...markerSuggestions, ...flagSuggestions, ...linkSuggestions].filter((s) => !rejected.has(s.id));
+}
+
+// ============================================
+// Display Helpers
+// ============================================
+
+const FLAG_LABELS: Record<FlagType, string> = {
+  important: 'Flag as important',
+  risk: 'Flag as risk',
+  followup: 'Flag for follow-up',
+};
+
+const LINK_LABELS: Record<LinkType, string> = {
+  related: 'Related to',
+  supports: 'Supports',
+  blocks: 'Blocks',
+  duplicates: 'Duplicate of',
+};
+
+/**
+ * Flag and link suggestions to show on a marker. Links are shown on the
+ * marker they start from only, so each appears once.
+ */
+export function getSuggestionsForMarker(
+  suggestions: AgentSuggestion[],
+  markerId: string
+): Array<FlagSuggestion | LinkSuggestion> {
+  return suggestions.filter(
+    (s): s is FlagSuggestion | LinkSuggestion =>
+      (s.kind === 'flag' && s.markerId === markerId) || (s.kind === 'link' && s.fromMarkerId === markerId)
+  );
+}
+
+/**
+ * One-line label for a ghost item.
+ */
+export function describeSuggestion(suggestion: AgentSuggestion, markers: Array<{ id: string; label?: string }>): string {
+  switch (suggestion.kind) {
+    case 'marker':
+      return suggestion.text;
+    case 'flag':
+      return FLAG_LABELS[suggestion.flagType];
+    case 'link': {
+      const target = markers.find((m) => m.id === suggestion.toMarkerId);
+      return `${LINK_LABELS[suggestion.linkType]} "${target?.label ?? suggestion.toMarkerId}"`;
+    }
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Marker Candidates
+ *
+ * Deterministic heuristics that scan a transcript for sentences that look
+ * like decisions, actions or open questions. Candidates are only offered;
+ * nothing becomes a marker until the user accepts it.
+ * Extracted for testability.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export type CandidateMarkerType = 'decision' | 'action' | 'question';
+
+/**
+ * A sentence the extractor thinks could be a marker.
+ */
+export interface MarkerCandidate {
+  /** Source segment ID and sentence index; stable across re-imports because segment IDs derive from their content */
+  id: string;
+  type: CandidateMarkerType;
+  /** The sentence, as spoken */
+  text: string;
+  speaker?: string;
+  /** When the segment started (ms timestamp) */
+  timestamp: number;
+  /** Milliseconds since the meeting's scheduled start */
+  offsetMs: number;
+  /** Phrase that triggered the match */
+  cue: string;
+}
+
+/**
+ * Minimal segment shape the extractor needs.
+ */
+export interface CandidateSourceSegment {
+  id: string;
+  startTime: number;
+  text: string;
+  speaker?: string;
+}
+
+// ============================================
+// Rules
+// ============================================
+
+/**
+ * Checked in order; the first rule that matches a sentence wins, so
+ * "Can you send the deck by Friday?" is an action, not a question.
+ */
+const CANDIDATE_RULES: Array<{ type: CandidateMarkerType; pattern: RegExp }> = [
+  {
+    type: 'decision',
+    pattern:
+      /\b(?:we(?: have|'ve)? decided|decision is|(?:let's|let us|we'll|we will) go with|we(?: all)? agreed?|(?:it's|that's) settled|settled on|final call)\b/i,
+  },
+  {
+    type: 'action',
+    pattern:
+      /\b(?:action items?|to-?do|next steps?|follow(?:-| )up|I'll|I will|can you|could you|will you|(?:needs?|has) to|by (?:monday|tuesday|wednesday|thursday|friday|tomorrow|eod|eow|end of (?:the )?(?:day|week)))\b/i,
+  },
+  { type: 'question', pattern: /\?$/ },
+];
+
+/** Shorter sentences ("Okay?", "Sounds good.") are filler */
+const MIN_WORDS = 3;
+
+function splitSentences(text: string): string[] {
+  return (text.match(/[^.!?]+[.!?]*/g) ?? []).map((s) => s.trim()).filter(Boolean);
+}
+
+// ============================================
+// Extraction
+// ============================================
+
+/**
+ * Find candidate markers in a transcript, in speaking order. The same
+ * sentence said twice is only offered once.
+ *
+ * @param segments - Transcript segments (absolute times)
+ * @param meetingStart - Meeting's scheduled start, for offsets
+ */
+export function extractMarkerCandidates(
+  segments: CandidateSourceSegment[],
+  meetingStart: number
+): MarkerCandidate[] {
+  const sorted = [...segments].sort((a, b) => a.startTime - b.startTime);
+  const seen = new Set<string>();
+  const candidates: MarkerCandidate[] = [];
+
+  for (const segment of sorted) {
+    splitSentences(segment.text.replace(/[‘’]/g, "'")).forEach((sentence, index) => {
+      if (sentence.split(/\s+/).length < MIN_WORDS) return;
+
+      for (const { type, pattern } of CANDIDATE_RULES) {
+        const match = sentence.match(pattern);
+        if (!match) continue;
+
+        const key = `${type}:${sentence.toLowerCase()}`;
+        if (!seen.has(key)) {
+          seen.add(key);
+          candidates.push({
+            id: `${segment.id}:${index}`,
+            type,
+            text: sentence,
+            speaker: segment.speaker,
+            timestamp: segment.startTime,
+            offsetMs: segment.startTime - meetingStart,
+            cue: match[0],
+          });
+        }
+        return;
+      }
+    });
+  }
+
+  return candidates;
+}
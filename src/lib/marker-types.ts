@@ -0,0 +1,310 @@
+/**
+ * Marker Type Registry
+ *
+ * The marker types offered during Live Capture, each with a label, color,
+ * hotkey and the synthesis group it is listed under. Teams can replace the
+ * default decision/action/risk/question set with their own registry (e.g.
+ * adding blocker, idea and kudos). Markers keep their type id when a type is
+ * removed; unknown ids resolve to a neutral fallback.
+ * Extracted for testability.
+ */
+
+import type { MarkerType } from '@/storage/types';
+
+// ============================================
+// Types
+// ============================================
+
+/** Palette marker types can use (class names are listed in full below) */
+export type MarkerColor =
+  | 'purple'
+  | 'blue'
+  | 'amber'
+  | 'emerald'
+  | 'red'
+  | 'orange'
+  | 'sky'
+  | 'pink'
+  | 'gray';
+
+export interface MarkerTypeDefinition {
+  id: MarkerType;
+  label: string;
+  pluralLabel: string;
+  color: MarkerColor;
+  /** Single letter or digit that captures this type (case-insensitive) */
+  hotkey?: string;
+  /** Synthesis heading; types sharing a group are listed together */
+  group: string;
+}
+
+export interface MarkerTypeRegistry {
+  version: 1;
+  /** In display order */
+  types: MarkerTypeDefinition[];
+}
+
+/**
+ * Markers of one synthesis group, in registry order.
+ */
+export interface MarkerGroup<T extends { type: MarkerType }> {
+  group: string;
+  types: MarkerTypeDefinition[];
+  items: T[];
+}
+
+/**
+ * Tailwind classes per color. Written out in full so the class scanner
+ * picks them up.
+ */
+export const MARKER_COLOR_CLASSES: Record<
+  MarkerColor,
+  { button: string; dot: string; badge: string; option: string }
+> = {
+  purple: {
+    button: 'bg-purple-600 hover:bg-purple-700',
+    dot: 'bg-purple-600',
+    badge: 'bg-purple-100 text-purple-800',
+    option: 'text-purple-300 hover:bg-purple-900/50',
+  },
+  blue: {
+    button: 'bg-blue-600 hover:bg-blue-700',
+    dot: 'bg-blue-600',
+    badge: 'bg-blue-100 text-blue-800',
+    option: 'text-blue-300 hover:bg-blue-900/50',
+  },
+  amber: {
+    button: 'bg-amber-600 hover:bg-amber-700',
+    dot: 'bg-amber-600',
+    badge: 'bg-amber-100 text-amber-800',
+    option: 'text-amber-300 hover:bg-amber-900/50',
+  },
+  emerald: {
+    button: 'bg-emerald-600 hover:bg-emerald-700',
+    dot: 'bg-emerald-600',
+    badge: 'bg-emerald-100 text-emerald-800',
+    option: 'text-emerald-300 hover:bg-emerald-900/50',
+  },
+  red: {
+    button: 'bg-red-600 hover:bg-red-700',
+    dot: 'bg-red-600',
+    badge: 'bg-red-100 text-red-800',
+    option: 'text-red-300 hover:bg-red-900/50',
+  },
+  orange: {
+    button: 'bg-orange-600 hover:bg-orange-700',
+    dot: 'bg-orange-600',
+    badge: 'bg-orange-100 text-orange-800',
+    option: 'text-orange-300 hover:bg-orange-900/50',
+  },
+  sky: {
+    button: 'bg-sky-600 hover:bg-sky-700',
+    dot: 'bg-sky-600',
+    badge: 'bg-sky-100 text-sky-800',
+    option: 'text-sky-300 hover:bg-sky-900/50',
+  },
+  pink: {
+    button: 'bg-pink-600 hover:bg-pink-700',
+    dot: 'bg-pink-600',
+    badge: 'bg-pink-100 text-pink-800',
+    option: 'text-pink-300 hover:bg-pink-900/50',
+  },
+  gray: {
+    button: 'bg-gray-600 hover:bg-gray-700',
+    dot: 'bg-gray-500',
+    badge: 'bg-gray-100 text-gray-800',
+    option: 'text-gray-300 hover:bg-gray-700',
+  },
+};
+
+export const DEFAULT_MARKER_TYPES: MarkerTypeRegistry = {
+  version: 1,
+  types: [
+    { id: 'decision', label: 'Decision', pluralLabel: 'Decisions', color: 'purple', hotkey: 'D', group: 'Decisions' },
+    { id: 'action', label: 'Action', pluralLabel: 'Actions', color: 'blue', hotkey: 'A', group: 'Actions' },
+    { id: 'risk', label: 'Risk', pluralLabel: 'Risks', color: 'amber', hotkey: 'R', group: 'Risks' },
+    { id: 'question', label: 'Question', pluralLabel: 'Questions', color: 'emerald', hotkey: 'Q', group: 'Open Questions' },
+  ],
+};
+
+/** Group for markers whose type is not in the registry */
+export const UNKNOWN_MARKER_GROUP = 'Other';
+
+/** Keys taken by other capture shortcuts (N focuses the note input) */
+const RESERVED_HOTKEYS = ['N'];
+
+// ============================================
+// Validation
+// ============================================
+
+/**
+ * Error thrown when a marker type registry fails validation.
+ * `path` points at the offending field, e.g. "types[4].hotkey".
+ */
+export class MarkerTypeValidationError extends Error {
+  constructor(
+    message: string,
+    public readonly path: string
+  ) {
+    super(`${path}: ${message}`);
+    this.name = 'MarkerTypeValidationError';
+  }
+}
+
+const COLORS = Object.keys(MARKER_COLOR_CLASSES) as MarkerColor[];
+const TYPE_KEYS = ['id', 'label', 'pluralLabel', 'color', 'hotkey', 'group'];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkOptionalString(value: unknown, path: string): void {
+  if (value !== undefined && (typeof value !== 'string' || value.trim() === '')) {
+    throw new MarkerTypeValidationError('must be a non-empty string', path);
+  }
+}
+
+function validateType(value: unknown, path: string): MarkerTypeDefinition {
+  if (!isObject(value)) {
+    throw new MarkerTypeValidationError('must be an object', path);
+  }
+  const unknown = Object.keys(value).find((key) => !TYPE_KEYS.includes(key));
+  if (unknown) {
+    throw new MarkerTypeValidationError(`unknown field "${unknown}"`, path);
+  }
+  if (typeof value.id !== 'string' || !/^[a-z][a-z0-9_]*$/.test(value.id)) {
+    throw new MarkerTypeValidationError('must be lowercase letters, digits or "_"', `${path}.id`);
+  }
+  if (typeof value.label !== 'string' || value.label.trim() === '') {
+    throw new MarkerTypeValidationError('must be a non-empty string', `${path}.label`);
+  }
+  checkOptionalString(value.pluralLabel, `${path}.pluralLabel`);
+  checkOptionalString(value.group, `${path}.group`);
+  if (!COLORS.includes(value.color as MarkerColor)) {
+    throw new MarkerTypeValidationError(`must be one of ${COLORS.join(', ')}`, `${path}.color`);
+  }
+  if (value.hotkey !== undefined && (typeof value.hotkey !== 'string' || !/^[a-z0-9]$/i.test(value.hotkey))) {
+    throw new MarkerTypeValidationError('must be a single letter or digit', `${path}.hotkey`);
+  }
+
+  const label = value.label.trim();
+  const pluralLabel = (value.pluralLabel as string | undefined)?.trim() ?? `${label}s`;
+  return {
+    id: value.id,
+    label,
+    pluralLabel,
+    color: value.color as MarkerColor,
+    hotkey: (value.hotkey as string | undefined)?.toUpperCase(),
+    group: (value.group as string | undefined)?.trim() ?? pluralLabel,
+  };
+}
+
+/**
+ * Validate a marker type registry, filling in plural labels and groups.
+ *
+ * @throws MarkerTypeValidationError naming the first invalid field
+ */
+export function validateMarkerTypes(value: unknown): MarkerTypeRegistry {
+  if (!isObject(value)) {
+    throw new MarkerTypeValidationError('must be an object', 'registry');
+  }
+  if (value.version !== 1) {
+    throw new MarkerTypeValidationError('unsupported version (expected 1)', 'version');
+  }
+  if (!Array.isArray(value.types) || value.types.length === 0) {
+    throw new MarkerTypeValidationError('must be a non-empty list', 'types');
+  }
+
+  const ids = new Set<string>();
+  const hotkeys = new Set<string>();
+  const types = value.types.map((item, index) => {
+    const path = `types[${index}]`;
+    const type = validateType(item, path);
+    if (ids.has(type.id)) {
+      throw new MarkerTypeValidationError(`duplicate id "${type.id}"`, `${path}.id`);
+    }
+    ids.add(type.id);
+    if (type.hotkey) {
+      if (RESERVED_HOTKEYS.includes(type.hotkey)) {
+        throw new MarkerTypeValidationError(`"${type.hotkey}" is reserved`, `${path}.hotkey`);
+      }
+      if (hotkeys.has(type.hotkey)) {
+        throw new MarkerTypeValidationError(`"${type.hotkey}" is already used`, `${path}.hotkey`);
+      }
+      hotkeys.add(type.hotkey);
+    }
+    return type;
+  });
+
+  return { version: 1, types };
+}
+
+/**
+ * Parse and validate a registry from JSON text.
+ *
+ * @throws MarkerTypeValidationError if the JSON is malformed or invalid
+ */
+export function parseMarkerTypes(json: string): MarkerTypeRegistry {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (error) {
+    throw new MarkerTypeValidationError(error instanceof Error ? error.message : 'invalid JSON', 'json');
+  }
+  return validateMarkerTypes(value);
+}
+
+// ============================================
+// Lookup
+// ============================================
+
+/**
+ * Definition for a marker type. Types missing from the registry get a gray
+ * fallback with a label derived from the id, listed under "Other".
+ */
+export function getMarkerTypeDefinition(
+  registry: MarkerTypeRegistry,
+  type: MarkerType
+): MarkerTypeDefinition {
+  const found = registry.types.find((t) => t.id === type);
+  if (found) return found;
+
+  const label = type.charAt(0).toUpperCase() + type.slice(1).replace(/_/g, ' ');
+  return { id: type, label, pluralLabel: `${label}s`, color: 'gray', group: UNKNOWN_MARKER_GROUP };
+}
+
+/**
+ * Marker type captured by a key press, if any.
+ */
+export function findMarkerTypeByHotkey(registry: MarkerTypeRegistry, key: string): MarkerTypeDefinition | undefined {
+  const upper = key.toUpperCase();
+  return registry.types.find((t) => t.hotkey === upper);
+}
+
+/**
+ * Group markers by their type's synthesis group, keeping marker order within
+ * each group. Groups follow the registry order; unknown types come last.
+ */
+export function groupMarkers<T extends { type: MarkerType }>(
+  registry: MarkerTypeRegistry,
+  markers: T[]
+): MarkerGroup<T>[] {
+  const groups = new Map<string, MarkerGroup<T>>();
+
+  for (const marker of markers) {
+    const definition = getMarkerTypeDefinition(registry, marker.type);
+    let entry = groups.get(definition.group);
+    if (!entry) {
+      entry = { group: definition.group, types: [], items: [] };
+      groups.set(definition.group, entry);
+    }
+    if (!entry.types.some((t) => t.id === definition.id)) entry.types.push(definition);
+    entry.items.push(marker);
+  }
+
+  const order = (group: MarkerGroup<T>) => {
+    const index = registry.types.findIndex((t) => t.group === group.group);
+    return index === -1 ? registry.types.length : index;
+  };
+  return Array.from(groups.values()).sort((a, b) => order(a) - order(b));
+}
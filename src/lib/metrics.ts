@@ -23,6 +23,8 @@ export interface MetricCounts {
   meetingsWithMarkers: number;
   meetingsEnded: number;
   meetingsSynthesisCompleted: number;
+  suggestionsAccepted: number;
+  suggestionsRejected: number;
 }
 
 export interface ComputedMetrics {
@@ -31,10 +33,15 @@ export interface ComputedMetrics {
   goalUtilization: number;
   markerUtilization: number;
   synthesisCompletion: number;
+  suggestionAcceptance: number;
   bounceRates: Record<string, number>;
   overallBounceRate: number;
   counts: MetricCounts;
   overrideReasons: Array<{ reason: string; count: number }>;
+  /** Markers created per type, including types no longer registered */
+  markersByType: Array<{ type: string; count: number }>;
+  /** Agent suggestions accepted and rejected, per kind */
+  suggestionsByKind: Array<{ kind: string; accepted: number; rejected: number }>;
   daysCovered: number;
 }
 
@@ -51,6 +58,7 @@ export interface ComputedMetrics {
  * - Goal utilization = meetings with ≥1 goal / meetings opened in prep
  * - Marker utilization = meetings with ≥1 marker / meetings opened in capture
  * - Synthesis completion = synthesis completed / meetings ended
+ * - Suggestion acceptance = suggestions accepted / suggestions decided
  * - Bounce rate = sessions bounced / sessions opened
  */
 export function computeMetrics(
@@ -112,6 +120,14 @@ export function computeMetrics(
   // Override reasons aggregation
   const overrideReasons = aggregateOverrideReasons(manualOverrides);
 
+  // Markers created per type
+  const markersByType = countMarkersByType(events.filter((e) => e.type === 'marker_created'));
+
+  // Agent suggestion outcomes
+  const suggestionsAccepted = events.filter((e) => e.type === 'suggestion_accepted');
+  const suggestionsRejected = events.filter((e) => e.type === 'suggestion_rejected');
+  const suggestionsByKind = countSuggestionOutcomes(suggestionsAccepted, suggestionsRejected);
+
   // Days covered
   const dates = new Set(
     events.map((e) => new Date(e.timestamp).toISOString().split('T')[0])
@@ -130,6 +146,8 @@ export function computeMetrics(
     meetingsWithMarkers: meetingsInCaptureWithMarkers.length,
     meetingsEnded: meetingsEnded.length,
     meetingsSynthesisCompleted: meetingsWithSynthesisCompleted.size,
+    suggestionsAccepted: suggestionsAccepted.length,
+    suggestionsRejected: suggestionsRejected.length,
   };
 
   return {
@@ -138,10 +156,16 @@ export function computeMetrics(
     goalUtilization: safePercent(counts.meetingsWithGoals, counts.meetingsInPrep),
     markerUtilization: safePercent(counts.meetingsWithMarkers, counts.meetingsInCapture),
     synthesisCompletion: safePercent(counts.meetingsSynthesisCompleted, counts.meetingsEnded),
+    suggestionAcceptance: safePercent(
+      counts.suggestionsAccepted,
+      counts.suggestionsAccepted + counts.suggestionsRejected
+    ),
     bounceRates,
     overallBounceRate: safePercent(counts.sessionsBounced, counts.sessionsOpened),
     counts,
     overrideReasons,
+    markersByType,
+    suggestionsByKind,
     daysCovered: dates.size,
   };
 }
@@ -205,6 +229,47 @@ export function aggregateOverrideReasons(
     .slice(0, 10);
 }
 
+/**
+ * Count marker_created events per marker type, most used first. Types are
+ * counted as recorded, whether or not they are still registered.
+ */
+export function countMarkersByType(
+  markerEvents: EventRecord[]
+): Array<{ type: string; count: number }> {
+  const typeCounts: Record<string, number> = {};
+
+  for (const event of markerEvents) {
+    const type = (event.payload.type as string) || 'unknown';
+    typeCounts[type] = (typeCounts[type] || 0) + 1;
+  }
+
+  return Object.entries(typeCounts)
+    .map(([type, count]) => ({ type, count }))
+    .sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Count accepted and rejected agent suggestions per kind (marker, flag,
+ * link), most decided first.
+ */
+export function countSuggestionOutcomes(
+  acceptedEvents: EventRecord[],
+  rejectedEvents: EventRecord[]
+): Array<{ kind: string; accepted: number; rejected: number }> {
+  const byKind: Record<string, { accepted: number; rejected: number }> = {};
+  const entry = (event: EventRecord) => {
+    const kind = (event.payload.kind as string) || 'unknown';
+    return (byKind[kind] ??= { accepted: 0, rejected: 0 });
+  };
+
+  for (const event of acceptedEvents) entry(event).accepted++;
+  for (const event of rejectedEvents) entry(event).rejected++;
+
+  return Object.entries(byKind)
+    .map(([kind, counts]) => ({ kind, ...counts }))
+    .sort((a, b) => b.accepted + b.rejected - (a.accepted + a.rejected));
+}
+
 /**
  * Calculate percentage avoiding division by zero.
  */
@@ -0,0 +1,244 @@
+/**
+ * Meeting Recap Rendering
+ *
+ * Pure functions that turn a MeetingState into a recap and render it as
+ * Markdown, HTML or a plain-text email body.
+ * Extracted for testability.
+ */
+
+import { MeetingState, MarkerType, ActionStatus } from '@/storage/types';
+import { toLocalDateString } from '@/storage/action-api';
+import { DEFAULT_MARKER_TYPES, groupMarkers, type MarkerTypeRegistry } from './marker-types';
+
+// ============================================
+// Types
+// ============================================
+
+export interface RecapMarkerGroup {
+  /** Marker types listed in this group */
+  types: MarkerType[];
+  label: string;
+  items: string[];
+}
+
+export interface RecapAction {
+  label: string;
+  owner?: string;
+  dueDate?: string;
+  status: ActionStatus;
+}
+
+export interface MeetingRecap {
+  title: string;
+  /** Meeting date as YYYY-MM-DD */
+  date: string;
+  attendees: string[];
+  goal?: string;
+  outcomes: Array<{ text: string; achieved: boolean }>;
+  /** Markers by synthesis group (actions are listed under nextActions) */
+  markerGroups: RecapMarkerGroup[];
+  /** Open and done actions; dropped actions are left out */
+  nextActions: RecapAction[];
+}
+
+export type RecapFormat = 'markdown' | 'html' | 'text';
+
+// ============================================
+// Building
+// ============================================
+
+/**
+ * Build a recap from meeting state, skipping soft-deleted goals and markers.
+ * Markers are grouped by their type's synthesis group in the registry.
+ */
+export function buildRecap(
+  meeting: MeetingState,
+  markerTypes: MarkerTypeRegistry = DEFAULT_MARKER_TYPES
+): MeetingRecap {
+  const markers = meeting.markers.filter((m) => !m.deletedAt);
+
+  return {
+    title: meeting.title,
+    date: toLocalDateString(new Date(meeting.startTime)),
+    attendees: meeting.attendees,
+    goal: meeting.goal?.trim() || undefined,
+    outcomes: meeting.my3Goals
+      .filter((g) => !g.deletedAt)
+      .map((g) => ({ text: g.text, achieved: g.achieved })),
+    markerGroups: groupMarkers(
+      markerTypes,
+      markers.filter((m) => m.type !== 'action')
+    ).map(({ group, types, items }) => ({
+      types: types.map((t) => t.id),
+      label: group,
+      items: items.map((m) => m.label || 'Unlabeled'),
+    })),
+    nextActions: markers
+      .filter((m) => m.type === 'action' && m.action?.status !== 'dropped')
+      .map((m) => ({
+        label: m.label || 'Unlabeled action',
+        owner: m.action?.owner,
+        dueDate: m.action?.dueDate,
+        status: m.action?.status ?? 'open',
+      })),
+  };
+}
+
+/**
+ * Owner and due date suffix, e.g. " (Alice, due 2026-02-01)".
+ */
+function describeAction(action: RecapAction): string {
+  const parts = [action.owner ?? 'Unassigned'];
+  if (action.dueDate) parts.push(`due ${action.dueDate}`);
+  return ` (${parts.join(', ')})`;
+}
+
+// ============================================
+// Renderers
+// ============================================
+
+/**
+ * Render a recap as Markdown.
+ */
+export function renderRecapMarkdown(recap: MeetingRecap): string {
+  const lines: string[] = [`# ${recap.title} — ${recap.date}`, ''];
+
+  if (recap.attendees.length > 0) {
+    lines.push(`**Attendees:** ${recap.attendees.join(', ')}`, '');
+  }
+  if (recap.goal) {
+    lines.push('## Goal', '', recap.goal, '');
+  }
+  if (recap.outcomes.length > 0) {
+    lines.push('## My 3 Outcomes', '');
+    for (const outcome of recap.outcomes) {
+      lines.push(`- [${outcome.achieved ? 'x' : ' '}] ${outcome.text}`);
+    }
+    lines.push('');
+  }
+  for (const group of recap.markerGroups) {
+    lines.push(`## ${group.label}`, '');
+    for (const item of group.items) {
+      lines.push(`- ${item}`);
+    }
+    lines.push('');
+  }
+  if (recap.nextActions.length > 0) {
+    lines.push('## Next Actions', '');
+    for (const action of recap.nextActions) {
+      lines.push(`- [${action.status === 'done' ? 'x' : ' '}] ${action.label}${describeAction(action)}`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n').trimEnd() + '\n';
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function htmlList(items: string[]): string {
+  return `<ul>\n${items.map((item) => `  <li>${item}</li>`).join('\n')}\n</ul>`;
+}
+
+/**
+ * Render a recap as an HTML fragment. All user text is escaped.
+ */
+export function renderRecapHtml(recap: MeetingRecap): string {
+  const parts: string[] = [`<h1>${escapeHtml(recap.title)} — ${recap.date}</h1>`];
+
+  if (recap.attendees.length > 0) {
+    parts.push(`<p><strong>Attendees:</strong> ${escapeHtml(recap.attendees.join(', '))}</p>`);
+  }
+  if (recap.goal) {
+    parts.push('<h2>Goal</h2>', `<p>${escapeHtml(recap.goal)}</p>`);
+  }
+  if (recap.outcomes.length > 0) {
+    parts.push(
+      '<h2>My 3 Outcomes</h2>',
+      htmlList(recap.outcomes.map((o) => `${o.achieved ? '&#9745;' : '&#9744;'} ${escapeHtml(o.text)}`))
+    );
+  }
+  for (const group of recap.markerGroups) {
+    parts.push(`<h2>${escapeHtml(group.label)}</h2>`, htmlList(group.items.map(escapeHtml)));
+  }
+  if (recap.nextActions.length > 0) {
+    parts.push(
+      '<h2>Next Actions</h2>',
+      htmlList(
+        recap.nextActions.map((a) => {
+          const text = `${escapeHtml(a.label)}${escapeHtml(describeAction(a))}`;
+          return a.status === 'done' ? `<s>${text}</s>` : text;
+        })
+      )
+    );
+  }
+
+  return parts.join('\n') + '\n';
+}
+
+/**
+ * Render a recap as a plain-text email body.
+ */
+export function renderRecapPlainText(recap: MeetingRecap): string {
+  const lines: string[] = [`Recap: ${recap.title} (${recap.date})`, ''];
+
+  if (recap.goal) {
+    lines.push(`Goal: ${recap.goal}`, '');
+  }
+  if (recap.outcomes.length > 0) {
+    lines.push('Outcomes:');
+    for (const outcome of recap.outcomes) {
+      lines.push(`  ${outcome.achieved ? '[done]' : '[open]'} ${outcome.text}`);
+    }
+    lines.push('');
+  }
+  for (const group of recap.markerGroups) {
+    lines.push(`${group.label}:`);
+    for (const item of group.items) {
+      lines.push(`  - ${item}`);
+    }
+    lines.push('');
+  }
+  if (recap.nextActions.length > 0) {
+    lines.push('Next actions:');
+    for (const action of recap.nextActions) {
+      const prefix = action.status === 'done' ? '[done] ' : '';
+      lines.push(`  - ${prefix}${action.label}${describeAction(action)}`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n').trimEnd() + '\n';
+}
+
+/**
+ * Render a recap in the given format.
+ */
+export function renderRecap(recap: MeetingRecap, format: RecapFormat): string {
+  switch (format) {
+    case 'markdown':
+      return renderRecapMarkdown(recap);
+    case 'html':
+      return renderRecapHtml(recap);
+    case 'text':
+      return renderRecapPlainText(recap);
+  }
+}
+
+/**
+ * Build a mailto: URL with the plain-text recap as the body.
+ * Attendees that look like email addresses become recipients.
+ */
+export function buildRecapMailto(recap: MeetingRecap): string {
+  const recipients = recap.attendees.filter((a) => a.includes('@')).map(encodeURIComponent);
+  const subject = encodeURIComponent(`Recap: ${recap.title} (${recap.date})`);
+  const body = encodeURIComponent(renderRecapPlainText(recap));
+  return `mailto:${recipients.join(',')}?subject=${subject}&body=${body}`;
+}
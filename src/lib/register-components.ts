@@ -11,6 +11,7 @@ import { registerComponent } from './component-registry';
 import { NeutralIntentSetter } from '@/components/neutral/NeutralIntentSetter';
 import { SuggestedIntents } from '@/components/neutral/SuggestedIntents';
 import { AdjacentModeSuggestions } from '@/components/neutral/AdjacentModeSuggestions';
+import { MyOpenActionsCard } from '@/components/neutral/MyOpenActionsCard';
 
 // Shared components
 import { MeetingHeader } from '@/components/shared/MeetingHeader';
@@ -23,6 +24,8 @@ import { ContextSnippetsCard } from '@/components/prep/ContextSnippetsCard';
 
 // Capture mode components
 import { CaptureMarkersPanel } from '@/components/capture/CaptureMarkersPanel';
+import { CaptureNotesStream } from '@/components/capture/CaptureNotesStream';
+import { TranscriptAttach } from '@/components/capture/TranscriptAttach';
 import { GoalsChecklistStrip } from '@/components/capture/GoalsChecklistStrip';
 import { BottomHintBar } from '@/components/capture/BottomHintBar';
 import { MarkerLabelInput } from '@/components/capture/MarkerLabelInput';
@@ -31,6 +34,8 @@ import { MarkerLabelInput } from '@/components/capture/MarkerLabelInput';
 import { GoalsOutcomeCard } from '@/components/synthesis/GoalsOutcomeCard';
 import { MarkersSummaryCard } from '@/components/synthesis/MarkersSummaryCard';
 import { NextActionsCard } from '@/components/synthesis/NextActionsCard';
+import { RecapExportCard } from '@/components/synthesis/RecapExportCard';
+import { TranscriptImportCard } from '@/components/synthesis/TranscriptImportCard';
 
 // Workspace components
 import { WorkspaceRenderer } from '@/workspaces/WorkspaceRenderer';
@@ -40,6 +45,7 @@ export function registerAllComponents(): void {
   registerComponent('NeutralIntentSetter', NeutralIntentSetter);
   registerComponent('SuggestedIntents', SuggestedIntents);
   registerComponent('AdjacentModeSuggestions', AdjacentModeSuggestions);
+  registerComponent('MyOpenActionsCard', MyOpenActionsCard);
 
   // Shared
   registerComponent('MeetingHeader', MeetingHeader);
@@ -52,6 +58,8 @@ export function registerAllComponents(): void {
 
   // Capture mode
   registerComponent('CaptureMarkersPanel', CaptureMarkersPanel);
+  registerComponent('CaptureNotesStream', CaptureNotesStream);
+  registerComponent('TranscriptAttach', TranscriptAttach);
   registerComponent('GoalsChecklistStrip', GoalsChecklistStrip);
   registerComponent('BottomHintBar', BottomHintBar);
   registerComponent('MarkerLabelInput', MarkerLabelInput);
@@ -60,6 +68,8 @@ export function registerAllComponents(): void {
   registerComponent('GoalsOutcomeCard', GoalsOutcomeCard);
   registerComponent('MarkersSummaryCard', MarkersSummaryCard);
   registerComponent('NextActionsCard', NextActionsCard);
+  registerComponent('RecapExportCard', RecapExportCard);
+  registerComponent('TranscriptImportCard', TranscriptImportCard);
 
   // Workspace
   registerComponent('WorkspaceRenderer', WorkspaceRenderer);
@@ -0,0 +1,301 @@
+/**
+ * Transcript Parsing and Alignment
+ *
+ * Pure functions that turn WebVTT, SRT, Zoom and Teams exports and local
+ * Whisper output into timed segments, and line segments up with marker timestamps so a marker can show
+ * what was being said around it.
+ * Extracted for testability.
+ */
+
+import type { TranscriptSource } from '@/storage/types';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * A segment as produced by a parser or recognizer. Times are ms offsets from
+ * the start of the recording.
+ */
+export interface TranscriptSegmentInput {
+  startMs: number;
+  endMs: number;
+  text: string;
+  speaker?: string;
+}
+
+/**
+ * How far around a marker to look for speech.
+ */
+export interface AlignmentWindow {
+  beforeMs: number;
+  afterMs: number;
+}
+
+/** People usually mark a moment just after it was said */
+export const DEFAULT_ALIGNMENT_WINDOW: AlignmentWindow = {
+  beforeMs: 30 * 1000,
+  afterMs: 10 * 1000,
+};
+
+/**
+ * Error thrown when a transcript file cannot be parsed.
+ * `line` is the 1-based line of the offending cue (0 for whole-file errors).
+ */
+export class TranscriptParseError extends Error {
+  constructor(
+    message: string,
+    public readonly line: number
+  ) {
+    super(line > 0 ? `Line ${line}: ${message}` : message);
+    this.name = 'TranscriptParseError';
+  }
+}
+
+// ============================================
+// Parsing
+// ============================================
+
+const CUE_TIMING = /^\s*(\S+)\s+-->\s+(\S+)/;
+
+/** Zoom text export: "[Alice Chen] 00:01:05", text on the following lines */
+const ZOOM_HEADER = /^\[([^\]]+)\]\s+(\d{1,2}:\d{2}(?::\d{2})?)\s*$/;
+
+/** Teams text export: "Alice Chen   0:03", text on the following lines */
+const TEAMS_HEADER = /^(\S.*?)(?:\t| {2,})(\d{1,2}:\d{2}(?::\d{2})?)\s*$/;
+
+/** Zoom cloud VTT puts the speaker in the cue text: "Alice Chen: Hello" */
+const SPEAKER_PREFIX = /^([^:]{1,40}):\s+(.+)$/;
+
+/**
+ * Parse "hh:mm:ss.mmm", "mm:ss.mmm" or the SRT form "hh:mm:ss,mmm" into ms.
+ * The fraction is optional, as in Zoom and Teams text exports ("0:03").
+ */
+export function parseTimestamp(value: string): number | null {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{2})(?:[.,](\d{1,3}))?$/);
+  if (!match) return null;
+
+  const [, hours = '0', minutes, seconds, fraction = '0'] = match;
+  return (
+    Number(hours) * 3600000 +
+    Number(minutes) * 60000 +
+    Number(seconds) * 1000 +
+    Number(fraction.padEnd(3, '0'))
+  );
+}
+
+/**
+ * Split cue text into speaker and plain text. Handles WebVTT voice tags
+ * (`<v Alice>Hello`) and drops any other markup.
+ */
+function cleanCueText(lines: string[]): { text: string; speaker?: string } {
+  const joined = lines.join(' ');
+  const voice = joined.match(/<v(?:\.[^\s>]+)*\s+([^>]+)>/);
+  const text = joined.replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim();
+  return voice ? { text, speaker: voice[1].trim() } : { text };
+}
+
+/**
+ * Parse timed cues shared by WebVTT and SRT: a timing line followed by text
+ * lines, blocks separated by blank lines.
+ */
+function parseCues(content: string, format: 'vtt' | 'srt'): TranscriptSegmentInput[] {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const segments: TranscriptSegmentInput[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const timing = lines[i].match(CUE_TIMING);
+    if (!timing) continue;
+
+    const startMs = parseTimestamp(timing[1]);
+    const endMs = parseTimestamp(timing[2]);
+    if (startMs === null || endMs === null || endMs < startMs) {
+      throw new TranscriptParseError(`invalid ${format.toUpperCase()} cue timing "${lines[i].trim()}"`, i + 1);
+    }
+
+    const textLines: string[] = [];
+    while (i + 1 < lines.length && lines[i + 1].trim() !== '') {
+      textLines.push(lines[++i]);
+    }
+
+    const cue = cleanCueText(textLines);
+    if (cue.text) segments.push({ startMs, endMs, ...cue });
+  }
+
+  return segments;
+}
+
+/**
+ * Parse speaker blocks shared by Zoom and Teams text exports: a header line
+ * with speaker and offset followed by text lines. Exports carry no end
+ * times, so each block runs until the next one starts.
+ */
+function parseSpeakerBlocks(content: string, header: RegExp, format: string): TranscriptSegmentInput[] {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const blocks: Array<{ startMs: number; speaker: string; lines: string[] }> = [];
+
+  lines.forEach((line, i) => {
+    const match = line.match(header);
+    if (match) {
+      const startMs = parseTimestamp(match[2]);
+      if (startMs === null) {
+        throw new TranscriptParseError(`invalid ${format} timestamp "${match[2]}"`, i + 1);
+      }
+      blocks.push({ startMs, speaker: match[1].trim(), lines: [] });
+    } else if (line.trim() && blocks.length > 0) {
+      blocks[blocks.length - 1].lines.push(line);
+    }
+  });
+
+  return blocks
+    .map((block, i) => ({
+      startMs: block.startMs,
+      endMs: Math.max(block.startMs, blocks[i + 1]?.startMs ?? block.startMs),
+      text: cleanCueText(block.lines).text,
+      speaker: block.speaker,
+    }))
+    .filter((s) => s.text);
+}
+
+/**
+ * Parse a WebVTT file.
+ *
+ * @throws TranscriptParseError if the header is missing or a cue is malformed
+ */
+export function parseVtt(content: string): TranscriptSegmentInput[] {
+  if (!content.replace(/^\uFEFF/, '').startsWith('WEBVTT')) {
+    throw new TranscriptParseError('missing WEBVTT header', 1);
+  }
+  return parseCues(content, 'vtt');
+}
+
+/**
+ * Parse an SRT file.
+ *
+ * @throws TranscriptParseError if a cue is malformed
+ */
+export function parseSrt(content: string): TranscriptSegmentInput[] {
+  return parseCues(content, 'srt');
+}
+
+/**
+ * Parse a Zoom text transcript ("[Speaker] hh:mm:ss" blocks).
+ *
+ * @throws TranscriptParseError if a timestamp is malformed
+ */
+export function parseZoomTranscript(content: string): TranscriptSegmentInput[] {
+  return parseSpeakerBlocks(content, ZOOM_HEADER, 'Zoom');
+}
+
+/**
+ * Parse a Teams text transcript ("Speaker   m:ss" blocks).
+ *
+ * @throws TranscriptParseError if a timestamp is malformed
+ */
+export function parseTeamsTranscript(content: string): TranscriptSegmentInput[] {
+  return parseSpeakerBlocks(content, TEAMS_HEADER, 'Teams');
+}
+
+/**
+ * Zoom cloud recordings export VTT with "Speaker: text" cues instead of
+ * voice tags. Only treated as Zoom when every cue has the prefix, so a
+ * single "Note: ..." line is not mistaken for a speaker.
+ */
+function splitSpeakerPrefixes(segments: TranscriptSegmentInput[]): TranscriptSegmentInput[] | null {
+  if (segments.length === 0 || segments.some((s) => s.speaker || !SPEAKER_PREFIX.test(s.text))) {
+    return null;
+  }
+  return segments.map((s) => {
+    const [, speaker, text] = s.text.match(SPEAKER_PREFIX)!;
+    return { ...s, text, speaker: speaker.trim() };
+  });
+}
+
+function hasLine(content: string, pattern: RegExp): boolean {
+  return content.split(/\r?\n/).some((line) => pattern.test(line));
+}
+
+/**
+ * Parse output from a local Whisper server: OpenAI-style verbose JSON
+ * (`segments` with `start`/`end` in seconds) or whisper.cpp JSON
+ * (`transcription` with `offsets.from`/`offsets.to` in ms).
+ *
+ * @throws TranscriptParseError if the JSON has neither shape
+ */
+export function parseWhisperJson(content: string): TranscriptSegmentInput[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new TranscriptParseError(error instanceof Error ? error.message : 'invalid JSON', 0);
+  }
+
+  const record = (data ?? {}) as Record<string, unknown>;
+  if (Array.isArray(record.segments)) {
+    return (record.segments as Array<{ start: number; end: number; text: string }>)
+      .map((s) => ({ startMs: Math.round(s.start * 1000), endMs: Math.round(s.end * 1000), text: s.text.trim() }))
+      .filter((s) => s.text);
+  }
+  if (Array.isArray(record.transcription)) {
+    return (record.transcription as Array<{ offsets: { from: number; to: number }; text: string }>)
+      .map((s) => ({ startMs: s.offsets.from, endMs: s.offsets.to, text: s.text.trim() }))
+      .filter((s) => s.text);
+  }
+  throw new TranscriptParseError('expected Whisper "segments" or whisper.cpp "transcription"', 0);
+}
+
+/**
+ * Parse a transcript file, picking the format from its extension (or its
+ * content when the extension is unknown or plain `.txt`).
+ *
+ * @throws TranscriptParseError if the file cannot be parsed
+ */
+export function parseTranscriptFile(
+  fileName: string,
+  content: string
+): { source: TranscriptSource; segments: TranscriptSegmentInput[] } {
+  const extension = fileName.toLowerCase().split('.').pop();
+
+  if (extension === 'vtt' || (extension !== 'srt' && content.replace(/^\uFEFF/, '').trimStart().startsWith('WEBVTT'))) {
+    const segments = parseVtt(content);
+    const zoomSegments = splitSpeakerPrefixes(segments);
+    return zoomSegments ? { source: 'zoom', segments: zoomSegments } : { source: 'vtt', segments };
+  }
+  if (extension === 'json' || content.trimStart().startsWith('{')) {
+    return { source: 'whisper', segments: parseWhisperJson(content) };
+  }
+  if (extension !== 'srt' && !hasLine(content, CUE_TIMING)) {
+    if (hasLine(content, ZOOM_HEADER)) {
+      return { source: 'zoom', segments: parseZoomTranscript(content) };
+    }
+    if (hasLine(content, TEAMS_HEADER)) {
+      return { source: 'teams', segments: parseTeamsTranscript(content) };
+    }
+  }
+  return { source: 'srt', segments: parseSrt(content) };
+}
+
+// ============================================
+// Alignment
+// ============================================
+
+/**
+ * Segments overlapping the window around each marker, keyed by marker ID.
+ * Markers with no nearby speech are left out.
+ */
+export function alignTranscriptToMarkers<
+  S extends { startTime: number; endTime: number },
+  M extends { id: string; timestamp: number },
+>(segments: S[], markers: M[], window: AlignmentWindow = DEFAULT_ALIGNMENT_WINDOW): Record<string, S[]> {
+  const sorted = [...segments].sort((a, b) => a.startTime - b.startTime);
+  const aligned: Record<string, S[]> = {};
+
+  for (const marker of markers) {
+    const from = marker.timestamp - window.beforeMs;
+    const to = marker.timestamp + window.afterMs;
+    const nearby = sorted.filter((s) => s.endTime >= from && s.startTime <= to);
+    if (nearby.length > 0) aligned[marker.id] = nearby;
+  }
+
+  return aligned;
+}
@@ -0,0 +1,62 @@
+/**
+ * Static Plans Tests
+ *
+ * Tests that the transition plan shows the back-to-back meetings the rules
+ * engine found rather than sample data.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { buildTransitionPlan } from '../static-plans';
+import { RulesEngine } from '@/rules/rules-engine';
+import type { CalendarEvent } from '@/rules/types';
+
+vi.mock('@/storage', () => ({
+  storage: {
+    logEvent: vi.fn().mockResolvedValue('mock-event-id'),
+  },
+}));
+
+const NOW = new Date(2026, 0, 15, 10, 2).getTime();
+
+function createEvent(title: string, startOffsetMin: number, durationMin: number): CalendarEvent {
+  const startTime = NOW + startOffsetMin * 60000;
+  return {
+    id: `event-${title}`,
+    title,
+    startTime,
+    endTime: startTime + durationMin * 60000,
+    attendees: ['Alice', 'Bob'],
+  };
+}
+
+const standup = createEvent('Standup', -32, 30);
+const planning = createEvent('Planning', 5, 60);
+
+describe('buildTransitionPlan', () => {
+  it('shows the meeting that ended beside the next one', () => {
+    const plan = buildTransitionPlan(standup, planning, NOW);
+
+    expect(plan.reason).toBe('"Standup" just ended; "Planning" starts in 5 minutes');
+    expect(plan.components.filter((c) => c.type === 'MeetingHeader').map((c) => c.props)).toEqual([
+      { title: 'Standup', startTime: standup.startTime, endTime: standup.endTime, attendees: ['Alice', 'Bob'] },
+      {
+        title: 'Planning',
+        startTime: planning.startTime,
+        endTime: planning.endTime,
+        attendees: ['Alice', 'Bob'],
+        location: undefined,
+      },
+    ]);
+  });
+
+  it('takes its meetings from the rules engine plan', async () => {
+    const engine = new RulesEngine();
+    engine.setTimeOverride(NOW);
+    const events = [standup, planning];
+
+    const { plan } = await engine.evaluateContext(events, 'app_open', { dryRun: true });
+
+    expect(plan.mode).toBe('meeting_transition');
+    expect(plan.transition).toEqual({ fromId: 'event-Standup', toId: 'event-Planning' });
+  });
+});
@@ -8,6 +8,7 @@
 import { UIPlan, DecisionCapsule, Mode } from '@/types/ui-plan';
 import { My3Goal } from '@/components/prep/My3GoalsCard';
 import { Marker } from '@/components/capture/CaptureMarkersPanel';
+import type { CalendarEvent } from '@/rules/types';
 
 // ============================================
 // Sample Data
@@ -22,6 +23,15 @@ export const sampleMeeting = {
   location: 'Zoom',
 };
 
+export const sampleNextMeeting = {
+  id: 'meeting-design-review',
+  title: 'Design Review',
+  startTime: Date.now() + 5 * 60 * 1000, // 5 min from now
+  endTime: Date.now() + 35 * 60 * 1000,
+  attendees: ['Dana Lee', 'Alice Chen'],
+  location: 'Room 4',
+};
+
 export const sampleGoals: My3Goal[] = [
   { id: 'g1', text: 'Get alignment on Q1 timeline', achieved: false },
   { id: 'g2', text: 'Understand blockers from eng team', achieved: true, achievedAt: Date.now() - 15 * 60 * 1000 },
@@ -51,6 +61,85 @@ export const sampleContextSnippets = [
   },
 ];
 
+// ============================================
+// Transition Plan
+// ============================================
+
+/** Meeting fields a transition plan shows */
+export type TransitionMeeting = Pick<CalendarEvent, 'id' | 'title' | 'startTime' | 'endTime' | 'attendees'> & {
+  location?: string;
+};
+
+/**
+ * Split plan for back-to-back meetings: a quick synthesis of `from`, which
+ * just ended, beside prep for `to`. Outcomes and markers come from the
+ * active meeting.
+ */
+export function buildTransitionPlan(from: TransitionMeeting, to: TransitionMeeting, now = Date.now()): UIPlan {
+  const minutesUntil = Math.max(0, Math.round((to.startTime - now) / 60000));
+
+  return {
+    id: `transition-${from.id}-${to.id}`,
+    mode: 'meeting_transition',
+    layout: 'split',
+    confidence: 'HIGH',
+    reason: `"${from.title}" just ended; "${to.title}" starts in ${minutesUntil} minutes`,
+    timestamp: now,
+    components: [
+      {
+        type: 'MeetingHeader',
+        id: 'last-header',
+        props: {
+          title: from.title,
+          startTime: from.startTime,
+          endTime: from.endTime,
+          attendees: from.attendees,
+        },
+      },
+      {
+        type: 'GoalsOutcomeCard',
+        id: 'last-outcomes',
+        props: {
+          goals: [],
+        },
+      },
+      {
+        type: 'MarkersSummaryCard',
+        id: 'last-markers',
+        props: {},
+      },
+      {
+        type: 'MeetingHeader',
+        id: 'next-header',
+        props: {
+          title: to.title,
+          startTime: to.startTime,
+          endTime: to.endTime,
+          attendees: to.attendees,
+          location: to.location,
+        },
+      },
+      {
+        type: 'My3GoalsCard',
+        id: 'next-my3',
+        props: {
+          goals: [],
+        },
+      },
+      {
+        type: 'PrepPromptsCard',
+        id: 'next-prompts',
+        props: {
+          prompts: [
+            'What from the last meeting carries over?',
+            'What does success look like?',
+          ],
+        },
+      },
+    ],
+  };
+}
+
 // ============================================
 // Static Plans
 // ============================================
@@ -91,6 +180,11 @@ export const staticPlans: Record<Mode, UIPlan> = {
           ],
         },
       },
+      {
+        type: 'MyOpenActionsCard',
+        id: 'open-actions',
+        props: {},
+      },
       {
         type: 'AdjacentModeSuggestions',
         id: 'adjacent',
@@ -183,6 +277,16 @@ export const staticPlans: Record<Mode, UIPlan> = {
           markers: sampleMarkers,
         },
       },
+      {
+        type: 'CaptureNotesStream',
+        id: 'notes',
+        props: {},
+      },
+      {
+        type: 'TranscriptAttach',
+        id: 'transcript',
+        props: {},
+      },
       {
         type: 'BottomHintBar',
         id: 'hints',
@@ -192,6 +296,7 @@ export const staticPlans: Record<Mode, UIPlan> = {
             { key: 'a', label: 'Action' },
             { key: 'r', label: 'Risk' },
             { key: 'q', label: 'Question' },
+            { key: 'n', label: 'Note' },
           ],
         },
       },
@@ -233,10 +338,32 @@ export const staticPlans: Record<Mode, UIPlan> = {
       {
         type: 'NextActionsCard',
         id: 'actions',
+        props: {
+          markers: sampleMarkers,
+          attendees: sampleMeeting.attendees,
+        },
+      },
+      {
+        type: 'TranscriptImportCard',
+        id: 'transcript-import',
+        props: {},
+      },
+      {
+        type: 'RecapExportCard',
+        id: 'recap',
         props: {},
       },
     ],
   },
+
+  // Split: quick synthesis of the meeting that just ended | prep for the next one
+  meeting_transition: {
+    ...buildTransitionPlan(
+      { ...sampleMeeting, startTime: Date.now() - 60 * 60 * 1000, endTime: Date.now() },
+      sampleNextMeeting
+    ),
+    id: 'static-transition',
+  },
 };
 
 // ============================================
@@ -335,6 +462,28 @@ export const staticCapsules: Record<Mode, DecisionCapsule> = {
       { type: 'switch_view', label: 'Done', target: 'neutral_intent' },
     ],
   },
+
+  meeting_transition: {
+    viewLabel: 'Meeting Transition',
+    confidence: 'HIGH',
+    reason: `"${sampleMeeting.title}" just ended; "${sampleNextMeeting.title}" starts in 5 minutes`,
+    signalsUsed: [
+      'Previous meeting ended within the transition gap (10 min)',
+      'Next meeting starts within the transition gap',
+    ],
+    alternativesConsidered: [
+      { mode: 'meeting_synthesis_min', reason: `Review "${sampleMeeting.title}" only` },
+      { mode: 'meeting_prep', reason: `Prep for "${sampleNextMeeting.title}" only` },
+    ],
+    wouldChangeIf: [
+      'The next meeting starts (→ Capture)',
+      'You switch to another view',
+    ],
+    actions: [
+      { type: 'switch_view', label: 'Synthesis only', target: 'meeting_synthesis_min' },
+      { type: 'switch_view', label: 'Prep only', target: 'meeting_prep' },
+    ],
+  },
 };
 
 // ============================================
@@ -346,6 +495,7 @@ export const modeLabels: Record<Mode, string> = {
   meeting_prep: 'Meeting Prep',
   meeting_capture: 'Meeting Capture',
   meeting_synthesis_min: 'Post-Meeting Synthesis',
+  meeting_transition: 'Meeting Transition',
   agentic_work_surface: 'Agentic Workspace',
 };
 
@@ -354,5 +504,6 @@ export const modeDescriptions: Record<Mode, string> = {
   meeting_prep: 'Orient and clarify goals before meeting',
   meeting_capture: 'Mark key moments during meeting',
   meeting_synthesis_min: 'Close the loop after meeting',
+  meeting_transition: 'Wrap up one meeting while prepping the next',
   agentic_work_surface: 'Dynamic workspace for your intent',
 };
@@ -7,13 +7,20 @@
 import { describe, it, expect } from 'vitest';
 import {
   computeMeetingContext,
+  getIgnoredReason,
   isMeetingStarting,
   isMeetingEnding,
   getTimeUntilMeeting,
   getTimeSinceMeetingEnded,
   formatDuration,
 } from '../context-engine';
-import { CalendarEvent, TimingConfig, DEFAULT_TIMING_CONFIG } from '../types';
+import {
+  CalendarEvent,
+  TimingConfig,
+  TimingOverride,
+  DEFAULT_TIMING_CONFIG,
+  DEFAULT_EVENT_POLICY,
+} from '../types';
 
 // Helper to create a calendar event
 function createEvent(
@@ -163,6 +170,7 @@ describe('Context Engine', () => {
         synthesisWindowMinutes: 15, // Reduced from 60
         meetingGraceMinutes: 0, // No grace
         minimumHoldMs: 5000,
+        transitionGapMinutes: 10,
       };
 
       // Meeting 20 min away - outside custom 10 min prep window
@@ -174,6 +182,200 @@ describe('Context Engine', () => {
 
       expect(context.nextMeeting).toBeNull();
     });
+
+    it('skips suppressed events and falls back to the next eligible one', () => {
+      const now = Date.now();
+      const events: CalendarEvent[] = [
+        { ...createEvent('1', 'Room Booking', now + 10 * 60000, now + 40 * 60000), suppressedTriggers: ['prep'] },
+        createEvent('2', 'Design Review', now + 30 * 60000, now + 60 * 60000),
+        { ...createEvent('3', 'Room Hold', now - 20 * 60000, now + 20 * 60000), suppressedTriggers: ['capture'] },
+        { ...createEvent('4', 'Done', now - 50 * 60000, now - 30 * 60000), suppressedTriggers: ['synthesis'] },
+      ];
+
+      const context = computeMeetingContext(events, now);
+
+      expect(context.nextMeeting?.title).toBe('Design Review');
+      expect(context.currentMeeting).toBeNull();
+      expect(context.lastMeeting).toBeNull();
+    });
+
+    it('ignores declined, all-day, focus-time and solo events and records why', () => {
+      const now = Date.now();
+      const events: CalendarEvent[] = [
+        { ...createEvent('1', 'Skipped Sync', now + 5 * 60000, now + 35 * 60000), responseStatus: 'declined' },
+        { ...createEvent('2', 'Deep Work', now + 10 * 60000, now + 70 * 60000), eventType: 'focusTime' },
+        { ...createEvent('3', 'Lunch Hold', now + 15 * 60000, now + 45 * 60000), attendeeCount: 0 },
+        { ...createEvent('4', 'Planning', now + 25 * 60000, now + 55 * 60000), attendeeCount: 3 },
+        { ...createEvent('5', 'Company Holiday', now - 60 * 60000, now + 23 * 3600000), isAllDay: true },
+      ];
+
+      const context = computeMeetingContext(events, now);
+
+      expect(context.nextMeeting?.title).toBe('Planning');
+      expect(context.currentMeeting).toBeNull();
+      expect(context.ignoredEvents?.map((i) => [i.event.title, i.reason])).toEqual([
+        ['Company Holiday', 'all_day'],
+        ['Skipped Sync', 'declined'],
+        ['Deep Work', 'non_meeting'],
+        ['Lunch Hold', 'solo'],
+      ]);
+    });
+
+    it('keeps ignored events when the policy allows them', () => {
+      const now = Date.now();
+      const events: CalendarEvent[] = [
+        { ...createEvent('1', 'Skipped Sync', now + 5 * 60000, now + 35 * 60000), responseStatus: 'declined' },
+      ];
+
+      const context = computeMeetingContext(events, now, DEFAULT_TIMING_CONFIG, {
+        ...DEFAULT_EVENT_POLICY,
+        ignoreDeclined: false,
+      });
+
+      expect(context.nextMeeting?.title).toBe('Skipped Sync');
+      expect(context.ignoredEvents).toEqual([]);
+    });
+  });
+
+  describe('overlapping meetings', () => {
+    it('prefers the meeting the user accepted', () => {
+      const now = Date.now();
+      const events: CalendarEvent[] = [
+        { ...createEvent('1', 'Accepted', now - 20 * 60000, now + 40 * 60000), responseStatus: 'accepted' },
+        { ...createEvent('2', 'Unanswered', now - 10 * 60000, now + 20 * 60000), attendeeCount: 12 },
+      ];
+
+      const context = computeMeetingContext(events, now);
+
+      expect(context.currentMeeting?.title).toBe('Accepted');
+      expect(context.overlappingMeetings?.map((e) => e.title)).toEqual(['Unanswered']);
+    });
+
+    it('prefers the meeting the user organizes, then the one with most attendees', () => {
+      const now = Date.now();
+      const base = { responseStatus: 'accepted' as const };
+      const events: CalendarEvent[] = [
+        { ...createEvent('1', 'Big', now - 30 * 60000, now + 30 * 60000), ...base, attendeeCount: 20 },
+        { ...createEvent('2', 'Mine', now - 30 * 60000, now + 30 * 60000), ...base, attendeeCount: 2, isOrganizer: true },
+        { ...createEvent('3', 'Small', now - 5 * 60000, now + 30 * 60000), ...base, attendeeCount: 3 },
+      ];
+
+      const context = computeMeetingContext(events, now);
+
+      expect(context.currentMeeting?.title).toBe('Mine');
+      expect(context.overlappingMeetings?.map((e) => e.title)).toEqual(['Big', 'Small']);
+    });
+
+    it('falls back to the later start when nothing else differs', () => {
+      const now = Date.now();
+      const events: CalendarEvent[] = [
+        createEvent('1', 'Earlier', now - 30 * 60000, now + 30 * 60000),
+        createEvent('2', 'Later', now - 10 * 60000, now + 30 * 60000),
+      ];
+
+      expect(computeMeetingContext(events, now).currentMeeting?.title).toBe('Later');
+    });
+  });
+
+  describe('back-to-back meetings', () => {
+    const TEN = new Date(2026, 0, 15, 10, 0).getTime();
+
+    it('detects a transition when one meeting ends as the next starts', () => {
+      const events: CalendarEvent[] = [
+        createEvent('1', 'Standup', TEN - 30 * 60000, TEN),
+        createEvent('2', 'Planning', TEN, TEN + 60 * 60000),
+      ];
+
+      const context = computeMeetingContext(events, TEN);
+
+      expect(context.transition?.from.title).toBe('Standup');
+      expect(context.transition?.to.title).toBe('Planning');
+      // Neither meeting counts as live while they hand over
+      expect(context.currentMeeting).toBeNull();
+    });
+
+    it('covers the gap between meetings up to the transition gap', () => {
+      const events: CalendarEvent[] = [
+        createEvent('1', 'Standup', TEN - 30 * 60000, TEN),
+        createEvent('2', 'Planning', TEN + 10 * 60000, TEN + 60 * 60000),
+      ];
+
+      const context = computeMeetingContext(events, TEN + 5 * 60000);
+
+      expect(context.transition?.to.title).toBe('Planning');
+      expect(computeMeetingContext(events, TEN - 5 * 60000).transition).toBeNull();
+      expect(computeMeetingContext(events, TEN + 13 * 60000).transition).toBeNull();
+    });
+
+    it('does not pair meetings further apart than the transition gap', () => {
+      const events: CalendarEvent[] = [
+        createEvent('1', 'Standup', TEN - 30 * 60000, TEN),
+        createEvent('2', 'Planning', TEN + 20 * 60000, TEN + 60 * 60000),
+      ];
+
+      const context = computeMeetingContext(events, TEN + 5 * 60000);
+
+      expect(context.transition).toBeNull();
+      expect(context.lastMeeting?.title).toBe('Standup');
+      expect(context.nextMeeting?.title).toBe('Planning');
+    });
+
+    it('keeps another live meeting as current during a transition', () => {
+      const events: CalendarEvent[] = [
+        createEvent('1', 'Standup', TEN - 30 * 60000, TEN),
+        createEvent('2', 'Planning', TEN, TEN + 60 * 60000),
+        createEvent('3', 'Offsite', TEN - 120 * 60000, TEN + 120 * 60000),
+      ];
+
+      const context = computeMeetingContext(events, TEN);
+
+      expect(context.transition?.to.title).toBe('Planning');
+      expect(context.currentMeeting?.title).toBe('Offsite');
+    });
+
+    it('skips meetings whose trigger is suppressed', () => {
+      const events: CalendarEvent[] = [
+        createEvent('1', 'Standup', TEN - 30 * 60000, TEN),
+        { ...createEvent('2', 'Room Booking', TEN, TEN + 60 * 60000), suppressedTriggers: ['prep'] },
+      ];
+
+      expect(computeMeetingContext(events, TEN).transition).toBeNull();
+    });
+  });
+
+  describe('timing overrides', () => {
+    const board: TimingOverride = {
+      id: 'board',
+      label: 'Board meetings',
+      match: { attendeePattern: '*@board.example.com' },
+      config: { prepWindowMinutes: 24 * 60 },
+    };
+
+    it('uses the override prep window for matching meetings only', () => {
+      const now = Date.now();
+      const boardMeeting = {
+        ...createEvent('1', 'Board Meeting', now + 20 * 60 * 60000, now + 22 * 60 * 60000),
+        attendeeEmails: ['chair@board.example.com'],
+      };
+      const review = createEvent('2', 'Design Review', now + 19 * 60 * 60000, now + 20 * 60 * 60000);
+
+      const context = computeMeetingContext([review, boardMeeting], now, DEFAULT_TIMING_CONFIG, DEFAULT_EVENT_POLICY, [
+        board,
+      ]);
+
+      expect(context.nextMeeting?.title).toBe('Board Meeting');
+      expect(context.timingOverrides).toEqual([{ event: boardMeeting, override: board }]);
+      expect(computeMeetingContext([boardMeeting], now).nextMeeting).toBeNull();
+    });
+  });
+
+  describe('getIgnoredReason', () => {
+    it('does not treat unknown attendee counts or RSVPs as ignorable', () => {
+      const event = createEvent('1', 'Imported', 0, 60000);
+
+      expect(getIgnoredReason(event)).toBeNull();
+      expect(getIgnoredReason({ ...event, responseStatus: 'tentative', attendeeCount: 1 })).toBeNull();
+    });
   });
 
   describe('isMeetingStarting', () => {
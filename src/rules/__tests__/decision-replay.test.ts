@@ -0,0 +1,206 @@
+/**
+ * Decision Replay Tests
+ *
+ * Tests recording evaluations as decision events and replaying them against
+ * changed rules.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { RulesEngine } from '../rules-engine';
+import { replayDecision, replayHistory, toDecisionRecord } from '../decision-replay';
+import { DEFAULT_MODE_RULES } from '../rule-set';
+import { CalendarEvent, DecisionRecord, DEFAULT_TIMING_CONFIG, ModeRuleSet } from '../types';
+import type { EventRecord } from '@/storage/types';
+
+const mockLogEvent = vi.fn().mockResolvedValue('mock-event-id');
+const mockGetEvents = vi.fn();
+vi.mock('@/storage', () => ({
+  storage: {
+    logEvent: (...args: unknown[]) => mockLogEvent(...args),
+    getEvents: (...args: unknown[]) => mockGetEvents(...args),
+  },
+}));
+
+// ============================================
+// Test Helpers
+// ============================================
+
+const NOW = new Date(2026, 0, 15, 9, 50).getTime();
+
+function createEvent(title: string, startOffsetMin: number): CalendarEvent {
+  const startTime = NOW + startOffsetMin * 60000;
+  return {
+    id: `event-${title}`,
+    title,
+    startTime,
+    endTime: startTime + 30 * 60000,
+    attendees: ['Alice', 'Bob'],
+  };
+}
+
+const standup = createEvent('Daily Standup', 10);
+
+const neutralStandups: ModeRuleSet = {
+  version: 1,
+  rules: [
+    {
+      id: 'standups-stay-neutral',
+      meeting: 'next',
+      when: { titlePattern: '*standup*' },
+      mode: 'neutral_intent',
+      priority: 5,
+      trigger: 'custom',
+      reason: 'No prep needed for "{title}"',
+    },
+    ...DEFAULT_MODE_RULES.rules,
+  ],
+};
+
+async function recordDecision(): Promise<DecisionRecord> {
+  const engine = new RulesEngine();
+  engine.setTimeOverride(NOW);
+  await engine.evaluateContext([standup], 'app_open');
+
+  const [, payload] = mockLogEvent.mock.calls.find(([type]) => type === 'decision_evaluated')!;
+  return toDecisionRecord({ id: 'e1', type: 'decision_evaluated', timestamp: NOW, payload } as EventRecord)!;
+}
+
+// ============================================
+// Recording
+// ============================================
+
+describe('decision recording', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('logs the inputs, selection and capsule of an evaluation', async () => {
+    const record = await recordDecision();
+
+    expect(record).toMatchObject({
+      now: NOW,
+      trigger: 'app_open',
+      events: [standup],
+      context: { nextMeetingId: standup.id, currentMeetingId: null },
+      stability: null,
+      selection: { mode: 'meeting_prep', eventId: standup.id },
+      shouldSwitch: true,
+    });
+    expect(record.capsule.viewLabel).toBe('Meeting Prep');
+  });
+
+  it('logs every minute, skipping repeats within the same minute', async () => {
+    const engine = new RulesEngine();
+    engine.setTimeOverride(NOW);
+    await engine.evaluateContext([standup], 'app_open');
+    engine.setTimeOverride(NOW + 60000);
+    await engine.evaluateContext([standup], 'meeting_boundary_change');
+    engine.setTimeOverride(NOW + 90000);
+    await engine.evaluateContext([standup], 'meeting_boundary_change');
+    await engine.evaluateContext([standup, createEvent('Planning', 120)], 'meeting_boundary_change');
+
+    const decisions = mockLogEvent.mock.calls.filter(([type]) => type === 'decision_evaluated');
+    expect(decisions.map(([, payload]) => payload.now)).toEqual([NOW, NOW + 60000, NOW + 90000]);
+    expect(decisions[2][1].events).toHaveLength(2);
+    expect(mockLogEvent.mock.calls.filter(([type]) => type === 'plan_rendered')).toHaveLength(4);
+  });
+
+  it('keeps calendar events within the widest timing window', async () => {
+    const board = { ...createEvent('Board Meeting', 20 * 60), attendees: ['chair@board.example.com'] };
+    const engine = new RulesEngine();
+    engine.setTimeOverride(NOW);
+    engine.setTimingSettings({
+      global: DEFAULT_TIMING_CONFIG,
+      overrides: [
+        { id: 'board', label: 'Board', match: { attendeePattern: '*@board.example.com' }, config: { prepWindowMinutes: 24 * 60 } },
+      ],
+    });
+    await engine.evaluateContext([createEvent('Last Week', -7 * 24 * 60), standup, board], 'app_open');
+
+    const [, payload] = mockLogEvent.mock.calls.find(([type]) => type === 'decision_evaluated')!;
+    expect(payload.events).toEqual([standup, board]);
+  });
+
+  it('logs nothing on a dry run', async () => {
+    const engine = new RulesEngine();
+    engine.setTimeOverride(NOW);
+    await engine.evaluateContext([standup], 'app_open', { dryRun: true });
+
+    expect(mockLogEvent).not.toHaveBeenCalled();
+  });
+
+  it('ignores events that are not decision records', () => {
+    expect(toDecisionRecord({ id: 'e', type: 'plan_rendered', timestamp: NOW, payload: {} })).toBeNull();
+    expect(toDecisionRecord({ id: 'e', type: 'decision_evaluated', timestamp: NOW, payload: {} })).toBeNull();
+  });
+});
+
+// ============================================
+// Replay
+// ============================================
+
+describe('replayDecision', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('reports no change when the rules are unchanged', async () => {
+    const record = await recordDecision();
+    vi.clearAllMocks();
+
+    const result = await replayDecision(record, new RulesEngine());
+
+    expect(result.changed).toBe(false);
+    expect(result.replayed.mode).toBe('meeting_prep');
+    expect(mockLogEvent).not.toHaveBeenCalled();
+  });
+
+  it('reports what the current rules would decide differently', async () => {
+    const record = await recordDecision();
+    const source = new RulesEngine();
+    source.setModeRules(neutralStandups);
+
+    const result = await replayDecision(record, source);
+
+    expect(result.changed).toBe(true);
+    expect(result.replayed.reason).toBe('No prep needed for "Daily Standup"');
+    expect(result.differences).toContain('Mode: Meeting Prep → Neutral');
+  });
+
+  it('replays against the recorded stability state', async () => {
+    const record = await recordDecision();
+    const held: DecisionRecord = {
+      ...record,
+      trigger: 'meeting_boundary_change',
+      stability: {
+        currentMode: 'neutral_intent',
+        currentPlanId: 'plan-0',
+        lastSwitchTime: NOW - 60000,
+        minimumHoldMs: 5 * 60000,
+        isInputFocused: true,
+      },
+    };
+
+    const result = await replayDecision(held, new RulesEngine());
+
+    expect(result.replayed.shouldSwitch).toBe(false);
+    expect(result.differences[0]).toMatch(/^Switch: switch → blocked/);
+  });
+});
+
+describe('replayHistory', () => {
+  it('replays every recorded decision from the event log', async () => {
+    const record = await recordDecision();
+    mockGetEvents.mockResolvedValue([
+      { id: 'e1', type: 'decision_evaluated', timestamp: NOW, payload: { ...record } },
+    ]);
+    const source = new RulesEngine();
+    source.setModeRules(neutralStandups);
+
+    const results = await replayHistory({ limit: 10 }, source);
+
+    expect(mockGetEvents).toHaveBeenCalledWith({ limit: 10, types: ['decision_evaluated'] });
+    expect(results).toHaveLength(1);
+    expect(results[0].changed).toBe(true);
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Mode Preference Tests
+ *
+ * Tests learning default modes and confidence from override history.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Mode } from '@/types/ui-plan';
+import type { EventRecord } from '@/storage/types';
+import {
+  applyModePreferences,
+  buildModePreferences,
+  describeLearnedPreference,
+  getMeetingPattern,
+} from '../mode-preferences';
+import { CalendarEvent, ModeSelectionResult } from '../types';
+
+// ============================================
+// Test Helpers
+// ============================================
+
+const standup: CalendarEvent = {
+  id: 'standup-1',
+  title: 'Standup',
+  startTime: 0,
+  endTime: 15 * 60000,
+  attendees: [],
+  seriesId: 'standup@example.com',
+};
+
+const PATTERN = 'series:standup@example.com';
+
+let timestamp = 0;
+
+function autoSwitch(to: Mode, ruleMode: Mode = to, pattern: string = PATTERN): EventRecord {
+  return {
+    id: `auto-${timestamp}`,
+    type: 'mode_switched',
+    timestamp: timestamp++,
+    payload: { from: 'neutral_intent', to, trigger: 'meeting_boundary_change', pattern, ruleMode },
+  };
+}
+
+function manualSwitch(to: Mode): EventRecord {
+  return {
+    id: `manual-${timestamp}`,
+    type: 'mode_switched',
+    timestamp: timestamp++,
+    payload: { from: 'meeting_prep', to, trigger: 'explicit_user_action' },
+  };
+}
+
+/** Prep for the standup `times` times, overridden to `to` in the first `overridden` */
+function history(times: number, overridden: number, to: Mode = 'meeting_capture'): EventRecord[] {
+  return Array.from({ length: times }, (_, i) =>
+    i < overridden ? [autoSwitch('meeting_prep'), manualSwitch(to)] : [autoSwitch('meeting_prep')]
+  ).flat();
+}
+
+const prepSelection: ModeSelectionResult = {
+  mode: 'meeting_prep',
+  confidence: 'HIGH',
+  reason: '"Standup" starts in 5 min',
+  trigger: 'meeting_upcoming',
+  event: standup,
+};
+
+describe('Mode Preferences', () => {
+  describe('getMeetingPattern', () => {
+    it('uses the series when known and masks numbers in titles otherwise', () => {
+      expect(getMeetingPattern(standup)).toBe(PATTERN);
+      expect(getMeetingPattern({ ...standup, seriesId: undefined, title: 'Sprint 14  Review' })).toBe(
+        'title:sprint # review'
+      );
+    });
+  });
+
+  describe('buildModePreferences', () => {
+    it('records where the user ended up after each rule selection', () => {
+      const model = buildModePreferences(history(4, 3));
+
+      expect(model[`${PATTERN}|meeting_prep`]).toEqual({
+        selections: 4,
+        outcomes: { meeting_capture: 3, meeting_prep: 1 },
+      });
+    });
+
+    it('reads events in time order regardless of input order', () => {
+      const events = history(3, 3).reverse();
+
+      expect(buildModePreferences(events)[`${PATTERN}|meeting_prep`].outcomes).toEqual({ meeting_capture: 3 });
+    });
+
+    it('ignores manual switches with no open decision', () => {
+      const events = [manualSwitch('meeting_capture'), autoSwitch('neutral_intent', 'neutral_intent', '')];
+
+      expect(buildModePreferences(events)).toEqual({});
+    });
+  });
+
+  describe('applyModePreferences', () => {
+    it('passes through with too little history', () => {
+      const model = buildModePreferences(history(2, 2));
+
+      expect(applyModePreferences(prepSelection, model)).toBe(prepSelection);
+    });
+
+    it('makes a habitual override the default at MEDIUM confidence', () => {
+      const result = applyModePreferences(prepSelection, buildModePreferences(history(5, 4)));
+
+      expect(result.mode).toBe('meeting_capture');
+      expect(result.confidence).toBe('MEDIUM');
+      expect(result.reason).toBe('"Standup" starts in 5 min; you usually switch to Live Capture for it');
+      expect(result.learned).toEqual({
+        pattern: PATTERN,
+        ruleMode: 'meeting_prep',
+        kind: 'default',
+        target: 'meeting_capture',
+        overrides: 4,
+        selections: 5,
+      });
+    });
+
+    it('keeps the learned default while the user accepts it', () => {
+      // Learned capture shown twice more without being overridden
+      const events = [
+        ...history(3, 3),
+        autoSwitch('meeting_capture', 'meeting_prep'),
+        autoSwitch('meeting_capture', 'meeting_prep'),
+      ];
+
+      expect(applyModePreferences(prepSelection, buildModePreferences(events)).mode).toBe('meeting_capture');
+    });
+
+    it('lowers confidence when overrides are frequent but split', () => {
+      const events = [...history(3, 1, 'meeting_capture'), ...history(2, 1, 'neutral_intent')];
+
+      const result = applyModePreferences(prepSelection, buildModePreferences(events));
+
+      expect(result.mode).toBe('meeting_prep');
+      expect(result.confidence).toBe('MEDIUM');
+      expect(result.learned?.kind).toBe('confidence');
+      expect(result.learned?.overrides).toBe(2);
+    });
+
+    it('leaves rarely overridden patterns alone', () => {
+      expect(applyModePreferences(prepSelection, buildModePreferences(history(5, 1)))).toBe(prepSelection);
+    });
+  });
+
+  describe('describeLearnedPreference', () => {
+    it('explains both kinds of adjustment', () => {
+      const learned = applyModePreferences(prepSelection, buildModePreferences(history(5, 4))).learned!;
+
+      expect(describeLearnedPreference(learned, 'Standup')).toBe(
+        'Learned: you switched "Standup" from Meeting Prep to Live Capture 4 of 5 times'
+      );
+      expect(describeLearnedPreference({ ...learned, kind: 'confidence', overrides: 2 }, 'Standup')).toBe(
+        'Learned: you left Meeting Prep for "Standup" 2 of 5 times'
+      );
+    });
+  });
+});
@@ -6,8 +6,8 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { selectMode, getAlternatives } from '../mode-selector';
-import { MeetingContext, CalendarEvent, DEFAULT_TIMING_CONFIG } from '../types';
+import { selectMode, getAlternatives, getSignalsUsed } from '../mode-selector';
+import { MeetingContext, CalendarEvent, DEFAULT_EVENT_POLICY } from '../types';
 
 // Helper to create a calendar event
 function createEvent(
@@ -290,4 +290,82 @@ describe('Mode Selector', () => {
       expect(alternatives.length).toBeLessThanOrEqual(3);
     });
   });
+
+  describe('Transition', () => {
+    it('selects TRANSITION for back-to-back meetings with nothing live', () => {
+      const now = Date.now();
+      const from = createEvent('Standup', -30, 30, now);
+      const to = createEvent('Planning', 5, 60, now);
+      const context = createContext({ transition: { from, to }, nextMeeting: to, now });
+
+      const result = selectMode(context);
+
+      expect(result.mode).toBe('meeting_transition');
+      expect(result.confidence).toBe('HIGH');
+      expect(result.reason).toBe('"Standup" just ended; "Planning" starts in 5 min');
+      expect(getAlternatives(context, result.mode).map((a) => a.mode)).toEqual([
+        'meeting_prep',
+        'meeting_synthesis_min',
+      ]);
+    });
+
+    it('lets a live meeting win over the transition', () => {
+      const now = Date.now();
+      const context = createContext({
+        currentMeeting: createEvent('Offsite', -60, 180, now),
+        transition: { from: createEvent('Standup', -30, 30, now), to: createEvent('Planning', 5, 60, now) },
+        now,
+      });
+
+      expect(selectMode(context).mode).toBe('meeting_capture');
+    });
+  });
+
+  describe('Event Policy', () => {
+    it('caps confidence at MEDIUM when the user tentatively accepted', () => {
+      const now = Date.now();
+      const context = createContext({
+        nextMeeting: { ...createEvent('Vendor Pitch', 20, 60, now), responseStatus: 'tentative' },
+        now,
+      });
+
+      expect(selectMode(context).confidence).toBe('MEDIUM');
+      expect(
+        selectMode(context, { ...DEFAULT_EVENT_POLICY, tentativeAsMedium: false }).confidence
+      ).toBe('HIGH');
+    });
+
+    it('explains RSVPs and ignored events in signals', () => {
+      const now = Date.now();
+      const context = createContext({
+        nextMeeting: { ...createEvent('Vendor Pitch', 20, 60, now), responseStatus: 'tentative' },
+        ignoredEvents: [{ event: createEvent('All Hands', 10, 60, now), reason: 'declined' }],
+        now,
+      });
+
+      const signals = getSignalsUsed(context);
+
+      expect(signals).toContain('Tentative RSVP: "Vendor Pitch"');
+      expect(signals).toContain('Ignored "All Hands" (you declined)');
+    });
+  });
+
+  describe('Timing Overrides', () => {
+    it('shows the effective windows for overridden meetings in signals', () => {
+      const now = Date.now();
+      const oneOnOne = createEvent('Alex / Sam', 5, 30, now);
+      const context = createContext({
+        nextMeeting: oneOnOne,
+        timingOverrides: [
+          {
+            event: oneOnOne,
+            override: { id: 'o', label: '1:1s', match: { maxAttendees: 1 }, config: { prepWindowMinutes: 10 } },
+          },
+        ],
+        now,
+      });
+
+      expect(getSignalsUsed(context)).toContain('Timing for "Alex / Sam": 1:1s (prep 10 min, synthesis 1 hr)');
+    });
+  });
 });
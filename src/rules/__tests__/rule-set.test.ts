@@ -0,0 +1,191 @@
+/**
+ * Mode Rule Set Tests
+ *
+ * Tests rule set validation, condition evaluation and custom rule sets
+ * driving mode selection.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_MODE_RULES,
+  RuleSetValidationError,
+  evaluateModeRules,
+  parseModeRuleSet,
+  validateModeRuleSet,
+} from '../rule-set';
+import { selectMode } from '../mode-selector';
+import {
+  CalendarEvent,
+  MeetingContext,
+  ModeRule,
+  ModeRuleSet,
+  DEFAULT_EVENT_POLICY,
+} from '../types';
+
+// ============================================
+// Test Helpers
+// ============================================
+
+// Thursday 2026-01-15, 09:50 local
+const NOW = new Date(2026, 0, 15, 9, 50).getTime();
+
+function createEvent(title: string, startOffsetMin: number, overrides: Partial<CalendarEvent> = {}): CalendarEvent {
+  const startTime = NOW + startOffsetMin * 60000;
+  return {
+    id: `event-${title}`,
+    title,
+    startTime,
+    endTime: startTime + 30 * 60000,
+    attendees: ['Alice', 'Bob'],
+    ...overrides,
+  };
+}
+
+function createContext(overrides: Partial<MeetingContext> = {}): MeetingContext {
+  return { currentMeeting: null, nextMeeting: null, lastMeeting: null, now: NOW, ...overrides };
+}
+
+function rule(overrides: Partial<ModeRule> = {}): ModeRule {
+  return {
+    id: 'rule',
+    mode: 'meeting_prep',
+    priority: 3,
+    trigger: 'custom',
+    reason: '"{title}" starts in {timeUntil}',
+    meeting: 'next',
+    ...overrides,
+  };
+}
+
+function ruleSet(...rules: ModeRule[]): ModeRuleSet {
+  return { version: 1, rules };
+}
+
+function expectInvalid(value: unknown, path: string) {
+  try {
+    validateModeRuleSet(value);
+    expect.fail('Should have thrown');
+  } catch (e) {
+    expect(e).toBeInstanceOf(RuleSetValidationError);
+    expect((e as RuleSetValidationError).path).toBe(path);
+  }
+}
+
+// ============================================
+// Validation
+// ============================================
+
+describe('validateModeRuleSet', () => {
+  it('accepts the default rules', () => {
+    expect(DEFAULT_MODE_RULES.rules.map((r) => r.mode)).toEqual([
+      'meeting_transition',
+      'meeting_capture',
+      'meeting_prep',
+      'meeting_synthesis_min',
+      'neutral_intent',
+    ]);
+  });
+
+  it('rejects malformed rule sets with the offending path', () => {
+    expectInvalid({ version: 2, rules: [rule()] }, 'version');
+    expectInvalid({ version: 1, rules: [] }, 'rules');
+    expectInvalid(ruleSet(rule({ mode: 'focus' as never })), 'rules[0].mode');
+    expectInvalid(ruleSet(rule(), rule()), 'rules[1].id');
+    expectInvalid(ruleSet(rule({ when: { timeOfDay: { from: '9:00', to: '17:00' } } })), 'rules[0].when.timeOfDay');
+    expectInvalid(ruleSet(rule({ when: { daysOfWeek: [7] } })), 'rules[0].when.daysOfWeek');
+    expectInvalid(ruleSet(rule({ when: { sometimes: true } as never })), 'rules[0].when');
+  });
+
+  it('requires a meeting for meeting conditions', () => {
+    expectInvalid(
+      ruleSet(rule({ meeting: undefined, when: { titlePattern: '*sync*' } })),
+      'rules[0].when.titlePattern'
+    );
+  });
+
+  it('parses JSON text and reports syntax errors as validation errors', () => {
+    expect(parseModeRuleSet(JSON.stringify(ruleSet(rule()))).rules).toHaveLength(1);
+    expect(() => parseModeRuleSet('{ not json')).toThrow(RuleSetValidationError);
+  });
+});
+
+// ============================================
+// Evaluation
+// ============================================
+
+describe('evaluateModeRules', () => {
+  const standup = createEvent('Daily Standup', 10, { attendeeCount: 6 });
+
+  it('fills reason placeholders from the rule meeting', () => {
+    const [candidate] = evaluateModeRules(createContext({ nextMeeting: standup }), ruleSet(rule()));
+
+    expect(candidate).toMatchObject({
+      mode: 'meeting_prep',
+      reason: '"Daily Standup" starts in 10 min',
+      event: standup,
+    });
+  });
+
+  it('skips rules whose meeting is absent or that are disabled', () => {
+    const context = createContext({ nextMeeting: standup });
+
+    expect(evaluateModeRules(context, ruleSet(rule({ meeting: 'current' })))).toEqual([]);
+    expect(evaluateModeRules(context, ruleSet(rule({ enabled: false })))).toEqual([]);
+  });
+
+  it('checks title, attendee and timing conditions', () => {
+    const context = createContext({ nextMeeting: standup });
+    const fires = (when: ModeRule['when']) => evaluateModeRules(context, ruleSet(rule({ when }))).length === 1;
+
+    expect(fires({ titlePattern: '*standup*' })).toBe(true);
+    expect(fires({ titlePattern: 'retro*' })).toBe(false);
+    expect(fires({ attendeePattern: 'ali*' })).toBe(true);
+    expect(fires({ minAttendees: 5 })).toBe(true);
+    expect(fires({ maxAttendees: 1 })).toBe(false);
+    expect(fires({ startsWithinMinutes: 15 })).toBe(true);
+    expect(fires({ startsWithinMinutes: 5 })).toBe(false);
+  });
+
+  it('checks local time of day (wrapping midnight) and weekday', () => {
+    const context = createContext({ nextMeeting: standup });
+    const fires = (when: ModeRule['when']) => evaluateModeRules(context, ruleSet(rule({ when }))).length === 1;
+
+    expect(fires({ timeOfDay: { from: '09:00', to: '12:00' } })).toBe(true);
+    expect(fires({ timeOfDay: { from: '09:50', to: '09:51' } })).toBe(true);
+    expect(fires({ timeOfDay: { from: '22:00', to: '09:50' } })).toBe(false);
+    expect(fires({ timeOfDay: { from: '22:00', to: '10:00' } })).toBe(true);
+    expect(fires({ daysOfWeek: [4] })).toBe(true);
+    expect(fires({ daysOfWeek: [0, 6] })).toBe(false);
+  });
+});
+
+// ============================================
+// Custom Rule Sets
+// ============================================
+
+describe('selectMode with a custom rule set', () => {
+  it('lets a higher-priority rule replace prep for matching meetings', () => {
+    const skipStandupPrep = rule({
+      id: 'standups-stay-neutral',
+      when: { titlePattern: '*standup*' },
+      mode: 'neutral_intent',
+      priority: 5,
+      reason: 'No prep needed for "{title}"',
+    });
+    const rules = ruleSet(skipStandupPrep, ...DEFAULT_MODE_RULES.rules);
+    const select = (nextMeeting: CalendarEvent) =>
+      selectMode(createContext({ nextMeeting }), DEFAULT_EVENT_POLICY, rules);
+
+    const result = select(createEvent('Daily Standup', 10));
+
+    expect(result.mode).toBe('neutral_intent');
+    expect(result.reason).toBe('No prep needed for "Daily Standup"');
+    expect(select(createEvent('Board Review', 10)).mode).toBe('meeting_prep');
+  });
+
+  it('falls back to neutral when no rule fires', () => {
+    const result = selectMode(createContext(), DEFAULT_EVENT_POLICY, ruleSet(rule()));
+
+    expect(result).toMatchObject({ mode: 'neutral_intent', confidence: 'LOW', trigger: 'no_context' });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Stability Tests
+ *
+ * Tests mode pins and snoozes: how they block auto-switches, expire and
+ * show up as capsule actions.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  canAutoSwitch,
+  createStabilityState,
+  pinMode,
+  snoozeMode,
+  unsnoozeMode,
+  pruneExpiredHolds,
+  releaseHolds,
+} from '../stability';
+import { getHoldActions } from '../capsule-generator';
+import { CalendarEvent, MeetingContext, StabilityState } from '../types';
+
+// ============================================
+// Test Helpers
+// ============================================
+
+const NOW = new Date(2026, 0, 15, 9, 50).getTime();
+const MINUTE = 60000;
+
+function createEvent(id: string, startOffsetMin: number): CalendarEvent {
+  const startTime = NOW + startOffsetMin * MINUTE;
+  return { id, title: `Meeting ${id}`, startTime, endTime: startTime + 30 * MINUTE, attendees: ['Alice'] };
+}
+
+function settledState(overrides: Partial<StabilityState> = {}): StabilityState {
+  // Last switch long enough ago that the minimum hold has passed
+  return { ...createStabilityState('meeting_prep', 'plan-1', 5 * MINUTE, NOW - 60 * MINUTE), ...overrides };
+}
+
+function createContext(overrides: Partial<MeetingContext> = {}): MeetingContext {
+  return { currentMeeting: null, nextMeeting: null, lastMeeting: null, now: NOW, ...overrides };
+}
+
+// ============================================
+// Pins
+// ============================================
+
+describe('pins', () => {
+  it('blocks auto-switches away from the pinned mode until it expires', () => {
+    const state = pinMode(settledState(), 'meeting_prep', NOW + 25 * MINUTE);
+
+    const blocked = canAutoSwitch('meeting_capture', state, 'meeting_boundary_change', NOW);
+    expect(blocked).toMatchObject({ allowed: false, blockedBy: 'pinned' });
+    expect(blocked.reason).toMatch(/^Pinned to Meeting Prep until /);
+
+    expect(canAutoSwitch('meeting_capture', state, 'meeting_boundary_change', NOW + 25 * MINUTE).allowed).toBe(true);
+  });
+
+  it('ends when the user explicitly leaves the pinned mode', () => {
+    const state = pinMode(settledState(), 'meeting_prep', NOW + 25 * MINUTE);
+
+    expect(releaseHolds(state, 'meeting_prep').pin).toEqual(state.pin);
+    expect(releaseHolds(state, 'neutral_intent').pin).toBeNull();
+  });
+});
+
+// ============================================
+// Snoozes
+// ============================================
+
+describe('snoozes', () => {
+  it('blocks auto-switches into the snoozed mode for its meeting only', () => {
+    const state = snoozeMode(settledState(), 'meeting_capture', NOW + 60 * MINUTE, 'board');
+
+    expect(canAutoSwitch('meeting_capture', state, 'meeting_boundary_change', NOW, 'board')).toMatchObject({
+      allowed: false,
+      blockedBy: 'snoozed',
+    });
+    expect(canAutoSwitch('meeting_capture', state, 'meeting_boundary_change', NOW, 'standup').allowed).toBe(true);
+  });
+
+  it('applies to every meeting when no meeting is given', () => {
+    const state = snoozeMode(settledState(), 'meeting_synthesis_min', NOW + 60 * MINUTE);
+
+    expect(canAutoSwitch('meeting_synthesis_min', state, 'meeting_boundary_change', NOW, 'any').allowed).toBe(false);
+  });
+
+  it('can be lifted, replaced or pruned once expired', () => {
+    let state = snoozeMode(settledState(), 'meeting_capture', NOW + 10 * MINUTE, 'board');
+    state = snoozeMode(state, 'meeting_capture', NOW + 60 * MINUTE, 'board');
+    expect(state.snoozes).toEqual([{ mode: 'meeting_capture', eventId: 'board', until: NOW + 60 * MINUTE }]);
+
+    expect(unsnoozeMode(state, 'meeting_capture', 'board').snoozes).toEqual([]);
+    expect(pruneExpiredHolds(state, NOW + 60 * MINUTE).snoozes).toEqual([]);
+    expect(releaseHolds(state, 'meeting_capture').snoozes).toEqual([]);
+  });
+});
+
+// ============================================
+// Capsule Actions
+// ============================================
+
+describe('getHoldActions', () => {
+  const board = createEvent('board', 25);
+
+  it('offers to pin prep until the meeting starts and to skip capture for it', () => {
+    const actions = getHoldActions('meeting_prep', createContext({ nextMeeting: board }), settledState(), board);
+
+    expect(actions).toEqual([
+      expect.objectContaining({ type: 'pin_mode', target: 'meeting_prep', until: board.startTime }),
+      expect.objectContaining({
+        type: 'snooze_mode',
+        label: `Don't switch to Live Capture for "Meeting board"`,
+        target: 'meeting_capture',
+        eventId: 'board',
+        until: board.endTime,
+      }),
+    ]);
+  });
+
+  it('offers to lift active pins and snoozes instead', () => {
+    let state = pinMode(settledState(), 'meeting_prep', board.startTime);
+    state = snoozeMode(state, 'meeting_capture', board.endTime, 'board');
+
+    const actions = getHoldActions('meeting_prep', createContext({ nextMeeting: board }), state, board);
+
+    expect(actions.map((a) => a.type)).toEqual(['unpin_mode', 'unsnooze_mode']);
+    expect(actions[1].label).toBe('Allow Live Capture for "Meeting board" again');
+  });
+
+  it('pins for 30 minutes when the view has no upcoming boundary', () => {
+    const [pin] = getHoldActions('neutral_intent', createContext(), settledState({ currentMode: 'neutral_intent' }));
+
+    expect(pin).toMatchObject({ type: 'pin_mode', target: 'neutral_intent', until: NOW + 30 * MINUTE });
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Timing Override Tests
+ *
+ * Tests matching overrides to events and merging them into the global config.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  findTimingOverride,
+  getEffectiveTimingConfig,
+  getTimingReachMinutes,
+  matchesTimingOverride,
+} from '../timing-overrides';
+import { CalendarEvent, DEFAULT_TIMING_CONFIG, TimingOverride } from '../types';
+
+function createEvent(overrides: Partial<CalendarEvent> = {}): CalendarEvent {
+  return {
+    id: 'evt',
+    title: 'Meeting',
+    startTime: 0,
+    endTime: 60 * 60000,
+    attendees: ['Alice', 'Bob'],
+    attendeeEmails: ['alice@example.com', 'bob@example.com'],
+    ...overrides,
+  };
+}
+
+const board: TimingOverride = {
+  id: 'board',
+  label: 'Board meetings',
+  match: { attendeePattern: '*@board.example.com' },
+  config: { prepWindowMinutes: 24 * 60 },
+};
+
+const oneOnOnes: TimingOverride = {
+  id: 'one-on-ones',
+  label: '1:1s',
+  match: { maxAttendees: 1 },
+  config: { prepWindowMinutes: 10, synthesisWindowMinutes: 15 },
+};
+
+describe('Timing Overrides', () => {
+  describe('matchesTimingOverride', () => {
+    it('matches attendee patterns case-insensitively against names and emails', () => {
+      const event = createEvent({ attendeeEmails: ['Chair@Board.Example.com'] });
+
+      expect(matchesTimingOverride(event, { attendeePattern: '*@board.example.com' })).toBe(true);
+      expect(matchesTimingOverride(event, { attendeePattern: 'ali*' })).toBe(true);
+      expect(matchesTimingOverride(event, { attendeePattern: '*@other.com' })).toBe(false);
+    });
+
+    it('treats regex characters in patterns literally', () => {
+      const event = createEvent({ attendeeEmails: ['a+b@example.com'] });
+
+      expect(matchesTimingOverride(event, { attendeePattern: 'a+b@example.com' })).toBe(true);
+      expect(matchesTimingOverride(event, { attendeePattern: 'a.b@example.com' })).toBe(false);
+    });
+
+    it('prefers attendeeCount over the attendee list for maxAttendees', () => {
+      expect(matchesTimingOverride(createEvent({ attendeeCount: 1 }), { maxAttendees: 1 })).toBe(true);
+      expect(matchesTimingOverride(createEvent(), { maxAttendees: 1 })).toBe(false);
+    });
+
+    it('requires every set field to match and never matches an empty match', () => {
+      const event = createEvent({ seriesId: 'standup', attendeeCount: 6 });
+
+      expect(matchesTimingOverride(event, { seriesId: 'standup' })).toBe(true);
+      expect(matchesTimingOverride(event, { seriesId: 'standup', maxAttendees: 1 })).toBe(false);
+      expect(matchesTimingOverride(event, {})).toBe(false);
+    });
+  });
+
+  describe('findTimingOverride', () => {
+    it('lets series overrides win over earlier attendee overrides', () => {
+      const series: TimingOverride = {
+        id: 'series',
+        label: 'Weekly sync',
+        match: { seriesId: 'weekly' },
+        config: { prepWindowMinutes: 5 },
+      };
+      const event = createEvent({ seriesId: 'weekly', attendeeCount: 1 });
+
+      expect(findTimingOverride(event, [oneOnOnes, series])?.id).toBe('series');
+      expect(findTimingOverride(createEvent({ attendeeCount: 1 }), [oneOnOnes, series])?.id).toBe('one-on-ones');
+      expect(findTimingOverride(createEvent(), [board])).toBeNull();
+    });
+  });
+
+  describe('getEffectiveTimingConfig', () => {
+    it('replaces only the fields the override sets', () => {
+      const event = createEvent({ attendeeEmails: ['chair@board.example.com'] });
+
+      const config = getEffectiveTimingConfig(event, DEFAULT_TIMING_CONFIG, [board]);
+
+      expect(config).toEqual({ ...DEFAULT_TIMING_CONFIG, prepWindowMinutes: 1440 });
+    });
+
+    it('returns the global config when nothing matches', () => {
+      expect(getEffectiveTimingConfig(createEvent(), DEFAULT_TIMING_CONFIG, [board])).toBe(DEFAULT_TIMING_CONFIG);
+    });
+  });
+
+  describe('getTimingReachMinutes', () => {
+    it('takes the widest window plus grace across the global config and overrides', () => {
+      expect(getTimingReachMinutes(DEFAULT_TIMING_CONFIG)).toBe(62);
+      expect(getTimingReachMinutes(DEFAULT_TIMING_CONFIG, [oneOnOnes, board])).toBe(24 * 60 + 2);
+    });
+  });
+});
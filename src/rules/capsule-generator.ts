@@ -9,11 +9,14 @@
 
 import { Mode, DecisionCapsule, CapsuleAction, Alternative } from '@/types/ui-plan';
 import {
+  CalendarEvent,
   MeetingContext,
   ModeSelectionResult,
+  StabilityState,
   AdjacencySuggestion,
   MODE_LABELS,
   TimingConfig,
+  ModeRuleSet,
   DEFAULT_TIMING_CONFIG,
 } from './types';
 import {
@@ -21,6 +24,16 @@ import {
   getWouldChangeConditions,
   getSignalsUsed,
 } from './mode-selector';
+import { describeLearnedPreference } from './mode-preferences';
+import { DEFAULT_MODE_RULES } from './rule-set';
+import { formatClockTime } from './context-engine';
+import { getActivePin, getActiveSnoozes, isSnoozed } from './stability';
+
+/** Pin length when the view has no meeting boundary to pin to */
+const DEFAULT_PIN_MS = 30 * 60 * 1000;
+
+/** Action types that change pins and snoozes */
+export const HOLD_ACTION_TYPES: CapsuleAction['type'][] = ['pin_mode', 'unpin_mode', 'snooze_mode', 'unsnooze_mode'];
 
 /**
  * Generate a Decision Capsule for the current mode selection.
@@ -28,12 +41,20 @@ import {
 export function generateCapsule(
   selection: ModeSelectionResult,
   context: MeetingContext,
-  config: TimingConfig = DEFAULT_TIMING_CONFIG
+  config: TimingConfig = DEFAULT_TIMING_CONFIG,
+  rules: ModeRuleSet = DEFAULT_MODE_RULES,
+  stability: StabilityState | null = null
 ): DecisionCapsule {
-  const alternatives = getAlternatives(context, selection.mode, config);
-  const wouldChangeIf = getWouldChangeConditions(selection.mode, context);
-  const signalsUsed = getSignalsUsed(context);
-  const actions = generateActions(selection.mode, alternatives);
+  const alternatives = getAlternatives(context, selection.mode, rules);
+  const wouldChangeIf = getWouldChangeConditions(selection.mode, context, config);
+  const signalsUsed = getSignalsUsed(context, config);
+  if (selection.learned && selection.event) {
+    signalsUsed.push(describeLearnedPreference(selection.learned, selection.event.title));
+  }
+  const actions = [
+    ...generateActions(selection.mode, alternatives),
+    ...getHoldActions(selection.mode, context, stability, selection.event),
+  ];
 
   return {
     viewLabel: MODE_LABELS[selection.mode],
@@ -104,6 +125,74 @@ function generateActions(
   return actions;
 }
 
+/**
+ * Get pin and snooze actions for the capsule.
+ *
+ * Offers to pin the shown view until its meeting boundary (the start of the
+ * meeting being prepped, the end of a live one) and to keep the upcoming
+ * meeting out of capture; active pins and snoozes can be lifted.
+ */
+export function getHoldActions(
+  mode: Mode,
+  context: MeetingContext,
+  stability: StabilityState | null,
+  event?: CalendarEvent
+): CapsuleAction[] {
+  const { now } = context;
+  const shownMode = stability?.currentMode ?? mode;
+  const actions: CapsuleAction[] = [];
+
+  const pin = getActivePin(stability, now);
+  if (pin) {
+    actions.push({
+      type: 'unpin_mode',
+      label: `Unpin ${MODE_LABELS[pin.mode]} (pinned until ${formatClockTime(pin.until)})`,
+      target: pin.mode,
+    });
+  } else {
+    const until = getPinExpiry(shownMode === mode ? event : undefined, now);
+    actions.push({
+      type: 'pin_mode',
+      label: `Stay in ${MODE_LABELS[shownMode]} until ${formatClockTime(until)}`,
+      target: shownMode,
+      until,
+    });
+  }
+
+  const upcoming = context.transition?.to ?? context.nextMeeting;
+  if (upcoming && shownMode !== 'meeting_capture' && !isSnoozed(stability, 'meeting_capture', upcoming.id, now)) {
+    actions.push({
+      type: 'snooze_mode',
+      label: `Don't switch to ${MODE_LABELS.meeting_capture} for "${upcoming.title}"`,
+      target: 'meeting_capture',
+      until: upcoming.endTime,
+      eventId: upcoming.id,
+    });
+  }
+
+  const meetings = [context.currentMeeting, context.nextMeeting, context.lastMeeting, context.transition?.to];
+  for (const snooze of getActiveSnoozes(stability, now)) {
+    const title = meetings.find((m) => m && m.id === snooze.eventId)?.title;
+    actions.push({
+      type: 'unsnooze_mode',
+      label: `Allow ${MODE_LABELS[snooze.mode]}${title ? ` for "${title}"` : ''} again`,
+      target: snooze.mode,
+      eventId: snooze.eventId,
+    });
+  }
+
+  return actions;
+}
+
+/**
+ * Pin until the next boundary of the view's meeting, or a default length.
+ */
+function getPinExpiry(event: CalendarEvent | undefined, now: number): number {
+  if (event && event.startTime > now) return event.startTime;
+  if (event && event.endTime > now) return event.endTime;
+  return now + DEFAULT_PIN_MS;
+}
+
 /**
  * Get adjacency suggestion when prep wins over synthesis.
  *
@@ -158,6 +247,11 @@ export function getShortExplanation(
         ? `Reviewing "${context.lastMeeting.title}"`
         : 'Recent meeting needs review';
 
+    case 'meeting_transition':
+      return context.transition
+        ? `Wrapping up "${context.transition.from.title}", next up "${context.transition.to.title}"`
+        : 'Back-to-back meetings';
+
     case 'neutral_intent':
       return 'No immediate meetings';
 
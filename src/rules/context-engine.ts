@@ -7,64 +7,207 @@
 
 import {
   CalendarEvent,
+  ContextSnapshot,
   MeetingContext,
+  MeetingTrigger,
   TimingConfig,
+  TimingOverride,
+  EventPolicy,
+  IgnoredEventReason,
   DEFAULT_TIMING_CONFIG,
+  DEFAULT_EVENT_POLICY,
 } from './types';
+import { findTimingOverride, getEffectiveTimingConfig } from './timing-overrides';
+
+/**
+ * Why the event policy skips an event, or null if it may drive a mode.
+ */
+export function getIgnoredReason(
+  event: CalendarEvent,
+  policy: EventPolicy = DEFAULT_EVENT_POLICY
+): IgnoredEventReason | null {
+  if (policy.ignoreDeclined && event.responseStatus === 'declined') {
+    return 'declined';
+  }
+  if (policy.ignoreAllDay && event.isAllDay) {
+    return 'all_day';
+  }
+  if (policy.ignoreNonMeetings && event.eventType && event.eventType !== 'default') {
+    return 'non_meeting';
+  }
+  if (policy.ignoreSoloEvents && event.attendeeCount === 0) {
+    return 'solo';
+  }
+  return null;
+}
+
+/**
+ * Order overlapping live meetings: accepted first, then ones the user
+ * organizes, then most attendees. Ties go to the later start (the meeting the
+ * user most likely just joined).
+ *
+ * @returns Negative if `a` should win over `b`
+ */
+export function compareOverlappingMeetings(a: CalendarEvent, b: CalendarEvent): number {
+  const accepted = (e: CalendarEvent) => Number(e.responseStatus === 'accepted');
+  const organizer = (e: CalendarEvent) => Number(Boolean(e.isOrganizer));
+  const attendees = (e: CalendarEvent) => e.attendeeCount ?? e.attendees.length;
+
+  return (
+    accepted(b) - accepted(a) ||
+    organizer(b) - organizer(a) ||
+    attendees(b) - attendees(a) ||
+    b.startTime - a.startTime
+  );
+}
+
+/**
+ * Find back-to-back meetings around `now`: one that ends at most
+ * `transitionGapMinutes` before the next starts, with `now` between the end
+ * of the first and the start of the second (each widened by the grace period).
+ * The closest pair wins.
+ */
+function findTransition(
+  events: CalendarEvent[],
+  now: number,
+  config: TimingConfig
+): MeetingContext['transition'] {
+  const graceMs = config.meetingGraceMinutes * 60 * 1000;
+  const gapMs = config.transitionGapMinutes * 60 * 1000;
+
+  const from = events
+    .filter((e) => !e.suppressedTriggers?.includes('synthesis'))
+    .filter((e) => e.endTime - graceMs <= now && e.endTime >= now - gapMs - graceMs)
+    .sort((a, b) => b.endTime - a.endTime)[0];
+  if (!from) return null;
+
+  const to = events
+    .filter((e) => e !== from && !e.suppressedTriggers?.includes('prep'))
+    .filter((e) => e.startTime >= from.endTime && e.startTime - from.endTime <= gapMs)
+    .filter((e) => now <= e.startTime + graceMs)
+    .sort((a, b) => a.startTime - b.startTime)[0];
+
+  return to ? { from, to } : null;
+}
 
 /**
  * Compute meeting context from calendar events.
  *
+ * Events only fill the slots their `suppressedTriggers` allow, so e.g. a
+ * room booking marked "never Prep" is skipped when looking for the next meeting.
+ * Events the policy skips (declined, all-day, solo...) are listed in
+ * `ignoredEvents` so the capsule can explain them.
+ *
+ * When several meetings are live, `compareOverlappingMeetings` picks
+ * `currentMeeting` and the rest go to `overlappingMeetings`. Back-to-back
+ * meetings set `transition`; while it lasts, neither of its meetings counts as
+ * live, so ending one and starting the other doesn't flip between views.
+ *
+ * Prep, synthesis and grace windows are per event: a matching timing override
+ * replaces the global values (see `timing-overrides.ts`).
+ *
  * @param events - Array of calendar events
  * @param now - Current timestamp (allows override for testing)
  * @param config - Timing configuration
+ * @param policy - Which events may drive a mode
+ * @param overrides - Per-series / per-attendee timing overrides
  * @returns Meeting context with current/next/last meetings
  */
 export function computeMeetingContext(
   events: CalendarEvent[],
   now: number = Date.now(),
-  config: TimingConfig = DEFAULT_TIMING_CONFIG
+  config: TimingConfig = DEFAULT_TIMING_CONFIG,
+  policy: EventPolicy = DEFAULT_EVENT_POLICY,
+  overrides: TimingOverride[] = []
 ): MeetingContext {
-  const { prepWindowMinutes, synthesisWindowMinutes, meetingGraceMinutes } = config;
-
-  const prepWindowMs = prepWindowMinutes * 60 * 1000;
-  const synthesisWindowMs = synthesisWindowMinutes * 60 * 1000;
-  const graceMs = meetingGraceMinutes * 60 * 1000;
-
   // Sort events by start time
   const sortedEvents = [...events].sort((a, b) => a.startTime - b.startTime);
 
-  let currentMeeting: CalendarEvent | null = null;
+  const liveMeetings: CalendarEvent[] = [];
   let nextMeeting: CalendarEvent | null = null;
   let lastMeeting: CalendarEvent | null = null;
+  const ignoredEvents: NonNullable<MeetingContext['ignoredEvents']> = [];
+  const eligibleEvents: CalendarEvent[] = [];
 
   for (const event of sortedEvents) {
+    const timing = getEffectiveTimingConfig(event, config, overrides);
+    const prepWindowMs = timing.prepWindowMinutes * 60 * 1000;
+    const synthesisWindowMs = timing.synthesisWindowMinutes * 60 * 1000;
+    const graceMs = timing.meetingGraceMinutes * 60 * 1000;
+
     const startWithGrace = event.startTime - graceMs;
     const endWithGrace = event.endTime + graceMs;
 
+    let trigger: MeetingTrigger | null = null;
+
     // Check if meeting is currently live (with grace period)
     if (now >= startWithGrace && now <= endWithGrace) {
-      currentMeeting = event;
+      trigger = 'capture';
     }
     // Check if meeting is within prep window (upcoming)
     else if (
       event.startTime > now &&
       event.startTime <= now + prepWindowMs
     ) {
-      // Take the nearest upcoming meeting
-      if (!nextMeeting || event.startTime < nextMeeting.startTime) {
-        nextMeeting = event;
-      }
+      trigger = 'prep';
     }
     // Check if meeting is within synthesis window (recently ended)
     else if (
       event.endTime < now &&
       event.endTime >= now - synthesisWindowMs
     ) {
-      // Take the most recently ended meeting
-      if (!lastMeeting || event.endTime > lastMeeting.endTime) {
-        lastMeeting = event;
+      trigger = 'synthesis';
+    }
+
+    if (!trigger) continue;
+
+    const ignoredReason = getIgnoredReason(event, policy);
+    if (ignoredReason) {
+      if (!event.suppressedTriggers?.includes(trigger)) {
+        ignoredEvents.push({ event, reason: ignoredReason });
       }
+      continue;
+    }
+
+    eligibleEvents.push(event);
+    if (event.suppressedTriggers?.includes(trigger)) continue;
+
+    switch (trigger) {
+      case 'capture':
+        liveMeetings.push(event);
+        break;
+
+      case 'prep':
+        // Take the nearest upcoming meeting
+        if (!nextMeeting || event.startTime < nextMeeting.startTime) {
+          nextMeeting = event;
+        }
+        break;
+
+      case 'synthesis':
+        // Take the most recently ended meeting
+        if (!lastMeeting || event.endTime > lastMeeting.endTime) {
+          lastMeeting = event;
+        }
+        break;
+    }
+  }
+
+  const transition = findTransition(eligibleEvents, now, config);
+  const [currentMeeting = null, ...overlappingMeetings] = liveMeetings
+    .filter((e) => e !== transition?.from && e !== transition?.to)
+    .sort(compareOverlappingMeetings);
+
+  const timingOverrides: NonNullable<MeetingContext['timingOverrides']> = [];
+  const decidingMeetings = new Set(
+    [currentMeeting, nextMeeting, lastMeeting, transition?.from, transition?.to].filter(
+      (e): e is CalendarEvent => Boolean(e)
+    )
+  );
+  for (const event of decidingMeetings) {
+    const override = findTimingOverride(event, overrides);
+    if (override) {
+      timingOverrides.push({ event, override });
     }
   }
 
@@ -73,6 +216,10 @@ export function computeMeetingContext(
     nextMeeting,
     lastMeeting,
     now,
+    ignoredEvents,
+    overlappingMeetings,
+    transition,
+    timingOverrides,
   };
 }
 
@@ -100,6 +247,27 @@ export function isMeetingEnding(
   return now > event.endTime && now <= event.endTime + graceMs;
 }
 
+/**
+ * Reduce a meeting context to event ids, for decision records.
+ */
+export function snapshotMeetingContext(context: MeetingContext): ContextSnapshot {
+  return {
+    currentMeetingId: context.currentMeeting?.id ?? null,
+    nextMeetingId: context.nextMeeting?.id ?? null,
+    lastMeetingId: context.lastMeeting?.id ?? null,
+    overlappingMeetingIds: context.overlappingMeetings?.map((e) => e.id),
+    transition: context.transition
+      ? { fromId: context.transition.from.id, toId: context.transition.to.id }
+      : null,
+    timingOverrides: context.timingOverrides?.map(({ event, override }) => ({
+      eventId: event.id,
+      overrideId: override.id,
+      label: override.label,
+    })),
+    ignoredEvents: context.ignoredEvents?.map(({ event, reason }) => ({ eventId: event.id, reason })),
+  };
+}
+
 /**
  * Get time until meeting starts.
  */
@@ -129,3 +297,10 @@ export function formatDuration(ms: number): string {
   }
   return `${hours} hr ${remainingMinutes} min`;
 }
+
+/**
+ * Format a timestamp as a local clock time, e.g. "10:15 AM".
+ */
+export function formatClockTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+}
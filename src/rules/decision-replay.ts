@@ -0,0 +1,89 @@
+/**
+ * Decision Replay
+ *
+ * Reruns recorded `decision_evaluated` events through an engine with the
+ * current rules, timing settings and learned preferences, and reports where
+ * today's engine would decide differently. Used to regression-test rule
+ * changes against real history.
+ */
+
+import { storage } from '@/storage';
+import type { EventFilter, EventRecord } from '@/storage/types';
+import { DecisionRecord, ReplayResult, MODE_LABELS } from './types';
+import { RulesEngine, getRulesEngine } from './rules-engine';
+
+/**
+ * Read a decision record from a `decision_evaluated` event.
+ * Returns null for other events or payloads missing the replay inputs.
+ */
+export function toDecisionRecord(event: EventRecord): DecisionRecord | null {
+  if (event.type !== 'decision_evaluated') return null;
+
+  const payload = event.payload as Partial<DecisionRecord>;
+  if (typeof payload.now !== 'number' || !Array.isArray(payload.events) || !payload.selection || !payload.trigger) {
+    return null;
+  }
+  return payload as DecisionRecord;
+}
+
+function describeSwitch(shouldSwitch: boolean, blockedReason?: string): string {
+  if (shouldSwitch) return 'switch';
+  return blockedReason ? `blocked (${blockedReason})` : 'blocked';
+}
+
+/**
+ * Rerun one recorded decision with the source engine's current settings.
+ * The source engine itself is not touched and nothing is logged.
+ */
+export async function replayDecision(record: DecisionRecord, source: RulesEngine): Promise<ReplayResult> {
+  const engine = new RulesEngine(source.getConfig(), source.getPolicy());
+  engine.setTimingSettings({ global: source.getConfig(), overrides: source.getTimingOverrides() });
+  engine.setModeRules(source.getModeRules());
+  engine.setPreferences(source.getPreferences());
+  engine.setTimeOverride(record.now);
+  engine.restoreStabilityState(record.stability);
+
+  const result = await engine.evaluateContext(record.events, record.trigger, { dryRun: true });
+  const replayed = {
+    mode: result.plan.mode,
+    confidence: result.capsule.confidence,
+    reason: result.plan.reason,
+    shouldSwitch: result.shouldSwitch,
+    blockedReason: result.blockedReason,
+  };
+
+  const differences: string[] = [];
+  if (replayed.mode !== record.selection.mode) {
+    differences.push(`Mode: ${MODE_LABELS[record.selection.mode]} → ${MODE_LABELS[replayed.mode]}`);
+  }
+  if (replayed.confidence !== record.selection.confidence) {
+    differences.push(`Confidence: ${record.selection.confidence} → ${replayed.confidence}`);
+  }
+  if (replayed.shouldSwitch !== record.shouldSwitch) {
+    differences.push(
+      `Switch: ${describeSwitch(record.shouldSwitch, record.blockedReason)} → ` +
+        describeSwitch(replayed.shouldSwitch, replayed.blockedReason)
+    );
+  }
+
+  return { record, replayed, changed: differences.length > 0, differences };
+}
+
+/**
+ * Replay recorded decisions (newest first) against the current engine.
+ */
+export async function replayHistory(
+  filter: Omit<EventFilter, 'types'> = {},
+  source: RulesEngine = getRulesEngine()
+): Promise<ReplayResult[]> {
+  const events = await storage.getEvents({ ...filter, types: ['decision_evaluated'] });
+
+  const results: ReplayResult[] = [];
+  for (const event of events) {
+    const record = toDecisionRecord(event);
+    if (record) {
+      results.push(await replayDecision(record, source));
+    }
+  }
+  return results;
+}
@@ -7,17 +7,40 @@
 // Types
 export type {
   CalendarEvent,
+  MeetingTrigger,
+  RsvpStatus,
+  MeetingEventType,
   TimingConfig,
+  MeetingTimingConfig,
+  TimingOverrideMatch,
+  TimingOverride,
+  TimingSettings,
+  EventPolicy,
+  IgnoredEventReason,
   MeetingContext,
   ModeSelectionResult,
+  RuleMeetingRef,
+  ModeRuleConditions,
+  ModeRule,
+  ModeRuleSet,
+  ModeCandidate,
+  PatternModeStats,
+  ModePreferenceModel,
+  LearnedPreference,
   SwitchTrigger,
+  ModePin,
+  ModeSnooze,
   StabilityState,
   AdjacencySuggestion,
   EvaluationResult,
+  ContextSnapshot,
+  DecisionRecord,
+  ReplayResult,
 } from './types';
 
 export {
   DEFAULT_TIMING_CONFIG,
+  DEFAULT_EVENT_POLICY,
   ALLOWED_TRIGGERS,
   BLOCKED_TRIGGERS,
   MODE_PRIORITY,
@@ -27,13 +50,34 @@ export {
 // Context Engine
 export {
   computeMeetingContext,
+  getIgnoredReason,
+  snapshotMeetingContext,
   isMeetingStarting,
   isMeetingEnding,
   getTimeUntilMeeting,
   getTimeSinceMeetingEnded,
   formatDuration,
+  formatClockTime,
 } from './context-engine';
 
+// Timing Overrides
+export {
+  globToRegExp,
+  matchesTimingOverride,
+  findTimingOverride,
+  getEffectiveTimingConfig,
+  getTimingReachMinutes,
+} from './timing-overrides';
+
+// Mode Rule Sets
+export {
+  DEFAULT_MODE_RULES,
+  RuleSetValidationError,
+  validateModeRuleSet,
+  parseModeRuleSet,
+  evaluateModeRules,
+} from './rule-set';
+
 // Mode Selector
 export {
   selectMode,
@@ -42,12 +86,29 @@ export {
   getSignalsUsed,
 } from './mode-selector';
 
+// Mode Preferences
+export {
+  getMeetingPattern,
+  buildModePreferences,
+  applyModePreferences,
+  describeLearnedPreference,
+} from './mode-preferences';
+
 // Stability
 export {
   canAutoSwitch,
   createStabilityState,
   afterSwitch,
   setInputFocus,
+  getActivePin,
+  getActiveSnoozes,
+  isSnoozed,
+  pinMode,
+  unpinMode,
+  snoozeMode,
+  unsnoozeMode,
+  pruneExpiredHolds,
+  releaseHolds,
   isUserInitiated,
   isMeetingBoundary,
   getBlockedReasonMessage,
@@ -58,6 +119,8 @@ export {
 export {
   generateCapsule,
   getAdjacencySuggestion,
+  getHoldActions,
+  HOLD_ACTION_TYPES,
   getShortExplanation,
   getConfidenceExplanation,
 } from './capsule-generator';
@@ -69,6 +132,13 @@ export {
   resetRulesEngine,
 } from './rules-engine';
 
+// Decision Replay
+export {
+  toDecisionRecord,
+  replayDecision,
+  replayHistory,
+} from './decision-replay';
+
 // React Hook
 export {
   useRulesEngine,
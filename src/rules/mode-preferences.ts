@@ -0,0 +1,180 @@
+/**
+ * Mode Preferences
+ *
+ * Learns from manual overrides. Each automatic `mode_switched` event opens a
+ * decision for a meeting pattern; explicit switches before the next automatic
+ * one change where the user ended up. Patterns the user habitually moves to
+ * another mode get that mode as their default; patterns they often leave get
+ * lower confidence. Everything is computed locally from the event log.
+ */
+
+import { Confidence, Mode } from '@/types/ui-plan';
+import type { EventRecord } from '@/storage/types';
+import {
+  CalendarEvent,
+  LearnedPreference,
+  ModePreferenceModel,
+  ModeSelectionResult,
+  MODE_LABELS,
+} from './types';
+
+/** Rule selections needed before history changes anything */
+const MIN_SELECTIONS = 3;
+
+/** Share of selections ending in one other mode to make it the default */
+const DEFAULT_SHARE = 0.6;
+
+/** Share of selections ending elsewhere to lower confidence */
+const LOWER_CONFIDENCE_SHARE = 0.3;
+
+const LOWER_CONFIDENCE: Record<Confidence, Confidence> = {
+  HIGH: 'MEDIUM',
+  MEDIUM: 'LOW',
+  LOW: 'LOW',
+};
+
+// ============================================
+// Meeting Patterns
+// ============================================
+
+/**
+ * Key that groups occurrences of the same kind of meeting: the recurring
+ * series when known, otherwise the title with numbers masked
+ * ("Sprint 14 Review" and "Sprint 15 Review" match).
+ */
+export function getMeetingPattern(event: CalendarEvent): string {
+  if (event.seriesId) {
+    return `series:${event.seriesId}`;
+  }
+  const title = event.title.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ').trim();
+  return `title:${title}`;
+}
+
+function statsKey(pattern: string, ruleMode: Mode): string {
+  return `${pattern}|${ruleMode}`;
+}
+
+// ============================================
+// Model
+// ============================================
+
+/**
+ * Build the preference model from `mode_switched` events (any order).
+ *
+ * Automatic switches carry `pattern` and `ruleMode` in their payload;
+ * manual switches move the open decision to their `to` mode.
+ */
+export function buildModePreferences(events: EventRecord[]): ModePreferenceModel {
+  const model: ModePreferenceModel = {};
+  let open: { key: string; mode: Mode } | null = null;
+
+  const close = () => {
+    if (!open) return;
+    const stats = (model[open.key] ??= { selections: 0, outcomes: {} });
+    stats.selections++;
+    stats.outcomes[open.mode] = (stats.outcomes[open.mode] ?? 0) + 1;
+    open = null;
+  };
+
+  const switches = events
+    .filter((e) => e.type === 'mode_switched')
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  for (const event of switches) {
+    const { trigger, source, pattern, ruleMode, to } = event.payload as {
+      trigger?: string;
+      source?: string;
+      pattern?: string;
+      ruleMode?: Mode;
+      to?: Mode;
+    };
+
+    // Same notion of a manual override as metrics.ts
+    if (trigger === 'explicit_user_action' || source === 'dev_harness') {
+      if (open && to) open.mode = to;
+      continue;
+    }
+
+    close();
+    if (pattern && ruleMode && to) {
+      open = { key: statsKey(pattern, ruleMode), mode: to };
+    }
+  }
+
+  close();
+  return model;
+}
+
+// ============================================
+// Applying Preferences
+// ============================================
+
+/**
+ * Adjust a rule-based selection using the user's override history.
+ * Selections without a meeting, or with too little history, pass through.
+ */
+export function applyModePreferences(
+  selection: ModeSelectionResult,
+  model: ModePreferenceModel
+): ModeSelectionResult {
+  if (!selection.event) return selection;
+
+  const pattern = getMeetingPattern(selection.event);
+  const stats = model[statsKey(pattern, selection.mode)];
+  if (!stats || stats.selections < MIN_SELECTIONS) return selection;
+
+  const ruleMode = selection.mode;
+  const others = (Object.entries(stats.outcomes) as Array<[Mode, number]>)
+    .filter(([mode]) => mode !== ruleMode)
+    .sort((a, b) => b[1] - a[1]);
+
+  const [top] = others;
+  if (top && top[1] / stats.selections >= DEFAULT_SHARE) {
+    const [target, count] = top;
+    return {
+      ...selection,
+      mode: target,
+      confidence: 'MEDIUM',
+      reason: `${selection.reason}; you usually switch to ${MODE_LABELS[target]} for it`,
+      learned: {
+        pattern,
+        ruleMode,
+        kind: 'default',
+        target,
+        overrides: count,
+        selections: stats.selections,
+      },
+    };
+  }
+
+  const left = others.reduce((sum, [, count]) => sum + count, 0);
+  if (left / stats.selections >= LOWER_CONFIDENCE_SHARE) {
+    return {
+      ...selection,
+      confidence: LOWER_CONFIDENCE[selection.confidence],
+      learned: {
+        pattern,
+        ruleMode,
+        kind: 'confidence',
+        target: top?.[0],
+        overrides: left,
+        selections: stats.selections,
+      },
+    };
+  }
+
+  return selection;
+}
+
+/**
+ * Explain a learned adjustment for the Decision Capsule's signals.
+ */
+export function describeLearnedPreference(learned: LearnedPreference, title: string): string {
+  const from = MODE_LABELS[learned.ruleMode];
+  const history = `${learned.overrides} of ${learned.selections} times`;
+
+  if (learned.kind === 'default' && learned.target) {
+    return `Learned: you switched "${title}" from ${from} to ${MODE_LABELS[learned.target]} ${history}`;
+  }
+  return `Learned: you left ${from} for "${title}" ${history}`;
+}
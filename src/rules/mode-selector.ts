@@ -9,48 +9,64 @@
 
 import { Mode, Confidence } from '@/types/ui-plan';
 import {
+  CalendarEvent,
   MeetingContext,
+  ModeCandidate,
+  ModeRuleSet,
   ModeSelectionResult,
-  MODE_PRIORITY,
-  MODE_LABELS,
   TimingConfig,
+  EventPolicy,
+  IgnoredEventReason,
+  RsvpStatus,
   DEFAULT_TIMING_CONFIG,
+  DEFAULT_EVENT_POLICY,
 } from './types';
 import {
   getTimeUntilMeeting,
   getTimeSinceMeetingEnded,
   formatDuration,
 } from './context-engine';
+import { getEffectiveTimingConfig } from './timing-overrides';
+import { DEFAULT_MODE_RULES, evaluateModeRules } from './rule-set';
 
 /**
- * Candidate mode with its trigger reason.
+ * Timing that applied to one of the context's meetings.
  */
-interface ModeCandidate {
-  mode: Mode;
-  priority: number;
-  trigger: string;
-  reason: string;
+function timingFor(
+  event: CalendarEvent,
+  context: MeetingContext,
+  config: TimingConfig
+): TimingConfig {
+  const applied = context.timingOverrides?.find((t) => t.event === event);
+  return applied ? getEffectiveTimingConfig(event, config, [applied.override]) : config;
 }
 
 /**
  * Select the appropriate mode based on meeting context.
  *
- * Priority chain:
+ * Candidates come from a declarative rule set (see `rule-set.ts`); the
+ * highest-priority candidate wins. The default rules implement:
  * 1. CAPTURE - meeting is live
  * 2. PREP - meeting starts within prep window
  * 3. SYNTHESIS - meeting ended within synthesis window
  * 4. NEUTRAL - no meeting context
+ * with back-to-back meetings (`context.transition`) selecting TRANSITION
+ * unless another meeting is live.
+ *
+ * With `policy.tentativeAsMedium`, a winning meeting the user only tentatively
+ * accepted is capped at MEDIUM confidence.
  */
 export function selectMode(
   context: MeetingContext,
-  config: TimingConfig = DEFAULT_TIMING_CONFIG
+  policy: EventPolicy = DEFAULT_EVENT_POLICY,
+  rules: ModeRuleSet = DEFAULT_MODE_RULES
 ): ModeSelectionResult {
-  const candidates = collectCandidates(context, config);
+  const candidates = evaluateModeRules(context, rules);
 
-  // Sort by priority (highest first)
+  // Sort by priority (highest first; ties keep rule order)
   candidates.sort((a, b) => b.priority - a.priority);
 
-  // If no candidates, default to neutral
+  // If no rule fired, default to neutral
   if (candidates.length === 0) {
     return {
       mode: 'neutral_intent',
@@ -61,69 +77,21 @@ export function selectMode(
   }
 
   const winner = candidates[0];
-  const confidence = assignConfidence(winner, candidates, context);
+  let confidence = winner.confidence ?? assignConfidence(winner, candidates, context);
+
+  if (policy.tentativeAsMedium && confidence === 'HIGH' && winner.event?.responseStatus === 'tentative') {
+    confidence = 'MEDIUM';
+  }
 
   return {
     mode: winner.mode,
     confidence,
     reason: winner.reason,
     trigger: winner.trigger,
+    event: winner.event,
   };
 }
 
-/**
- * Collect all candidate modes based on context.
- */
-function collectCandidates(
-  context: MeetingContext,
-  config: TimingConfig
-): ModeCandidate[] {
-  const candidates: ModeCandidate[] = [];
-  const { now } = context;
-
-  // Check for live meeting → CAPTURE
-  if (context.currentMeeting) {
-    candidates.push({
-      mode: 'meeting_capture',
-      priority: MODE_PRIORITY.meeting_capture,
-      trigger: 'meeting_live',
-      reason: `"${context.currentMeeting.title}" is in progress`,
-    });
-  }
-
-  // Check for upcoming meeting → PREP
-  if (context.nextMeeting) {
-    const timeUntil = getTimeUntilMeeting(context.nextMeeting, now);
-    candidates.push({
-      mode: 'meeting_prep',
-      priority: MODE_PRIORITY.meeting_prep,
-      trigger: 'meeting_upcoming',
-      reason: `"${context.nextMeeting.title}" starts in ${formatDuration(timeUntil)}`,
-    });
-  }
-
-  // Check for recently ended meeting → SYNTHESIS
-  if (context.lastMeeting) {
-    const timeSince = getTimeSinceMeetingEnded(context.lastMeeting, now);
-    candidates.push({
-      mode: 'meeting_synthesis_min',
-      priority: MODE_PRIORITY.meeting_synthesis_min,
-      trigger: 'meeting_ended',
-      reason: `"${context.lastMeeting.title}" ended ${formatDuration(timeSince)} ago`,
-    });
-  }
-
-  // Always include neutral as fallback
-  candidates.push({
-    mode: 'neutral_intent',
-    priority: MODE_PRIORITY.neutral_intent,
-    trigger: 'default',
-    reason: 'No immediate meeting context',
-  });
-
-  return candidates;
-}
-
 /**
  * Assign confidence based on context strength.
  *
@@ -184,9 +152,9 @@ function assignConfidence(
 export function getAlternatives(
   context: MeetingContext,
   selectedMode: Mode,
-  config: TimingConfig = DEFAULT_TIMING_CONFIG
+  rules: ModeRuleSet = DEFAULT_MODE_RULES
 ): Array<{ mode: Mode; reason: string }> {
-  const candidates = collectCandidates(context, config);
+  const candidates = evaluateModeRules(context, rules);
 
   return candidates
     .filter((c) => c.mode !== selectedMode && c.mode !== 'neutral_intent')
@@ -203,13 +171,14 @@ export function getAlternatives(
  */
 export function getWouldChangeConditions(
   selectedMode: Mode,
-  context: MeetingContext
+  context: MeetingContext,
+  config: TimingConfig = DEFAULT_TIMING_CONFIG
 ): string[] {
   const conditions: string[] = [];
 
   switch (selectedMode) {
     case 'neutral_intent':
-      conditions.push('A meeting appears on your calendar within 45 minutes');
+      conditions.push(`A meeting appears on your calendar within ${config.prepWindowMinutes} minutes`);
       conditions.push('You explicitly set an intent');
       break;
 
@@ -226,21 +195,46 @@ export function getWouldChangeConditions(
       conditions.push('You manually switch to another mode');
       break;
 
-    case 'meeting_synthesis_min':
-      conditions.push('60 minutes pass since the meeting ended');
+    case 'meeting_transition':
+      conditions.push('The next meeting starts (switches to Capture)');
+      conditions.push('You switch to Prep or Synthesis only');
+      break;
+
+    case 'meeting_synthesis_min': {
+      const synthesisWindow = context.lastMeeting
+        ? timingFor(context.lastMeeting, context, config).synthesisWindowMinutes
+        : config.synthesisWindowMinutes;
+      conditions.push(`${synthesisWindow} minutes pass since the meeting ended`);
       conditions.push('A new meeting appears within prep window');
       conditions.push('You manually switch to Neutral');
       break;
+    }
   }
 
   return conditions;
 }
 
+const RSVP_LABELS: Partial<Record<RsvpStatus, string>> = {
+  tentative: 'Tentative RSVP',
+  declined: 'Declined',
+  needsAction: 'No RSVP yet',
+};
+
+const IGNORED_LABELS: Record<IgnoredEventReason, string> = {
+  declined: 'you declined',
+  all_day: 'all-day event',
+  non_meeting: 'not a meeting',
+  solo: 'no other attendees',
+};
+
 /**
  * Get signals used for the decision.
  * Used for Decision Capsule transparency.
  */
-export function getSignalsUsed(context: MeetingContext): string[] {
+export function getSignalsUsed(
+  context: MeetingContext,
+  config: TimingConfig = DEFAULT_TIMING_CONFIG
+): string[] {
   const signals: string[] = [];
 
   if (context.currentMeeting) {
@@ -257,9 +251,41 @@ export function getSignalsUsed(context: MeetingContext): string[] {
     signals.push(`Ended: "${context.lastMeeting.title}" ${formatDuration(timeSince)} ago`);
   }
 
+  if (context.transition) {
+    const { from, to } = context.transition;
+    const gap = Math.max(0, to.startTime - from.endTime);
+    signals.push(
+      gap > 0
+        ? `Back-to-back: "${from.title}" → "${to.title}" (${formatDuration(gap)} gap)`
+        : `Back-to-back: "${from.title}" → "${to.title}"`
+    );
+  }
+
+  for (const meeting of context.overlappingMeetings ?? []) {
+    signals.push(`Also live: "${meeting.title}"`);
+  }
+
   if (signals.length === 0) {
     signals.push('No calendar events in relevant windows');
   }
 
+  for (const meeting of [context.currentMeeting, context.nextMeeting, context.lastMeeting]) {
+    const label = meeting?.responseStatus && RSVP_LABELS[meeting.responseStatus];
+    if (meeting && label) {
+      signals.push(`${label}: "${meeting.title}"`);
+    }
+  }
+
+  for (const { event, override } of context.timingOverrides ?? []) {
+    const timing = timingFor(event, context, config);
+    const prep = formatDuration(timing.prepWindowMinutes * 60 * 1000);
+    const synthesis = formatDuration(timing.synthesisWindowMinutes * 60 * 1000);
+    signals.push(`Timing for "${event.title}": ${override.label} (prep ${prep}, synthesis ${synthesis})`);
+  }
+
+  for (const { event, reason } of context.ignoredEvents ?? []) {
+    signals.push(`Ignored "${event.title}" (${IGNORED_LABELS[reason]})`);
+  }
+
   return signals;
 }
@@ -0,0 +1,324 @@
+/**
+ * Mode Rule Sets
+ *
+ * Mode selection rules expressed as data. Each rule names the meeting it is
+ * about, the conditions it needs and the candidate mode, priority and reason
+ * it produces. The shipped behavior lives in `default-mode-rules.json`; users
+ * can replace it with their own validated rule set.
+ */
+
+import { Confidence, Mode } from '@/types/ui-plan';
+import {
+  CalendarEvent,
+  MeetingContext,
+  ModeCandidate,
+  ModeRule,
+  ModeRuleConditions,
+  ModeRuleSet,
+  RuleMeetingRef,
+  MODE_LABELS,
+} from './types';
+import { formatDuration, getTimeSinceMeetingEnded, getTimeUntilMeeting } from './context-engine';
+import { globToRegExp } from './timing-overrides';
+import defaultRules from './default-mode-rules.json';
+
+// ============================================
+// Validation
+// ============================================
+
+/**
+ * Error thrown when a rule set fails validation.
+ * `path` points at the offending field, e.g. "rules[2].when.timeOfDay".
+ */
+export class RuleSetValidationError extends Error {
+  constructor(
+    message: string,
+    public readonly path: string
+  ) {
+    super(`${path}: ${message}`);
+    this.name = 'RuleSetValidationError';
+  }
+}
+
+const MODES = Object.keys(MODE_LABELS) as Mode[];
+const MEETING_REFS: RuleMeetingRef[] = ['current', 'next', 'last', 'transition'];
+const CONFIDENCES: Confidence[] = ['HIGH', 'MEDIUM', 'LOW'];
+const RULE_KEYS = ['id', 'description', 'meeting', 'when', 'mode', 'priority', 'trigger', 'reason', 'confidence', 'enabled'];
+const CONDITION_KEYS: Array<keyof ModeRuleConditions> = [
+  'noLiveMeeting',
+  'startsWithinMinutes',
+  'endedWithinMinutes',
+  'timeOfDay',
+  'daysOfWeek',
+  'titlePattern',
+  'attendeePattern',
+  'minAttendees',
+  'maxAttendees',
+];
+
+/** Conditions that look at the rule's meeting */
+const MEETING_CONDITIONS: Array<keyof ModeRuleConditions> = [
+  'startsWithinMinutes',
+  'endedWithinMinutes',
+  'titlePattern',
+  'attendeePattern',
+  'minAttendees',
+  'maxAttendees',
+];
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkUnknownKeys(value: Record<string, unknown>, allowed: readonly string[], path: string): void {
+  const unknown = Object.keys(value).find((key) => !allowed.includes(key));
+  if (unknown) {
+    throw new RuleSetValidationError(`unknown field "${unknown}"`, path);
+  }
+}
+
+function checkNonNegative(value: unknown, path: string): void {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+    throw new RuleSetValidationError('must be a non-negative number', path);
+  }
+}
+
+function checkString(value: unknown, path: string): void {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new RuleSetValidationError('must be a non-empty string', path);
+  }
+}
+
+function validateConditions(when: unknown, hasMeeting: boolean, path: string): void {
+  if (!isObject(when)) {
+    throw new RuleSetValidationError('must be an object', path);
+  }
+  checkUnknownKeys(when, CONDITION_KEYS, path);
+
+  if (!hasMeeting) {
+    const needsMeeting = MEETING_CONDITIONS.find((key) => when[key] !== undefined);
+    if (needsMeeting) {
+      throw new RuleSetValidationError('needs the rule to name a meeting', `${path}.${needsMeeting}`);
+    }
+  }
+
+  if (when.noLiveMeeting !== undefined && typeof when.noLiveMeeting !== 'boolean') {
+    throw new RuleSetValidationError('must be a boolean', `${path}.noLiveMeeting`);
+  }
+  for (const key of ['startsWithinMinutes', 'endedWithinMinutes', 'minAttendees', 'maxAttendees'] as const) {
+    if (when[key] !== undefined) checkNonNegative(when[key], `${path}.${key}`);
+  }
+  for (const key of ['titlePattern', 'attendeePattern'] as const) {
+    if (when[key] !== undefined) checkString(when[key], `${path}.${key}`);
+  }
+
+  if (when.timeOfDay !== undefined) {
+    const window = when.timeOfDay;
+    if (!isObject(window) || !TIME_OF_DAY.test(String(window.from)) || !TIME_OF_DAY.test(String(window.to))) {
+      throw new RuleSetValidationError('must be { from: "HH:MM", to: "HH:MM" }', `${path}.timeOfDay`);
+    }
+  }
+
+  if (when.daysOfWeek !== undefined) {
+    const days = when.daysOfWeek;
+    if (!Array.isArray(days) || days.some((d) => !Number.isInteger(d) || d < 0 || d > 6)) {
+      throw new RuleSetValidationError('must be a list of days 0-6 (0 = Sunday)', `${path}.daysOfWeek`);
+    }
+  }
+}
+
+function validateRule(rule: unknown, path: string): void {
+  if (!isObject(rule)) {
+    throw new RuleSetValidationError('must be an object', path);
+  }
+  checkUnknownKeys(rule, RULE_KEYS, path);
+
+  checkString(rule.id, `${path}.id`);
+  checkString(rule.trigger, `${path}.trigger`);
+  checkString(rule.reason, `${path}.reason`);
+
+  if (!MODES.includes(rule.mode as Mode)) {
+    throw new RuleSetValidationError(`unknown mode "${rule.mode}"`, `${path}.mode`);
+  }
+  if (typeof rule.priority !== 'number' || !Number.isFinite(rule.priority)) {
+    throw new RuleSetValidationError('must be a number', `${path}.priority`);
+  }
+  if (rule.meeting !== undefined && !MEETING_REFS.includes(rule.meeting as RuleMeetingRef)) {
+    throw new RuleSetValidationError(`must be one of ${MEETING_REFS.join(', ')}`, `${path}.meeting`);
+  }
+  if (rule.confidence !== undefined && !CONFIDENCES.includes(rule.confidence as Confidence)) {
+    throw new RuleSetValidationError(`must be one of ${CONFIDENCES.join(', ')}`, `${path}.confidence`);
+  }
+  if (rule.enabled !== undefined && typeof rule.enabled !== 'boolean') {
+    throw new RuleSetValidationError('must be a boolean', `${path}.enabled`);
+  }
+  if (rule.description !== undefined && typeof rule.description !== 'string') {
+    throw new RuleSetValidationError('must be a string', `${path}.description`);
+  }
+  if (rule.when !== undefined) {
+    validateConditions(rule.when, rule.meeting !== undefined, `${path}.when`);
+  }
+}
+
+/**
+ * Check that a value is a well-formed rule set.
+ *
+ * @throws RuleSetValidationError naming the first invalid field
+ */
+export function validateModeRuleSet(value: unknown): ModeRuleSet {
+  if (!isObject(value)) {
+    throw new RuleSetValidationError('must be an object', 'ruleSet');
+  }
+  if (value.version !== 1) {
+    throw new RuleSetValidationError('unsupported version (expected 1)', 'version');
+  }
+  if (!Array.isArray(value.rules) || value.rules.length === 0) {
+    throw new RuleSetValidationError('must be a non-empty list', 'rules');
+  }
+
+  const ids = new Set<string>();
+  value.rules.forEach((rule, index) => {
+    const path = `rules[${index}]`;
+    validateRule(rule, path);
+    const { id } = rule as ModeRule;
+    if (ids.has(id)) {
+      throw new RuleSetValidationError(`duplicate id "${id}"`, `${path}.id`);
+    }
+    ids.add(id);
+  });
+
+  return value as unknown as ModeRuleSet;
+}
+
+/**
+ * Parse and validate a rule set from JSON text (e.g. an imported file).
+ *
+ * @throws RuleSetValidationError if the JSON is malformed or invalid
+ */
+export function parseModeRuleSet(json: string): ModeRuleSet {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (error) {
+    throw new RuleSetValidationError(error instanceof Error ? error.message : 'invalid JSON', 'json');
+  }
+  return validateModeRuleSet(value);
+}
+
+/**
+ * The shipped rules: capture > prep > synthesis > neutral, with back-to-back
+ * meetings shown as a transition.
+ */
+export const DEFAULT_MODE_RULES: ModeRuleSet = validateModeRuleSet(defaultRules);
+
+// ============================================
+// Evaluation
+// ============================================
+
+function resolveMeeting(ref: RuleMeetingRef, context: MeetingContext): CalendarEvent | null {
+  switch (ref) {
+    case 'current':
+      return context.currentMeeting;
+    case 'next':
+      return context.transition?.to ?? context.nextMeeting;
+    case 'last':
+      return context.transition?.from ?? context.lastMeeting;
+    case 'transition':
+      return context.transition?.to ?? null;
+  }
+}
+
+function minutesOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function inTimeOfDay(window: { from: string; to: string }, now: number): boolean {
+  const date = new Date(now);
+  const minute = date.getHours() * 60 + date.getMinutes();
+  const from = minutesOfDay(window.from);
+  const to = minutesOfDay(window.to);
+  return from <= to ? minute >= from && minute < to : minute >= from || minute < to;
+}
+
+function conditionsHold(
+  when: ModeRuleConditions,
+  meeting: CalendarEvent | null,
+  context: MeetingContext
+): boolean {
+  const { now } = context;
+
+  if (when.noLiveMeeting && context.currentMeeting) return false;
+  if (when.timeOfDay && !inTimeOfDay(when.timeOfDay, now)) return false;
+  if (when.daysOfWeek && !when.daysOfWeek.includes(new Date(now).getDay())) return false;
+
+  if (!meeting) return true;
+
+  if (when.startsWithinMinutes !== undefined && getTimeUntilMeeting(meeting, now) > when.startsWithinMinutes * 60000) {
+    return false;
+  }
+  if (
+    when.endedWithinMinutes !== undefined &&
+    getTimeSinceMeetingEnded(meeting, now) > when.endedWithinMinutes * 60000
+  ) {
+    return false;
+  }
+  if (when.titlePattern && !globToRegExp(when.titlePattern).test(meeting.title)) return false;
+
+  if (when.attendeePattern) {
+    const regex = globToRegExp(when.attendeePattern);
+    const people = [...meeting.attendees, ...(meeting.attendeeEmails ?? [])];
+    if (!people.some((person) => regex.test(person))) return false;
+  }
+
+  const attendees = meeting.attendeeCount ?? meeting.attendees.length;
+  if (when.minAttendees !== undefined && attendees < when.minAttendees) return false;
+  if (when.maxAttendees !== undefined && attendees > when.maxAttendees) return false;
+
+  return true;
+}
+
+function formatReason(rule: ModeRule, meeting: CalendarEvent | null, context: MeetingContext): string {
+  if (!meeting) return rule.reason;
+
+  const timeUntil = getTimeUntilMeeting(meeting, context.now);
+  const values: Record<string, string> = {
+    title: meeting.title,
+    previousTitle: context.transition?.from.title ?? '',
+    timeUntil: formatDuration(timeUntil),
+    timeSince: formatDuration(getTimeSinceMeetingEnded(meeting, context.now)),
+    startsIn: timeUntil > 0 ? `starts in ${formatDuration(timeUntil)}` : 'is starting',
+  };
+
+  return rule.reason.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+}
+
+/**
+ * Run a rule set against a meeting context, returning the candidates of every
+ * enabled rule that fired, in rule order.
+ */
+export function evaluateModeRules(context: MeetingContext, ruleSet: ModeRuleSet): ModeCandidate[] {
+  const candidates: ModeCandidate[] = [];
+
+  for (const rule of ruleSet.rules) {
+    if (rule.enabled === false) continue;
+
+    const meeting = rule.meeting ? resolveMeeting(rule.meeting, context) : null;
+    if (rule.meeting && !meeting) continue;
+    if (rule.when && !conditionsHold(rule.when, meeting, context)) continue;
+
+    candidates.push({
+      mode: rule.mode,
+      priority: rule.priority,
+      trigger: rule.trigger,
+      reason: formatReason(rule, meeting, context),
+      event: meeting ?? undefined,
+      confidence: rule.confidence,
+      ruleId: rule.id,
+    });
+  }
+
+  return candidates;
+}
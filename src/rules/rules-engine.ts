@@ -12,17 +12,43 @@ import { Mode, UIPlan, DecisionCapsule, LayoutTemplate } from '@/types/ui-plan';
 import { storage } from '@/storage';
 import {
   CalendarEvent,
+  MeetingContext,
   TimingConfig,
+  TimingOverride,
+  TimingSettings,
+  EventPolicy,
   DEFAULT_TIMING_CONFIG,
+  DEFAULT_EVENT_POLICY,
   SwitchTrigger,
   StabilityState,
   EvaluationResult,
+  DecisionRecord,
+  ModePreferenceModel,
+  ModeRuleSet,
   MODE_LABELS,
 } from './types';
-import { computeMeetingContext } from './context-engine';
+import { computeMeetingContext, snapshotMeetingContext } from './context-engine';
+import { getTimingReachMinutes } from './timing-overrides';
 import { selectMode } from './mode-selector';
-import { canAutoSwitch, createStabilityState, afterSwitch } from './stability';
-import { generateCapsule, getAdjacencySuggestion } from './capsule-generator';
+import { applyModePreferences, buildModePreferences, getMeetingPattern } from './mode-preferences';
+import { DEFAULT_MODE_RULES, evaluateModeRules } from './rule-set';
+import {
+  canAutoSwitch,
+  createStabilityState,
+  afterSwitch,
+  pinMode,
+  unpinMode,
+  snoozeMode,
+  unsnoozeMode,
+  pruneExpiredHolds,
+  releaseHolds,
+} from './stability';
+import {
+  generateCapsule,
+  getAdjacencySuggestion,
+  getHoldActions,
+  HOLD_ACTION_TYPES,
+} from './capsule-generator';
 
 /**
  * Layout mapping for each mode.
@@ -32,9 +58,21 @@ const MODE_LAYOUTS: Record<Mode, LayoutTemplate> = {
   meeting_prep: 'split',
   meeting_capture: 'single',
   meeting_synthesis_min: 'stack',
+  meeting_transition: 'split',
   agentic_work_surface: 'stack',
 };
 
+/**
+ * Decision records keep the calendar events within the engine's timing reach
+ * of `now` (widest prep or synthesis window, overrides included), and at
+ * least this far, so replays with wider timing settings still see nearby
+ * meetings.
+ */
+const MIN_RECORDED_EVENT_HORIZON_MS = 12 * 60 * 60 * 1000;
+
+/** Timing settings are in whole minutes; decisions are compared per minute */
+const DECISION_BUCKET_MS = 60 * 1000;
+
 /**
  * Generate a unique plan ID.
  */
@@ -42,6 +80,28 @@ function generatePlanId(): string {
   return `plan-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
 }
 
+/**
+ * What makes two decisions the same: the minute they were made in, the
+ * recorded inputs and the outcome. Leaves out the plan ID and wording
+ * (reasons and capsules say "starts in 9 min"), so only repeats within the
+ * same minute, such as an app open right after a boundary check, are skipped.
+ */
+function getDecisionKey(record: DecisionRecord): string {
+  const { mode, confidence, eventId, learned } = record.selection;
+  return JSON.stringify({
+    minute: Math.floor(record.now / DECISION_BUCKET_MS),
+    trigger: record.trigger,
+    events: record.events,
+    context: record.context,
+    currentMode: record.stability?.currentMode ?? null,
+    pin: record.stability?.pin ?? null,
+    snoozes: record.stability?.snoozes ?? [],
+    selection: { mode, confidence, eventId, learned },
+    shouldSwitch: record.shouldSwitch,
+    blockedReason: record.blockedReason ?? null,
+  });
+}
+
 /**
  * Rules Engine class.
  *
@@ -49,11 +109,27 @@ function generatePlanId(): string {
  */
 export class RulesEngine {
   private config: TimingConfig;
+  private policy: EventPolicy;
+  private overrides: TimingOverride[] = [];
+  private preferences: ModePreferenceModel = {};
+  private rules: ModeRuleSet = DEFAULT_MODE_RULES;
   private stabilityState: StabilityState | null = null;
   private timeOverride: number | null = null;
-
-  constructor(config: TimingConfig = DEFAULT_TIMING_CONFIG) {
+  private lastCapsule: {
+    capsule: DecisionCapsule;
+    mode: Mode;
+    context: MeetingContext;
+    event?: CalendarEvent;
+  } | null = null;
+  /** Minute, inputs and outcome of the last recorded decision, to skip repeats */
+  private lastDecisionKey: string | null = null;
+
+  constructor(
+    config: TimingConfig = DEFAULT_TIMING_CONFIG,
+    policy: EventPolicy = DEFAULT_EVENT_POLICY
+  ) {
     this.config = config;
+    this.policy = policy;
   }
 
   /**
@@ -77,10 +153,18 @@ export class RulesEngine {
     this.stabilityState = createStabilityState(
       currentMode,
       planId,
-      this.config.minimumHoldMs
+      this.config.minimumHoldMs,
+      this.getNow()
     );
   }
 
+  /**
+   * Restore a previously captured stability state (used by decision replay).
+   */
+  restoreStabilityState(state: StabilityState | null): void {
+    this.stabilityState = state;
+  }
+
   /**
    * Update input focus state.
    */
@@ -96,26 +180,34 @@ export class RulesEngine {
   /**
    * Evaluate context and determine if a mode switch should occur.
    *
-   * This is the main entry point for the rules engine.
+   * This is the main entry point for the rules engine. Each evaluation is
+   * recorded as a `decision_evaluated` event, except a repeat of the last
+   * one within the same minute; a dry run (used by decision replay) decides
+   * without logging anything.
    */
   async evaluateContext(
     events: CalendarEvent[],
-    trigger: SwitchTrigger
+    trigger: SwitchTrigger,
+    options: { dryRun?: boolean } = {}
   ): Promise<EvaluationResult> {
     const now = this.getNow();
+    if (this.stabilityState) {
+      this.stabilityState = pruneExpiredHolds(this.stabilityState, now);
+    }
+    const stabilityBefore = this.stabilityState;
 
     // Compute meeting context
-    const context = computeMeetingContext(events, now, this.config);
+    const context = computeMeetingContext(events, now, this.config, this.policy, this.overrides);
 
-    // Select mode based on context
-    const selection = selectMode(context, this.config);
+    // Select mode based on context, adjusted by the user's override history
+    const selection = applyModePreferences(
+      selectMode(context, this.policy, this.rules),
+      this.preferences
+    );
 
     // Generate plan
     const planId = generatePlanId();
-    const plan = this.createPlan(selection.mode, planId, selection.reason);
-
-    // Generate decision capsule
-    const capsule = generateCapsule(selection, context, this.config);
+    const plan = this.createPlan(selection.mode, planId, selection.reason, context, selection.event?.id);
 
     // Check adjacency suggestion
     const adjacencySuggestion = getAdjacencySuggestion(selection.mode, context);
@@ -128,7 +220,9 @@ export class RulesEngine {
       const switchCheck = canAutoSwitch(
         selection.mode,
         this.stabilityState,
-        trigger
+        trigger,
+        now,
+        selection.event?.id
       );
 
       shouldSwitch = switchCheck.allowed;
@@ -141,22 +235,43 @@ export class RulesEngine {
       this.stabilityState = createStabilityState(
         selection.mode,
         planId,
-        this.config.minimumHoldMs
+        this.config.minimumHoldMs,
+        now
       );
     }
 
-    // If switch is allowed, update stability state and log event
+    // If switch is allowed, update stability state
+    const previousMode = this.stabilityState?.currentMode;
     if (shouldSwitch && this.stabilityState) {
-      const previousMode = this.stabilityState.currentMode;
-      this.stabilityState = afterSwitch(this.stabilityState, selection.mode, planId);
+      this.stabilityState = afterSwitch(this.stabilityState, selection.mode, planId, now);
+    }
+
+    // Generate decision capsule (pin/snooze actions reflect the updated state)
+    const capsule = generateCapsule(selection, context, this.config, this.rules, this.stabilityState);
+    this.lastCapsule = { capsule, mode: selection.mode, context, event: selection.event };
+
+    const result: EvaluationResult = {
+      plan,
+      capsule,
+      shouldSwitch,
+      blockedReason,
+      adjacencySuggestion: adjacencySuggestion ?? undefined,
+    };
+
+    if (options.dryRun) {
+      return result;
+    }
 
-      // Log the mode switch event
+    // Log the mode switch event
+    if (shouldSwitch) {
       await storage.logEvent('mode_switched', {
         from: previousMode,
         to: selection.mode,
         trigger,
         reason: selection.reason,
         confidence: selection.confidence,
+        pattern: selection.event ? getMeetingPattern(selection.event) : undefined,
+        ruleMode: selection.learned?.ruleMode ?? selection.mode,
       });
     }
 
@@ -167,13 +282,31 @@ export class RulesEngine {
       confidence: selection.confidence,
     });
 
-    return {
-      plan,
-      capsule,
+    // Record the decision for audit and replay, unless it repeats the last one this minute
+    const { event: selectedEvent, ...selectionFields } = selection;
+    const horizonMs = Math.max(
+      MIN_RECORDED_EVENT_HORIZON_MS,
+      getTimingReachMinutes(this.config, this.overrides) * 60 * 1000
+    );
+    const record: DecisionRecord = {
+      planId,
+      now,
+      trigger,
+      events: events.filter((e) => e.endTime >= now - horizonMs && e.startTime <= now + horizonMs),
+      context: snapshotMeetingContext(context),
+      stability: stabilityBefore,
+      selection: { ...selectionFields, eventId: selectedEvent?.id },
       shouldSwitch,
       blockedReason,
-      adjacencySuggestion: adjacencySuggestion ?? undefined,
+      capsule,
     };
+    const decisionKey = getDecisionKey(record);
+    if (decisionKey !== this.lastDecisionKey) {
+      this.lastDecisionKey = decisionKey;
+      await storage.logEvent('decision_evaluated', { ...record });
+    }
+
+    return result;
   }
 
   /**
@@ -184,10 +317,20 @@ export class RulesEngine {
     events: CalendarEvent[]
   ): Promise<EvaluationResult> {
     const now = this.getNow();
-    const context = computeMeetingContext(events, now, this.config);
+    const context = computeMeetingContext(events, now, this.config, this.policy, this.overrides);
 
+    // The meeting the chosen mode would be about, had a rule selected it
+    const event = evaluateModeRules(context, this.rules).find((c) => c.mode === mode)?.event;
     const planId = generatePlanId();
-    const plan = this.createPlan(mode, planId, 'User selected this mode');
+    const plan = this.createPlan(mode, planId, 'User selected this mode', context, event?.id);
+
+    // Update stability state; leaving a pinned mode or picking a snoozed one ends the hold
+    const previousMode = this.stabilityState?.currentMode ?? 'unknown';
+    if (this.stabilityState) {
+      this.stabilityState = afterSwitch(releaseHolds(this.stabilityState, mode), mode, planId, now);
+    } else {
+      this.stabilityState = createStabilityState(mode, planId, this.config.minimumHoldMs, now);
+    }
 
     // Create capsule with user override noted
     const capsule: DecisionCapsule = {
@@ -197,24 +340,19 @@ export class RulesEngine {
       signalsUsed: ['User selection'],
       alternativesConsidered: [],
       wouldChangeIf: ['You switch to another mode', 'A meeting boundary changes'],
-      actions: [],
+      actions: getHoldActions(mode, context, this.stabilityState),
     };
-
-    // Update stability state
-    if (this.stabilityState) {
-      this.stabilityState = afterSwitch(this.stabilityState, mode, planId);
-    } else {
-      this.stabilityState = createStabilityState(mode, planId, this.config.minimumHoldMs);
-    }
+    this.lastCapsule = { capsule, mode, context };
 
     // Log the explicit switch
     await storage.logEvent('mode_switched', {
-      from: this.stabilityState?.currentMode ?? 'unknown',
+      from: previousMode,
       to: mode,
       trigger: 'explicit_user_action',
       reason: 'User selected mode',
       confidence: 'HIGH',
     });
+    await this.loadPreferences();
 
     return {
       plan,
@@ -224,13 +362,72 @@ export class RulesEngine {
     };
   }
 
+  /**
+   * Pin a mode: no auto-switches away from it until `until`.
+   */
+  async pinMode(mode: Mode, until: number): Promise<void> {
+    if (!this.stabilityState) return;
+    this.stabilityState = pinMode(this.stabilityState, mode, until);
+    await storage.logEvent('mode_pinned', { mode, until, from: this.getNow() });
+  }
+
+  /**
+   * Remove the pin before it expires.
+   */
+  async unpinMode(): Promise<void> {
+    const pin = this.stabilityState?.pin;
+    if (!this.stabilityState || !pin) return;
+    this.stabilityState = unpinMode(this.stabilityState);
+    await storage.logEvent('mode_unpinned', { mode: pin.mode, until: pin.until });
+  }
+
+  /**
+   * Snooze a mode (optionally for one meeting): no auto-switches into it until `until`.
+   */
+  async snoozeMode(mode: Mode, until: number, eventId?: string): Promise<void> {
+    if (!this.stabilityState) return;
+    this.stabilityState = snoozeMode(this.stabilityState, mode, until, eventId);
+    await storage.logEvent('mode_snoozed', { mode, until, eventId, from: this.getNow() });
+  }
+
+  /**
+   * Remove a snooze before it expires.
+   */
+  async unsnoozeMode(mode: Mode, eventId?: string): Promise<void> {
+    if (!this.stabilityState) return;
+    this.stabilityState = unsnoozeMode(this.stabilityState, mode, eventId);
+    await storage.logEvent('mode_unsnoozed', { mode, eventId });
+  }
+
+  /**
+   * Get the last capsule with its pin and snooze actions updated for the
+   * current stability state (after a pin or snooze changes).
+   */
+  refreshCapsule(): DecisionCapsule | null {
+    if (!this.lastCapsule) return null;
+    const { capsule, mode, context, event } = this.lastCapsule;
+    const holdActions = getHoldActions(mode, { ...context, now: this.getNow() }, this.stabilityState, event);
+    return {
+      ...capsule,
+      actions: [...capsule.actions.filter((a) => !HOLD_ACTION_TYPES.includes(a.type)), ...holdActions],
+    };
+  }
+
   /**
    * Create a UI plan for a mode.
    *
    * Note: In this phase, we return minimal plan structure.
-   * The actual component list comes from static plans (Phase C).
+   * The actual component list comes from static plans (Phase C); a
+   * transition plan names its two meetings so they can be shown.
    */
-  private createPlan(mode: Mode, planId: string, reason: string): UIPlan {
+  private createPlan(
+    mode: Mode,
+    planId: string,
+    reason: string,
+    context: MeetingContext,
+    eventId?: string
+  ): UIPlan {
+    const { transition } = context;
     return {
       id: planId,
       mode,
@@ -239,6 +436,10 @@ export class RulesEngine {
       confidence: 'HIGH',
       reason,
       timestamp: this.getNow(),
+      ...(eventId ? { eventId } : {}),
+      ...(mode === 'meeting_transition' && transition
+        ? { transition: { fromId: transition.from.id, toId: transition.to.id } }
+        : {}),
     };
   }
 
@@ -255,6 +456,71 @@ export class RulesEngine {
   getConfig(): TimingConfig {
     return this.config;
   }
+
+  /**
+   * Apply user timing settings (global config and per-meeting overrides).
+   * A changed minimum hold also applies to the current stability state.
+   */
+  setTimingSettings(settings: TimingSettings): void {
+    this.config = settings.global;
+    this.overrides = settings.overrides;
+    if (this.stabilityState) {
+      this.stabilityState = {
+        ...this.stabilityState,
+        minimumHoldMs: settings.global.minimumHoldMs,
+      };
+    }
+  }
+
+  /**
+   * Get per-meeting timing overrides.
+   */
+  getTimingOverrides(): TimingOverride[] {
+    return this.overrides;
+  }
+
+  /**
+   * Replace the mode selection rules (validated by the caller).
+   */
+  setModeRules(rules: ModeRuleSet): void {
+    this.rules = rules;
+  }
+
+  /**
+   * Get the active mode selection rules.
+   */
+  getModeRules(): ModeRuleSet {
+    return this.rules;
+  }
+
+  /**
+   * Rebuild learned mode preferences from the `mode_switched` event log.
+   */
+  async loadPreferences(): Promise<void> {
+    const events = await storage.getEvents({ types: ['mode_switched'] });
+    this.preferences = buildModePreferences(events);
+  }
+
+  /**
+   * Replace learned mode preferences (used by decision replay).
+   */
+  setPreferences(preferences: ModePreferenceModel): void {
+    this.preferences = preferences;
+  }
+
+  /**
+   * Get learned mode preferences (for debugging).
+   */
+  getPreferences(): ModePreferenceModel {
+    return this.preferences;
+  }
+
+  /**
+   * Get event policy.
+   */
+  getPolicy(): EventPolicy {
+    return this.policy;
+  }
 }
 
 /**
@@ -265,9 +531,9 @@ let engineInstance: RulesEngine | null = null;
 /**
  * Get or create the rules engine singleton.
  */
-export function getRulesEngine(config?: TimingConfig): RulesEngine {
+export function getRulesEngine(config?: TimingConfig, policy?: EventPolicy): RulesEngine {
   if (!engineInstance) {
-    engineInstance = new RulesEngine(config);
+    engineInstance = new RulesEngine(config, policy);
   }
   return engineInstance;
 }
@@ -10,11 +10,15 @@
 import { Mode } from '@/types/ui-plan';
 import {
   StabilityState,
+  ModePin,
+  ModeSnooze,
   SwitchTrigger,
   ALLOWED_TRIGGERS,
   BLOCKED_TRIGGERS,
   DEFAULT_TIMING_CONFIG,
+  MODE_LABELS,
 } from './types';
+import { formatClockTime } from './context-engine';
 
 /**
  * Result of a switch check.
@@ -22,7 +26,7 @@ import {
 export interface SwitchCheckResult {
   allowed: boolean;
   reason: string;
-  blockedBy?: 'input_focus' | 'minimum_hold' | 'blocked_trigger';
+  blockedBy?: 'input_focus' | 'minimum_hold' | 'blocked_trigger' | 'pinned' | 'snoozed';
 }
 
 /**
@@ -31,14 +35,17 @@ export interface SwitchCheckResult {
  * Rules:
  * 1. Trigger must be in allowed list
  * 2. User must not be focused on an input
- * 3. Minimum hold time must have elapsed since last switch
+ * 3. No unexpired pin holds a different mode
+ * 4. The proposed mode (for the proposed meeting) must not be snoozed
+ * 5. Minimum hold time must have elapsed since last switch
  */
 export function canAutoSwitch(
   proposedMode: Mode,
   currentState: StabilityState,
-  trigger: SwitchTrigger
+  trigger: SwitchTrigger,
+  now: number = Date.now(),
+  proposedEventId?: string
 ): SwitchCheckResult {
-  const now = Date.now();
 
   // Rule 1: Check trigger type
   if (BLOCKED_TRIGGERS.includes(trigger)) {
@@ -66,7 +73,28 @@ export function canAutoSwitch(
     };
   }
 
-  // Rule 3: Minimum hold time
+  if (proposedMode !== currentState.currentMode) {
+    // Rule 3: User pin
+    const pin = getActivePin(currentState, now);
+    if (pin && pin.mode !== proposedMode) {
+      return {
+        allowed: false,
+        reason: `Pinned to ${MODE_LABELS[pin.mode]} until ${formatClockTime(pin.until)}`,
+        blockedBy: 'pinned',
+      };
+    }
+
+    // Rule 4: User snooze
+    if (isSnoozed(currentState, proposedMode, proposedEventId, now)) {
+      return {
+        allowed: false,
+        reason: `${MODE_LABELS[proposedMode]} is snoozed`,
+        blockedBy: 'snoozed',
+      };
+    }
+  }
+
+  // Rule 5: Minimum hold time
   const timeSinceLastSwitch = now - currentState.lastSwitchTime;
   if (timeSinceLastSwitch < currentState.minimumHoldMs) {
     const remainingMs = currentState.minimumHoldMs - timeSinceLastSwitch;
@@ -98,12 +126,13 @@ export function canAutoSwitch(
 export function createStabilityState(
   currentMode: Mode,
   planId: string,
-  minimumHoldMs: number = DEFAULT_TIMING_CONFIG.minimumHoldMs
+  minimumHoldMs: number = DEFAULT_TIMING_CONFIG.minimumHoldMs,
+  now: number = Date.now()
 ): StabilityState {
   return {
     currentMode,
     currentPlanId: planId,
-    lastSwitchTime: Date.now(),
+    lastSwitchTime: now,
     isInputFocused: false,
     minimumHoldMs,
   };
@@ -115,13 +144,109 @@ export function createStabilityState(
 export function afterSwitch(
   state: StabilityState,
   newMode: Mode,
-  newPlanId: string
+  newPlanId: string,
+  now: number = Date.now()
 ): StabilityState {
   return {
     ...state,
     currentMode: newMode,
     currentPlanId: newPlanId,
-    lastSwitchTime: Date.now(),
+    lastSwitchTime: now,
+  };
+}
+
+/**
+ * Get the pin still in effect at `now`, if any.
+ */
+export function getActivePin(state: StabilityState | null, now: number): ModePin | null {
+  const pin = state?.pin;
+  return pin && pin.until > now ? pin : null;
+}
+
+/**
+ * Get the snoozes still in effect at `now`.
+ */
+export function getActiveSnoozes(state: StabilityState | null, now: number): ModeSnooze[] {
+  return (state?.snoozes ?? []).filter((snooze) => snooze.until > now);
+}
+
+/**
+ * Check if auto-switches into a mode (for a meeting) are snoozed.
+ * A snooze without a meeting applies to every meeting.
+ */
+export function isSnoozed(
+  state: StabilityState | null,
+  mode: Mode,
+  eventId: string | undefined,
+  now: number
+): boolean {
+  return getActiveSnoozes(state, now).some(
+    (snooze) => snooze.mode === mode && (!snooze.eventId || snooze.eventId === eventId)
+  );
+}
+
+/**
+ * Pin a mode: no auto-switches away from it until `until`.
+ */
+export function pinMode(state: StabilityState, mode: Mode, until: number): StabilityState {
+  return { ...state, pin: { mode, until } };
+}
+
+/**
+ * Remove the pin.
+ */
+export function unpinMode(state: StabilityState): StabilityState {
+  return { ...state, pin: null };
+}
+
+/**
+ * Snooze a mode (optionally for one meeting): no auto-switches into it until
+ * `until`. Replaces an existing snooze for the same mode and meeting.
+ */
+export function snoozeMode(
+  state: StabilityState,
+  mode: Mode,
+  until: number,
+  eventId?: string
+): StabilityState {
+  const others = (state.snoozes ?? []).filter(
+    (snooze) => !(snooze.mode === mode && snooze.eventId === eventId)
+  );
+  return { ...state, snoozes: [...others, { mode, eventId, until }] };
+}
+
+/**
+ * Remove the snooze for a mode and meeting.
+ */
+export function unsnoozeMode(state: StabilityState, mode: Mode, eventId?: string): StabilityState {
+  return {
+    ...state,
+    snoozes: (state.snoozes ?? []).filter(
+      (snooze) => !(snooze.mode === mode && snooze.eventId === eventId)
+    ),
+  };
+}
+
+/**
+ * Drop pins and snoozes that have expired.
+ */
+export function pruneExpiredHolds(state: StabilityState, now: number): StabilityState {
+  return {
+    ...state,
+    pin: getActivePin(state, now),
+    snoozes: getActiveSnoozes(state, now),
+  };
+}
+
+/**
+ * Update pins and snoozes after the user explicitly picks a mode: leaving a
+ * pinned mode ends the pin, and picking a snoozed mode ends its snoozes.
+ */
+export function releaseHolds(state: StabilityState, mode: Mode): StabilityState {
+  return {
+    ...state,
+    pin: state.pin && state.pin.mode === mode ? state.pin : null,
+    snoozes: (state.snoozes ?? []).filter((snooze) => snooze.mode !== mode),
   };
 }
 
@@ -167,6 +292,10 @@ export function getBlockedReasonMessage(result: SwitchCheckResult): string {
       return 'Briefly holding current view...';
     case 'blocked_trigger':
       return 'This type of change is not allowed';
+    case 'pinned':
+      return 'Staying in your pinned view...';
+    case 'snoozed':
+      return 'You snoozed this view...';
     default:
       return result.reason;
   }
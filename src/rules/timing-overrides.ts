@@ -0,0 +1,103 @@
+/**
+ * Timing Overrides
+ *
+ * Per-meeting timing: board meetings can get a day of prep while 1:1s only
+ * get a few minutes. Overrides match on recurring series or attendees and
+ * replace some fields of the global TimingConfig for that event.
+ */
+
+import {
+  CalendarEvent,
+  TimingConfig,
+  TimingOverride,
+  TimingOverrideMatch,
+} from './types';
+
+/**
+ * Compile a glob ("*" = any run of characters) to a case-insensitive regex.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .trim()
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+/**
+ * Check whether an override's match applies to an event.
+ */
+export function matchesTimingOverride(event: CalendarEvent, match: TimingOverrideMatch): boolean {
+  const { seriesId, attendeePattern, maxAttendees } = match;
+
+  if (seriesId === undefined && !attendeePattern && maxAttendees === undefined) {
+    return false;
+  }
+
+  if (seriesId !== undefined && event.seriesId !== seriesId) {
+    return false;
+  }
+
+  if (attendeePattern) {
+    const regex = globToRegExp(attendeePattern);
+    const people = [...event.attendees, ...(event.attendeeEmails ?? []), event.organizer ?? ''];
+    if (!people.some((person) => regex.test(person))) {
+      return false;
+    }
+  }
+
+  if (maxAttendees !== undefined) {
+    const count = event.attendeeCount ?? event.attendees.length;
+    if (count > maxAttendees) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Find the override for an event. Series overrides win over attendee
+ * overrides; otherwise the first match in list order wins.
+ */
+export function findTimingOverride(
+  event: CalendarEvent,
+  overrides: TimingOverride[]
+): TimingOverride | null {
+  const ranked = [
+    ...overrides.filter((o) => o.match.seriesId !== undefined),
+    ...overrides.filter((o) => o.match.seriesId === undefined),
+  ];
+  return ranked.find((o) => matchesTimingOverride(event, o.match)) ?? null;
+}
+
+/**
+ * Get the timing config that applies to an event.
+ */
+export function getEffectiveTimingConfig(
+  event: CalendarEvent,
+  config: TimingConfig,
+  overrides: TimingOverride[]
+): TimingConfig {
+  const override = findTimingOverride(event, overrides);
+  if (!override) return config;
+
+  const changes = Object.entries(override.config).filter(([, value]) => value !== undefined);
+  return { ...config, ...Object.fromEntries(changes) };
+}
+
+/**
+ * How far from now (minutes) a meeting can still affect mode selection: the
+ * widest prep or synthesis window plus grace, across the global config and
+ * every override.
+ */
+export function getTimingReachMinutes(config: TimingConfig, overrides: TimingOverride[] = []): number {
+  const reach = (timing: Partial<TimingConfig>) =>
+    Math.max(
+      timing.prepWindowMinutes ?? config.prepWindowMinutes,
+      timing.synthesisWindowMinutes ?? config.synthesisWindowMinutes
+    ) + (timing.meetingGraceMinutes ?? config.meetingGraceMinutes);
+
+  return Math.max(reach(config), ...overrides.map((o) => reach(o.config)));
+}
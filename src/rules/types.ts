@@ -11,12 +11,37 @@ import { Mode, Confidence, UIPlan, DecisionCapsule } from '@/types/ui-plan';
 // Calendar Types
 // ============================================
 
+/** Meeting-driven mode a calendar event can trigger */
+export type MeetingTrigger = 'prep' | 'capture' | 'synthesis';
+
+/** The user's own RSVP to an event */
+export type RsvpStatus = 'accepted' | 'declined' | 'tentative' | 'needsAction';
+
+/** Blocks providers mark as something other than a meeting */
+export type MeetingEventType = 'default' | 'focusTime' | 'outOfOffice' | 'workingLocation';
+
 export interface CalendarEvent {
   id: string;
   title: string;
   startTime: number;
   endTime: number;
   attendees: string[];
+  /** Triggers this event may not start (from per-calendar rules) */
+  suppressedTriggers?: MeetingTrigger[];
+  /** The user's RSVP; absent when the provider doesn't report it */
+  responseStatus?: RsvpStatus;
+  isAllDay?: boolean;
+  eventType?: MeetingEventType;
+  /** Organizer display name or email */
+  organizer?: string;
+  /** True when the user organized the event */
+  isOrganizer?: boolean;
+  /** People on the event other than the user, organizer included */
+  attendeeCount?: number;
+  /** Attendee emails, for matching timing overrides */
+  attendeeEmails?: string[];
+  /** Recurring series ID (shared iCalUID) */
+  seriesId?: string;
 }
 
 // ============================================
@@ -28,6 +53,7 @@ export interface TimingConfig {
   synthesisWindowMinutes: number; // 60 min default
   meetingGraceMinutes: number;    // grace for start/end
   minimumHoldMs: number;          // min time before auto-switch
+  transitionGapMinutes: number;   // max gap for a back-to-back transition
 }
 
 export const DEFAULT_TIMING_CONFIG: TimingConfig = {
@@ -35,8 +61,71 @@ export const DEFAULT_TIMING_CONFIG: TimingConfig = {
   synthesisWindowMinutes: 60,
   meetingGraceMinutes: 2,
   minimumHoldMs: 5000, // 5 seconds minimum hold
+  transitionGapMinutes: 10,
 };
 
+/** Timing fields that can differ per meeting */
+export type MeetingTimingConfig = Pick<
+  TimingConfig,
+  'prepWindowMinutes' | 'synthesisWindowMinutes' | 'meetingGraceMinutes'
+>;
+
+/**
+ * Which meetings a timing override applies to. Every field that is set must
+ * match; an override with no fields set matches nothing.
+ */
+export interface TimingOverrideMatch {
+  /** Recurring series (shared iCalUID) */
+  seriesId?: string;
+  /** Case-insensitive glob on attendee names/emails, e.g. "*@board.example.com" */
+  attendeePattern?: string;
+  /** At most this many people besides the user (1 = 1:1s) */
+  maxAttendees?: number;
+}
+
+export interface TimingOverride {
+  id: string;
+  /** Shown in settings and the Decision Capsule, e.g. "Board meetings" */
+  label: string;
+  match: TimingOverrideMatch;
+  /** Fields to change; the rest come from the global config */
+  config: Partial<MeetingTimingConfig>;
+}
+
+export interface TimingSettings {
+  global: TimingConfig;
+  overrides: TimingOverride[];
+}
+
+// ============================================
+// Event Policy
+// ============================================
+
+/**
+ * Which calendar events may drive mode selection.
+ * Fields left unset on an event (e.g. RSVP from an ICS feed) never match.
+ */
+export interface EventPolicy {
+  ignoreDeclined: boolean;
+  ignoreAllDay: boolean;
+  /** Skip focus time, out-of-office and working-location blocks */
+  ignoreNonMeetings: boolean;
+  /** Skip events with nobody on them but the user (holds, reminders) */
+  ignoreSoloEvents: boolean;
+  /** Cap confidence at MEDIUM when the user's RSVP is tentative */
+  tentativeAsMedium: boolean;
+}
+
+export const DEFAULT_EVENT_POLICY: EventPolicy = {
+  ignoreDeclined: true,
+  ignoreAllDay: true,
+  ignoreNonMeetings: true,
+  ignoreSoloEvents: true,
+  tentativeAsMedium: true,
+};
+
+export type IgnoredEventReason = 'declined' | 'all_day' | 'non_meeting' | 'solo';
+
 // ============================================
 // Meeting Context
 // ============================================
@@ -46,6 +135,14 @@ export interface MeetingContext {
   nextMeeting: CalendarEvent | null;     // within prep window
   lastMeeting: CalendarEvent | null;     // within synthesis window
   now: number;
+  /** Other live meetings that lost overlap resolution to currentMeeting */
+  overlappingMeetings?: CalendarEvent[];
+  /** Back-to-back meetings: `from` just ended, `to` is about to start */
+  transition?: { from: CalendarEvent; to: CalendarEvent } | null;
+  /** Timing overrides that set the windows of the meetings above */
+  timingOverrides?: Array<{ event: CalendarEvent; override: TimingOverride }>;
+  /** Events in a window that the event policy skipped */
+  ignoredEvents?: Array<{ event: CalendarEvent; reason: IgnoredEventReason }>;
 }
 
 // ============================================
@@ -57,6 +154,115 @@ export interface ModeSelectionResult {
   confidence: Confidence;
   reason: string;
   trigger: string;
+  /** Meeting the mode is about (the next meeting for a transition) */
+  event?: CalendarEvent;
+  /** Set when override history changed the mode or its confidence */
+  learned?: LearnedPreference;
+}
+
+// ============================================
+// Mode Rules (declarative selection)
+// ============================================
+
+/**
+ * Which meeting a rule is about. `next`/`last` resolve to the back-to-back
+ * pair when there is one; `transition` is the pair's next meeting.
+ */
+export type RuleMeetingRef = 'current' | 'next' | 'last' | 'transition';
+
+/**
+ * Conditions a rule needs; all that are set must hold. Meeting conditions
+ * apply to the rule's `meeting`. Times are local.
+ */
+export interface ModeRuleConditions {
+  /** Only when no meeting is live */
+  noLiveMeeting?: boolean;
+  /** The meeting starts within this many minutes */
+  startsWithinMinutes?: number;
+  /** The meeting ended within this many minutes */
+  endedWithinMinutes?: number;
+  /** "HH:MM" window, end exclusive; wraps past midnight when from > to */
+  timeOfDay?: { from: string; to: string };
+  /** 0 = Sunday */
+  daysOfWeek?: number[];
+  /** Case-insensitive glob on the title, e.g. "*standup*" */
+  titlePattern?: string;
+  /** Case-insensitive glob on attendee names/emails */
+  attendeePattern?: string;
+  /** People besides the user */
+  minAttendees?: number;
+  maxAttendees?: number;
+}
+
+export interface ModeRule {
+  id: string;
+  description?: string;
+  /** Meeting the rule needs; the rule never fires when it is absent */
+  meeting?: RuleMeetingRef;
+  when?: ModeRuleConditions;
+  mode: Mode;
+  /** Higher wins; ties go to the earlier rule */
+  priority: number;
+  trigger: string;
+  /**
+   * Placeholders: {title}, {previousTitle} (transition), {timeUntil},
+   * {timeSince}, {startsIn} ("starts in 5 min" / "is starting")
+   */
+  reason: string;
+  /** Fixed confidence instead of the priority-gap heuristic */
+  confidence?: Confidence;
+  /** Defaults to true */
+  enabled?: boolean;
+}
+
+export interface ModeRuleSet {
+  version: 1;
+  rules: ModeRule[];
+}
+
+/**
+ * A rule that fired for the current context.
+ */
+export interface ModeCandidate {
+  mode: Mode;
+  priority: number;
+  trigger: string;
+  reason: string;
+  event?: CalendarEvent;
+  confidence?: Confidence;
+  ruleId?: string;
+}
+
+// ============================================
+// Learned Preferences
+// ============================================
+
+/**
+ * How one meeting pattern's rule-selected mode played out: how many times the
+ * rules picked it, and which mode the user ended up in each time.
+ */
+export interface PatternModeStats {
+  selections: number;
+  outcomes: Partial<Record<Mode, number>>;
+}
+
+/**
+ * Override history keyed by `${pattern}|${ruleMode}` (see `mode-preferences.ts`).
+ */
+export type ModePreferenceModel = Record<string, PatternModeStats>;
+
+export interface LearnedPreference {
+  /** Meeting pattern, e.g. "series:<iCalUID>" or "title:weekly sync" */
+  pattern: string;
+  /** Mode the rules picked */
+  ruleMode: Mode;
+  /** 'default' replaced the mode; 'confidence' lowered confidence only */
+  kind: 'default' | 'confidence';
+  /** Mode the user switched to (for 'default', the mode now shown) */
+  target?: Mode;
+  /** Times the user left ruleMode (for 'default', times they picked target) */
+  overrides: number;
+  selections: number;
 }
 
 // ============================================
@@ -89,12 +295,32 @@ export const BLOCKED_TRIGGERS: SwitchTrigger[] = [
 // Stability State (§6.3)
 // ============================================
 
+/**
+ * User pin: auto-switches away from `mode` are blocked until `until`.
+ */
+export interface ModePin {
+  mode: Mode;
+  until: number;
+}
+
+/**
+ * User snooze: auto-switches into `mode` (for one meeting, if `eventId` is
+ * set) are blocked until `until`.
+ */
+export interface ModeSnooze {
+  mode: Mode;
+  eventId?: string;
+  until: number;
+}
+
 export interface StabilityState {
   currentMode: Mode;
   currentPlanId: string;
   lastSwitchTime: number;
   isInputFocused: boolean;
   minimumHoldMs: number;
+  pin?: ModePin | null;
+  snoozes?: ModeSnooze[];
 }
 
 // ============================================
@@ -119,6 +345,62 @@ export interface EvaluationResult {
   adjacencySuggestion?: AdjacencySuggestion;
 }
 
+// ============================================
+// Decision Records (audit + replay)
+// ============================================
+
+/**
+ * A MeetingContext with events replaced by their ids (the events themselves
+ * are in the record's `events`).
+ */
+export interface ContextSnapshot {
+  currentMeetingId: string | null;
+  nextMeetingId: string | null;
+  lastMeetingId: string | null;
+  overlappingMeetingIds?: string[];
+  transition?: { fromId: string; toId: string } | null;
+  timingOverrides?: Array<{ eventId: string; overrideId: string; label: string }>;
+  ignoredEvents?: Array<{ eventId: string; reason: IgnoredEventReason }>;
+}
+
+/**
+ * Everything one `evaluateContext` call saw and decided, persisted as a
+ * `decision_evaluated` event. An evaluation that repeats the last recorded
+ * decision within the same minute is not persisted.
+ */
+export interface DecisionRecord {
+  planId: string;
+  now: number;
+  trigger: SwitchTrigger;
+  /** Calendar events the engine was given, within its timing reach of `now` */
+  events: CalendarEvent[];
+  context: ContextSnapshot;
+  /** Stability state before the decision */
+  stability: StabilityState | null;
+  selection: Omit<ModeSelectionResult, 'event'> & { eventId?: string };
+  shouldSwitch: boolean;
+  blockedReason?: string;
+  capsule: DecisionCapsule;
+}
+
+/**
+ * A recorded decision rerun with the current rules and settings.
+ */
+export interface ReplayResult {
+  record: DecisionRecord;
+  replayed: {
+    mode: Mode;
+    confidence: Confidence;
+    reason: string;
+    shouldSwitch: boolean;
+    blockedReason?: string;
+  };
+  /** Mode, confidence or switch outcome differs */
+  changed: boolean;
+  /** Human-readable differences, e.g. "Mode: Meeting Prep → Live Capture" */
+  differences: string[];
+}
+
 // ============================================
 // Mode Priority (§4.2)
 // ============================================
@@ -126,9 +408,12 @@ export interface EvaluationResult {
 /**
  * Mode priority order: CAPTURE > PREP > SYNTHESIS > NEUTRAL
  * Higher number = higher priority
+ * Transition is not ranked: it replaces prep + synthesis when no meeting is live.
+ * The default rule set (`default-mode-rules.json`) uses these priorities.
  */
 export const MODE_PRIORITY: Record<Mode, number> = {
   meeting_capture: 4,
+  meeting_transition: 3,
   meeting_prep: 3,
   meeting_synthesis_min: 2,
   neutral_intent: 1,
@@ -144,5 +429,6 @@ export const MODE_LABELS: Record<Mode, string> = {
   meeting_prep: 'Meeting Prep',
   meeting_capture: 'Live Capture',
   meeting_synthesis_min: 'Synthesis',
+  meeting_transition: 'Transition',
   agentic_work_surface: 'Agentic Workspace',
 };
@@ -7,7 +7,7 @@
 'use client';
 
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { Mode, UIPlan, DecisionCapsule } from '@/types/ui-plan';
+import { Mode, UIPlan, DecisionCapsule, CapsuleAction } from '@/types/ui-plan';
 import {
   CalendarEvent,
   SwitchTrigger,
@@ -15,6 +15,7 @@ import {
   EvaluationResult,
 } from './types';
 import { getRulesEngine, RulesEngine } from './rules-engine';
+import { getModeRules, getTimingSettings } from '@/storage';
 
 interface UseRulesEngineOptions {
   initialMode?: Mode;
@@ -30,6 +31,7 @@ interface UseRulesEngineResult {
   isInputFocused: boolean;
   evaluate: (trigger: SwitchTrigger) => Promise<void>;
   forceMode: (mode: Mode) => Promise<void>;
+  applyHoldAction: (action: CapsuleAction) => Promise<void>;
   setInputFocused: (focused: boolean) => void;
   setTimeOverride: (time: number | null) => void;
 }
@@ -55,6 +57,19 @@ export function useRulesEngine(
     engine.initialize(initialMode, `initial-${Date.now()}`);
   }, [initialMode]);
 
+  // Apply saved timing settings, mode rules and learned preferences on mount
+  useEffect(() => {
+    getTimingSettings()
+      .then((settings) => engineRef.current.setTimingSettings(settings))
+      .catch((error) => console.warn('[useRulesEngine] Failed to load timing settings:', error));
+    getModeRules()
+      .then((rules) => engineRef.current.setModeRules(rules))
+      .catch((error) => console.warn('[useRulesEngine] Failed to load mode rules:', error));
+    engineRef.current
+      .loadPreferences()
+      .catch((error) => console.warn('[useRulesEngine] Failed to load mode preferences:', error));
+  }, []);
+
   // Evaluate context
   const evaluate = useCallback(
     async (trigger: SwitchTrigger) => {
@@ -99,6 +114,28 @@ export function useRulesEngine(
     [events, onModeChange]
   );
 
+  // Pin/snooze capsule actions
+  const applyHoldAction = useCallback(async (action: CapsuleAction) => {
+    const engine = engineRef.current;
+    switch (action.type) {
+      case 'pin_mode':
+        if (action.target && action.until) await engine.pinMode(action.target, action.until);
+        break;
+      case 'unpin_mode':
+        await engine.unpinMode();
+        break;
+      case 'snooze_mode':
+        if (action.target && action.until) await engine.snoozeMode(action.target, action.until, action.eventId);
+        break;
+      case 'unsnooze_mode':
+        if (action.target) await engine.unsnoozeMode(action.target, action.eventId);
+        break;
+      default:
+        return;
+    }
+    setCapsule(engine.refreshCapsule());
+  }, []);
+
   // Set input focus state
   const setInputFocused = useCallback((focused: boolean) => {
     const engine = engineRef.current;
@@ -120,6 +157,7 @@ export function useRulesEngine(
     isInputFocused,
     evaluate,
     forceMode,
+    applyHoldAction,
     setInputFocused,
     setTimeOverride,
   };
@@ -0,0 +1,184 @@
+/**
+ * Action Item API Tests
+ *
+ * Tests owner/due date/status updates and the cross-meeting open actions query.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  updateActionMarker,
+  getOpenActions,
+  isActionOverdue,
+  toLocalDateString,
+  ActionValidationError,
+} from '../action-api';
+import type { MeetingState, StoredMarker } from '../types';
+
+vi.mock('../db', () => ({
+  meetingsStore: {
+    get: vi.fn(),
+    getAll: vi.fn(),
+    put: vi.fn(),
+  },
+  workObjectsStore: {
+    get: vi.fn(),
+  },
+}));
+
+vi.mock('../storage-api', () => ({
+  logEvent: vi.fn(),
+}));
+
+vi.mock('../work-object-api', () => ({
+  updateWorkObject: vi.fn(),
+}));
+
+import { meetingsStore, workObjectsStore } from '../db';
+import { updateWorkObject } from '../work-object-api';
+
+function marker(id: string, overrides: Partial<StoredMarker> = {}): StoredMarker {
+  return { id, type: 'action', label: `Action ${id}`, timestamp: 0, meetingId: 'mtg-1', ...overrides };
+}
+
+function meeting(id: string, markers: StoredMarker[], overrides: Partial<MeetingState> = {}): MeetingState {
+  return {
+    id,
+    title: `Meeting ${id}`,
+    startTime: 0,
+    endTime: 0,
+    attendees: ['Alice Chen', 'Bob Smith'],
+    my3Goals: [],
+    markers,
+    synthesisCompleted: false,
+    createdAt: 0,
+    updatedAt: 0,
+    ...overrides,
+  };
+}
+
+async function expectCode(promise: Promise<unknown>, code: ActionValidationError['code']) {
+  try {
+    await promise;
+    expect.fail('Should have thrown');
+  } catch (e) {
+    expect(e).toBeInstanceOf(ActionValidationError);
+    expect((e as ActionValidationError).code).toBe(code);
+  }
+}
+
+describe('updateActionMarker', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('assigns an attendee and due date', async () => {
+    const stored = meeting('mtg-1', [marker('m1')]);
+    vi.mocked(meetingsStore.get).mockResolvedValue(stored);
+    vi.mocked(workObjectsStore.get).mockResolvedValue(null);
+
+    const details = await updateActionMarker('mtg-1', 'm1', { owner: 'Alice Chen', dueDate: '2026-03-01' });
+
+    expect(details).toEqual({ owner: 'Alice Chen', dueDate: '2026-03-01', status: 'open' });
+    expect(stored.markers[0].action).toEqual(details);
+    expect(meetingsStore.put).toHaveBeenCalledWith(stored);
+    expect(updateWorkObject).not.toHaveBeenCalled();
+  });
+
+  it('records status changes and clears fields with null', async () => {
+    const stored = meeting('mtg-1', [
+      marker('m1', { action: { owner: 'Bob Smith', dueDate: '2026-03-01', status: 'open' } }),
+    ]);
+    vi.mocked(meetingsStore.get).mockResolvedValue(stored);
+    vi.mocked(workObjectsStore.get).mockResolvedValue(null);
+
+    const details = await updateActionMarker('mtg-1', 'm1', { status: 'done', dueDate: null });
+
+    expect(details.status).toBe('done');
+    expect(details.statusChangedAt).toEqual(expect.any(Number));
+    expect(details.dueDate).toBeUndefined();
+    expect(details.owner).toBe('Bob Smith');
+  });
+
+  it('mirrors details into the marker WorkObject when present', async () => {
+    vi.mocked(meetingsStore.get).mockResolvedValue(meeting('mtg-1', [marker('m1')]));
+    vi.mocked(workObjectsStore.get).mockResolvedValue({ id: 'wo:marker:mtg:mtg-1:m1' } as never);
+
+    await updateActionMarker('mtg-1', 'm1', { status: 'dropped' });
+
+    expect(updateWorkObject).toHaveBeenCalledWith('wo:marker:mtg:mtg-1:m1', {
+      payload: { action: expect.objectContaining({ status: 'dropped' }) },
+    });
+  });
+
+  it('rejects owners who are not attendees', async () => {
+    vi.mocked(meetingsStore.get).mockResolvedValue(meeting('mtg-1', [marker('m1')]));
+
+    await expectCode(updateActionMarker('mtg-1', 'm1', { owner: 'Mallory' }), 'UNKNOWN_OWNER');
+    expect(meetingsStore.put).not.toHaveBeenCalled();
+  });
+
+  it('rejects non-action markers and malformed due dates', async () => {
+    vi.mocked(meetingsStore.get).mockResolvedValue(
+      meeting('mtg-1', [marker('m1', { type: 'decision' }), marker('m2')])
+    );
+
+    await expectCode(updateActionMarker('mtg-1', 'm1', { status: 'done' }), 'NOT_AN_ACTION');
+    await expectCode(updateActionMarker('mtg-1', 'm2', { dueDate: 'next week' }), 'INVALID_DUE_DATE');
+    await expectCode(updateActionMarker('mtg-1', 'm9', { status: 'done' }), 'MARKER_NOT_FOUND');
+  });
+});
+
+describe('getOpenActions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('lists open actions across meetings ordered by due date', async () => {
+    vi.mocked(meetingsStore.getAll).mockResolvedValue([
+      meeting('mtg-1', [
+        marker('m1', { action: { owner: 'Alice Chen', status: 'open' } }),
+        marker('m2', { action: { owner: 'Alice Chen', dueDate: '2026-02-10', status: 'done' } }),
+        marker('m3', { type: 'question' }),
+      ]),
+      meeting('mtg-2', [
+        marker('m1', { action: { owner: 'Alice Chen', dueDate: '2026-02-01', status: 'open' } }),
+        marker('m2', { action: { owner: 'Bob Smith', dueDate: '2026-01-15', status: 'open' } }),
+        marker('m3', { deletedAt: 1 }),
+      ]),
+    ]);
+
+    const all = await getOpenActions();
+    const alice = await getOpenActions({ owner: 'Alice Chen' });
+
+    expect(all.map((a) => a.workObjectId)).toEqual([
+      'wo:marker:mtg:mtg-2:m2',
+      'wo:marker:mtg:mtg-2:m1',
+      'wo:marker:mtg:mtg-1:m1',
+    ]);
+    expect(alice.map((a) => a.workObjectId)).toEqual(['wo:marker:mtg:mtg-2:m1', 'wo:marker:mtg:mtg-1:m1']);
+  });
+});
+
+describe('isActionOverdue', () => {
+  it('flags open actions past their due date', () => {
+    expect(isActionOverdue({ status: 'open', dueDate: '2026-01-01' }, '2026-01-02')).toBe(true);
+    expect(isActionOverdue({ status: 'open', dueDate: '2026-01-02' }, '2026-01-02')).toBe(false);
+    expect(isActionOverdue({ status: 'done', dueDate: '2026-01-01' }, '2026-01-02')).toBe(false);
+    expect(isActionOverdue({ status: 'open' }, '2026-01-02')).toBe(false);
+  });
+});
+
+describe('toLocalDateString', () => {
+  it('uses the local calendar date around midnight', () => {
+    const tz = process.env.TZ;
+    process.env.TZ = 'America/Los_Angeles';
+    try {
+      // 23:30 on Jan 14 in Los Angeles is already Jan 15 in UTC
+      expect(toLocalDateString(new Date('2026-01-15T07:30:00.000Z'))).toBe('2026-01-14');
+      expect(toLocalDateString(new Date('2026-01-15T08:30:00.000Z'))).toBe('2026-01-15');
+    } finally {
+      if (tz === undefined) delete process.env.TZ;
+      else process.env.TZ = tz;
+    }
+  });
+});
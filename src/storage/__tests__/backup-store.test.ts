@@ -0,0 +1,99 @@
+/**
+ * Database Backup Store Tests
+ *
+ * Runs imports against the real stores: an import that fails partway
+ * leaves the database as it was.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { resetTestDB } from '@/test/fake-db';
+import { exportDatabase, importDatabase, type DatabaseBackup } from '../backup';
+import { getAllRecords } from '../db';
+import { saveMeeting } from '../storage-api';
+import { getOrCreateMeetingUid } from '../meeting-uid-api';
+import { STORE_NAMES, type MeetingState } from '../types';
+import type { MeetingUidMapping } from '../work-object-types';
+
+const START = Date.UTC(2026, 0, 5, 9);
+
+function meeting(id: string): MeetingState {
+  return {
+    id,
+    title: 'Standup',
+    startTime: START,
+    endTime: START + 15 * 60 * 1000,
+    attendees: [],
+    my3Goals: [],
+    markers: [],
+    synthesisCompleted: false,
+    createdAt: 0,
+    updatedAt: 0,
+  };
+}
+
+function mapping(meetingUid: string): MeetingUidMapping {
+  return {
+    meetingUid,
+    provider: 'gcal',
+    iCalUid: 'standup@example.com',
+    eventId: `evt-${meetingUid}`,
+    calendarId: 'primary',
+    startTimeIso: new Date(START).toISOString(),
+    createdAtIso: '2026-01-01T00:00:00.000Z',
+  };
+}
+
+async function saveLocalMeeting(): Promise<void> {
+  await saveMeeting(meeting('local'));
+  await getOrCreateMeetingUid(
+    { id: 'evt-local', iCalUid: 'standup@example.com', title: 'Standup', startTime: START, endTime: START, attendees: [], isAllDay: false },
+    'local'
+  );
+}
+
+async function backupWith(stores: Partial<DatabaseBackup['stores']>): Promise<DatabaseBackup> {
+  const backup = await exportDatabase();
+  const empty = Object.fromEntries(Object.values(STORE_NAMES).map((n) => [n, []]));
+  return { ...backup, stores: { ...empty, ...stores } as DatabaseBackup['stores'] };
+}
+
+beforeEach(() => {
+  resetTestDB();
+});
+
+describe('importDatabase against the real stores', () => {
+  it('writes nothing when a store fails partway through', async () => {
+    await saveLocalMeeting();
+    // Two UIDs for one calendar instance violate the unique iCalUid_startTime index
+    const backup = await backupWith({
+      meetings: [meeting('imported')],
+      meetingUidMappings: [mapping('imported'), mapping('imported-copy')],
+    });
+
+    await expect(importDatabase(backup, 'replace')).rejects.toMatchObject({ name: 'ConstraintError' });
+
+    expect((await getAllRecords<MeetingState>(STORE_NAMES.meetings)).map((m) => m.id)).toEqual(['local']);
+    expect((await getAllRecords<MeetingUidMapping>(STORE_NAMES.meetingUidMappings)).map((m) => m.meetingUid)).toEqual([
+      'local',
+    ]);
+  });
+
+  it('merges a backup from another machine that mapped the same calendar instance', async () => {
+    await saveLocalMeeting();
+    const backup = await backupWith({
+      meetings: [meeting('imported')],
+      meetingUidMappings: [mapping('imported')],
+    });
+
+    const result = await importDatabase(backup, 'merge');
+
+    expect(result.skipped.meetingUidMappings).toBe(1);
+    expect((await getAllRecords<MeetingState>(STORE_NAMES.meetings)).map((m) => m.id).sort()).toEqual([
+      'imported',
+      'local',
+    ]);
+    expect((await getAllRecords<MeetingUidMapping>(STORE_NAMES.meetingUidMappings)).map((m) => m.meetingUid)).toEqual([
+      'local',
+    ]);
+  });
+});
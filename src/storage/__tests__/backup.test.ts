@@ -0,0 +1,248 @@
+/**
+ * Database Backup Tests
+ *
+ * Tests the versioned export/import bundle across all stores.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  exportDatabase,
+  importDatabase,
+  parseBackup,
+  validateBackup,
+  generateBackupFilename,
+  BackupValidationError,
+  BACKUP_FORMAT,
+  BACKUP_FORMAT_VERSION,
+  type DatabaseBackup,
+} from '../backup';
+import { DB_VERSION, STORE_NAMES } from '../types';
+
+// Mock the database layer with in-memory stores
+const memoryStores: Record<string, unknown[]> = {};
+
+vi.mock('../db', () => ({
+  getAllRecords: vi.fn(async (name: string) => [...(memoryStores[name] ?? [])]),
+  writeStores: vi.fn(async () => {}),
+}));
+
+vi.mock('../storage-api', () => ({
+  logEvent: vi.fn(),
+}));
+
+import { writeStores, type StoreWrite } from '../db';
+import { logEvent } from '../storage-api';
+
+function emptyStores(): Record<string, unknown[]> {
+  return Object.fromEntries(Object.values(STORE_NAMES).map((n) => [n, []]));
+}
+
+function makeBackup(overrides: Partial<DatabaseBackup> = {}): DatabaseBackup {
+  return {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    schemaVersion: DB_VERSION,
+    exportedAt: '2026-01-01T00:00:00.000Z',
+    stores: emptyStores() as DatabaseBackup['stores'],
+    summary: { recordCounts: {} as DatabaseBackup['summary']['recordCounts'], totalRecords: 0 },
+    ...overrides,
+  };
+}
+
+function storeWrites(): StoreWrite[] {
+  return vi.mocked(writeStores).mock.calls[0]?.[0] ?? [];
+}
+
+function writtenTo(storeName: string): unknown[] {
+  return storeWrites().find((w) => w.storeName === storeName)?.records ?? [];
+}
+
+describe('exportDatabase', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    Object.assign(memoryStores, emptyStores());
+  });
+
+  it('includes every store with the current schema version', async () => {
+    memoryStores.meetings = [{ id: 'mtg-1' }];
+    memoryStores.workObjectFlags = [{ workObjectId: 'wo:1', flagType: 'risk' }];
+
+    const backup = await exportDatabase();
+
+    expect(backup.format).toBe(BACKUP_FORMAT);
+    expect(backup.schemaVersion).toBe(DB_VERSION);
+    expect(Object.keys(backup.stores).sort()).toEqual(Object.values(STORE_NAMES).sort());
+    expect(backup.stores.meetings).toEqual([{ id: 'mtg-1' }]);
+    expect(backup.summary.totalRecords).toBe(2);
+    expect(backup.summary.recordCounts.workObjectFlags).toBe(1);
+  });
+
+  it('logs a database_exported event', async () => {
+    await exportDatabase();
+    expect(logEvent).toHaveBeenCalledWith(
+      'database_exported',
+      expect.objectContaining({ schemaVersion: DB_VERSION })
+    );
+  });
+});
+
+describe('validateBackup', () => {
+  it('accepts a well-formed backup', () => {
+    expect(() => validateBackup(makeBackup())).not.toThrow();
+  });
+
+  it('rejects unknown formats', () => {
+    try {
+      validateBackup({ ...makeBackup(), format: 'something-else' });
+      expect.fail('Should have thrown');
+    } catch (e) {
+      expect(e).toBeInstanceOf(BackupValidationError);
+      expect((e as BackupValidationError).code).toBe('INVALID_FORMAT');
+    }
+  });
+
+  it('rejects backups from a newer schema version', () => {
+    try {
+      validateBackup(makeBackup({ schemaVersion: DB_VERSION + 1 }));
+      expect.fail('Should have thrown');
+    } catch (e) {
+      expect((e as BackupValidationError).code).toBe('SCHEMA_VERSION_MISMATCH');
+    }
+  });
+
+  it('treats stores missing from older schemas as empty', () => {
+    const stores = emptyStores();
+    delete stores.workLinks;
+
+    const backup = validateBackup(
+      makeBackup({ schemaVersion: 1, stores: stores as DatabaseBackup['stores'] })
+    );
+
+    expect(backup.stores.workLinks).toEqual([]);
+  });
+
+  it('rejects records missing their key path', () => {
+    const stores = emptyStores();
+    stores.workObjectFlags = [{ workObjectId: 'wo:1' }];
+
+    try {
+      validateBackup(makeBackup({ stores: stores as DatabaseBackup['stores'] }));
+      expect.fail('Should have thrown');
+    } catch (e) {
+      expect((e as BackupValidationError).code).toBe('INVALID_STORE');
+    }
+  });
+});
+
+describe('parseBackup', () => {
+  it('rejects invalid JSON', () => {
+    expect(() => parseBackup('{not json')).toThrow(BackupValidationError);
+  });
+
+  it('round-trips a serialized backup', () => {
+    const backup = makeBackup();
+    expect(parseBackup(JSON.stringify(backup)).schemaVersion).toBe(DB_VERSION);
+  });
+});
+
+describe('importDatabase', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    Object.assign(memoryStores, emptyStores());
+  });
+
+  it('clears every store before writing in replace mode', async () => {
+    const stores = emptyStores();
+    stores.meetings = [{ id: 'mtg-1', updatedAt: 1 }];
+
+    const result = await importDatabase(
+      makeBackup({ stores: stores as DatabaseBackup['stores'] }),
+      'replace'
+    );
+
+    expect(writeStores).toHaveBeenCalledTimes(1);
+    expect(storeWrites().filter((w) => w.clear)).toHaveLength(Object.values(STORE_NAMES).length);
+    expect(writtenTo('meetings')).toEqual([{ id: 'mtg-1', updatedAt: 1 }]);
+    expect(result.written.meetings).toBe(1);
+  });
+
+  it('keeps newer local records in merge mode', async () => {
+    memoryStores.meetings = [
+      { id: 'mtg-1', updatedAt: 200 },
+      { id: 'mtg-2', updatedAt: 100 },
+    ];
+    const stores = emptyStores();
+    stores.meetings = [
+      { id: 'mtg-1', updatedAt: 150 }, // older than local -> skipped
+      { id: 'mtg-2', updatedAt: 300 }, // newer than local -> written
+      { id: 'mtg-3', updatedAt: 50 }, // new -> written
+    ];
+
+    const result = await importDatabase(
+      makeBackup({ stores: stores as DatabaseBackup['stores'] }),
+      'merge'
+    );
+
+    expect(storeWrites().some((w) => w.clear)).toBe(false);
+    expect(writtenTo('meetings')).toEqual([
+      { id: 'mtg-2', updatedAt: 300 },
+      { id: 'mtg-3', updatedAt: 50 },
+    ]);
+    expect(result.skipped.meetings).toBe(1);
+  });
+
+  it('matches compound keys and ISO timestamps in merge mode', async () => {
+    memoryStores.workObjectFlags = [
+      { workObjectId: 'wo:1', flagType: 'risk', setAtIso: '2026-02-01T00:00:00.000Z' },
+    ];
+    const stores = emptyStores();
+    stores.workObjectFlags = [
+      { workObjectId: 'wo:1', flagType: 'risk', setAtIso: '2026-01-01T00:00:00.000Z' },
+      { workObjectId: 'wo:1', flagType: 'important', setAtIso: '2026-01-01T00:00:00.000Z' },
+    ];
+
+    const result = await importDatabase(makeBackup({ stores: stores as DatabaseBackup['stores'] }));
+
+    expect(result.mode).toBe('merge');
+    expect(result.written.workObjectFlags).toBe(1);
+    expect(result.skipped.workObjectFlags).toBe(1);
+  });
+
+  it('skips mappings for calendar instances already mapped locally in merge mode', async () => {
+    const mapping = (meetingUid: string, startTimeIso: string) => ({
+      meetingUid,
+      provider: 'gcal',
+      iCalUid: 'standup@example.com',
+      eventId: 'evt-1',
+      calendarId: 'primary',
+      startTimeIso,
+      createdAtIso: '2026-01-01T00:00:00.000Z',
+    });
+    memoryStores.meetingUidMappings = [mapping('local-uid', '2026-01-05T09:00:00.000Z')];
+    const stores = emptyStores();
+    stores.meetingUidMappings = [
+      mapping('other-machine-uid', '2026-01-05T09:00:00.000Z'),
+      mapping('other-machine-uid-2', '2026-01-12T09:00:00.000Z'),
+    ];
+
+    const result = await importDatabase(makeBackup({ stores: stores as DatabaseBackup['stores'] }));
+
+    expect(writtenTo('meetingUidMappings')).toEqual([stores.meetingUidMappings[1]]);
+    expect(result.skipped.meetingUidMappings).toBe(1);
+  });
+
+  it('logs a database_imported event', async () => {
+    await importDatabase(makeBackup(), 'merge');
+    expect(logEvent).toHaveBeenCalledWith(
+      'database_imported',
+      expect.objectContaining({ mode: 'merge' })
+    );
+  });
+});
+
+describe('generateBackupFilename', () => {
+  it('includes the current date', () => {
+    const date = new Date().toISOString().split('T')[0];
+    expect(generateBackupFilename()).toBe(`agentic-interface-backup-${date}.json`);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Block Document API Tests
+ *
+ * Tests for block persistence, ordering, and scope isolation.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  getDocBlocks,
+  createDocBlock,
+  updateDocBlock,
+  deleteDocBlock,
+  orderBetween,
+} from '../block-doc-api';
+import { buildScope, buildSessionScope } from '../work-object-id';
+import type { WorkObject } from '../work-object-types';
+
+vi.mock('../db', () => ({
+  workObjectsStore: {
+    get: vi.fn(),
+    put: vi.fn(),
+    getAll: vi.fn(),
+    getByType: vi.fn(),
+  },
+}));
+
+vi.mock('../storage-api', () => ({
+  logEvent: vi.fn(),
+}));
+
+vi.mock('uuid', () => ({
+  v4: vi.fn(() => 'test-uuid-1234'),
+}));
+
+import { workObjectsStore } from '../db';
+import { logEvent } from '../storage-api';
+
+function blockObject(id: string, order: number, overrides: Partial<WorkObject> = {}): WorkObject {
+  return {
+    id,
+    type: 'note',
+    source: 'user',
+    payload: { kind: 'block', blockType: 'paragraph', text: `Block ${order}`, checked: false, order },
+    createdAtIso: '2026-01-01T00:00:00.000Z',
+    updatedAtIso: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('orderBetween', () => {
+  it('starts an empty document at 1', () => {
+    expect(orderBetween()).toBe(1);
+  });
+
+  it('places blocks before the first and after the last', () => {
+    expect(orderBetween(undefined, 3)).toBe(2);
+    expect(orderBetween(3, undefined)).toBe(4);
+  });
+
+  it('places blocks between neighbours without renumbering', () => {
+    expect(orderBetween(1, 2)).toBe(1.5);
+  });
+});
+
+describe('getDocBlocks', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const scope = buildScope('meeting-1');
+
+  it('returns active blocks in the scope sorted by order', async () => {
+    vi.mocked(workObjectsStore.getByType).mockResolvedValue([
+      blockObject('wo:note:mtg:meeting-1:b', 2),
+      blockObject('wo:note:mtg:meeting-1:a', 1),
+      blockObject('wo:note:mtg:meeting-1:deleted', 0, { deletedAtIso: '2026-01-02T00:00:00.000Z' }),
+      blockObject('wo:note:mtg:meeting-2:other', 0),
+      { ...blockObject('wo:note:mtg:meeting-1:plain', 0), payload: { text: 'not a block' } },
+    ]);
+
+    const blocks = await getDocBlocks(scope);
+
+    expect(blocks.map((b) => b.id)).toEqual(['wo:note:mtg:meeting-1:a', 'wo:note:mtg:meeting-1:b']);
+  });
+
+  it('keeps session documents separate from meeting documents', async () => {
+    vi.mocked(workObjectsStore.getByType).mockResolvedValue([
+      blockObject('wo:note:session:s1:a', 1),
+      blockObject('wo:note:mtg:s1:b', 1),
+    ]);
+
+    const blocks = await getDocBlocks(buildSessionScope('s1'));
+
+    expect(blocks.map((b) => b.id)).toEqual(['wo:note:session:s1:a']);
+  });
+});
+
+describe('createDocBlock', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('stores a note WorkObject in the given scope', async () => {
+    const block = await createDocBlock(buildSessionScope('s1'), {
+      blockType: 'heading',
+      text: 'Plan',
+      order: 1,
+    });
+
+    expect(block).toEqual({
+      id: 'wo:note:session:s1:test-uuid-1234',
+      blockType: 'heading',
+      text: 'Plan',
+      checked: false,
+      order: 1,
+    });
+    expect(workObjectsStore.put).toHaveBeenCalledWith(
+      expect.objectContaining({ id: block.id, type: 'note', title: 'Plan' })
+    );
+    expect(logEvent).toHaveBeenCalledWith('work_object_created', expect.objectContaining({ workObjectId: block.id }));
+  });
+});
+
+describe('updateDocBlock', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('merges changes into the payload and refreshes the title', async () => {
+    vi.mocked(workObjectsStore.get).mockResolvedValue(blockObject('wo:note:mtg:m1:a', 1));
+
+    const block = await updateDocBlock('wo:note:mtg:m1:a', { blockType: 'checklist', text: 'Send notes' });
+
+    expect(block).toMatchObject({ blockType: 'checklist', text: 'Send notes', order: 1 });
+    expect(workObjectsStore.put).toHaveBeenCalledWith(expect.objectContaining({ title: 'Send notes' }));
+  });
+
+  it('returns null for deleted blocks', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.mocked(workObjectsStore.get).mockResolvedValue(
+      blockObject('wo:note:mtg:m1:a', 1, { deletedAtIso: '2026-01-02T00:00:00.000Z' })
+    );
+
+    expect(await updateDocBlock('wo:note:mtg:m1:a', { text: 'x' })).toBeNull();
+    expect(workObjectsStore.put).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+describe('deleteDocBlock', () => {
+  it('tombstones the block', async () => {
+    vi.clearAllMocks();
+    vi.mocked(workObjectsStore.get).mockResolvedValue(blockObject('wo:note:mtg:m1:a', 1));
+
+    await deleteDocBlock('wo:note:mtg:m1:a');
+
+    expect(workObjectsStore.put).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'wo:note:mtg:m1:a', deletedAtIso: expect.any(String) })
+    );
+    expect(logEvent).toHaveBeenCalledWith('work_object_deleted', expect.anything());
+  });
+});
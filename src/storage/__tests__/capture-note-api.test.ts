@@ -0,0 +1,171 @@
+/**
+ * Capture Note API Tests
+ *
+ * Tests note creation with meeting-relative timestamps, scope isolation and
+ * promotion into markers.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  getCaptureNotes,
+  createCaptureNote,
+  promoteCaptureNote,
+  formatNoteOffset,
+  toMarkerLabel,
+  CaptureNoteError,
+} from '../capture-note-api';
+import type { WorkObject } from '../work-object-types';
+import type { MeetingState } from '../types';
+
+vi.mock('../db', () => ({
+  workObjectsStore: {
+    get: vi.fn(),
+    put: vi.fn(),
+    getByType: vi.fn(),
+  },
+  meetingsStore: {
+    get: vi.fn(),
+  },
+}));
+
+vi.mock('../storage-api', () => ({
+  logEvent: vi.fn(),
+  addMarker: vi.fn(),
+}));
+
+vi.mock('../work-object-api', () => ({
+  softDeleteWorkObject: vi.fn(),
+}));
+
+vi.mock('uuid', () => ({
+  v4: vi.fn(() => 'test-uuid-1234'),
+}));
+
+import { workObjectsStore, meetingsStore } from '../db';
+import { addMarker } from '../storage-api';
+
+const START = new Date('2026-01-15T10:00:00.000Z').getTime();
+
+function noteObject(id: string, capturedAt: number, overrides: Partial<WorkObject> = {}): WorkObject {
+  return {
+    id,
+    type: 'note',
+    source: 'user',
+    payload: { kind: 'capture_note', text: `Note ${id}`, capturedAt, offsetMs: capturedAt - START },
+    createdAtIso: '2026-01-15T10:00:00.000Z',
+    updatedAtIso: '2026-01-15T10:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('formatNoteOffset', () => {
+  it('formats offsets from the meeting start', () => {
+    expect(formatNoteOffset(0)).toBe('+0:00');
+    expect(formatNoteOffset(12 * 60000 + 5000)).toBe('+12:05');
+    expect(formatNoteOffset(-2 * 60000)).toBe('-2:00');
+    expect(formatNoteOffset(75 * 60000)).toBe('+1:15:00');
+  });
+});
+
+describe('toMarkerLabel', () => {
+  it('keeps short text and shortens long text to the marker label limit', () => {
+    expect(toMarkerLabel('  Ship   on Friday ')).toBe('Ship on Friday');
+    const label = toMarkerLabel('x'.repeat(80));
+    expect(label).toHaveLength(50);
+    expect(label.endsWith('…')).toBe(true);
+  });
+});
+
+describe('createCaptureNote', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(START + 12 * 60000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('stores a meeting-scoped note timestamped relative to the meeting start', async () => {
+    vi.mocked(meetingsStore.get).mockResolvedValue({ id: 'mtg-1', startTime: START } as MeetingState);
+
+    const note = await createCaptureNote('mtg-1', '  Budget approved ');
+
+    expect(note).toEqual({
+      id: 'wo:note:mtg:mtg-1:test-uuid-1234',
+      text: 'Budget approved',
+      capturedAt: START + 12 * 60000,
+      offsetMs: 12 * 60000,
+      promotedTo: undefined,
+    });
+    expect(workObjectsStore.put).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'note', title: 'Budget approved' })
+    );
+  });
+
+  it('rejects empty notes and unknown meetings', async () => {
+    await expect(createCaptureNote('mtg-1', '   ')).rejects.toMatchObject({ code: 'EMPTY_TEXT' });
+
+    vi.mocked(meetingsStore.get).mockResolvedValue(null);
+    await expect(createCaptureNote('mtg-1', 'Hello')).rejects.toMatchObject({ code: 'MEETING_NOT_FOUND' });
+    expect(workObjectsStore.put).not.toHaveBeenCalled();
+  });
+});
+
+describe('getCaptureNotes', () => {
+  it('returns active capture notes for the meeting, oldest first', async () => {
+    vi.mocked(workObjectsStore.getByType).mockResolvedValue([
+      noteObject('wo:note:mtg:mtg-1:b', START + 2000),
+      noteObject('wo:note:mtg:mtg-1:a', START + 1000),
+      noteObject('wo:note:mtg:mtg-2:c', START),
+      noteObject('wo:note:mtg:mtg-1:deleted', START, { deletedAtIso: '2026-01-15T10:05:00.000Z' }),
+      noteObject('wo:note:mtg:mtg-1:block', START, {
+        payload: { kind: 'block', blockType: 'paragraph', text: 'Doc', checked: false, order: 1 },
+      }),
+    ]);
+
+    const notes = await getCaptureNotes('mtg-1');
+
+    expect(notes.map((n) => n.id)).toEqual(['wo:note:mtg:mtg-1:a', 'wo:note:mtg:mtg-1:b']);
+  });
+});
+
+describe('promoteCaptureNote', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('creates a marker labelled with the note and records it on the note', async () => {
+    vi.mocked(workObjectsStore.get).mockResolvedValue(noteObject('wo:note:mtg:mtg-1:a', START));
+    vi.mocked(addMarker).mockResolvedValue('m3');
+
+    const { note, markerId } = await promoteCaptureNote('wo:note:mtg:mtg-1:a', 'decision');
+
+    expect(addMarker).toHaveBeenCalledWith('mtg-1', 'decision', 'Note wo:note:mtg:mtg-1:a');
+    expect(markerId).toBe('m3');
+    expect(note.promotedTo).toEqual({ markerId: 'm3', type: 'decision' });
+    expect(workObjectsStore.put).toHaveBeenCalled();
+  });
+
+  it('refuses to promote a note twice or a missing note', async () => {
+    vi.mocked(workObjectsStore.get).mockResolvedValue(
+      noteObject('wo:note:mtg:mtg-1:a', START, {
+        payload: {
+          kind: 'capture_note',
+          text: 'x',
+          capturedAt: START,
+          offsetMs: 0,
+          promotedTo: { markerId: 'm1', type: 'risk' },
+        },
+      })
+    );
+    await expect(promoteCaptureNote('wo:note:mtg:mtg-1:a', 'action')).rejects.toMatchObject({
+      code: 'ALREADY_PROMOTED',
+    });
+
+    vi.mocked(workObjectsStore.get).mockResolvedValue(null);
+    await expect(promoteCaptureNote('wo:note:mtg:mtg-1:x', 'action')).rejects.toBeInstanceOf(CaptureNoteError);
+    expect(addMarker).not.toHaveBeenCalled();
+  });
+});
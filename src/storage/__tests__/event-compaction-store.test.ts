@@ -0,0 +1,45 @@
+/**
+ * Event Compaction Store Tests
+ *
+ * Runs compaction against the real event store: decision records are
+ * compacted sooner than other noise, semantic events never.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { resetTestDB } from '@/test/fake-db';
+import { compactEvents } from '../storage-api';
+import { eventsStore } from '../db';
+import type { EventType } from '../types';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+async function addEvent(id: string, type: EventType, daysAgo: number): Promise<void> {
+  await eventsStore.add({ id, type, timestamp: Date.now() - daysAgo * DAY, payload: {} });
+}
+
+beforeEach(() => {
+  resetTestDB();
+});
+
+describe('compactEvents', () => {
+  it('keeps decision records for 7 days and other noise for 30', async () => {
+    await addEvent('decision-recent', 'decision_evaluated', 2);
+    await addEvent('decision-old', 'decision_evaluated', 10);
+    await addEvent('render-old', 'plan_rendered', 10);
+    await addEvent('render-expired', 'plan_rendered', 40);
+    await addEvent('switch-expired', 'mode_switched', 40);
+
+    const result = await compactEvents();
+
+    expect(result.removed).toBe(2);
+    const remaining = (await eventsStore.getAll()).map((e) => e.id).sort();
+    expect(remaining).toEqual(['decision-recent', 'render-old', 'switch-expired']);
+  });
+
+  it('keeps decision records for the configured number of days', async () => {
+    await addEvent('decision-old', 'decision_evaluated', 10);
+
+    expect((await compactEvents({ decisionRetentionDays: 30 })).removed).toBe(0);
+    expect((await compactEvents({ decisionRetentionDays: 5 })).removed).toBe(1);
+  });
+});
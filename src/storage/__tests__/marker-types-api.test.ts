@@ -0,0 +1,82 @@
+/**
+ * Marker Types API Tests
+ *
+ * Tests loading the active marker type registry and validating it on save.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getMarkerTypes, importMarkerTypes, saveMarkerTypes } from '../marker-types-api';
+import { DEFAULT_MARKER_TYPES, MarkerTypeValidationError, type MarkerTypeRegistry } from '@/lib/marker-types';
+
+vi.mock('../db', () => ({
+  markerTypesStore: {
+    get: vi.fn(),
+    put: vi.fn(),
+    delete: vi.fn(),
+  },
+}));
+
+vi.mock('../storage-api', () => ({
+  logEvent: vi.fn(),
+}));
+
+import { markerTypesStore } from '../db';
+import { logEvent } from '../storage-api';
+
+const teamTypes: MarkerTypeRegistry = {
+  version: 1,
+  types: [
+    ...DEFAULT_MARKER_TYPES.types,
+    { id: 'blocker', label: 'Blocker', pluralLabel: 'Blockers', color: 'red', hotkey: 'B', group: 'Risks' },
+  ],
+};
+
+describe('getMarkerTypes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns the defaults when no registry is saved', async () => {
+    vi.mocked(markerTypesStore.get).mockResolvedValue(null);
+
+    expect(await getMarkerTypes()).toBe(DEFAULT_MARKER_TYPES);
+  });
+
+  it('returns the saved registry, or the defaults if it no longer validates', async () => {
+    vi.mocked(markerTypesStore.get).mockResolvedValue({ id: 'active', registry: teamTypes, updatedAt: 0 });
+    expect(await getMarkerTypes()).toEqual(teamTypes);
+
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.mocked(markerTypesStore.get).mockResolvedValue({
+      id: 'active',
+      registry: { version: 1, types: [{ id: 'x' }] } as never,
+      updatedAt: 0,
+    });
+    expect(await getMarkerTypes()).toBe(DEFAULT_MARKER_TYPES);
+    warn.mockRestore();
+  });
+});
+
+describe('saving marker types', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('saves a valid registry and logs the change', async () => {
+    await saveMarkerTypes(teamTypes);
+
+    expect(markerTypesStore.put).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'active', registry: teamTypes })
+    );
+    expect(logEvent).toHaveBeenCalledWith('marker_types_changed', {
+      types: ['decision', 'action', 'risk', 'question', 'blocker'],
+    });
+  });
+
+  it('rejects invalid JSON imports without saving', async () => {
+    await expect(
+      importMarkerTypes('{"version":1,"types":[{"id":"idea","label":"Idea","color":"teal"}]}')
+    ).rejects.toBeInstanceOf(MarkerTypeValidationError);
+    expect(markerTypesStore.put).not.toHaveBeenCalled();
+  });
+});
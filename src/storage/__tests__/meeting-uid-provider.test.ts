@@ -0,0 +1,93 @@
+/**
+ * Meeting UID Provider Tests
+ *
+ * Tests that calendar provider identity is recorded on meeting UID mappings
+ * and scopes the eventId fallback lookup.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getOrCreateMeetingUid } from '../meeting-uid-api';
+import type { CalendarEvent } from '@/calendar/types';
+import type { MeetingUidMapping } from '../work-object-types';
+
+vi.mock('../db', () => ({
+  meetingUidMappingsStore: {
+    put: vi.fn(),
+    getByICalUid: vi.fn(),
+    getByEventId: vi.fn(),
+  },
+  meetingMetadataStore: {
+    put: vi.fn(),
+  },
+}));
+
+vi.mock('../storage-api', () => ({
+  logEvent: vi.fn(),
+}));
+
+import { meetingUidMappingsStore } from '../db';
+
+function event(overrides: Partial<CalendarEvent> = {}): CalendarEvent {
+  return {
+    id: 'evt-1',
+    title: 'Sync',
+    startTime: Date.UTC(2026, 0, 15, 9),
+    endTime: Date.UTC(2026, 0, 15, 10),
+    attendees: [],
+    isAllDay: false,
+    ...overrides,
+  };
+}
+
+function mapping(overrides: Partial<MeetingUidMapping>): MeetingUidMapping {
+  return {
+    meetingUid: 'existing',
+    provider: 'gcal',
+    iCalUid: '',
+    eventId: 'evt-1',
+    calendarId: 'primary',
+    startTimeIso: '2026-01-15T09:00:00.000Z',
+    createdAtIso: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+}
+
+describe('getOrCreateMeetingUid provider identity', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(meetingUidMappingsStore.getByICalUid).mockResolvedValue([]);
+    vi.mocked(meetingUidMappingsStore.getByEventId).mockResolvedValue([]);
+  });
+
+  it('records the event provider on new mappings', async () => {
+    await getOrCreateMeetingUid(event({ provider: 'caldav', calendarId: 'https://dav.example.com/cal/' }));
+
+    expect(meetingUidMappingsStore.put).toHaveBeenCalledWith(
+      expect.objectContaining({ provider: 'caldav', calendarId: 'https://dav.example.com/cal/' })
+    );
+  });
+
+  it('records Outlook events as provider outlook', async () => {
+    await getOrCreateMeetingUid(event({ provider: 'outlook', iCalUid: 'series-uid' }));
+
+    expect(meetingUidMappingsStore.put).toHaveBeenCalledWith(
+      expect.objectContaining({ provider: 'outlook', iCalUid: 'series-uid' })
+    );
+  });
+
+  it('treats events without a provider as Google Calendar', async () => {
+    await getOrCreateMeetingUid(event());
+
+    expect(meetingUidMappingsStore.put).toHaveBeenCalledWith(expect.objectContaining({ provider: 'gcal' }));
+  });
+
+  it('only reuses eventId matches from the same provider', async () => {
+    vi.mocked(meetingUidMappingsStore.getByEventId).mockResolvedValue([mapping({ provider: 'gcal' })]);
+
+    const fromIcs = await getOrCreateMeetingUid(event({ provider: 'ics' }));
+    const fromGoogle = await getOrCreateMeetingUid(event({ provider: 'gcal' }));
+
+    expect(fromIcs).not.toBe('existing');
+    expect(fromGoogle).toBe('existing');
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Mode Rules API Tests
+ *
+ * Tests loading the active rule set and validating rule sets on save.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getModeRules, importModeRules, saveModeRules } from '../mode-rules-api';
+import { DEFAULT_MODE_RULES, RuleSetValidationError } from '@/rules/rule-set';
+import type { ModeRuleSet } from '@/rules/types';
+
+vi.mock('../db', () => ({
+  modeRulesStore: {
+    get: vi.fn(),
+    put: vi.fn(),
+    delete: vi.fn(),
+  },
+}));
+
+vi.mock('../storage-api', () => ({
+  logEvent: vi.fn(),
+}));
+
+import { modeRulesStore } from '../db';
+import { logEvent } from '../storage-api';
+
+const customRules: ModeRuleSet = {
+  version: 1,
+  rules: [
+    { id: 'always-neutral', mode: 'neutral_intent', priority: 1, trigger: 'default', reason: 'Quiet day' },
+  ],
+};
+
+describe('getModeRules', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns the default rules when none are saved', async () => {
+    vi.mocked(modeRulesStore.get).mockResolvedValue(null);
+
+    expect(await getModeRules()).toBe(DEFAULT_MODE_RULES);
+  });
+
+  it('returns the saved rules, or the defaults if they no longer validate', async () => {
+    vi.mocked(modeRulesStore.get).mockResolvedValue({ id: 'active', ruleSet: customRules, updatedAt: 0 });
+    expect(await getModeRules()).toEqual(customRules);
+
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.mocked(modeRulesStore.get).mockResolvedValue({
+      id: 'active',
+      ruleSet: { version: 1, rules: [{ id: 'x' }] } as never,
+      updatedAt: 0,
+    });
+    expect(await getModeRules()).toBe(DEFAULT_MODE_RULES);
+    warn.mockRestore();
+  });
+});
+
+describe('saving mode rules', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('saves valid rules and logs the change', async () => {
+    await saveModeRules(customRules);
+
+    expect(modeRulesStore.put).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'active', ruleSet: customRules })
+    );
+    expect(logEvent).toHaveBeenCalledWith('mode_rules_changed', { ruleCount: 1 });
+  });
+
+  it('rejects invalid JSON imports without saving', async () => {
+    await expect(importModeRules('{"version":1,"rules":[{"id":"x","mode":"nap"}]}')).rejects.toBeInstanceOf(
+      RuleSetValidationError
+    );
+    expect(modeRulesStore.put).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Recurring Series API Tests
+ *
+ * Tests previous-instance lookup, open item collection and carry-over resolution.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  getPreviousInstance,
+  getOpenCarryOverItems,
+  carryForwardItem,
+  closeCarryOverItem,
+} from '../series-api';
+import type { MeetingState } from '../types';
+import type { MeetingUidMapping } from '../work-object-types';
+
+vi.mock('../db', () => ({
+  meetingUidMappingsStore: {
+    get: vi.fn(),
+    getByICalUid: vi.fn(),
+  },
+  meetingsStore: {
+    get: vi.fn(),
+    put: vi.fn(),
+  },
+}));
+
+vi.mock('../storage-api', () => ({
+  logEvent: vi.fn(),
+  addMarker: vi.fn(),
+  addMy3Goal: vi.fn(),
+}));
+
+import { meetingUidMappingsStore, meetingsStore } from '../db';
+import { addMarker, addMy3Goal, logEvent } from '../storage-api';
+
+function mapping(meetingUid: string, startTimeIso: string): MeetingUidMapping {
+  return {
+    meetingUid,
+    provider: 'gcal',
+    iCalUid: 'standup@google.com',
+    eventId: `evt-${meetingUid}`,
+    calendarId: 'primary',
+    startTimeIso,
+    createdAtIso: startTimeIso,
+  };
+}
+
+function meeting(id: string, overrides: Partial<MeetingState> = {}): MeetingState {
+  return {
+    id,
+    title: 'Standup',
+    startTime: 0,
+    endTime: 0,
+    attendees: [],
+    my3Goals: [],
+    markers: [],
+    synthesisCompleted: false,
+    createdAt: 0,
+    updatedAt: 0,
+    ...overrides,
+  };
+}
+
+describe('getPreviousInstance', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('returns the latest earlier instance with stored meeting state', async () => {
+    vi.mocked(meetingUidMappingsStore.get).mockResolvedValue(mapping('mon3', '2026-01-19T09:00:00.000Z'));
+    vi.mocked(meetingUidMappingsStore.getByICalUid).mockResolvedValue([
+      mapping('mon2', '2026-01-12T09:00:00.000Z'),
+      mapping('mon4', '2026-01-26T09:00:00.000Z'),
+      mapping('mon1', '2026-01-05T09:00:00.000Z'),
+      mapping('mon3', '2026-01-19T09:00:00.000Z'),
+    ]);
+    // mon2 was never opened, so mon1 is the previous instance with data
+    vi.mocked(meetingsStore.get).mockImplementation(async (id: string) =>
+      id === 'mon1' ? meeting('mon1') : null
+    );
+
+    const previous = await getPreviousInstance('mon3');
+
+    expect(previous?.id).toBe('mon1');
+    expect(meetingsStore.get).toHaveBeenNthCalledWith(1, 'mon2');
+  });
+
+  it('returns null for meetings without a series', async () => {
+    vi.mocked(meetingUidMappingsStore.get).mockResolvedValue(null);
+
+    expect(await getPreviousInstance('one-off')).toBeNull();
+    expect(meetingUidMappingsStore.getByICalUid).not.toHaveBeenCalled();
+  });
+});
+
+describe('getOpenCarryOverItems', () => {
+  it('keeps open action/question markers and unachieved goals', () => {
+    const items = getOpenCarryOverItems(
+      meeting('mon1', {
+        my3Goals: [
+          { id: 'g1', text: 'Ship beta', achieved: false },
+          { id: 'g2', text: 'Hire', achieved: true },
+          { id: 'g3', text: 'Old', achieved: false, deletedAt: 1 },
+        ],
+        markers: [
+          { id: 'm1', type: 'action', label: 'Send notes', timestamp: 0, meetingId: 'mon1' },
+          { id: 'm2', type: 'decision', label: 'Go', timestamp: 0, meetingId: 'mon1' },
+          { id: 'm3', type: 'question', label: 'Budget?', timestamp: 0, meetingId: 'mon1' },
+          {
+            id: 'm4',
+            type: 'action',
+            timestamp: 0,
+            meetingId: 'mon1',
+            carryOver: { status: 'closed', at: 1 },
+          },
+        ],
+      })
+    );
+
+    expect(items.map((i) => i.workObjectId)).toEqual([
+      'wo:goal:mtg:mon1:g1',
+      'wo:marker:mtg:mon1:m1',
+      'wo:marker:mtg:mon1:m3',
+    ]);
+    expect(items[2]).toMatchObject({ kind: 'marker', markerType: 'question', text: 'Budget?' });
+  });
+});
+
+describe('carry-over resolution', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const marker = {
+    kind: 'marker' as const,
+    id: 'm1',
+    workObjectId: 'wo:marker:mtg:mon1:m1',
+    sourceMeetingId: 'mon1',
+    text: 'Send notes',
+    markerType: 'action' as const,
+  };
+
+  it('carries a marker forward and records both ends', async () => {
+    const source = meeting('mon1', {
+      markers: [{ id: 'm1', type: 'action', label: 'Send notes', timestamp: 0, meetingId: 'mon1' }],
+    });
+    const target = meeting('mon2', {
+      markers: [{ id: 'm1', type: 'action', label: 'Send notes', timestamp: 0, meetingId: 'mon2' }],
+    });
+    vi.mocked(addMarker).mockResolvedValue('m1');
+    vi.mocked(meetingsStore.get).mockImplementation(async (id: string) => (id === 'mon1' ? source : target));
+
+    await carryForwardItem('mon2', marker);
+
+    expect(addMarker).toHaveBeenCalledWith('mon2', 'action', 'Send notes');
+    expect(target.markers[0].carriedFrom).toBe('wo:marker:mtg:mon1:m1');
+    expect(source.markers[0].carryOver).toMatchObject({ status: 'carried_forward', toMeetingId: 'mon2' });
+    expect(logEvent).toHaveBeenCalledWith(
+      'carry_over_resolved',
+      expect.objectContaining({ workObjectId: 'wo:marker:mtg:mon1:m1', status: 'carried_forward' })
+    );
+  });
+
+  it('propagates the goal limit error without resolving the source', async () => {
+    vi.mocked(addMy3Goal).mockRejectedValue(new Error('Cannot add more than 3 goals'));
+
+    await expect(
+      carryForwardItem('mon2', {
+        kind: 'goal',
+        id: 'g1',
+        workObjectId: 'wo:goal:mtg:mon1:g1',
+        sourceMeetingId: 'mon1',
+        text: 'Ship beta',
+      })
+    ).rejects.toThrow('Cannot add more than 3 goals');
+    expect(meetingsStore.put).not.toHaveBeenCalled();
+  });
+
+  it('closes an item without creating anything', async () => {
+    const source = meeting('mon1', {
+      markers: [{ id: 'm1', type: 'action', timestamp: 0, meetingId: 'mon1' }],
+    });
+    vi.mocked(meetingsStore.get).mockResolvedValue(source);
+
+    await closeCarryOverItem(marker);
+
+    expect(addMarker).not.toHaveBeenCalled();
+    expect(source.markers[0].carryOver?.status).toBe('closed');
+    expect(getOpenCarryOverItems(source)).toEqual([]);
+  });
+});
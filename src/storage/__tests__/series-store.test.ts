@@ -0,0 +1,97 @@
+/**
+ * Recurring Series Store Tests
+ *
+ * Runs series lookup and carry-over against the real stores: meetings saved
+ * for calendar events are found from their MeetingState ID.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { resetTestDB } from '@/test/fake-db';
+import { saveMeeting, addMarker, addMy3Goal } from '../storage-api';
+import { getOrCreateMeetingUid } from '../meeting-uid-api';
+import { getSeriesIdForMeeting, getCarryOverItems, carryForwardItem } from '../series-api';
+import { getOpenActions } from '../action-api';
+import { loadScenario } from '@/test-harness/scenario-loader';
+import { getScenarioById } from '@/test-harness/scenarios';
+import type { MeetingState } from '../types';
+import type { CalendarEvent } from '@/calendar/types';
+import type { TestScenario } from '@/test-harness/types';
+
+const WEEK = 7 * 24 * 60 * 60 * 1000;
+const START = Date.UTC(2026, 9, 12, 9);
+
+function event(id: string, startTime: number): CalendarEvent {
+  return {
+    id,
+    iCalUid: 'sync@example.com',
+    title: 'Weekly Sync',
+    startTime,
+    endTime: startTime + 30 * 60 * 1000,
+    attendees: [],
+    isAllDay: false,
+  };
+}
+
+function meeting(id: string, startTime: number): MeetingState {
+  return {
+    id,
+    title: 'Weekly Sync',
+    startTime,
+    endTime: startTime + 30 * 60 * 1000,
+    attendees: [],
+    my3Goals: [],
+    markers: [],
+    synthesisCompleted: false,
+    createdAt: 0,
+    updatedAt: 0,
+  };
+}
+
+async function saveInstance(id: string, startTime: number): Promise<string> {
+  await saveMeeting(meeting(id, startTime));
+  return getOrCreateMeetingUid(event(`evt-${id}`, startTime), id);
+}
+
+beforeEach(() => {
+  resetTestDB();
+});
+
+describe('series lookup from MeetingState IDs', () => {
+  it('maps a saved meeting under its own ID and carries over the previous instance', async () => {
+    expect(await saveInstance('sync-1', START)).toBe('sync-1');
+    await addMy3Goal('sync-1', 'Pick a launch date');
+    await addMarker('sync-1', 'action', 'Draft invite email');
+    await addMarker('sync-1', 'decision', 'Beta is invite-only');
+    await saveInstance('sync-2', START + WEEK);
+
+    expect(await getSeriesIdForMeeting('sync-2')).toBe('sync@example.com');
+    const { previousMeeting, items } = await getCarryOverItems('sync-2');
+    expect(previousMeeting?.id).toBe('sync-1');
+    expect(items.map((i) => i.text)).toEqual(['Pick a launch date', 'Draft invite email']);
+  });
+
+  it('finds carry-over items for a meeting loaded from a scenario', async () => {
+    const result = await loadScenario(getScenarioById('recurring-series') as TestScenario);
+
+    expect(result.meetingIds[0]).toBe('mtg-weekly-2');
+    const { previousMeeting, items } = await getCarryOverItems('mtg-weekly-2');
+    expect(previousMeeting?.id).toBe('mtg-weekly-1');
+    expect(items.map((i) => i.workObjectId)).toEqual([
+      'wo:goal:mtg:mtg-weekly-1:g2',
+      'wo:marker:mtg:mtg-weekly-1:m2',
+      'wo:marker:mtg:mtg-weekly-1:m3',
+    ]);
+  });
+
+  it('lists a carried-forward action once, in the later meeting', async () => {
+    await saveInstance('sync-1', START);
+    await addMarker('sync-1', 'action', 'Draft invite email');
+    await saveInstance('sync-2', START + WEEK);
+
+    const { items } = await getCarryOverItems('sync-2');
+    await carryForwardItem('sync-2', items[0]);
+
+    const open = await getOpenActions();
+    expect(open.map((a) => [a.meetingId, a.label])).toEqual([['sync-2', 'Draft invite email']]);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Suggestion API Tests
+ *
+ * Tests that suggestions are only stored on acceptance, that accept and
+ * reject are logged, and that decided items stay hidden.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getSuggestions, acceptSuggestion, rejectSuggestion } from '../suggestion-api';
+import type { EventRecord, MeetingState } from '../types';
+import type { AgentSuggestion } from '@/lib/agent-suggestions';
+
+vi.mock('../db', () => ({
+  meetingsStore: { get: vi.fn() },
+  workObjectFlagsStore: { getAll: vi.fn() },
+  workLinksStore: { getAll: vi.fn() },
+}));
+
+vi.mock('../storage-api', () => ({
+  logEvent: vi.fn(),
+  addMarker: vi.fn(),
+  getEvents: vi.fn(),
+}));
+
+vi.mock('../work-object-api', () => ({
+  setWorkObjectFlag: vi.fn(),
+  createWorkLink: vi.fn(),
+}));
+
+vi.mock('../transcript-api', () => ({
+  getMarkerCandidates: vi.fn(),
+}));
+
+import { meetingsStore, workObjectFlagsStore, workLinksStore } from '../db';
+import { logEvent, addMarker, getEvents } from '../storage-api';
+import { setWorkObjectFlag, createWorkLink } from '../work-object-api';
+import { getMarkerCandidates } from '../transcript-api';
+
+const meeting = {
+  id: 'mtg-1',
+  startTime: 0,
+  markers: [
+    { id: 'm1', type: 'decision', label: 'Ship on Friday', timestamp: 1000, meetingId: 'mtg-1' },
+    { id: 'm2', type: 'question', label: 'Ship on Friday?', timestamp: 2000, meetingId: 'mtg-1' },
+    { id: 'm3', type: 'question', label: 'Vendor delay?', timestamp: 3000, meetingId: 'mtg-1' },
+  ],
+} as unknown as MeetingState;
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(meetingsStore.get).mockResolvedValue(meeting);
+  vi.mocked(getMarkerCandidates).mockResolvedValue([]);
+  vi.mocked(workObjectFlagsStore.getAll).mockResolvedValue([]);
+  vi.mocked(workLinksStore.getAll).mockResolvedValue([]);
+  vi.mocked(getEvents).mockResolvedValue([]);
+});
+
+describe('getSuggestions', () => {
+  it('hides flags and links already decided or rejected in this meeting', async () => {
+    expect((await getSuggestions('mtg-1')).map((s) => s.id)).toEqual(['flag:m3:risk', 'link:m2:m1:duplicates']);
+
+    vi.mocked(workObjectFlagsStore.getAll).mockResolvedValue([
+      { workObjectId: 'wo:marker:mtg:mtg-1:m3', flagType: 'risk', isSet: false, setAtIso: '', setBy: 'user' },
+    ]);
+    vi.mocked(getEvents).mockResolvedValue([
+      { id: 'e1', type: 'suggestion_rejected', timestamp: 0, payload: { meetingId: 'mtg-1', suggestionId: 'link:m2:m1:duplicates' } },
+      { id: 'e2', type: 'suggestion_rejected', timestamp: 0, payload: { meetingId: 'mtg-2', suggestionId: 'flag:m3:risk' } },
+    ] as EventRecord[]);
+
+    expect(await getSuggestions('mtg-1')).toEqual([]);
+  });
+});
+
+describe('acceptSuggestion / rejectSuggestion', () => {
+  it('creates the marker, flag or link and logs the acceptance', async () => {
+    const suggestions: AgentSuggestion[] = [
+      { kind: 'marker', id: 'marker:s1:0', markerType: 'action', text: 'I will send the deck.', timestamp: 9000, reason: '' },
+      { kind: 'flag', id: 'flag:m3:risk', markerId: 'm3', flagType: 'risk', reason: '' },
+      { kind: 'link', id: 'link:m2:m1:duplicates', fromMarkerId: 'm2', toMarkerId: 'm1', linkType: 'duplicates', reason: '' },
+    ];
+
+    for (const suggestion of suggestions) await acceptSuggestion('mtg-1', suggestion);
+
+    expect(addMarker).toHaveBeenCalledWith('mtg-1', 'action', 'I will send the deck.', 9000);
+    expect(setWorkObjectFlag).toHaveBeenCalledWith('wo:marker:mtg:mtg-1:m3', 'risk', true, 'agent_suggestion');
+    expect(createWorkLink).toHaveBeenCalledWith('wo:marker:mtg:mtg-1:m2', 'wo:marker:mtg:mtg-1:m1', 'duplicates');
+    expect(logEvent).toHaveBeenCalledWith('suggestion_accepted', {
+      meetingId: 'mtg-1',
+      suggestionId: 'flag:m3:risk',
+      kind: 'flag',
+    });
+  });
+
+  it('stores nothing on rejection', async () => {
+    await rejectSuggestion('mtg-1', { kind: 'flag', id: 'flag:m3:risk', markerId: 'm3', flagType: 'risk', reason: '' });
+
+    expect(setWorkObjectFlag).not.toHaveBeenCalled();
+    expect(logEvent).toHaveBeenCalledWith('suggestion_rejected', {
+      meetingId: 'mtg-1',
+      suggestionId: 'flag:m3:risk',
+      kind: 'flag',
+    });
+  });
+});
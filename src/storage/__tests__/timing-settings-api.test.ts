@@ -0,0 +1,121 @@
+/**
+ * Timing Settings API Tests
+ *
+ * Tests loading timing settings with defaults and validating saved overrides.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  getTimingSettings,
+  saveGlobalTiming,
+  saveTimingOverride,
+  TimingSettingsValidationError,
+} from '../timing-settings-api';
+import type { StoredTimingSettings } from '../types';
+import { DEFAULT_TIMING_CONFIG, TimingOverride } from '@/rules/types';
+
+vi.mock('../db', () => ({
+  timingSettingsStore: {
+    get: vi.fn(),
+    getAll: vi.fn(),
+    put: vi.fn(),
+    delete: vi.fn(),
+    clear: vi.fn(),
+  },
+}));
+
+vi.mock('../storage-api', () => ({
+  logEvent: vi.fn(),
+}));
+
+import { timingSettingsStore } from '../db';
+import { logEvent } from '../storage-api';
+
+function stored(override: TimingOverride, createdAt: number): StoredTimingSettings {
+  return { id: override.id, kind: 'override', override, createdAt, updatedAt: createdAt };
+}
+
+const board: TimingOverride = {
+  id: 'board',
+  label: 'Board meetings',
+  match: { attendeePattern: '*@board.example.com' },
+  config: { prepWindowMinutes: 1440 },
+};
+
+const oneOnOnes: TimingOverride = {
+  id: 'one-on-ones',
+  label: '1:1s',
+  match: { maxAttendees: 1 },
+  config: { prepWindowMinutes: 10 },
+};
+
+async function expectCode(promise: Promise<unknown>, code: TimingSettingsValidationError['code']) {
+  try {
+    await promise;
+    expect.fail('Should have thrown');
+  } catch (e) {
+    expect(e).toBeInstanceOf(TimingSettingsValidationError);
+    expect((e as TimingSettingsValidationError).code).toBe(code);
+  }
+}
+
+describe('getTimingSettings', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('falls back to the default config with no overrides', async () => {
+    vi.mocked(timingSettingsStore.getAll).mockResolvedValue([]);
+
+    expect(await getTimingSettings()).toEqual({ global: DEFAULT_TIMING_CONFIG, overrides: [] });
+  });
+
+  it('fills unsaved global fields from defaults and orders overrides by creation', async () => {
+    vi.mocked(timingSettingsStore.getAll).mockResolvedValue([
+      stored(oneOnOnes, 200),
+      { id: 'global', kind: 'global', config: { prepWindowMinutes: 30 }, updatedAt: 300 },
+      stored(board, 100),
+    ]);
+
+    const settings = await getTimingSettings();
+
+    expect(settings.global).toEqual({ ...DEFAULT_TIMING_CONFIG, prepWindowMinutes: 30 });
+    expect(settings.overrides.map((o) => o.id)).toEqual(['board', 'one-on-ones']);
+  });
+});
+
+describe('saving timing settings', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('rejects out-of-range global windows', async () => {
+    await expectCode(saveGlobalTiming({ ...DEFAULT_TIMING_CONFIG, prepWindowMinutes: 0 }), 'INVALID_VALUE');
+    expect(timingSettingsStore.put).not.toHaveBeenCalled();
+  });
+
+  it('creates an override with a new id and logs the change', async () => {
+    const override = await saveTimingOverride({ label: ' Board meetings ', match: board.match, config: board.config });
+
+    expect(override.id).toMatch(/^timing-/);
+    expect(override.label).toBe('Board meetings');
+    expect(timingSettingsStore.put).toHaveBeenCalledWith(expect.objectContaining({ id: override.id, kind: 'override' }));
+    expect(logEvent).toHaveBeenCalledWith('timing_settings_changed', { scope: 'override', overrideId: override.id });
+  });
+
+  it('keeps the creation time when updating an override', async () => {
+    vi.mocked(timingSettingsStore.get).mockResolvedValue(stored(board, 100));
+
+    await saveTimingOverride({ ...board, config: { prepWindowMinutes: 720 } });
+
+    expect(timingSettingsStore.put).toHaveBeenCalledWith(expect.objectContaining({ id: 'board', createdAt: 100 }));
+  });
+
+  it('rejects overrides without a label, a match or a known id', async () => {
+    await expectCode(saveTimingOverride({ ...oneOnOnes, id: undefined, label: '  ' }), 'EMPTY_LABEL');
+    await expectCode(saveTimingOverride({ ...oneOnOnes, id: undefined, match: {} }), 'EMPTY_MATCH');
+
+    vi.mocked(timingSettingsStore.get).mockResolvedValue(null);
+    await expectCode(saveTimingOverride(oneOnOnes), 'OVERRIDE_NOT_FOUND');
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Transcript API Tests
+ *
+ * Tests ingesting segments against the meeting clock, replacing re-imported
+ * files, candidate markers and keeping Whisper requests on this machine.
+ * Importing by calendar event runs against the real stores in
+ * transcript-store.test.ts.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  ingestTranscript,
+  importTranscriptFile,
+  getMarkerCandidates,
+  acceptMarkerCandidates,
+  transcribeWithLocalWhisper,
+} from '../transcript-api';
+import type { MeetingState, StoredTranscriptSegment } from '../types';
+
+vi.mock('../db', () => ({
+  meetingsStore: {
+    get: vi.fn(),
+  },
+  transcriptSegmentsStore: {
+    putMany: vi.fn(),
+    getByMeetingUid: vi.fn(),
+    deleteMany: vi.fn(),
+  },
+}));
+
+vi.mock('../storage-api', () => ({
+  logEvent: vi.fn(),
+  addMarker: vi.fn(),
+}));
+
+import { meetingsStore, transcriptSegmentsStore } from '../db';
+import { logEvent, addMarker } from '../storage-api';
+
+const START = new Date('2026-01-15T10:00:00.000Z').getTime();
+
+function storedSegment(id: string, source: StoredTranscriptSegment['source']): StoredTranscriptSegment {
+  return { id, meetingUid: 'mtg-1', startTime: START, endTime: START + 1000, text: 'Old', source, ingestedAt: 0 };
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.mocked(meetingsStore.get).mockResolvedValue({ id: 'mtg-1', startTime: START, markers: [] } as unknown as MeetingState);
+  vi.mocked(transcriptSegmentsStore.getByMeetingUid).mockResolvedValue([]);
+});
+
+describe('ingestTranscript', () => {
+  it('turns offsets into absolute times from the meeting start or the recording start', async () => {
+    const [fromMeeting] = await ingestTranscript('mtg-1', [{ startMs: 5000, endMs: 8000, text: ' Hi ' }], {
+      source: 'recognizer',
+    });
+    expect(fromMeeting).toMatchObject({ meetingUid: 'mtg-1', startTime: START + 5000, endTime: START + 8000, text: 'Hi' });
+
+    const [fromRecording] = await ingestTranscript('mtg-1', [{ startMs: 0, endMs: 1000, text: 'Late start' }], {
+      source: 'recognizer',
+      startedAt: START + 120000,
+    });
+    expect(fromRecording.startTime).toBe(START + 120000);
+    expect(transcriptSegmentsStore.deleteMany).not.toHaveBeenCalled();
+  });
+
+  it('rejects invalid segments and unknown meetings without storing', async () => {
+    await expect(
+      ingestTranscript('mtg-1', [{ startMs: 5000, endMs: 1000, text: 'Backwards' }], { source: 'recognizer' })
+    ).rejects.toMatchObject({ code: 'INVALID_SEGMENT' });
+
+    vi.mocked(meetingsStore.get).mockResolvedValue(null);
+    await expect(
+      ingestTranscript('mtg-x', [{ startMs: 0, endMs: 1000, text: 'Hi' }], { source: 'recognizer' })
+    ).rejects.toMatchObject({ code: 'MEETING_NOT_FOUND' });
+    expect(transcriptSegmentsStore.putMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('importTranscriptFile', () => {
+  it('replaces an earlier import of the same format only', async () => {
+    vi.mocked(transcriptSegmentsStore.getByMeetingUid).mockResolvedValue([
+      storedSegment('old-srt', 'srt'),
+      storedSegment('live', 'recognizer'),
+    ]);
+
+    const added = await importTranscriptFile('mtg-1', 'call.srt', '1\n00:00:01,000 --> 00:00:02,000\nHello');
+
+    expect(added).toHaveLength(1);
+    expect(transcriptSegmentsStore.deleteMany).toHaveBeenCalledWith(['old-srt']);
+    expect(logEvent).toHaveBeenCalledWith('transcript_ingested', {
+      meetingId: 'mtg-1',
+      source: 'srt',
+      segmentCount: 1,
+      replaced: 1,
+    });
+  });
+});
+
+describe('marker candidates', () => {
+  const transcript: StoredTranscriptSegment[] = [
+    { ...storedSegment('s1', 'zoom'), startTime: START + 60000, text: 'We decided to ship Friday. Who tells sales?' },
+  ];
+
+  it('leaves out candidates already accepted as markers', async () => {
+    vi.mocked(transcriptSegmentsStore.getByMeetingUid).mockResolvedValue(transcript);
+    vi.mocked(meetingsStore.get).mockResolvedValue({
+      id: 'mtg-1',
+      startTime: START,
+      markers: [{ id: 'm1', type: 'decision', label: 'We decided to ship Friday.', timestamp: START + 60000 }],
+    } as unknown as MeetingState);
+
+    const candidates = await getMarkerCandidates('mtg-1');
+
+    expect(candidates).toEqual([expect.objectContaining({ type: 'question', text: 'Who tells sales?', offsetMs: 60000 })]);
+  });
+
+  it('adds accepted candidates as markers at the time they were said', async () => {
+    vi.mocked(transcriptSegmentsStore.getByMeetingUid).mockResolvedValue(transcript);
+    vi.mocked(addMarker).mockResolvedValue('m2');
+
+    const [candidate] = await getMarkerCandidates('mtg-1');
+    await expect(acceptMarkerCandidates('mtg-1', [candidate])).resolves.toEqual(['m2']);
+    expect(addMarker).toHaveBeenCalledWith('mtg-1', 'decision', 'We decided to ship Friday.', START + 60000);
+  });
+});
+
+describe('transcribeWithLocalWhisper', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('refuses endpoints that are not on this machine', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(
+      transcribeWithLocalWhisper('mtg-1', new Blob(['audio']), { endpoint: 'https://api.example.com/inference' })
+    ).rejects.toMatchObject({ code: 'REMOTE_ENDPOINT' });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('stores the segments returned by a local server', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue(new Response('{"segments":[{"start":2,"end":4,"text":"Ship it"}]}'))
+    );
+
+    const [segment] = await transcribeWithLocalWhisper('mtg-1', new Blob(['audio']));
+
+    expect(segment).toMatchObject({ source: 'whisper', startTime: START + 2000, text: 'Ship it' });
+  });
+});
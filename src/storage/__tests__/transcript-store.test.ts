@@ -0,0 +1,99 @@
+/**
+ * Transcript Store Tests
+ *
+ * Imports a transcript by calendar event into a stored meeting through the
+ * real stores, accepts its candidate markers and keeps rejections across
+ * re-imports.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { resetTestDB } from '@/test/fake-db';
+import { saveMeeting, getMeeting } from '../storage-api';
+import { getOrCreateMeetingUid } from '../meeting-uid-api';
+import {
+  importMeetingTranscript,
+  importTranscriptFile,
+  getMarkerCandidates,
+  acceptMarkerCandidates,
+} from '../transcript-api';
+import { getSuggestions, rejectSuggestion } from '../suggestion-api';
+import type { MeetingState } from '../types';
+import type { CalendarEvent } from '@/calendar/types';
+
+const START = new Date('2026-01-15T10:00:00.000Z').getTime();
+
+const event: CalendarEvent = {
+  id: 'evt-kickoff',
+  iCalUid: 'kickoff@example.com',
+  title: 'Client Kickoff',
+  startTime: START,
+  endTime: START + 60 * 60 * 1000,
+  attendees: [],
+  isAllDay: false,
+};
+
+const meeting: MeetingState = {
+  id: 'mtg-kickoff',
+  title: 'Client Kickoff',
+  startTime: START,
+  endTime: START + 60 * 60 * 1000,
+  attendees: [],
+  my3Goals: [],
+  markers: [],
+  synthesisCompleted: true,
+  createdAt: 0,
+  updatedAt: 0,
+};
+
+const ZOOM_EXPORT = '[Alice] 00:00:05\nWe decided to ship on Friday.\n[Bob] 00:01:00\nWho tells the sales team?';
+
+beforeEach(() => {
+  resetTestDB();
+});
+
+describe('importMeetingTranscript', () => {
+  it('imports into the meeting stored for the calendar event and accepts candidates', async () => {
+    await saveMeeting({ ...meeting });
+    await getOrCreateMeetingUid(event, meeting.id);
+
+    const result = await importMeetingTranscript(event.id, 'zoom.txt', ZOOM_EXPORT);
+
+    expect(result.meetingUid).toBe('mtg-kickoff');
+    expect(result.segments.map((s) => s.startTime)).toEqual([START + 5000, START + 60000]);
+
+    const candidates = await getMarkerCandidates('mtg-kickoff');
+    expect(candidates.map((c) => c.type)).toEqual(['decision', 'question']);
+
+    await acceptMarkerCandidates('mtg-kickoff', candidates.slice(0, 1));
+    const stored = await getMeeting('mtg-kickoff');
+    expect(stored?.markers).toEqual([
+      expect.objectContaining({ type: 'decision', label: 'We decided to ship on Friday.', timestamp: START + 5000 }),
+    ]);
+    expect(await getMarkerCandidates('mtg-kickoff')).toEqual([expect.objectContaining({ type: 'question' })]);
+  });
+
+  it('rejects events with no stored meeting', async () => {
+    await getOrCreateMeetingUid(event);
+
+    await expect(importMeetingTranscript(event.id, 'zoom.txt', ZOOM_EXPORT)).rejects.toMatchObject({
+      code: 'MEETING_NOT_FOUND',
+    });
+  });
+});
+
+describe('re-importing a transcript', () => {
+  it('keeps the same segment IDs, so rejected suggestions stay hidden', async () => {
+    await saveMeeting({ ...meeting });
+
+    const first = await importTranscriptFile('mtg-kickoff', 'zoom.txt', ZOOM_EXPORT);
+    const [decision] = await getSuggestions('mtg-kickoff');
+    await rejectSuggestion('mtg-kickoff', decision);
+
+    const second = await importTranscriptFile('mtg-kickoff', 'zoom.txt', ZOOM_EXPORT);
+
+    expect(second.map((s) => s.id)).toEqual(first.map((s) => s.id));
+    expect(await getSuggestions('mtg-kickoff')).toEqual([
+      expect.objectContaining({ kind: 'marker', text: 'Who tells the sales team?' }),
+    ]);
+  });
+});
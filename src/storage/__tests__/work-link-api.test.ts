@@ -32,6 +32,9 @@ vi.mock('../db', () => ({
     put: vi.fn(),
     getAll: vi.fn(),
   },
+  meetingUidMappingsStore: {
+    get: vi.fn(),
+  },
 }));
 
 vi.mock('../storage-api', () => ({
@@ -43,7 +46,23 @@ vi.mock('uuid', () => ({
   v4: vi.fn(() => 'test-uuid-1234'),
 }));
 
-import { workObjectsStore, workLinksStore, meetingsStore } from '../db';
+import { workObjectsStore, workLinksStore, meetingsStore, meetingUidMappingsStore } from '../db';
+import type { MeetingUidMapping, WorkObject, WorkObjectType } from '../work-object-types';
+
+function makeWorkObject(id: string, type: WorkObjectType): WorkObject {
+  return { id, type, source: 'user', createdAtIso: '2026-01-01T00:00:00.000Z', updatedAtIso: '2026-01-01T00:00:00.000Z' };
+}
+
+/** Calendar mapping of a meeting in the standup series */
+const standupMapping: MeetingUidMapping = {
+  meetingUid: 'meeting-def-456',
+  provider: 'gcal',
+  iCalUid: 'standup@google.com',
+  eventId: 'evt-standup',
+  calendarId: 'primary',
+  startTimeIso: '2026-01-02T09:00:00.000Z',
+  createdAtIso: '2026-01-01T00:00:00.000Z',
+};
 
 describe('createWorkLink', () => {
   beforeEach(() => {
@@ -56,8 +75,8 @@ describe('createWorkLink', () => {
 
   it('creates a valid link between two WorkObjects', async () => {
     vi.mocked(workObjectsStore.get)
-      .mockResolvedValueOnce({ id: sourceId, type: 'marker' } as any)
-      .mockResolvedValueOnce({ id: targetId, type: 'goal' } as any);
+      .mockResolvedValueOnce(makeWorkObject(sourceId, 'marker'))
+      .mockResolvedValueOnce(makeWorkObject(targetId, 'goal'));
 
     const linkId = await createWorkLink(sourceId, targetId, 'related');
 
@@ -81,18 +100,62 @@ describe('createWorkLink', () => {
     }
   });
 
-  it('throws CROSS_SCOPE for different meeting scopes', async () => {
+  it('throws CROSS_SERIES for meetings outside a shared recurring series', async () => {
     const differentMeetingId = `wo:marker:mtg:different-meeting:m1`;
+    vi.mocked(meetingUidMappingsStore.get).mockResolvedValue(null);
 
     try {
       await createWorkLink(sourceId, differentMeetingId, 'related');
       expect.fail('Should have thrown');
+    } catch (e) {
+      expect(e).toBeInstanceOf(LinkValidationError);
+      expect((e as LinkValidationError).code).toBe('CROSS_SERIES');
+    }
+  });
+
+  it('throws CROSS_SCOPE when linking a session object to a meeting', async () => {
+    try {
+      await createWorkLink('wo:note:session:s1:n1', sourceId, 'related');
+      expect.fail('Should have thrown');
     } catch (e) {
       expect(e).toBeInstanceOf(LinkValidationError);
       expect((e as LinkValidationError).code).toBe('CROSS_SCOPE');
     }
   });
 
+  it('links meetings in the same recurring series', async () => {
+    const nextInstanceId = `wo:note:mtg:meeting-def-456:n1`;
+    vi.mocked(meetingUidMappingsStore.get).mockResolvedValue(standupMapping);
+    vi.mocked(workObjectsStore.get)
+      .mockResolvedValueOnce(makeWorkObject(sourceId, 'marker'))
+      .mockResolvedValueOnce(makeWorkObject(nextInstanceId, 'note'));
+
+    const linkId = await createWorkLink(sourceId, nextInstanceId, 'supports');
+
+    expect(linkId).toMatch(new RegExp(`^wo:link:mtg:${meetingUid}:`));
+    expect(meetingUidMappingsStore.get).toHaveBeenCalledWith('meeting-def-456');
+  });
+
+  it('links a meeting object to its series scope', async () => {
+    const seriesNoteId = 'wo:note:series:standup@google.com:n1';
+    vi.mocked(meetingUidMappingsStore.get).mockResolvedValue(standupMapping);
+    vi.mocked(workObjectsStore.get)
+      .mockResolvedValueOnce(makeWorkObject(sourceId, 'marker'))
+      .mockResolvedValueOnce(makeWorkObject(seriesNoteId, 'note'));
+
+    await expect(createWorkLink(sourceId, seriesNoteId, 'related')).resolves.toMatch(/^wo:link:/);
+  });
+
+  it('links any meeting object into a project scope', async () => {
+    const projectNoteId = 'wo:note:project:launch:n1';
+    vi.mocked(workObjectsStore.get)
+      .mockResolvedValueOnce(makeWorkObject(sourceId, 'marker'))
+      .mockResolvedValueOnce(makeWorkObject(projectNoteId, 'note'));
+
+    await expect(createWorkLink(sourceId, projectNoteId, 'supports')).resolves.toMatch(/^wo:link:mtg:/);
+    expect(meetingUidMappingsStore.get).not.toHaveBeenCalled();
+  });
+
   it('throws SOURCE_NOT_FOUND when source does not exist', async () => {
     vi.mocked(workObjectsStore.get).mockResolvedValue(null);
     vi.mocked(meetingsStore.get).mockResolvedValue(null); // No embedded objects either
@@ -0,0 +1,64 @@
+/**
+ * WorkLink Store Tests
+ *
+ * Runs the same-series link rule against the real stores, with meeting
+ * scopes built from MeetingState IDs the way the UI builds them.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { resetTestDB } from '@/test/fake-db';
+import { saveMeeting, addMarker } from '../storage-api';
+import { getOrCreateMeetingUid } from '../meeting-uid-api';
+import { createWorkLink, getActiveLinksForWorkObject, LinkValidationError } from '../work-object-api';
+import { createWorkObjectId } from '../work-object-id';
+import type { MeetingState } from '../types';
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = Date.UTC(2026, 9, 12, 9);
+
+async function saveCalendarMeeting(id: string, iCalUid: string, startTime: number): Promise<string> {
+  const meeting: MeetingState = {
+    id,
+    title: id,
+    startTime,
+    endTime: startTime + 30 * 60 * 1000,
+    attendees: [],
+    my3Goals: [],
+    markers: [],
+    synthesisCompleted: false,
+    createdAt: 0,
+    updatedAt: 0,
+  };
+  await saveMeeting(meeting);
+  await getOrCreateMeetingUid(
+    { id: `evt-${id}`, iCalUid, title: id, startTime, endTime: meeting.endTime, attendees: [], isAllDay: false },
+    id
+  );
+  const markerId = await addMarker(id, 'action', `Follow up from ${id}`);
+  return createWorkObjectId('marker', id, markerId);
+}
+
+beforeEach(() => {
+  resetTestDB();
+});
+
+describe('createWorkLink across meetings', () => {
+  it('links markers in instances of the same series', async () => {
+    const monday = await saveCalendarMeeting('standup-mon', 'standup@example.com', START);
+    const tuesday = await saveCalendarMeeting('standup-tue', 'standup@example.com', START + DAY);
+
+    const linkId = await createWorkLink(tuesday, monday, 'related');
+
+    expect((await getActiveLinksForWorkObject(monday)).map((l) => l.id)).toEqual([linkId]);
+  });
+
+  it('throws CROSS_SERIES for meetings in different series', async () => {
+    const standup = await saveCalendarMeeting('standup-mon', 'standup@example.com', START);
+    const review = await saveCalendarMeeting('review-mon', 'review@example.com', START + DAY);
+
+    await expect(createWorkLink(review, standup, 'related')).rejects.toMatchObject({
+      name: LinkValidationError.name,
+      code: 'CROSS_SERIES',
+    });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * WorkObject ID Tests
+ *
+ * Tests for scope parsing and the cross-scope link policy.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  parseWorkObjectId,
+  buildProjectScope,
+  buildSeriesScope,
+  getScopeKind,
+  getScopeId,
+  getScopeLinkRule,
+  createScopedWorkObjectId,
+} from '../work-object-id';
+
+describe('parseWorkObjectId', () => {
+  it('parses project and series scopes', () => {
+    expect(parseWorkObjectId('wo:note:project:launch:n1')).toEqual({
+      prefix: 'wo',
+      type: 'note',
+      scope: 'project:launch',
+      localId: 'n1',
+    });
+    expect(parseWorkObjectId('wo:note:series:standup@google.com:n1')?.scope).toBe(
+      'series:standup@google.com'
+    );
+  });
+
+  it('rejects unknown or empty scopes', () => {
+    expect(parseWorkObjectId('wo:note:team:abc:n1')).toBeNull();
+    expect(parseWorkObjectId('wo:note:project::n1')).toBeNull();
+  });
+
+  it('round-trips scopes built by the factory', () => {
+    const id = createScopedWorkObjectId('group', buildSeriesScope('weekly'), 'g1');
+    const parsed = parseWorkObjectId(id)!;
+
+    expect(getScopeKind(parsed.scope)).toBe('series');
+    expect(getScopeId(parsed.scope)).toBe('weekly');
+  });
+
+  it('keeps UIDs containing colons out of the local ID', () => {
+    const id = createScopedWorkObjectId('note', buildSeriesScope('urn:uuid:1234@example.com'), 'n1');
+    const parsed = parseWorkObjectId(id)!;
+
+    expect(parsed.localId).toBe('n1');
+    expect(getScopeKind(parsed.scope)).toBe('series');
+    expect(getScopeId(parsed.scope)).toBe('urn:uuid:1234@example.com');
+  });
+});
+
+describe('getScopeLinkRule', () => {
+  const project = createScopedWorkObjectId('note', buildProjectScope('p1'), 'n1');
+  const series = createScopedWorkObjectId('note', buildSeriesScope('r1'), 'n1');
+
+  it('treats identical scopes as same_scope', () => {
+    expect(getScopeLinkRule('wo:marker:mtg:a:m1', 'wo:goal:mtg:a:g1')).toBe('same_scope');
+  });
+
+  it('requires a shared series between meetings and series', () => {
+    expect(getScopeLinkRule('wo:marker:mtg:a:m1', 'wo:marker:mtg:b:m1')).toBe('same_series');
+    expect(getScopeLinkRule('wo:marker:mtg:a:m1', series)).toBe('same_series');
+  });
+
+  it('allows linking into projects', () => {
+    expect(getScopeLinkRule('wo:marker:mtg:a:m1', project)).toBe('allowed');
+    expect(getScopeLinkRule(series, project)).toBe('allowed');
+  });
+
+  it('denies session scopes and distinct series', () => {
+    expect(getScopeLinkRule('wo:note:session:s1:n1', 'wo:marker:mtg:a:m1')).toBe('denied');
+    expect(getScopeLinkRule('wo:note:session:s1:n1', project)).toBe('denied');
+    expect(getScopeLinkRule(series, 'wo:note:series:r2:n1')).toBe('denied');
+  });
+
+  it('returns null for invalid IDs', () => {
+    expect(getScopeLinkRule('not-an-id', project)).toBeNull();
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * WorkObject Update Tests
+ *
+ * Tests for editing WorkObjects and toggling flags.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { updateWorkObject, setWorkObjectFlag, getSetFlags } from '../work-object-api';
+import type { WorkObject } from '../work-object-types';
+
+vi.mock('../db', () => ({
+  workObjectsStore: {
+    get: vi.fn(),
+    put: vi.fn(),
+  },
+  workLinksStore: {},
+  workObjectFlagsStore: {
+    put: vi.fn(),
+    getAll: vi.fn(),
+  },
+  meetingsStore: {},
+}));
+
+vi.mock('../storage-api', () => ({
+  logEvent: vi.fn(),
+}));
+
+import { workObjectsStore, workObjectFlagsStore } from '../db';
+import { logEvent } from '../storage-api';
+
+const marker: WorkObject = {
+  id: 'wo:marker:mtg:m1:m1',
+  type: 'marker',
+  source: 'user',
+  title: 'Old label',
+  payload: { markerType: 'action', timestamp: 1 },
+  createdAtIso: '2026-01-01T00:00:00.000Z',
+  updatedAtIso: '2026-01-01T00:00:00.000Z',
+};
+
+describe('updateWorkObject', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('updates the title and merges payload changes', async () => {
+    vi.mocked(workObjectsStore.get).mockResolvedValue({ ...marker, payload: { ...marker.payload } });
+
+    const updated = await updateWorkObject(marker.id, {
+      title: 'New label',
+      payload: { markerType: 'decision' },
+    });
+
+    expect(updated).toMatchObject({
+      title: 'New label',
+      payload: { markerType: 'decision', timestamp: 1 },
+    });
+    expect(updated!.updatedAtIso).not.toBe(marker.updatedAtIso);
+    expect(workObjectsStore.put).toHaveBeenCalledWith(updated);
+    expect(logEvent).toHaveBeenCalledWith('work_object_updated', {
+      workObjectId: marker.id,
+      type: 'marker',
+      fields: ['title', 'payload.markerType'],
+    });
+  });
+
+  it('returns null for deleted objects', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.mocked(workObjectsStore.get).mockResolvedValue({ ...marker, deletedAtIso: '2026-01-02T00:00:00.000Z' });
+
+    expect(await updateWorkObject(marker.id, { title: 'x' })).toBeNull();
+    expect(workObjectsStore.put).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
+
+describe('setWorkObjectFlag', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('stores the flag record and logs flag_toggled', async () => {
+    const flag = await setWorkObjectFlag(marker.id, 'risk', true);
+
+    expect(flag).toMatchObject({ workObjectId: marker.id, flagType: 'risk', isSet: true, setBy: 'user' });
+    expect(workObjectFlagsStore.put).toHaveBeenCalledWith(flag);
+    expect(logEvent).toHaveBeenCalledWith('flag_toggled', {
+      workObjectId: marker.id,
+      flagType: 'risk',
+      isSet: true,
+      setBy: 'user',
+    });
+  });
+
+  it('getSetFlags excludes cleared flags', async () => {
+    vi.mocked(workObjectFlagsStore.getAll).mockResolvedValue([
+      { workObjectId: 'a', flagType: 'risk', isSet: true, setAtIso: '', setBy: 'user' },
+      { workObjectId: 'b', flagType: 'risk', isSet: false, setAtIso: '', setBy: 'user' },
+    ]);
+
+    const flags = await getSetFlags();
+    expect(flags.map((f) => f.workObjectId)).toEqual(['a']);
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Action Item API
+ *
+ * Owner, due date and open/done/dropped status for action markers,
+ * plus the cross-meeting open actions query used by neutral mode.
+ * Details live on the StoredMarker and are mirrored into the marker's
+ * WorkObject payload when one exists.
+ */
+
+import { meetingsStore, workObjectsStore } from './db';
+import { logEvent } from './storage-api';
+import { updateWorkObject } from './work-object-api';
+import { createWorkObjectId } from './work-object-id';
+import type { ActionDetails, ActionStatus, MeetingState, StoredMarker } from './types';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Error thrown when an action update fails validation.
+ */
+export class ActionValidationError extends Error {
+  constructor(
+    message: string,
+    public readonly code:
+      | 'MEETING_NOT_FOUND'
+      | 'MARKER_NOT_FOUND'
+      | 'NOT_AN_ACTION'
+      | 'UNKNOWN_OWNER'
+      | 'INVALID_DUE_DATE'
+  ) {
+    super(message);
+    this.name = 'ActionValidationError';
+  }
+}
+
+/**
+ * Changes to an action. `null` clears owner or due date.
+ */
+export interface ActionChanges {
+  owner?: string | null;
+  dueDate?: string | null;
+  status?: ActionStatus;
+}
+
+/**
+ * An action marker flattened with its meeting, for cross-meeting lists.
+ */
+export interface ActionItem {
+  workObjectId: string;
+  meetingId: string;
+  meetingTitle: string;
+  meetingStartTime: number;
+  markerId: string;
+  label: string;
+  owner?: string;
+  dueDate?: string;
+  status: ActionStatus;
+}
+
+const DUE_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Get an action marker's details, defaulting to open and unassigned.
+ */
+export function getActionDetails(marker: StoredMarker): ActionDetails {
+  return marker.action ?? { status: 'open' };
+}
+
+/**
+ * A date as YYYY-MM-DD in the local time zone, the format of due dates.
+ * (toISOString() gives the UTC date, which is a day off around midnight.)
+ */
+export function toLocalDateString(date: Date = new Date()): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Check whether an action is open and past its due date.
+ *
+ * @param today - Today's date as YYYY-MM-DD
+ */
+export function isActionOverdue(item: Pick<ActionItem, 'status' | 'dueDate'>, today: string): boolean {
+  return item.status === 'open' && !!item.dueDate && item.dueDate < today;
+}
+
+/**
+ * Flatten the live action markers of the given meetings. Actions carried
+ * forward or closed in a later instance of their series are left out; a
+ * carried-forward action lives on as its copy in the later meeting.
+ */
+export function collectActionItems(meetings: MeetingState[]): ActionItem[] {
+  return meetings.flatMap((meeting) =>
+    meeting.markers
+      .filter((marker) => marker.type === 'action' && !marker.deletedAt && !marker.carryOver)
+      .map((marker) => {
+        const details = getActionDetails(marker);
+        return {
+          workObjectId: createWorkObjectId('marker', meeting.id, marker.id),
+          meetingId: meeting.id,
+          meetingTitle: meeting.title,
+          meetingStartTime: meeting.startTime,
+          markerId: marker.id,
+          label: marker.label ?? '',
+          owner: details.owner,
+          dueDate: details.dueDate,
+          status: details.status,
+        };
+      })
+  );
+}
+
+/**
+ * Order actions by due date (undated last), then most recent meeting first.
+ */
+export function sortActionItems(items: ActionItem[]): ActionItem[] {
+  return [...items].sort((a, b) => {
+    if (a.dueDate !== b.dueDate) {
+      if (!a.dueDate) return 1;
+      if (!b.dueDate) return -1;
+      return a.dueDate < b.dueDate ? -1 : 1;
+    }
+    return b.meetingStartTime - a.meetingStartTime;
+  });
+}
+
+// ============================================
+// Operations
+// ============================================
+
+/**
+ * Update the owner, due date or status of an action marker.
+ *
+ * @returns The updated action details
+ * @throws ActionValidationError if the marker is not an action, the owner is
+ *         not a meeting attendee, or the due date is not YYYY-MM-DD
+ */
+export async function updateActionMarker(
+  meetingId: string,
+  markerId: string,
+  changes: ActionChanges
+): Promise<ActionDetails> {
+  const meeting = await meetingsStore.get(meetingId);
+  if (!meeting) {
+    throw new ActionValidationError(`Meeting ${meetingId} not found`, 'MEETING_NOT_FOUND');
+  }
+
+  const marker = meeting.markers.find((m) => m.id === markerId && !m.deletedAt);
+  if (!marker) {
+    throw new ActionValidationError(`Marker ${markerId} not found`, 'MARKER_NOT_FOUND');
+  }
+  if (marker.type !== 'action') {
+    throw new ActionValidationError(`Marker ${markerId} is a ${marker.type}, not an action`, 'NOT_AN_ACTION');
+  }
+  if (changes.owner && !meeting.attendees.includes(changes.owner)) {
+    throw new ActionValidationError(`${changes.owner} is not an attendee of this meeting`, 'UNKNOWN_OWNER');
+  }
+  if (changes.dueDate && !DUE_DATE_PATTERN.test(changes.dueDate)) {
+    throw new ActionValidationError(`Invalid due date: ${changes.dueDate}`, 'INVALID_DUE_DATE');
+  }
+
+  const details: ActionDetails = { ...getActionDetails(marker) };
+  if (changes.owner !== undefined) {
+    details.owner = changes.owner || undefined;
+  }
+  if (changes.dueDate !== undefined) {
+    details.dueDate = changes.dueDate || undefined;
+  }
+  if (changes.status && changes.status !== details.status) {
+    details.status = changes.status;
+    details.statusChangedAt = Date.now();
+  }
+
+  marker.action = details;
+  meeting.updatedAt = Date.now();
+  await meetingsStore.put(meeting);
+  await logEvent('action_updated', { meetingId, markerId, ...changes });
+
+  // Keep the marker's WorkObject in step when it has one
+  const workObjectId = createWorkObjectId('marker', meetingId, markerId);
+  if (await workObjectsStore.get(workObjectId)) {
+    await updateWorkObject(workObjectId, { payload: { action: details } });
+  }
+
+  return details;
+}
+
+/**
+ * Get open actions across all meetings, optionally for one owner.
+ */
+export async function getOpenActions(filter: { owner?: string } = {}): Promise<ActionItem[]> {
+  const meetings = await meetingsStore.getAll();
+  const open = collectActionItems(meetings).filter(
+    (item) => item.status === 'open' && (!filter.owner || item.owner === filter.owner)
+  );
+  return sortActionItems(open);
+}
@@ -0,0 +1,366 @@
+/**
+ * Database Backup
+ *
+ * Versioned export/import bundle covering every IndexedDB store.
+ * Storage is local-only, so this is the supported way to move data
+ * between browsers and machines.
+ *
+ * Unlike tombstone exports (tombstone-compaction.ts), a backup contains
+ * all records, active and tombstoned, so an import is a faithful restore.
+ */
+
+import { getAllRecords, writeStores, type StoreWrite } from './db';
+import { logEvent } from './storage-api';
+import { DB_VERSION, STORE_NAMES } from './types';
+import type { MeetingUidMapping } from './work-object-types';
+
+// ============================================
+// Format
+// ============================================
+
+/** Format identifier written into every backup */
+export const BACKUP_FORMAT = 'agentic-interface-backup';
+
+/** Version of the bundle layout (independent of DB_VERSION) */
+export const BACKUP_FORMAT_VERSION = 1;
+
+export type BackupStoreName = (typeof STORE_NAMES)[keyof typeof STORE_NAMES];
+
+export interface DatabaseBackup {
+  format: typeof BACKUP_FORMAT;
+  formatVersion: number;
+  /** DB_VERSION of the database the backup was taken from */
+  schemaVersion: number;
+  exportedAt: string;
+  /** Raw records keyed by store name */
+  stores: Record<BackupStoreName, unknown[]>;
+  summary: {
+    recordCounts: Record<BackupStoreName, number>;
+    totalRecords: number;
+  };
+}
+
+/**
+ * How an import combines with existing data.
+ * - merge: upsert records, keeping the local copy when it is newer. A meeting
+ *   UID mapping for a calendar instance that is already mapped locally is
+ *   skipped (another machine generates a different UID for the same event).
+ * - replace: clear every store before writing the backup
+ */
+export type BackupImportMode = 'merge' | 'replace';
+
+export interface BackupImportResult {
+  mode: BackupImportMode;
+  /** Records written per store */
+  written: Record<BackupStoreName, number>;
+  /** Records skipped per store because the local copy was newer or already mapped (merge only) */
+  skipped: Record<BackupStoreName, number>;
+  importedAt: string;
+}
+
+/**
+ * Error thrown when a backup fails validation.
+ */
+export class BackupValidationError extends Error {
+  constructor(
+    message: string,
+    public readonly code:
+      | 'INVALID_JSON'
+      | 'INVALID_FORMAT'
+      | 'UNSUPPORTED_FORMAT_VERSION'
+      | 'SCHEMA_VERSION_MISMATCH'
+      | 'INVALID_STORE'
+  ) {
+    super(message);
+    this.name = 'BackupValidationError';
+  }
+}
+
+const ALL_STORES = Object.values(STORE_NAMES) as BackupStoreName[];
+
+/**
+ * Key path of each store, mirroring initializeStores() in db.ts.
+ * Used to match incoming records against existing ones during merge.
+ */
+const STORE_KEY_PATHS: Record<BackupStoreName, string[]> = {
+  events: ['id'],
+  meetings: ['id'],
+  intents: ['id'],
+  aggregates: ['id'],
+  meetingUidMappings: ['meetingUid'],
+  meetingMetadata: ['meetingUid'],
+  workObjects: ['id'],
+  workObjectFlags: ['workObjectId', 'flagType'],
+  workLinks: ['id'],
+  timingSettings: ['id'],
+  modeRules: ['id'],
+  markerTypes: ['id'],
+  transcriptSegments: ['id'],
+  canvasPositions: ['workObjectId'],
+};
+
+// ============================================
+// Export
+// ============================================
+
+/**
+ * Read every store into a versioned backup bundle.
+ */
+export async function exportDatabase(): Promise<DatabaseBackup> {
+  const results = await Promise.all(
+    ALL_STORES.map((name) => getAllRecords<unknown>(name))
+  );
+
+  const stores = {} as Record<BackupStoreName, unknown[]>;
+  const recordCounts = {} as Record<BackupStoreName, number>;
+  let totalRecords = 0;
+
+  ALL_STORES.forEach((name, i) => {
+    stores[name] = results[i];
+    recordCounts[name] = results[i].length;
+    totalRecords += results[i].length;
+  });
+
+  await logEvent('database_exported', { totalRecords, schemaVersion: DB_VERSION });
+
+  return {
+    format: BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    schemaVersion: DB_VERSION,
+    exportedAt: new Date().toISOString(),
+    stores,
+    summary: { recordCounts, totalRecords },
+  };
+}
+
+/**
+ * Export the database as a downloadable JSON blob.
+ */
+export async function createBackupBlob(): Promise<Blob> {
+  const backup = await exportDatabase();
+  return new Blob([JSON.stringify(backup, null, 2)], {
+    type: 'application/json',
+  });
+}
+
+/**
+ * Generate a filename for a full database backup.
+ */
+export function generateBackupFilename(): string {
+  const date = new Date().toISOString().split('T')[0];
+  return `agentic-interface-backup-${date}.json`;
+}
+
+// ============================================
+// Validation
+// ============================================
+
+/**
+ * Validate an unknown value as a backup bundle.
+ *
+ * Backups from an older schema are accepted (stores that did not exist yet
+ * are treated as empty). Backups from a newer schema are rejected, since
+ * this build cannot know how to read them.
+ */
+export function validateBackup(data: unknown): DatabaseBackup {
+  if (!data || typeof data !== 'object') {
+    throw new BackupValidationError('Backup is not an object', 'INVALID_FORMAT');
+  }
+
+  const candidate = data as Partial<DatabaseBackup>;
+
+  if (candidate.format !== BACKUP_FORMAT) {
+    throw new BackupValidationError(
+      `Unrecognized backup format: ${String(candidate.format)}`,
+      'INVALID_FORMAT'
+    );
+  }
+
+  if (candidate.formatVersion !== BACKUP_FORMAT_VERSION) {
+    throw new BackupValidationError(
+      `Unsupported backup format version: ${String(candidate.formatVersion)}`,
+      'UNSUPPORTED_FORMAT_VERSION'
+    );
+  }
+
+  if (
+    typeof candidate.schemaVersion !== 'number' ||
+    candidate.schemaVersion < 1 ||
+    candidate.schemaVersion > DB_VERSION
+  ) {
+    throw new BackupValidationError(
+      `Backup schema version ${String(candidate.schemaVersion)} is not compatible with database version ${DB_VERSION}`,
+      'SCHEMA_VERSION_MISMATCH'
+    );
+  }
+
+  if (!candidate.stores || typeof candidate.stores !== 'object') {
+    throw new BackupValidationError('Backup has no stores', 'INVALID_FORMAT');
+  }
+
+  const stores = {} as Record<BackupStoreName, unknown[]>;
+  for (const name of ALL_STORES) {
+    const records = (candidate.stores as Record<string, unknown>)[name];
+    if (records === undefined) {
+      stores[name] = [];
+      continue;
+    }
+    if (!Array.isArray(records)) {
+      throw new BackupValidationError(`Store "${name}" is not an array`, 'INVALID_STORE');
+    }
+    for (const record of records) {
+      if (!hasKey(name, record)) {
+        throw new BackupValidationError(
+          `Store "${name}" contains a record without its key (${STORE_KEY_PATHS[name].join(', ')})`,
+          'INVALID_STORE'
+        );
+      }
+    }
+    stores[name] = records;
+  }
+
+  return { ...(candidate as DatabaseBackup), stores };
+}
+
+/**
+ * Parse and validate backup JSON text (e.g. from a file input).
+ */
+export function parseBackup(text: string): DatabaseBackup {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new BackupValidationError('Backup is not valid JSON', 'INVALID_JSON');
+  }
+  return validateBackup(data);
+}
+
+// ============================================
+// Import
+// ============================================
+
+/**
+ * Import a validated backup into the database.
+ *
+ * The backup is validated and every write planned before anything is
+ * written; all stores are then written in one transaction, so a failed
+ * import leaves the database untouched.
+ *
+ * @param backup - Output of validateBackup() / parseBackup()
+ * @param mode - 'merge' (default) or 'replace'
+ */
+export async function importDatabase(
+  backup: DatabaseBackup,
+  mode: BackupImportMode = 'merge'
+): Promise<BackupImportResult> {
+  const validated = validateBackup(backup);
+
+  const written = {} as Record<BackupStoreName, number>;
+  const skipped = {} as Record<BackupStoreName, number>;
+  const writes: StoreWrite[] = [];
+
+  for (const name of ALL_STORES) {
+    const incoming = validated.stores[name];
+
+    if (mode === 'replace') {
+      writes.push({ storeName: name, clear: true, records: incoming });
+      written[name] = incoming.length;
+      skipped[name] = 0;
+      continue;
+    }
+
+    const existing = await getAllRecords<unknown>(name);
+    const existingByKey = new Map(existing.map((r) => [recordKey(name, r), r]));
+
+    let toWrite = incoming.filter((record) => {
+      const local = existingByKey.get(recordKey(name, record));
+      return !local || !isNewer(local, record);
+    });
+    if (name === STORE_NAMES.meetingUidMappings) {
+      toWrite = dropMappedInstances(existing, toWrite);
+    }
+
+    writes.push({ storeName: name, records: toWrite });
+    written[name] = toWrite.length;
+    skipped[name] = incoming.length - toWrite.length;
+  }
+
+  await writeStores(writes);
+
+  const importedAt = new Date().toISOString();
+
+  await logEvent('database_imported', {
+    mode,
+    schemaVersion: validated.schemaVersion,
+    exportedAt: validated.exportedAt,
+    recordsWritten: Object.values(written).reduce((a, b) => a + b, 0),
+    recordsSkipped: Object.values(skipped).reduce((a, b) => a + b, 0),
+  });
+
+  return { mode, written, skipped, importedAt };
+}
+
+// ============================================
+// Helper Functions
+// ============================================
+
+function hasKey(storeName: BackupStoreName, record: unknown): boolean {
+  if (!record || typeof record !== 'object') return false;
+  return STORE_KEY_PATHS[storeName].every((path) => {
+    const value = (record as Record<string, unknown>)[path];
+    return typeof value === 'string' || typeof value === 'number';
+  });
+}
+
+function recordKey(storeName: BackupStoreName, record: unknown): string {
+  const r = record as Record<string, unknown>;
+  return STORE_KEY_PATHS[storeName].map((path) => String(r[path])).join('\u0000');
+}
+
+/**
+ * Drop incoming mappings for a calendar instance (iCalUID + start time)
+ * already mapped to another meeting UID, locally or earlier in the backup.
+ * The store's iCalUid_startTime index is unique, so writing them would fail.
+ */
+function dropMappedInstances(existing: unknown[], incoming: unknown[]): unknown[] {
+  const instanceKey = (m: MeetingUidMapping) => `${m.iCalUid}\u0000${m.startTimeIso}`;
+  const owners = new Map(
+    (existing as MeetingUidMapping[]).map((m) => [instanceKey(m), m.meetingUid])
+  );
+
+  return incoming.filter((record) => {
+    const mapping = record as MeetingUidMapping;
+    const owner = owners.get(instanceKey(mapping));
+    if (owner !== undefined && owner !== mapping.meetingUid) {
+      return false;
+    }
+    owners.set(instanceKey(mapping), mapping.meetingUid);
+    return true;
+  });
+}
+
+/**
+ * Best-effort revision timestamp for a record, across store shapes.
+ * Returns null when the record carries no comparable timestamp.
+ */
+function revisionTime(record: unknown): number | null {
+  const r = record as Record<string, unknown>;
+  if (typeof r.updatedAt === 'number') return r.updatedAt;
+  const iso = r.updatedAtIso ?? r.setAtIso ?? r.deletedAtIso ?? r.createdAtIso;
+  if (typeof iso === 'string') {
+    const time = new Date(iso).getTime();
+    return Number.isNaN(time) ? null : time;
+  }
+  return null;
+}
+
+/**
+ * Whether the local record is strictly newer than the incoming one.
+ * Records without timestamps are treated as equal, so the backup wins.
+ */
+function isNewer(local: unknown, incoming: unknown): boolean {
+  const localTime = revisionTime(local);
+  const incomingTime = revisionTime(incoming);
+  if (localTime === null || incomingTime === null) return false;
+  return localTime > incomingTime;
+}
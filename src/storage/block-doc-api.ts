@@ -0,0 +1,183 @@
+/**
+ * Block Document API
+ *
+ * Persistence for the block-document lens. Each block is a `note`
+ * WorkObject in the scope of its meeting (or session), so blocks can be
+ * linked to markers and goals like any other WorkObject.
+ *
+ * A scope holds a single document; block order is a fractional `order`
+ * value in the payload so inserts never renumber siblings.
+ */
+
+import { workObjectsStore } from './db';
+import { logEvent } from './storage-api';
+import { workObjectIds, parseWorkObjectId } from './work-object-id';
+import { softDeleteWorkObject } from './work-object-api';
+import type { WorkObject, WorkObjectScope } from './work-object-types';
+
+// ============================================
+// Types
+// ============================================
+
+export type BlockType = 'paragraph' | 'heading' | 'checklist' | 'quote';
+
+export const BLOCK_TYPES: BlockType[] = ['paragraph', 'heading', 'checklist', 'quote'];
+
+/**
+ * Payload stored on a block's note WorkObject.
+ */
+export interface BlockPayload {
+  kind: 'block';
+  blockType: BlockType;
+  text: string;
+  /** Checklist state (only meaningful for checklist blocks) */
+  checked: boolean;
+  /** Fractional sort key within the document */
+  order: number;
+}
+
+/**
+ * A document block as seen by the editor.
+ */
+export interface DocBlock {
+  /** WorkObject ID: wo:note:<scope>:<uuid> */
+  id: string;
+  blockType: BlockType;
+  text: string;
+  checked: boolean;
+  order: number;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/** Max title length copied from block text */
+const TITLE_MAX_LENGTH = 80;
+
+function isBlockObject(obj: WorkObject): boolean {
+  return obj.type === 'note' && (obj.payload as Partial<BlockPayload> | undefined)?.kind === 'block';
+}
+
+function toDocBlock(obj: WorkObject): DocBlock {
+  const payload = obj.payload as unknown as BlockPayload;
+  return {
+    id: obj.id,
+    blockType: payload.blockType,
+    text: payload.text,
+    checked: payload.checked,
+    order: payload.order,
+  };
+}
+
+/**
+ * Sort key between two neighbours. Either bound may be missing
+ * (insert at start or end of the document).
+ */
+export function orderBetween(before?: number, after?: number): number {
+  if (before === undefined && after === undefined) return 1;
+  if (before === undefined) return after! - 1;
+  if (after === undefined) return before + 1;
+  return (before + after) / 2;
+}
+
+// ============================================
+// Queries
+// ============================================
+
+/**
+ * Get the active blocks of the document in a scope, in display order.
+ */
+export async function getDocBlocks(scope: WorkObjectScope): Promise<DocBlock[]> {
+  const notes = await workObjectsStore.getByType('note');
+  return notes
+    .filter(
+      (obj) =>
+        !obj.deletedAtIso &&
+        isBlockObject(obj) &&
+        parseWorkObjectId(obj.id)?.scope === scope
+    )
+    .map(toDocBlock)
+    .sort((a, b) => a.order - b.order);
+}
+
+// ============================================
+// Mutations
+// ============================================
+
+/**
+ * Create a block in a scope's document.
+ */
+export async function createDocBlock(
+  scope: WorkObjectScope,
+  block: { blockType: BlockType; text?: string; order: number }
+): Promise<DocBlock> {
+  const now = new Date().toISOString();
+  const text = block.text ?? '';
+  const payload: BlockPayload = {
+    kind: 'block',
+    blockType: block.blockType,
+    text,
+    checked: false,
+    order: block.order,
+  };
+
+  const obj: WorkObject = {
+    id: workObjectIds.noteInScope(scope),
+    type: 'note',
+    source: 'user',
+    title: text.slice(0, TITLE_MAX_LENGTH) || undefined,
+    payload: payload as unknown as Record<string, unknown>,
+    createdAtIso: now,
+    updatedAtIso: now,
+  };
+
+  await workObjectsStore.put(obj);
+  await logEvent('work_object_created', {
+    workObjectId: obj.id,
+    type: 'note',
+    blockType: block.blockType,
+  });
+
+  return toDocBlock(obj);
+}
+
+/**
+ * Update a block's type, text or checked state.
+ * No-op (with a warning) if the block is missing or deleted.
+ */
+export async function updateDocBlock(
+  id: string,
+  changes: Partial<Pick<DocBlock, 'blockType' | 'text' | 'checked'>>
+): Promise<DocBlock | null> {
+  const obj = await workObjectsStore.get(id);
+  if (!obj || obj.deletedAtIso || !isBlockObject(obj)) {
+    console.warn(`[BlockDocAPI] Cannot update: block not found: ${id}`);
+    return null;
+  }
+
+  const payload: BlockPayload = {
+    ...(obj.payload as unknown as BlockPayload),
+    ...changes,
+  };
+
+  obj.payload = payload as unknown as Record<string, unknown>;
+  obj.title = payload.text.slice(0, TITLE_MAX_LENGTH) || undefined;
+  obj.updatedAtIso = new Date().toISOString();
+
+  await workObjectsStore.put(obj);
+  await logEvent('work_object_updated', {
+    workObjectId: id,
+    type: 'note',
+    fields: Object.keys(changes),
+  });
+
+  return toDocBlock(obj);
+}
+
+/**
+ * Soft-delete a block (tombstoned like any WorkObject).
+ */
+export async function deleteDocBlock(id: string): Promise<void> {
+  await softDeleteWorkObject(id);
+}
@@ -0,0 +1,24 @@
+/**
+ * Canvas Position API
+ *
+ * Card positions for the canvas lens, keyed by WorkObject ID. Positions live
+ * in their own store rather than a WorkObject payload because captured
+ * markers and goals have no stored WorkObject.
+ */
+
+import { canvasPositionsStore } from './db';
+
+/**
+ * Saved card positions by WorkObject ID.
+ */
+export async function getCanvasPositions(): Promise<Record<string, { x: number; y: number }>> {
+  const records = await canvasPositionsStore.getAll();
+  return Object.fromEntries(records.map(({ workObjectId, x, y }) => [workObjectId, { x, y }]));
+}
+
+/**
+ * Save where a card was dropped.
+ */
+export async function saveCanvasPosition(workObjectId: string, position: { x: number; y: number }): Promise<void> {
+  await canvasPositionsStore.put({ workObjectId, x: position.x, y: position.y, updatedAt: Date.now() });
+}
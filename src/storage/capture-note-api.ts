@@ -0,0 +1,230 @@
+/**
+ * Capture Note API
+ *
+ * Free-text notes taken during Live Capture. Each note is a `note`
+ * WorkObject in its meeting's scope (wo:note:mtg:<uid>:<uuid>) with a
+ * timestamp relative to the meeting start. A note can be promoted into a
+ * marker of any registered type; the note stays and records the marker it
+ * became.
+ */
+
+import { workObjectsStore, meetingsStore } from './db';
+import { logEvent, addMarker } from './storage-api';
+import { workObjectIds, parseWorkObjectId, buildScope, getMeetingUidFromScope, isMeetingScope } from './work-object-id';
+import { softDeleteWorkObject } from './work-object-api';
+import type { WorkObject } from './work-object-types';
+import type { MarkerType } from './types';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Payload stored on a capture note's WorkObject.
+ */
+export interface CaptureNotePayload {
+  kind: 'capture_note';
+  text: string;
+  /** When the note was taken (ms timestamp) */
+  capturedAt: number;
+  /** Milliseconds since the meeting's scheduled start (negative if early) */
+  offsetMs: number;
+  /** Marker this note was promoted into */
+  promotedTo?: { markerId: string; type: MarkerType };
+}
+
+/**
+ * A capture note as seen by the note stream.
+ */
+export interface CaptureNote {
+  /** WorkObject ID: wo:note:mtg:<uid>:<uuid> */
+  id: string;
+  text: string;
+  capturedAt: number;
+  offsetMs: number;
+  promotedTo?: CaptureNotePayload['promotedTo'];
+}
+
+/**
+ * Error thrown when a capture note operation fails validation.
+ */
+export class CaptureNoteError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'EMPTY_TEXT' | 'MEETING_NOT_FOUND' | 'NOTE_NOT_FOUND' | 'ALREADY_PROMOTED'
+  ) {
+    super(message);
+    this.name = 'CaptureNoteError';
+  }
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/** Max title length copied from note text */
+const TITLE_MAX_LENGTH = 80;
+
+/** Max marker label length (matches the capture label input) */
+const MARKER_LABEL_MAX_LENGTH = 50;
+
+function isCaptureNote(obj: WorkObject): boolean {
+  return obj.type === 'note' && (obj.payload as Partial<CaptureNotePayload> | undefined)?.kind === 'capture_note';
+}
+
+function toCaptureNote(obj: WorkObject): CaptureNote {
+  const payload = obj.payload as unknown as CaptureNotePayload;
+  return {
+    id: obj.id,
+    text: payload.text,
+    capturedAt: payload.capturedAt,
+    offsetMs: payload.offsetMs,
+    promotedTo: payload.promotedTo,
+  };
+}
+
+/**
+ * Format a note's offset from the meeting start, e.g. "+12:05" or "-2:00".
+ */
+export function formatNoteOffset(offsetMs: number): string {
+  const sign = offsetMs < 0 ? '-' : '+';
+  const totalSeconds = Math.floor(Math.abs(offsetMs) / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0
+    ? `${sign}${hours}:${String(minutes).padStart(2, '0')}:${seconds}`
+    : `${sign}${minutes}:${seconds}`;
+}
+
+/**
+ * Marker label for a promoted note: the text, shortened to fit.
+ */
+export function toMarkerLabel(text: string): string {
+  const trimmed = text.trim().replace(/\s+/g, ' ');
+  return trimmed.length <= MARKER_LABEL_MAX_LENGTH
+    ? trimmed
+    : `${trimmed.slice(0, MARKER_LABEL_MAX_LENGTH - 1)}…`;
+}
+
+// ============================================
+// Queries
+// ============================================
+
+/**
+ * Get a meeting's active capture notes, oldest first.
+ */
+export async function getCaptureNotes(meetingId: string): Promise<CaptureNote[]> {
+  const scope = buildScope(meetingId);
+  const notes = await workObjectsStore.getByType('note');
+  return notes
+    .filter(
+      (obj) =>
+        !obj.deletedAtIso &&
+        isCaptureNote(obj) &&
+        parseWorkObjectId(obj.id)?.scope === scope
+    )
+    .map(toCaptureNote)
+    .sort((a, b) => a.capturedAt - b.capturedAt);
+}
+
+// ============================================
+// Mutations
+// ============================================
+
+/**
+ * Take a note in a meeting, timestamped relative to the meeting's start.
+ *
+ * @throws CaptureNoteError if the text is empty or the meeting is unknown
+ */
+export async function createCaptureNote(meetingId: string, text: string): Promise<CaptureNote> {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    throw new CaptureNoteError('Note text is empty', 'EMPTY_TEXT');
+  }
+
+  const meeting = await meetingsStore.get(meetingId);
+  if (!meeting) {
+    throw new CaptureNoteError(`Meeting ${meetingId} not found`, 'MEETING_NOT_FOUND');
+  }
+
+  const capturedAt = Date.now();
+  const payload: CaptureNotePayload = {
+    kind: 'capture_note',
+    text: trimmed,
+    capturedAt,
+    offsetMs: capturedAt - meeting.startTime,
+  };
+
+  const nowIso = new Date(capturedAt).toISOString();
+  const obj: WorkObject = {
+    id: workObjectIds.note(meetingId),
+    type: 'note',
+    source: 'user',
+    title: trimmed.slice(0, TITLE_MAX_LENGTH),
+    payload: payload as unknown as Record<string, unknown>,
+    createdAtIso: nowIso,
+    updatedAtIso: nowIso,
+  };
+
+  await workObjectsStore.put(obj);
+  await logEvent('work_object_created', {
+    workObjectId: obj.id,
+    type: 'note',
+    kind: 'capture_note',
+    meetingId,
+  });
+
+  return toCaptureNote(obj);
+}
+
+/**
+ * Promote a note into a marker of the given type, labelled with the note's
+ * text. The note is kept and records the marker it became.
+ *
+ * @throws CaptureNoteError if the note is missing, deleted or already promoted
+ */
+export async function promoteCaptureNote(
+  noteId: string,
+  type: MarkerType
+): Promise<{ note: CaptureNote; markerId: string }> {
+  const obj = await workObjectsStore.get(noteId);
+  const scope = parseWorkObjectId(noteId)?.scope;
+  if (!obj || obj.deletedAtIso || !isCaptureNote(obj) || !scope || !isMeetingScope(scope)) {
+    throw new CaptureNoteError(`Capture note not found: ${noteId}`, 'NOTE_NOT_FOUND');
+  }
+
+  const payload = obj.payload as unknown as CaptureNotePayload;
+  if (payload.promotedTo) {
+    throw new CaptureNoteError(
+      `Note was already promoted to ${payload.promotedTo.type} ${payload.promotedTo.markerId}`,
+      'ALREADY_PROMOTED'
+    );
+  }
+
+  const meetingId = getMeetingUidFromScope(scope);
+  const markerId = await addMarker(meetingId, type, toMarkerLabel(payload.text));
+
+  const promoted: CaptureNotePayload = { ...payload, promotedTo: { markerId, type } };
+  obj.payload = promoted as unknown as Record<string, unknown>;
+  obj.updatedAtIso = new Date().toISOString();
+
+  await workObjectsStore.put(obj);
+  await logEvent('work_object_updated', {
+    workObjectId: noteId,
+    type: 'note',
+    fields: ['payload.promotedTo'],
+    promotedTo: type,
+    markerId,
+  });
+
+  return { note: toCaptureNote(obj), markerId };
+}
+
+/**
+ * Soft-delete a note (tombstoned like any WorkObject). A marker it was
+ * promoted into is kept.
+ */
+export async function deleteCaptureNote(id: string): Promise<void> {
+  await softDeleteWorkObject(id);
+}
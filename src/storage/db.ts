@@ -13,6 +13,11 @@ import {
   MeetingState,
   IntentItem,
   DailyAggregate,
+  StoredTimingSettings,
+  StoredModeRules,
+  StoredMarkerTypes,
+  StoredTranscriptSegment,
+  StoredCanvasPosition,
 } from './types';
 import type {
   MeetingUidMapping,
@@ -158,6 +163,32 @@ function initializeStores(db: IDBDatabase, tx: IDBTransaction | null): void {
     linkStore.createIndex('fromId', 'fromId', { unique: false });
     linkStore.createIndex('toId', 'toId', { unique: false });
   }
+
+  // Timing settings: global TimingConfig + per-meeting overrides
+  if (!db.objectStoreNames.contains(STORE_NAMES.timingSettings)) {
+    db.createObjectStore(STORE_NAMES.timingSettings, { keyPath: 'id' });
+  }
+
+  // Mode rules: user rule set replacing the default rules
+  if (!db.objectStoreNames.contains(STORE_NAMES.modeRules)) {
+    db.createObjectStore(STORE_NAMES.modeRules, { keyPath: 'id' });
+  }
+
+  // Marker types: team registry replacing the default marker types
+  if (!db.objectStoreNames.contains(STORE_NAMES.markerTypes)) {
+    db.createObjectStore(STORE_NAMES.markerTypes, { keyPath: 'id' });
+  }
+
+  // Transcript segments, queried per meeting UID
+  if (!db.objectStoreNames.contains(STORE_NAMES.transcriptSegments)) {
+    const transcriptStore = db.createObjectStore(STORE_NAMES.transcriptSegments, { keyPath: 'id' });
+    transcriptStore.createIndex('meetingUid', 'meetingUid', { unique: false });
+  }
+
+  // Canvas card positions, keyed by WorkObject ID
+  if (!db.objectStoreNames.contains(STORE_NAMES.canvasPositions)) {
+    db.createObjectStore(STORE_NAMES.canvasPositions, { keyPath: 'workObjectId' });
+  }
 }
 
 /**
@@ -211,6 +242,32 @@ export async function putRecord<T>(
   });
 }
 
+/**
+ * Put (upsert) multiple records in a store within a single transaction.
+ */
+export async function putRecords<T>(
+  storeName: string,
+  records: T[]
+): Promise<void> {
+  const db = await getDB();
+  return new Promise((resolve, reject) => {
+    if (records.length === 0) {
+      resolve();
+      return;
+    }
+
+    const tx = db.transaction(storeName, 'readwrite');
+    const store = tx.objectStore(storeName);
+
+    for (const record of records) {
+      store.put(record);
+    }
+
+    tx.onerror = () => reject(tx.error);
+    tx.oncomplete = () => resolve();
+  });
+}
+
 /**
  * Get a record by key.
  */
@@ -376,6 +433,48 @@ export async function clearStore(storeName: string): Promise<void> {
   });
 }
 
+/**
+ * One store's part of a writeStores() call.
+ */
+export interface StoreWrite {
+  storeName: string;
+  /** Clear the store before putting the records */
+  clear?: boolean;
+  records: unknown[];
+}
+
+/**
+ * Clear and put records across several stores in a single transaction.
+ * If any write fails the transaction aborts and no store is changed.
+ */
+export async function writeStores(writes: StoreWrite[]): Promise<void> {
+  const db = await getDB();
+  return new Promise((resolve, reject) => {
+    if (writes.length === 0) {
+      resolve();
+      return;
+    }
+
+    const tx = db.transaction(
+      writes.map((w) => w.storeName),
+      'readwrite'
+    );
+
+    for (const { storeName, clear, records } of writes) {
+      const store = tx.objectStore(storeName);
+      if (clear) {
+        store.clear();
+      }
+      for (const record of records) {
+        store.put(record);
+      }
+    }
+
+    tx.onabort = () => reject(tx.error);
+    tx.oncomplete = () => resolve();
+  });
+}
+
 // ============================================
 // Typed Store Operations
 // ============================================
@@ -479,3 +578,41 @@ export const workLinksStore = {
   delete: (id: string) => deleteRecord(STORE_NAMES.workLinks, id),
   clear: () => clearStore(STORE_NAMES.workLinks),
 };
+
+export const transcriptSegmentsStore = {
+  putMany: (records: StoredTranscriptSegment[]) => putRecords(STORE_NAMES.transcriptSegments, records),
+  getByMeetingUid: (meetingUid: string) =>
+    queryByIndex<StoredTranscriptSegment>(STORE_NAMES.transcriptSegments, 'meetingUid', meetingUid),
+  deleteMany: (ids: string[]) => deleteRecords(STORE_NAMES.transcriptSegments, ids),
+  clear: () => clearStore(STORE_NAMES.transcriptSegments),
+};
+
+export const canvasPositionsStore = {
+  put: (record: StoredCanvasPosition) => putRecord(STORE_NAMES.canvasPositions, record),
+  getAll: () => getAllRecords<StoredCanvasPosition>(STORE_NAMES.canvasPositions),
+  clear: () => clearStore(STORE_NAMES.canvasPositions),
+};
+
+// ============================================
+// Settings Store Operations
+// ============================================
+
+export const timingSettingsStore = {
+  put: (record: StoredTimingSettings) => putRecord(STORE_NAMES.timingSettings, record),
+  get: (id: string) => getRecord<StoredTimingSettings>(STORE_NAMES.timingSettings, id),
+  getAll: () => getAllRecords<StoredTimingSettings>(STORE_NAMES.timingSettings),
+  delete: (id: string) => deleteRecord(STORE_NAMES.timingSettings, id),
+  clear: () => clearStore(STORE_NAMES.timingSettings),
+};
+
+export const modeRulesStore = {
+  put: (record: StoredModeRules) => putRecord(STORE_NAMES.modeRules, record),
+  get: (id: string) => getRecord<StoredModeRules>(STORE_NAMES.modeRules, id),
+  delete: (id: string) => deleteRecord(STORE_NAMES.modeRules, id),
+};
+
+export const markerTypesStore = {
+  put: (record: StoredMarkerTypes) => putRecord(STORE_NAMES.markerTypes, record),
+  get: (id: string) => getRecord<StoredMarkerTypes>(STORE_NAMES.markerTypes, id),
+  delete: (id: string) => deleteRecord(STORE_NAMES.markerTypes, id),
+};
@@ -11,11 +11,13 @@ import { storage } from './storage-api';
 import {
   EventRecord,
   EventFilter,
+  EventCompactionOptions,
   MeetingState,
   IntentItem,
   IntentScope,
   IntentStatus,
   EventType,
+  MarkerType,
 } from './types';
 
 // ============================================
@@ -151,7 +153,7 @@ export function useMeeting(meetingId: string | null) {
   );
 
   const addMarker = useCallback(
-    async (type: 'decision' | 'action' | 'risk' | 'question', label?: string) => {
+    async (type: MarkerType, label?: string) => {
       if (!meetingId) return;
       await storage.addMarker(meetingId, type, label);
       await refresh();
@@ -309,11 +311,11 @@ export function useCompaction() {
   );
   const [error, setError] = useState<Error | null>(null);
 
-  const compact = useCallback(async () => {
+  const compact = useCallback(async (options?: EventCompactionOptions) => {
     try {
       setRunning(true);
       setError(null);
-      const result = await storage.compactEvents();
+      const result = await storage.compactEvents(options);
       setLastResult(result);
       return result;
     } catch (e) {
@@ -9,24 +9,39 @@ export type {
   EventType,
   EventRecord,
   EventFilter,
+  EventCompactionOptions,
   IntentScope,
   IntentType,
   IntentStatus,
   IntentItem,
   MarkerType,
+  BuiltInMarkerType,
   StoredMarker,
   StoredMy3Goal,
+  CarryOverResolution,
+  ActionStatus,
+  ActionDetails,
   MeetingState,
   DailyAggregate,
   StorageAPI,
+  StoredTimingSettings,
+  StoredModeRules,
+  StoredMarkerTypes,
+  TranscriptSource,
+  StoredTranscriptSegment,
+  StoredCanvasPosition,
 } from './types';
 
 export {
   SEMANTIC_EVENT_TYPES,
   NOISE_EVENT_TYPES,
+  DEFAULT_DECISION_RETENTION_DAYS,
   DB_NAME,
   DB_VERSION,
   STORE_NAMES,
+  GLOBAL_TIMING_ID,
+  ACTIVE_MODE_RULES_ID,
+  ACTIVE_MARKER_TYPES_ID,
 } from './types';
 
 // WorkObject Types (Phase 1)
@@ -34,6 +49,7 @@ export type {
   WorkObjectType,
   WorkObjectSource,
   WorkObjectScope,
+  WorkObjectScopeKind,
   WorkObject,
   MeetingUidMapping,
   MeetingMetadata,
@@ -48,26 +64,89 @@ export type {
 export {
   generateMeetingUid,
   buildScope,
+  buildSessionScope,
+  buildProjectScope,
+  buildSeriesScope,
+  SCOPE_KINDS,
+  getScopeKind,
+  getScopeId,
   getMeetingUidFromScope,
+  isMeetingScope,
   createWorkObjectId,
+  createScopedWorkObjectId,
   workObjectIds,
   parseWorkObjectId,
   isValidWorkObjectId,
   isSameScope,
+  getScopeLinkRule,
   getMeetingUidFromWorkObjectId,
 } from './work-object-id';
+export type { ScopeLinkRule } from './work-object-id';
 
 // Meeting UID API
 export {
   getOrCreateMeetingUid,
   getMeetingMapping,
   findMeetingUidByEventId,
+  findMeetingIdByEventId,
   findMeetingUidByICalUid,
   getNextMarkerNumber,
   getMarkerCount,
   getMeetingMetadata,
 } from './meeting-uid-api';
 
+// Action Item API
+export {
+  getActionDetails,
+  toLocalDateString,
+  isActionOverdue,
+  collectActionItems,
+  sortActionItems,
+  updateActionMarker,
+  getOpenActions,
+  ActionValidationError,
+} from './action-api';
+export type { ActionChanges, ActionItem } from './action-api';
+
+// Recurring Series API
+export {
+  getSeriesIdForMeeting,
+  getMeetingSeries,
+  getPreviousInstance,
+  getOpenCarryOverItems,
+  getCarryOverItems,
+  carryForwardItem,
+  closeCarryOverItem,
+} from './series-api';
+export type { MeetingSeries, CarryOverItem } from './series-api';
+
+// Timing Settings API
+export {
+  getTimingSettings,
+  saveGlobalTiming,
+  saveTimingOverride,
+  deleteTimingOverride,
+  resetTimingSettings,
+  TimingSettingsValidationError,
+} from './timing-settings-api';
+export type { TimingOverrideInput } from './timing-settings-api';
+
+// Mode Rules API
+export {
+  getModeRules,
+  saveModeRules,
+  importModeRules,
+  resetModeRules,
+} from './mode-rules-api';
+
+// Marker Types API
+export {
+  getMarkerTypes,
+  saveMarkerTypes,
+  importMarkerTypes,
+  resetMarkerTypes,
+} from './marker-types-api';
+
 // Storage API
 export { storage } from './storage-api';
 
@@ -91,12 +170,18 @@ export {
   workObjectsStore,
   workObjectFlagsStore,
   workLinksStore,
+  timingSettingsStore,
+  modeRulesStore,
+  markerTypesStore,
+  transcriptSegmentsStore,
+  canvasPositionsStore,
 } from './db';
 
 // WorkObject API (soft-delete, linking)
 export {
   softDeleteWorkObject,
   restoreWorkObject,
+  updateWorkObject,
   softDeleteWorkLink,
   createWorkLink,
   getActiveWorkObjects,
@@ -105,6 +190,8 @@ export {
   getTombstonedWorkObjectsOlderThan,
   getActiveWorkLinks,
   getActiveLinksForWorkObject,
+  setWorkObjectFlag,
+  getSetFlags,
   getTombstoneStats as getWorkObjectTombstoneStats,
   LinkValidationError,
 } from './work-object-api';
@@ -124,3 +211,70 @@ export {
   downloadBlob,
   generateExportFilename,
 } from './tombstone-compaction';
+
+// Database Backup (export/import)
+export type {
+  DatabaseBackup,
+  BackupImportMode,
+  BackupImportResult,
+  BackupStoreName,
+} from './backup';
+
+export {
+  BACKUP_FORMAT,
+  BACKUP_FORMAT_VERSION,
+  exportDatabase,
+  createBackupBlob,
+  generateBackupFilename,
+  validateBackup,
+  parseBackup,
+  importDatabase,
+  BackupValidationError,
+} from './backup';
+
+// Block Document (note WorkObjects)
+export type { BlockType, BlockPayload, DocBlock } from './block-doc-api';
+
+export {
+  BLOCK_TYPES,
+  orderBetween,
+  getDocBlocks,
+  createDocBlock,
+  updateDocBlock,
+  deleteDocBlock,
+} from './block-doc-api';
+
+// Transcripts
+export type { IngestTranscriptOptions, LocalWhisperOptions } from './transcript-api';
+
+export {
+  TranscriptError,
+  DEFAULT_WHISPER_ENDPOINT,
+  getTranscript,
+  getMarkerCandidates,
+  ingestTranscript,
+  importTranscriptFile,
+  importMeetingTranscript,
+  acceptMarkerCandidates,
+  clearTranscript,
+  transcribeWithLocalWhisper,
+} from './transcript-api';
+
+// Agent Suggestions
+export { getSuggestions, acceptSuggestion, rejectSuggestion } from './suggestion-api';
+
+// Capture Notes (note WorkObjects)
+export type { CaptureNotePayload, CaptureNote } from './capture-note-api';
+
+export {
+  CaptureNoteError,
+  formatNoteOffset,
+  toMarkerLabel,
+  getCaptureNotes,
+  createCaptureNote,
+  promoteCaptureNote,
+  deleteCaptureNote,
+} from './capture-note-api';
+
+// Canvas card positions
+export { getCanvasPositions, saveCanvasPosition } from './canvas-api';
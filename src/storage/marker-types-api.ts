@@ -0,0 +1,65 @@
+/**
+ * Marker Types API
+ *
+ * Persists a team marker type registry that replaces the default marker
+ * types (see `src/lib/marker-types.ts`). Registries are validated on save
+ * and on load.
+ */
+
+import { markerTypesStore } from './db';
+import { logEvent } from './storage-api';
+import { ACTIVE_MARKER_TYPES_ID } from './types';
+import {
+  DEFAULT_MARKER_TYPES,
+  parseMarkerTypes,
+  validateMarkerTypes,
+  type MarkerTypeRegistry,
+} from '@/lib/marker-types';
+
+/**
+ * Load the active registry: the saved one, or the default marker types when
+ * none is saved or the saved one no longer validates.
+ */
+export async function getMarkerTypes(): Promise<MarkerTypeRegistry> {
+  const record = await markerTypesStore.get(ACTIVE_MARKER_TYPES_ID);
+  if (!record) return DEFAULT_MARKER_TYPES;
+
+  try {
+    return validateMarkerTypes(record.registry);
+  } catch (error) {
+    console.warn('[MarkerTypesAPI] Saved marker types are invalid, using defaults:', error);
+    return DEFAULT_MARKER_TYPES;
+  }
+}
+
+/**
+ * Validate and save a registry.
+ *
+ * @throws MarkerTypeValidationError if the registry is invalid
+ */
+export async function saveMarkerTypes(registry: unknown): Promise<MarkerTypeRegistry> {
+  const validated = validateMarkerTypes(registry);
+
+  await markerTypesStore.put({ id: ACTIVE_MARKER_TYPES_ID, registry: validated, updatedAt: Date.now() });
+  await logEvent('marker_types_changed', { types: validated.types.map((t) => t.id) });
+
+  return validated;
+}
+
+/**
+ * Save a registry from JSON text (e.g. an imported marker types file).
+ *
+ * @throws MarkerTypeValidationError if the JSON is malformed or invalid
+ */
+export async function importMarkerTypes(json: string): Promise<MarkerTypeRegistry> {
+  return saveMarkerTypes(parseMarkerTypes(json));
+}
+
+/**
+ * Drop the saved registry and go back to the default marker types.
+ */
+export async function resetMarkerTypes(): Promise<MarkerTypeRegistry> {
+  await markerTypesStore.delete(ACTIVE_MARKER_TYPES_ID);
+  await logEvent('marker_types_changed', { reset: true });
+  return DEFAULT_MARKER_TYPES;
+}
@@ -10,11 +10,11 @@
  * 3. Generate new if not found
  */
 
-import { meetingUidMappingsStore, meetingMetadataStore } from './db';
+import { meetingUidMappingsStore, meetingMetadataStore, meetingsStore } from './db';
 import { generateMeetingUid } from './work-object-id';
 import { logEvent } from './storage-api';
 import type { MeetingUidMapping, MeetingMetadata } from './work-object-types';
-import type { CalendarEvent } from '@/calendar/types';
+import type { CalendarEvent, CalendarProviderId } from '@/calendar/types';
 
 // ============================================
 // Reschedule Detection Helpers
@@ -84,11 +84,17 @@ async function updateMappingForReschedule(
  * For recurring events, uses iCalUID + startTime to disambiguate
  * individual instances.
  *
- * @param event - Calendar event from Google Calendar
+ * Pass the ID of the stored meeting for the event when saving one: a new
+ * mapping then uses it as the meeting UID, so series, carry-over and
+ * transcript lookups can start from MeetingState.id.
+ *
+ * @param event - Calendar event from any provider
+ * @param meetingId - ID of the MeetingState for this event, if one is stored
  * @returns Internal meeting UID (stable across sessions)
  */
 export async function getOrCreateMeetingUid(
-  event: CalendarEvent
+  event: CalendarEvent,
+  meetingId?: string
 ): Promise<string> {
   const startTimeIso = new Date(event.startTime).toISOString();
 
@@ -122,28 +128,41 @@ export async function getOrCreateMeetingUid(
     }
   }
 
-  // Try eventId as fallback
-  const byEventId = await meetingUidMappingsStore.getByEventId(event.id);
+  // Try eventId as fallback (event IDs are only unique within a provider)
+  const provider = getEventProvider(event);
+  const byEventId = (await meetingUidMappingsStore.getByEventId(event.id)).filter(
+    (m) => m.provider === provider
+  );
   if (byEventId.length > 0) {
     return byEventId[0].meetingUid;
   }
 
   // No existing mapping - create new one
-  return createMeetingUidMapping(event);
+  return createMeetingUidMapping(event, meetingId ?? generateMeetingUid());
+}
+
+/**
+ * Provider of a calendar event. Events cached before providers existed
+ * came from Google Calendar.
+ */
+function getEventProvider(event: CalendarEvent): CalendarProviderId {
+  return event.provider ?? 'gcal';
 }
 
 /**
  * Create a new meeting UID mapping for a calendar event.
  * Also initializes meeting metadata with marker counter = 0.
  */
-async function createMeetingUidMapping(event: CalendarEvent): Promise<string> {
-  const meetingUid = generateMeetingUid();
+async function createMeetingUidMapping(
+  event: CalendarEvent,
+  meetingUid: string
+): Promise<string> {
   const now = new Date().toISOString();
   const startTimeIso = new Date(event.startTime).toISOString();
 
   const mapping: MeetingUidMapping = {
     meetingUid,
-    provider: 'gcal',
+    provider: getEventProvider(event),
     iCalUid: event.iCalUid || '',
     eventId: event.id,
     calendarId: event.calendarId || 'primary',
@@ -194,6 +213,25 @@ export async function findMeetingUidByEventId(
   return mappings.length > 0 ? mappings[0].meetingUid : null;
 }
 
+/**
+ * Find the stored meeting for a calendar event.
+ * Of the event's mappings, the first with a stored MeetingState wins.
+ *
+ * @param eventId - Calendar event ID
+ * @returns MeetingState ID, or null if no meeting is stored for the event
+ */
+export async function findMeetingIdByEventId(
+  eventId: string
+): Promise<string | null> {
+  const mappings = await meetingUidMappingsStore.getByEventId(eventId);
+  for (const mapping of mappings) {
+    if (await meetingsStore.get(mapping.meetingUid)) {
+      return mapping.meetingUid;
+    }
+  }
+  return null;
+}
+
 /**
  * Find meeting UID by iCalUID.
  *
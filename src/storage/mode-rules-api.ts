@@ -0,0 +1,60 @@
+/**
+ * Mode Rules API
+ *
+ * Persists a user rule set that replaces the default mode selection rules
+ * (see `src/rules/rule-set.ts`). Rule sets are validated on save and on load.
+ */
+
+import { modeRulesStore } from './db';
+import { logEvent } from './storage-api';
+import { ACTIVE_MODE_RULES_ID } from './types';
+import { DEFAULT_MODE_RULES, parseModeRuleSet, validateModeRuleSet } from '@/rules/rule-set';
+import type { ModeRuleSet } from '@/rules/types';
+
+/**
+ * Load the active rule set: the saved one, or the default rules when none is
+ * saved or the saved one no longer validates.
+ */
+export async function getModeRules(): Promise<ModeRuleSet> {
+  const record = await modeRulesStore.get(ACTIVE_MODE_RULES_ID);
+  if (!record) return DEFAULT_MODE_RULES;
+
+  try {
+    return validateModeRuleSet(record.ruleSet);
+  } catch (error) {
+    console.warn('[ModeRulesAPI] Saved rule set is invalid, using defaults:', error);
+    return DEFAULT_MODE_RULES;
+  }
+}
+
+/**
+ * Validate and save a rule set.
+ *
+ * @throws RuleSetValidationError if the rule set is invalid
+ */
+export async function saveModeRules(ruleSet: unknown): Promise<ModeRuleSet> {
+  const validated = validateModeRuleSet(ruleSet);
+
+  await modeRulesStore.put({ id: ACTIVE_MODE_RULES_ID, ruleSet: validated, updatedAt: Date.now() });
+  await logEvent('mode_rules_changed', { ruleCount: validated.rules.length });
+
+  return validated;
+}
+
+/**
+ * Save a rule set from JSON text (e.g. an imported rules file).
+ *
+ * @throws RuleSetValidationError if the JSON is malformed or invalid
+ */
+export async function importModeRules(json: string): Promise<ModeRuleSet> {
+  return saveModeRules(parseModeRuleSet(json));
+}
+
+/**
+ * Drop the saved rule set and go back to the default rules.
+ */
+export async function resetModeRules(): Promise<ModeRuleSet> {
+  await modeRulesStore.delete(ACTIVE_MODE_RULES_ID);
+  await logEvent('mode_rules_changed', { reset: true });
+  return DEFAULT_MODE_RULES;
+}
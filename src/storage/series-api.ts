@@ -0,0 +1,216 @@
+/**
+ * Recurring Series API
+ *
+ * Threads instances of the same recurring calendar event together.
+ * A series is identified by the iCalUID shared by its instances'
+ * MeetingUidMappings. A stored meeting's mapping is keyed by its
+ * MeetingState ID (see getOrCreateMeetingUid), so lookups start from
+ * meeting.id. When the next instance opens, open action/question
+ * markers and unachieved My3 goals from the previous instance can be
+ * carried forward or closed.
+ */
+
+import { meetingUidMappingsStore, meetingsStore } from './db';
+import { addMarker, addMy3Goal, logEvent } from './storage-api';
+import { createWorkObjectId } from './work-object-id';
+import type { MeetingUidMapping } from './work-object-types';
+import type { CarryOverResolution, MeetingState, StoredMarker, StoredMy3Goal } from './types';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * A recurring series and its known instances, oldest first.
+ */
+export interface MeetingSeries {
+  /** Series ID (the shared iCalUID) */
+  seriesId: string;
+  instances: MeetingUidMapping[];
+}
+
+/**
+ * An open item from a previous instance that can be carried forward.
+ */
+export interface CarryOverItem {
+  kind: 'marker' | 'goal';
+  /** Local ID within the source meeting (m3, g1, ...) */
+  id: string;
+  /** WorkObject ID of the source item */
+  workObjectId: string;
+  sourceMeetingId: string;
+  text: string;
+  /** Marker type (markers only) */
+  markerType?: 'action' | 'question';
+}
+
+/** Marker types that represent open work */
+const CARRY_OVER_MARKER_TYPES = ['action', 'question'] as const;
+
+// ============================================
+// Series Lookup
+// ============================================
+
+/**
+ * Get the series ID (iCalUID) a meeting belongs to.
+ * Returns null for meetings without a calendar mapping.
+ */
+export async function getSeriesIdForMeeting(meetingId: string): Promise<string | null> {
+  const mapping = await meetingUidMappingsStore.get(meetingId);
+  return mapping?.iCalUid || null;
+}
+
+/**
+ * Get all known instances of a series, ordered by start time.
+ */
+export async function getMeetingSeries(seriesId: string): Promise<MeetingSeries> {
+  const mappings = await meetingUidMappingsStore.getByICalUid(seriesId);
+  return {
+    seriesId,
+    instances: [...mappings].sort((a, b) => a.startTimeIso.localeCompare(b.startTimeIso)),
+  };
+}
+
+/**
+ * Find the most recent earlier instance of a meeting's series that has
+ * stored meeting state. Instances nobody opened are skipped.
+ */
+export async function getPreviousInstance(meetingId: string): Promise<MeetingState | null> {
+  const mapping = await meetingUidMappingsStore.get(meetingId);
+  if (!mapping?.iCalUid) return null;
+
+  const { instances } = await getMeetingSeries(mapping.iCalUid);
+  const earlier = instances
+    .filter((m) => m.meetingUid !== meetingId && m.startTimeIso < mapping.startTimeIso)
+    .reverse();
+
+  for (const instance of earlier) {
+    const meeting = await meetingsStore.get(instance.meetingUid);
+    if (meeting) return meeting;
+  }
+  return null;
+}
+
+// ============================================
+// Carry-Over Items
+// ============================================
+
+function isOpenMarker(marker: StoredMarker): marker is StoredMarker & { type: 'action' | 'question' } {
+  return (
+    (CARRY_OVER_MARKER_TYPES as readonly string[]).includes(marker.type) &&
+    !marker.deletedAt &&
+    !marker.carryOver &&
+    (marker.action?.status ?? 'open') === 'open'
+  );
+}
+
+function isOpenGoal(goal: StoredMy3Goal): boolean {
+  return !goal.achieved && !goal.deletedAt && !goal.carryOver;
+}
+
+/**
+ * Collect unresolved action/question markers and unachieved goals from a meeting.
+ */
+export function getOpenCarryOverItems(meeting: MeetingState): CarryOverItem[] {
+  const goals: CarryOverItem[] = meeting.my3Goals.filter(isOpenGoal).map((goal) => ({
+    kind: 'goal',
+    id: goal.id,
+    workObjectId: createWorkObjectId('goal', meeting.id, goal.id),
+    sourceMeetingId: meeting.id,
+    text: goal.text,
+  }));
+
+  const markers: CarryOverItem[] = meeting.markers.filter(isOpenMarker).map((marker) => ({
+    kind: 'marker',
+    id: marker.id,
+    workObjectId: createWorkObjectId('marker', meeting.id, marker.id),
+    sourceMeetingId: meeting.id,
+    text: marker.label ?? '',
+    markerType: marker.type,
+  }));
+
+  return [...goals, ...markers];
+}
+
+/**
+ * Get open items from the previous instance of a meeting's series.
+ */
+export async function getCarryOverItems(meetingId: string): Promise<{
+  previousMeeting: MeetingState | null;
+  items: CarryOverItem[];
+}> {
+  const previousMeeting = await getPreviousInstance(meetingId);
+  return {
+    previousMeeting,
+    items: previousMeeting ? getOpenCarryOverItems(previousMeeting) : [],
+  };
+}
+
+// ============================================
+// Resolution
+// ============================================
+
+/**
+ * Record a resolution on the source item.
+ */
+async function resolveSourceItem(item: CarryOverItem, resolution: CarryOverResolution): Promise<void> {
+  const meeting = await meetingsStore.get(item.sourceMeetingId);
+  if (!meeting) {
+    console.warn(`[SeriesAPI] Source meeting not found: ${item.sourceMeetingId}`);
+    return;
+  }
+
+  const source =
+    item.kind === 'goal'
+      ? meeting.my3Goals.find((g) => g.id === item.id)
+      : meeting.markers.find((m) => m.id === item.id);
+  if (!source) {
+    console.warn(`[SeriesAPI] Source item not found: ${item.workObjectId}`);
+    return;
+  }
+
+  source.carryOver = resolution;
+  meeting.updatedAt = Date.now();
+  await meetingsStore.put(meeting);
+  await logEvent('carry_over_resolved', {
+    workObjectId: item.workObjectId,
+    kind: item.kind,
+    ...resolution,
+  });
+}
+
+/**
+ * Carry an item forward into another meeting as a new goal or marker.
+ * The new item records where it came from; the source is marked resolved.
+ *
+ * @returns Local ID of the new goal or marker
+ * @throws Error if the target meeting is missing or already has 3 goals
+ */
+export async function carryForwardItem(targetMeetingId: string, item: CarryOverItem): Promise<string> {
+  const newId =
+    item.kind === 'goal'
+      ? await addMy3Goal(targetMeetingId, item.text)
+      : await addMarker(targetMeetingId, item.markerType ?? 'action', item.text || undefined);
+
+  const target = await meetingsStore.get(targetMeetingId);
+  if (target) {
+    const created =
+      item.kind === 'goal'
+        ? target.my3Goals.find((g) => g.id === newId && !g.deletedAt)
+        : target.markers.find((m) => m.id === newId);
+    if (created) {
+      created.carriedFrom = item.workObjectId;
+      await meetingsStore.put(target);
+    }
+  }
+
+  await resolveSourceItem(item, { status: 'carried_forward', at: Date.now(), toMeetingId: targetMeetingId });
+  return newId;
+}
+
+/**
+ * Close an item without carrying it forward.
+ */
+export async function closeCarryOverItem(item: CarryOverItem): Promise<void> {
+  await resolveSourceItem(item, { status: 'closed', at: Date.now() });
+}
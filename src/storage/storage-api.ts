@@ -15,8 +15,11 @@ import {
   IntentScope,
   IntentStatus,
   DailyAggregate,
+  MarkerType,
   SEMANTIC_EVENT_TYPES,
   NOISE_EVENT_TYPES,
+  DEFAULT_DECISION_RETENTION_DAYS,
+  EventCompactionOptions,
 } from './types';
 import {
   eventsStore,
@@ -315,11 +318,14 @@ export async function toggleMy3Goal(
 /**
  * Add a marker to a meeting.
  * Uses monotonic counter for stable IDs (m1, m2, m3...).
+ * `timestamp` defaults to now; markers added after the fact (e.g. from a
+ * transcript) pass the moment they refer to.
  */
 export async function addMarker(
   meetingId: string,
-  type: 'decision' | 'action' | 'risk' | 'question',
-  label?: string
+  type: MarkerType,
+  label?: string,
+  timestamp?: number
 ): Promise<string> {
   const meeting = await meetingsStore.get(meetingId);
   if (!meeting) {
@@ -336,7 +342,7 @@ export async function addMarker(
     id: markerId,
     type,
     label,
-    timestamp: Date.now(),
+    timestamp: timestamp ?? Date.now(),
     meetingId,
   });
   meeting.updatedAt = Date.now();
@@ -484,18 +490,27 @@ const COMPACTION_THRESHOLD_DAYS = 30;
 const COMPACTION_THRESHOLD_EVENTS = 10000;
 
 /**
- * Compact noise events older than threshold.
- * Semantic events are preserved forever.
+ * Compact noise events older than threshold. Decision records carry each
+ * evaluation's calendar events and are kept for `decisionRetentionDays`
+ * (default DEFAULT_DECISION_RETENTION_DAYS), the history decision replay
+ * can cover. Semantic events are preserved forever.
  */
-export async function compactEvents(): Promise<{ removed: number; aggregated: number }> {
-  const cutoffTime = Date.now() - COMPACTION_THRESHOLD_DAYS * 24 * 60 * 60 * 1000;
+export async function compactEvents(
+  options: EventCompactionOptions = {}
+): Promise<{ removed: number; aggregated: number }> {
+  const retentionDays: Partial<Record<EventType, number>> = {
+    decision_evaluated: options.decisionRetentionDays ?? DEFAULT_DECISION_RETENTION_DAYS,
+  };
+  const now = Date.now();
+  const cutoffFor = (type: EventType) =>
+    now - (retentionDays[type] ?? COMPACTION_THRESHOLD_DAYS) * 24 * 60 * 60 * 1000;
 
   // Get all events
   const allEvents = await eventsStore.getAll();
 
   // Separate semantic and noise events
   const noiseEvents = allEvents.filter(
-    (e) => NOISE_EVENT_TYPES.includes(e.type) && e.timestamp < cutoffTime
+    (e) => NOISE_EVENT_TYPES.includes(e.type) && e.timestamp < cutoffFor(e.type)
   );
 
   if (noiseEvents.length === 0) {
@@ -0,0 +1,110 @@
+/**
+ * Suggestion API
+ *
+ * Agent suggestions for a meeting: markers from its transcript, and flags
+ * and links for its markers. Suggestions are computed on demand and never
+ * stored. Accepting one creates the marker, flag (set by
+ * 'agent_suggestion') or link. Accepting and rejecting are both logged, so
+ * acceptance rates can be measured and rejected suggestions stay hidden.
+ */
+
+import { meetingsStore, workObjectFlagsStore, workLinksStore } from './db';
+import { logEvent, addMarker, getEvents } from './storage-api';
+import { setWorkObjectFlag, createWorkLink } from './work-object-api';
+import { getMarkerCandidates } from './transcript-api';
+import { toMarkerLabel } from './capture-note-api';
+import { buildScope, createWorkObjectId, parseWorkObjectId } from './work-object-id';
+import { buildSuggestions, type AgentSuggestion } from '@/lib/agent-suggestions';
+
+// ============================================
+// Helpers
+// ============================================
+
+function markerWorkObjectId(meetingUid: string, markerId: string): string {
+  return createWorkObjectId('marker', meetingUid, markerId);
+}
+
+/** Local marker ID (m3) if the WorkObject ID is a marker in this meeting */
+function toMarkerId(meetingUid: string, workObjectId: string): string | null {
+  const parsed = parseWorkObjectId(workObjectId);
+  return parsed?.type === 'marker' && parsed.scope === buildScope(meetingUid) ? parsed.localId : null;
+}
+
+// ============================================
+// Queries
+// ============================================
+
+/**
+ * Current suggestions for a meeting, leaving out anything already accepted,
+ * decided by the user or rejected.
+ */
+export async function getSuggestions(meetingUid: string): Promise<AgentSuggestion[]> {
+  const meeting = await meetingsStore.get(meetingUid);
+  if (!meeting) return [];
+
+  const [candidates, flags, links, rejections] = await Promise.all([
+    getMarkerCandidates(meetingUid),
+    workObjectFlagsStore.getAll(),
+    workLinksStore.getAll(),
+    getEvents({ types: ['suggestion_rejected'] }),
+  ]);
+
+  const decidedFlags = flags.flatMap((flag) => {
+    const markerId = toMarkerId(meetingUid, flag.workObjectId);
+    return markerId ? [{ markerId, flagType: flag.flagType }] : [];
+  });
+
+  const linkedPairs = links.flatMap((link): Array<[string, string]> => {
+    const from = toMarkerId(meetingUid, link.fromId);
+    const to = toMarkerId(meetingUid, link.toId);
+    return from && to ? [[from, to]] : [];
+  });
+
+  const rejectedIds = rejections
+    .filter((e) => e.payload.meetingId === meetingUid)
+    .map((e) => e.payload.suggestionId as string);
+
+  return buildSuggestions({ markers: meeting.markers, candidates, decidedFlags, linkedPairs, rejectedIds });
+}
+
+// ============================================
+// Mutations
+// ============================================
+
+/**
+ * Accept a suggestion, creating what it proposes.
+ *
+ * @throws LinkValidationError if a suggested link is no longer valid
+ */
+export async function acceptSuggestion(meetingUid: string, suggestion: AgentSuggestion): Promise<void> {
+  switch (suggestion.kind) {
+    case 'marker':
+      await addMarker(meetingUid, suggestion.markerType, toMarkerLabel(suggestion.text), suggestion.timestamp);
+      break;
+    case 'flag':
+      await setWorkObjectFlag(
+        markerWorkObjectId(meetingUid, suggestion.markerId),
+        suggestion.flagType,
+        true,
+        'agent_suggestion'
+      );
+      break;
+    case 'link':
+      await createWorkLink(
+        markerWorkObjectId(meetingUid, suggestion.fromMarkerId),
+        markerWorkObjectId(meetingUid, suggestion.toMarkerId),
+        suggestion.linkType
+      );
+      break;
+  }
+
+  await logEvent('suggestion_accepted', { meetingId: meetingUid, suggestionId: suggestion.id, kind: suggestion.kind });
+}
+
+/**
+ * Reject a suggestion. Nothing is created; the rejection is logged and
+ * hides the suggestion from then on.
+ */
+export async function rejectSuggestion(meetingUid: string, suggestion: AgentSuggestion): Promise<void> {
+  await logEvent('suggestion_rejected', { meetingId: meetingUid, suggestionId: suggestion.id, kind: suggestion.kind });
+}
@@ -0,0 +1,175 @@
+/**
+ * Timing Settings API
+ *
+ * User-configurable rules engine timing: the global TimingConfig (prep and
+ * synthesis windows, grace, hold) and per-meeting overrides matched by
+ * recurring series or attendees, e.g. a day of prep for board meetings.
+ */
+
+import { timingSettingsStore } from './db';
+import { logEvent } from './storage-api';
+import { GLOBAL_TIMING_ID } from './types';
+import {
+  DEFAULT_TIMING_CONFIG,
+  TimingConfig,
+  TimingOverride,
+  TimingSettings,
+} from '@/rules/types';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Error thrown when timing settings fail validation.
+ */
+export class TimingSettingsValidationError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'INVALID_VALUE' | 'EMPTY_LABEL' | 'EMPTY_MATCH' | 'OVERRIDE_NOT_FOUND'
+  ) {
+    super(message);
+    this.name = 'TimingSettingsValidationError';
+  }
+}
+
+/**
+ * An override to save. Without an id a new override is created.
+ */
+export type TimingOverrideInput = Omit<TimingOverride, 'id'> & { id?: string };
+
+// ============================================
+// Validation
+// ============================================
+
+/** Upper bound for any window (one week) */
+const MAX_WINDOW_MINUTES = 7 * 24 * 60;
+
+function validateTimingValues(config: Partial<TimingConfig>): void {
+  for (const [field, value] of Object.entries(config)) {
+    if (value === undefined) continue;
+
+    const max = field === 'minimumHoldMs' ? MAX_WINDOW_MINUTES * 60 * 1000 : MAX_WINDOW_MINUTES;
+    const min = field === 'prepWindowMinutes' || field === 'synthesisWindowMinutes' ? 1 : 0;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+      throw new TimingSettingsValidationError(`Invalid ${field}: ${value}`, 'INVALID_VALUE');
+    }
+  }
+}
+
+function validateOverride(override: TimingOverrideInput): void {
+  if (!override.label.trim()) {
+    throw new TimingSettingsValidationError('Override needs a label', 'EMPTY_LABEL');
+  }
+
+  const { seriesId, attendeePattern, maxAttendees } = override.match;
+  if (!seriesId && !attendeePattern?.trim() && maxAttendees === undefined) {
+    throw new TimingSettingsValidationError(
+      'Override must match a series, an attendee pattern or an attendee count',
+      'EMPTY_MATCH'
+    );
+  }
+  if (maxAttendees !== undefined && (!Number.isInteger(maxAttendees) || maxAttendees < 0)) {
+    throw new TimingSettingsValidationError(`Invalid maxAttendees: ${maxAttendees}`, 'INVALID_VALUE');
+  }
+
+  validateTimingValues(override.config);
+}
+
+// ============================================
+// Read
+// ============================================
+
+/**
+ * Load timing settings. Fields never saved fall back to DEFAULT_TIMING_CONFIG;
+ * overrides come back in the order they were created.
+ */
+export async function getTimingSettings(): Promise<TimingSettings> {
+  const records = await timingSettingsStore.getAll();
+
+  let global: TimingConfig = DEFAULT_TIMING_CONFIG;
+  const overrides: Array<{ override: TimingOverride; createdAt: number }> = [];
+
+  for (const record of records) {
+    if (record.kind === 'global') {
+      global = { ...DEFAULT_TIMING_CONFIG, ...record.config };
+    } else {
+      overrides.push({ override: record.override, createdAt: record.createdAt });
+    }
+  }
+
+  return {
+    global,
+    overrides: overrides.sort((a, b) => a.createdAt - b.createdAt).map((o) => o.override),
+  };
+}
+
+// ============================================
+// Write
+// ============================================
+
+/**
+ * Save the global timing config.
+ *
+ * @throws TimingSettingsValidationError if a value is out of range
+ */
+export async function saveGlobalTiming(config: TimingConfig): Promise<void> {
+  validateTimingValues(config);
+
+  await timingSettingsStore.put({
+    id: GLOBAL_TIMING_ID,
+    kind: 'global',
+    config,
+    updatedAt: Date.now(),
+  });
+
+  await logEvent('timing_settings_changed', { scope: 'global' });
+}
+
+/**
+ * Create or update a per-meeting override.
+ *
+ * @throws TimingSettingsValidationError if the override is invalid or its id is unknown
+ */
+export async function saveTimingOverride(input: TimingOverrideInput): Promise<TimingOverride> {
+  validateOverride(input);
+
+  const now = Date.now();
+  let createdAt = now;
+
+  if (input.id) {
+    const existing = await timingSettingsStore.get(input.id);
+    if (!existing || existing.kind !== 'override') {
+      throw new TimingSettingsValidationError(`Override ${input.id} not found`, 'OVERRIDE_NOT_FOUND');
+    }
+    createdAt = existing.createdAt;
+  }
+
+  const override: TimingOverride = {
+    id: input.id ?? `timing-${now}-${Math.random().toString(36).slice(2, 7)}`,
+    label: input.label.trim(),
+    match: input.match,
+    config: input.config,
+  };
+
+  await timingSettingsStore.put({ id: override.id, kind: 'override', override, createdAt, updatedAt: now });
+  await logEvent('timing_settings_changed', { scope: 'override', overrideId: override.id });
+
+  return override;
+}
+
+/**
+ * Delete a per-meeting override.
+ */
+export async function deleteTimingOverride(id: string): Promise<void> {
+  await timingSettingsStore.delete(id);
+  await logEvent('timing_settings_changed', { scope: 'override', overrideId: id, deleted: true });
+}
+
+/**
+ * Forget all timing settings (back to DEFAULT_TIMING_CONFIG, no overrides).
+ */
+export async function resetTimingSettings(): Promise<void> {
+  await timingSettingsStore.clear();
+  await logEvent('timing_settings_changed', { scope: 'reset' });
+}
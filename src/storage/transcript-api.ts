@@ -0,0 +1,294 @@
+/**
+ * Transcript API
+ *
+ * Stores timed transcript segments per meeting UID. Segments come from local
+ * sources only: an on-device recognizer, an imported VTT/SRT file or Zoom or
+ * Teams export, or a Whisper server on this machine. Offsets are turned into
+ * absolute times on ingest so segments line up with marker timestamps.
+ *
+ * Transcripts imported after the fact also yield candidate markers, which
+ * become real markers only when the user accepts them.
+ */
+
+import { meetingsStore, transcriptSegmentsStore } from './db';
+import { logEvent, addMarker } from './storage-api';
+import { findMeetingIdByEventId } from './meeting-uid-api';
+import { toMarkerLabel } from './capture-note-api';
+import type { StoredTranscriptSegment, TranscriptSource } from './types';
+import { parseTranscriptFile, parseWhisperJson, type TranscriptSegmentInput } from '@/lib/transcript';
+import { extractMarkerCandidates, type MarkerCandidate } from '@/lib/marker-candidates';
+
+// ============================================
+// Types
+// ============================================
+
+export interface IngestTranscriptOptions {
+  source: TranscriptSource;
+  /**
+   * When the recording started (ms timestamp); segment offsets count from
+   * here. Defaults to the meeting's scheduled start.
+   */
+  startedAt?: number;
+}
+
+export interface LocalWhisperOptions {
+  /** Whisper server endpoint; must be on this machine */
+  endpoint?: string;
+  startedAt?: number;
+  /** Request timeout in ms (default: 120000) */
+  timeoutMs?: number;
+}
+
+/** whisper.cpp's bundled server (`whisper-server`) */
+export const DEFAULT_WHISPER_ENDPOINT = 'http://127.0.0.1:8080/inference';
+
+const DEFAULT_WHISPER_TIMEOUT_MS = 120_000;
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * Error thrown when transcript ingestion fails.
+ */
+export class TranscriptError extends Error {
+  constructor(
+    message: string,
+    public readonly code: 'MEETING_NOT_FOUND' | 'INVALID_SEGMENT' | 'REMOTE_ENDPOINT' | 'WHISPER_FAILED'
+  ) {
+    super(message);
+    this.name = 'TranscriptError';
+  }
+}
+
+// ============================================
+// Queries
+// ============================================
+
+/**
+ * Get a meeting's transcript, in speaking order.
+ */
+export async function getTranscript(meetingUid: string): Promise<StoredTranscriptSegment[]> {
+  const segments = await transcriptSegmentsStore.getByMeetingUid(meetingUid);
+  return segments.sort((a, b) => a.startTime - b.startTime);
+}
+
+/**
+ * Candidate markers found in a meeting's transcript, leaving out any the
+ * user has already accepted (same type and label as an existing marker).
+ *
+ * @throws TranscriptError if the meeting is unknown
+ */
+export async function getMarkerCandidates(meetingUid: string): Promise<MarkerCandidate[]> {
+  const meeting = await meetingsStore.get(meetingUid);
+  if (!meeting) {
+    throw new TranscriptError(`Meeting ${meetingUid} not found`, 'MEETING_NOT_FOUND');
+  }
+
+  const accepted = new Set(meeting.markers.map((m) => `${m.type}:${m.label ?? ''}`));
+  const candidates = extractMarkerCandidates(await getTranscript(meetingUid), meeting.startTime);
+  return candidates.filter((c) => !accepted.has(`${c.type}:${toMarkerLabel(c.text)}`));
+}
+
+// ============================================
+// Mutations
+// ============================================
+
+/** FNV-1a hash of a segment's text, as 8 hex digits */
+function hashText(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Segment ID derived from its content, so re-importing the same file gives
+ * the same IDs and candidate IDs (and the suggestions rejected under them)
+ * stay put.
+ */
+function getSegmentId(meetingUid: string, source: TranscriptSource, startTime: number, text: string): string {
+  return `${meetingUid}:${source}:${startTime}:${hashText(text)}`;
+}
+
+function validateSegment(segment: TranscriptSegmentInput, index: number): void {
+  const { startMs, endMs, text } = segment;
+  if (!Number.isFinite(startMs) || !Number.isFinite(endMs) || startMs < 0 || endMs < startMs) {
+    throw new TranscriptError(`Segment ${index} has invalid timing ${startMs}–${endMs}`, 'INVALID_SEGMENT');
+  }
+  if (typeof text !== 'string' || !text.trim()) {
+    throw new TranscriptError(`Segment ${index} has no text`, 'INVALID_SEGMENT');
+  }
+}
+
+/**
+ * Store transcript segments for a meeting. Segments from a file or Whisper
+ * replace earlier segments from the same source, so re-importing a file does
+ * not duplicate it; recognizer segments are appended as they arrive.
+ *
+ * @throws TranscriptError if the meeting is unknown or a segment is invalid
+ */
+export async function ingestTranscript(
+  meetingUid: string,
+  segments: TranscriptSegmentInput[],
+  options: IngestTranscriptOptions
+): Promise<StoredTranscriptSegment[]> {
+  segments.forEach(validateSegment);
+
+  const meeting = await meetingsStore.get(meetingUid);
+  if (!meeting) {
+    throw new TranscriptError(`Meeting ${meetingUid} not found`, 'MEETING_NOT_FOUND');
+  }
+
+  const startedAt = options.startedAt ?? meeting.startTime;
+  const ingestedAt = Date.now();
+  const stored: StoredTranscriptSegment[] = segments.map((segment) => {
+    const startTime = startedAt + segment.startMs;
+    const text = segment.text.trim();
+    return {
+      id: getSegmentId(meetingUid, options.source, startTime, text),
+      meetingUid,
+      startTime,
+      endTime: startedAt + segment.endMs,
+      text,
+      speaker: segment.speaker,
+      source: options.source,
+      ingestedAt,
+    };
+  });
+
+  let replaced = 0;
+  if (options.source !== 'recognizer') {
+    const existing = await transcriptSegmentsStore.getByMeetingUid(meetingUid);
+    const stale = existing.filter((s) => s.source === options.source).map((s) => s.id);
+    await transcriptSegmentsStore.deleteMany(stale);
+    replaced = stale.length;
+  }
+
+  await transcriptSegmentsStore.putMany(stored);
+  await logEvent('transcript_ingested', {
+    meetingId: meetingUid,
+    source: options.source,
+    segmentCount: stored.length,
+    replaced,
+  });
+
+  return stored;
+}
+
+/**
+ * Import a VTT, SRT, Zoom, Teams or Whisper JSON file, replacing any earlier import of the
+ * same format. Offsets count from the meeting's scheduled start unless
+ * `startedAt` says when the recording began.
+ *
+ * @throws TranscriptParseError if the file cannot be parsed
+ * @throws TranscriptError if the meeting is unknown
+ */
+export async function importTranscriptFile(
+  meetingUid: string,
+  fileName: string,
+  content: string,
+  startedAt?: number
+): Promise<StoredTranscriptSegment[]> {
+  const { source, segments } = parseTranscriptFile(fileName, content);
+  return ingestTranscript(meetingUid, segments, { source, startedAt });
+}
+
+/**
+ * Import a transcript recorded by another tool into the stored meeting for
+ * a calendar event.
+ *
+ * @throws TranscriptError if no meeting is stored for the event
+ * @throws TranscriptParseError if the file cannot be parsed
+ */
+export async function importMeetingTranscript(
+  eventId: string,
+  fileName: string,
+  content: string,
+  startedAt?: number
+): Promise<{ meetingUid: string; segments: StoredTranscriptSegment[] }> {
+  const meetingUid = await findMeetingIdByEventId(eventId);
+  if (!meetingUid) {
+    throw new TranscriptError(`No meeting recorded for calendar event ${eventId}`, 'MEETING_NOT_FOUND');
+  }
+
+  const segments = await importTranscriptFile(meetingUid, fileName, content, startedAt);
+  return { meetingUid, segments };
+}
+
+/**
+ * Turn accepted candidates into markers, timestamped when they were said.
+ *
+ * @returns IDs of the new markers, in candidate order
+ */
+export async function acceptMarkerCandidates(
+  meetingUid: string,
+  candidates: MarkerCandidate[]
+): Promise<string[]> {
+  const markerIds: string[] = [];
+  for (const candidate of candidates) {
+    markerIds.push(await addMarker(meetingUid, candidate.type, toMarkerLabel(candidate.text), candidate.timestamp));
+  }
+  return markerIds;
+}
+
+/**
+ * Delete a meeting's whole transcript.
+ */
+export async function clearTranscript(meetingUid: string): Promise<void> {
+  const existing = await transcriptSegmentsStore.getByMeetingUid(meetingUid);
+  await transcriptSegmentsStore.deleteMany(existing.map((s) => s.id));
+  await logEvent('transcript_cleared', { meetingId: meetingUid, segmentCount: existing.length });
+}
+
+/**
+ * Transcribe a recording with a Whisper server running on this machine and
+ * store the result. Only loopback endpoints are accepted so audio never
+ * leaves the device.
+ *
+ * @throws TranscriptError if the endpoint is remote or the server fails
+ */
+export async function transcribeWithLocalWhisper(
+  meetingUid: string,
+  audio: Blob,
+  options: LocalWhisperOptions = {}
+): Promise<StoredTranscriptSegment[]> {
+  const { endpoint = DEFAULT_WHISPER_ENDPOINT, startedAt, timeoutMs = DEFAULT_WHISPER_TIMEOUT_MS } = options;
+
+  let host: string;
+  try {
+    host = new URL(endpoint).hostname;
+  } catch {
+    throw new TranscriptError(`Invalid Whisper endpoint: ${endpoint}`, 'REMOTE_ENDPOINT');
+  }
+  if (!LOOPBACK_HOSTS.includes(host)) {
+    throw new TranscriptError(`Whisper endpoint must be on this machine, got ${host}`, 'REMOTE_ENDPOINT');
+  }
+
+  const body = new FormData();
+  body.append('file', audio, 'recording');
+  body.append('response_format', 'verbose_json');
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  let response: Response;
+  try {
+    response = await fetch(endpoint, { method: 'POST', body, signal: controller.signal });
+  } catch (error) {
+    throw new TranscriptError(
+      controller.signal.aborted
+        ? `Whisper request timed out after ${timeoutMs}ms`
+        : `Whisper request failed: ${error instanceof Error ? error.message : String(error)}`,
+      'WHISPER_FAILED'
+    );
+  } finally {
+    clearTimeout(timer);
+  }
+
+  if (!response.ok) {
+    throw new TranscriptError(`Whisper server returned ${response.status}`, 'WHISPER_FAILED');
+  }
+
+  const segments = parseWhisperJson(await response.text());
+  return ingestTranscript(meetingUid, segments, { source: 'whisper', startedAt });
+}
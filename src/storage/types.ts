@@ -5,6 +5,9 @@
  * See spec §9 Intent Capture & Ledger.
  */
 
+import type { ModeRuleSet, TimingConfig, TimingOverride } from '@/rules/types';
+import type { MarkerTypeRegistry } from '@/lib/marker-types';
+
 // ============================================
 // Event Log Types (§9.3)
 // ============================================
@@ -22,6 +25,7 @@ export type EventType =
   | 'marker_created'
   | 'marker_labeled'
   | 'marker_deleted'
+  | 'action_updated'
   | 'synthesis_completed'
   | 'intent_created'
   | 'intent_status_changed'
@@ -43,7 +47,29 @@ export type EventType =
   | 'work_object_updated'
   | 'work_object_deleted'
   | 'work_object_restored'
-  | 'flag_toggled';
+  | 'flag_toggled'
+  // Recurring series
+  | 'carry_over_resolved'
+  // Backup
+  | 'database_exported'
+  | 'database_imported'
+  // Settings
+  | 'timing_settings_changed'
+  | 'mode_rules_changed'
+  | 'marker_types_changed'
+  // Mode pins and snoozes
+  | 'mode_pinned'
+  | 'mode_unpinned'
+  | 'mode_snoozed'
+  | 'mode_unsnoozed'
+  // Transcripts
+  | 'transcript_ingested'
+  | 'transcript_cleared'
+  // Agent suggestions
+  | 'suggestion_accepted'
+  | 'suggestion_rejected'
+  // Decision audit
+  | 'decision_evaluated';
 
 /**
  * Semantic events are kept forever.
@@ -61,6 +87,7 @@ export const SEMANTIC_EVENT_TYPES: EventType[] = [
   'marker_created',
   'marker_labeled',
   'marker_deleted',
+  'action_updated',
   'synthesis_completed',
   'intent_created',
   'intent_status_changed',
@@ -82,13 +109,42 @@ export const SEMANTIC_EVENT_TYPES: EventType[] = [
   'work_object_deleted',
   'work_object_restored',
   'flag_toggled',
+  // Recurring series
+  'carry_over_resolved',
+  // Backup
+  'database_exported',
+  'database_imported',
+  // Settings
+  'timing_settings_changed',
+  'mode_rules_changed',
+  'marker_types_changed',
+  // Mode pins and snoozes
+  'mode_pinned',
+  'mode_unpinned',
+  'mode_snoozed',
+  'mode_unsnoozed',
+  // Transcripts
+  'transcript_ingested',
+  'transcript_cleared',
+  // Agent suggestions
+  'suggestion_accepted',
+  'suggestion_rejected',
 ];
 
 export const NOISE_EVENT_TYPES: EventType[] = [
   'plan_rendered',
   'user_interaction', // High frequency, compactable
+  'decision_evaluated', // One per evaluation, replayable while kept
 ];
 
+/** Days decision records are kept before compaction, unless configured */
+export const DEFAULT_DECISION_RETENTION_DAYS = 7;
+
+export interface EventCompactionOptions {
+  /** Days to keep `decision_evaluated` events (the replayable history) */
+  decisionRetentionDays?: number;
+}
+
 export interface EventRecord {
   id: string;
   type: EventType;
@@ -126,7 +182,42 @@ export interface IntentItem {
 // Meeting State Types
 // ============================================
 
-export type MarkerType = 'decision' | 'action' | 'risk' | 'question';
+/** Marker types every install ships with */
+export type BuiltInMarkerType = 'decision' | 'action' | 'risk' | 'question';
+
+/**
+ * A marker type id: built in, or added through the marker type registry
+ * (see `src/lib/marker-types.ts`). Stored markers may carry ids the registry
+ * no longer knows.
+ */
+export type MarkerType = BuiltInMarkerType | (string & {});
+
+export type ActionStatus = 'open' | 'done' | 'dropped';
+
+/**
+ * Lifecycle details for an action marker.
+ * Markers without details are open and unassigned.
+ */
+export interface ActionDetails {
+  /** Owner, one of the meeting's attendees */
+  owner?: string;
+  /** Due date as YYYY-MM-DD */
+  dueDate?: string;
+  status: ActionStatus;
+  /** When the status last changed */
+  statusChangedAt?: number;
+}
+
+/**
+ * How an open item from a previous series instance was resolved.
+ */
+export interface CarryOverResolution {
+  status: 'carried_forward' | 'closed';
+  /** When the item was resolved */
+  at: number;
+  /** Meeting the item was carried into (carried_forward only) */
+  toMeetingId?: string;
+}
 
 export interface StoredMarker {
   id: string;
@@ -136,6 +227,12 @@ export interface StoredMarker {
   meetingId: string;
   /** Soft-delete timestamp (tombstone) */
   deletedAt?: number;
+  /** Set once the marker was carried forward or closed in a later instance */
+  carryOver?: CarryOverResolution;
+  /** WorkObject ID of the item this was carried forward from */
+  carriedFrom?: string;
+  /** Owner, due date and status (action markers only) */
+  action?: ActionDetails;
 }
 
 export interface StoredMy3Goal {
@@ -145,6 +242,10 @@ export interface StoredMy3Goal {
   achievedAt?: number;
   /** Soft-delete timestamp (tombstone) */
   deletedAt?: number;
+  /** Set once the goal was carried forward or closed in a later instance */
+  carryOver?: CarryOverResolution;
+  /** WorkObject ID of the item this was carried forward from */
+  carriedFrom?: string;
 }
 
 export interface MeetingState {
@@ -176,6 +277,92 @@ export interface DailyAggregate {
   totalEvents: number;
 }
 
+// ============================================
+// Timing Settings Types
+// ============================================
+
+/** Key of the global TimingConfig row in the timingSettings store */
+export const GLOBAL_TIMING_ID = 'global';
+
+/**
+ * Row of the timingSettings store: the global TimingConfig or one
+ * per-meeting override.
+ */
+export type StoredTimingSettings =
+  | { id: typeof GLOBAL_TIMING_ID; kind: 'global'; config: Partial<TimingConfig>; updatedAt: number }
+  | { id: string; kind: 'override'; override: TimingOverride; createdAt: number; updatedAt: number };
+
+// ============================================
+// Mode Rules Types
+// ============================================
+
+/** Key of the single active rule set in the modeRules store */
+export const ACTIVE_MODE_RULES_ID = 'active';
+
+/**
+ * Row of the modeRules store: a user rule set replacing the default rules.
+ */
+export interface StoredModeRules {
+  id: typeof ACTIVE_MODE_RULES_ID;
+  ruleSet: ModeRuleSet;
+  updatedAt: number;
+}
+
+// ============================================
+// Marker Types Types
+// ============================================
+
+/** Key of the single active registry in the markerTypes store */
+export const ACTIVE_MARKER_TYPES_ID = 'active';
+
+/**
+ * Row of the markerTypes store: a team registry replacing the default
+ * marker types.
+ */
+export interface StoredMarkerTypes {
+  id: typeof ACTIVE_MARKER_TYPES_ID;
+  registry: MarkerTypeRegistry;
+  updatedAt: number;
+}
+
+// ============================================
+// Transcript Types
+// ============================================
+
+/**
+ * Where transcript segments came from. All sources run locally: an on-device
+ * recognizer, an imported VTT/SRT file, a Zoom or Teams export or a Whisper
+ * server on this machine.
+ */
+export type TranscriptSource = 'recognizer' | 'vtt' | 'srt' | 'whisper' | 'zoom' | 'teams';
+
+/**
+ * Row of the transcriptSegments store: one timed stretch of speech in a
+ * meeting. Times are absolute (ms) so segments line up with marker timestamps.
+ */
+export interface StoredTranscriptSegment {
+  id: string;
+  meetingUid: string;
+  startTime: number;
+  endTime: number;
+  text: string;
+  speaker?: string;
+  source: TranscriptSource;
+  ingestedAt: number;
+}
+
+/**
+ * Row of the canvasPositions store: where a card sits on the canvas lens.
+ * Keyed by WorkObject ID, so captured markers and goals (which have no
+ * stored WorkObject) keep their place too.
+ */
+export interface StoredCanvasPosition {
+  workObjectId: string;
+  x: number;
+  y: number;
+  updatedAt: number;
+}
+
 // ============================================
 // Storage API Types
 // ============================================
@@ -184,7 +371,7 @@ export interface StorageAPI {
   // Events
   logEvent(type: EventType, payload?: Record<string, unknown>): Promise<string>;
   getEvents(filter?: EventFilter): Promise<EventRecord[]>;
-  compactEvents(): Promise<{ removed: number; aggregated: number }>;
+  compactEvents(options?: EventCompactionOptions): Promise<{ removed: number; aggregated: number }>;
 
   // Meetings
   getMeeting(id: string): Promise<MeetingState | null>;
@@ -207,7 +394,7 @@ export interface StorageAPI {
 // ============================================
 
 export const DB_NAME = 'agentic-interface';
-export const DB_VERSION = 3; // Bumped for tombstone index
+export const DB_VERSION = 8; // Bumped for canvas positions store
 
 export const STORE_NAMES = {
   events: 'events',
@@ -221,4 +408,12 @@ export const STORE_NAMES = {
   workObjects: 'workObjects',
   workObjectFlags: 'workObjectFlags',
   workLinks: 'workLinks',
+  // Rules engine settings
+  timingSettings: 'timingSettings',
+  modeRules: 'modeRules',
+  markerTypes: 'markerTypes',
+  // Capture
+  transcriptSegments: 'transcriptSegments',
+  // Workspaces
+  canvasPositions: 'canvasPositions',
 } as const;
@@ -5,10 +5,31 @@
  * See spec: docs/work_objects_and_agentic_work_surfaces.md §8, §18
  */
 
-import { workObjectsStore, workLinksStore, meetingsStore } from './db';
+import {
+  workObjectsStore,
+  workLinksStore,
+  workObjectFlagsStore,
+  meetingsStore,
+} from './db';
 import { logEvent } from './storage-api';
-import { workObjectIds, isSameScope, getMeetingUidFromWorkObjectId, parseWorkObjectId } from './work-object-id';
-import type { WorkObject, WorkLink, LinkType } from './work-object-types';
+import { getSeriesIdForMeeting } from './series-api';
+import {
+  workObjectIds,
+  parseWorkObjectId,
+  getScopeLinkRule,
+  getScopeKind,
+  getScopeId,
+  isMeetingScope,
+  getMeetingUidFromScope,
+} from './work-object-id';
+import type {
+  WorkObject,
+  WorkLink,
+  LinkType,
+  FlagType,
+  WorkObjectFlag,
+  WorkObjectScope,
+} from './work-object-types';
 
 // ============================================
 // Soft Delete Operations
@@ -69,6 +90,46 @@ export async function restoreWorkObject(id: string): Promise<void> {
   });
 }
 
+// ============================================
+// Update Operations
+// ============================================
+
+/**
+ * Update a WorkObject's title and/or payload.
+ * Payload changes are merged into the existing payload.
+ * Returns null (with a warning) if the object is missing or deleted.
+ */
+export async function updateWorkObject(
+  id: string,
+  changes: { title?: string; payload?: Record<string, unknown> }
+): Promise<WorkObject | null> {
+  const obj = await workObjectsStore.get(id);
+  if (!obj || obj.deletedAtIso) {
+    console.warn(`[WorkObjectAPI] Cannot update: object not found: ${id}`);
+    return null;
+  }
+
+  if (changes.title !== undefined) {
+    obj.title = changes.title || undefined;
+  }
+  if (changes.payload) {
+    obj.payload = { ...obj.payload, ...changes.payload };
+  }
+  obj.updatedAtIso = new Date().toISOString();
+
+  await workObjectsStore.put(obj);
+  await logEvent('work_object_updated', {
+    workObjectId: id,
+    type: obj.type,
+    fields: [
+      ...(changes.title !== undefined ? ['title'] : []),
+      ...Object.keys(changes.payload ?? {}).map((key) => `payload.${key}`),
+    ],
+  });
+
+  return obj;
+}
+
 /**
  * Soft-delete a WorkLink by setting deletedAtIso timestamp.
  */
@@ -101,6 +162,7 @@ export class LinkValidationError extends Error {
     public readonly code:
       | 'SELF_LINK'
       | 'CROSS_SCOPE'
+      | 'CROSS_SERIES'
       | 'SOURCE_NOT_FOUND'
       | 'TARGET_NOT_FOUND'
       | 'SOURCE_DELETED'
@@ -136,8 +198,8 @@ async function checkWorkObjectExists(
   }
 
   // For goals and markers, check the meeting's embedded arrays
-  if (parsed.type === 'goal' || parsed.type === 'marker') {
-    const meetingId = parsed.scope.replace('mtg:', '');
+  if ((parsed.type === 'goal' || parsed.type === 'marker') && isMeetingScope(parsed.scope)) {
+    const meetingId = getMeetingUidFromScope(parsed.scope);
     const meeting = await meetingsStore.get(meetingId);
     if (!meeting) {
       return { exists: false, deleted: false };
@@ -163,6 +225,22 @@ async function checkWorkObjectExists(
   return { exists: false, deleted: false };
 }
 
+/**
+ * Resolve the recurring series (iCalUID) a meeting or series scope belongs to.
+ * Meeting scopes hold the MeetingState ID, which keys the meeting's calendar
+ * mapping. Returns null for other scopes or meetings without a mapping.
+ */
+async function getSeriesIdForScope(scope: WorkObjectScope): Promise<string | null> {
+  const kind = getScopeKind(scope);
+  if (kind === 'series') {
+    return getScopeId(scope);
+  }
+  if (kind === 'mtg') {
+    return getSeriesIdForMeeting(getMeetingUidFromScope(scope));
+  }
+  return null;
+}
+
 /**
  * Create a WorkLink between two WorkObjects.
  *
@@ -170,7 +248,7 @@ async function checkWorkObjectExists(
  * - Both IDs are valid WorkObject IDs
  * - Not a self-link (fromId !== toId)
  * - Both objects exist and are not deleted
- * - Both objects are in the same scope (V1 restriction)
+ * - The scopes may be linked under the cross-scope policy (getScopeLinkRule)
  *
  * @param fromId - Source WorkObject ID
  * @param toId - Target WorkObject ID
@@ -191,23 +269,43 @@ export async function createWorkLink(
     );
   }
 
-  // Same-scope check (V1 restriction: no cross-scope linking)
-  if (!isSameScope(fromId, toId)) {
+  // Get scope from source for link ID generation
+  const sourceScope = parseWorkObjectId(fromId)?.scope;
+  if (!sourceScope) {
     throw new LinkValidationError(
-      'Cannot create links between objects in different scopes',
-      'CROSS_SCOPE'
+      `Invalid source WorkObject ID: ${fromId}`,
+      'INVALID_ID'
     );
   }
-
-  // Get meeting UID from source for link ID generation
-  const meetingUid = getMeetingUidFromWorkObjectId(fromId);
-  if (!meetingUid) {
+  const targetScope = parseWorkObjectId(toId)?.scope;
+  if (!targetScope) {
     throw new LinkValidationError(
-      `Invalid source WorkObject ID: ${fromId}`,
+      `Invalid target WorkObject ID: ${toId}`,
       'INVALID_ID'
     );
   }
 
+  // Cross-scope policy
+  const scopeRule = getScopeLinkRule(fromId, toId);
+  if (scopeRule === 'denied') {
+    throw new LinkValidationError(
+      `Cannot create links between ${getScopeKind(sourceScope)} and ${getScopeKind(targetScope)} scopes`,
+      'CROSS_SCOPE'
+    );
+  }
+  if (scopeRule === 'same_series') {
+    const [sourceSeries, targetSeries] = await Promise.all([
+      getSeriesIdForScope(sourceScope),
+      getSeriesIdForScope(targetScope),
+    ]);
+    if (!sourceSeries || sourceSeries !== targetSeries) {
+      throw new LinkValidationError(
+        'Cannot link across meetings outside the same recurring series',
+        'CROSS_SERIES'
+      );
+    }
+  }
+
   // Validate source object exists and is active
   const sourceStatus = await checkWorkObjectExists(fromId);
   if (!sourceStatus.exists) {
@@ -239,7 +337,7 @@ export async function createWorkLink(
   }
 
   // Create the link
-  const linkId = workObjectIds.link(meetingUid);
+  const linkId = workObjectIds.linkInScope(sourceScope);
   const now = new Date().toISOString();
 
   const link: WorkLink = {
@@ -257,11 +355,48 @@ export async function createWorkLink(
     linkType: type,
     fromId,
     toId,
+    crossScope: scopeRule !== 'same_scope',
   });
 
   return linkId;
 }
 
+// ============================================
+// Flags (Spec §9)
+// ============================================
+
+/**
+ * Set or clear a flag on a WorkObject.
+ * Flags are normalized records keyed by (workObjectId, flagType).
+ */
+export async function setWorkObjectFlag(
+  workObjectId: string,
+  flagType: FlagType,
+  isSet: boolean,
+  setBy: WorkObjectFlag['setBy'] = 'user'
+): Promise<WorkObjectFlag> {
+  const flag: WorkObjectFlag = {
+    workObjectId,
+    flagType,
+    isSet,
+    setAtIso: new Date().toISOString(),
+    setBy,
+  };
+
+  await workObjectFlagsStore.put(flag);
+  await logEvent('flag_toggled', { workObjectId, flagType, isSet, setBy });
+
+  return flag;
+}
+
+/**
+ * Get all flags that are currently set.
+ */
+export async function getSetFlags(): Promise<WorkObjectFlag[]> {
+  const all = await workObjectFlagsStore.getAll();
+  return all.filter((flag) => flag.isSet);
+}
+
 // ============================================
 // Query Operations (Tombstone-Aware)
 // ============================================
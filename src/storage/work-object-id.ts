@@ -5,13 +5,18 @@
  * See spec §5: WorkObject ID System (Canonical)
  *
  * Format: wo:<type>:<scope>:<local_id>
- * Scope: mtg:<meeting_uid> for meeting-scoped objects
+ * Scope: mtg:<meeting_uid> for meeting-scoped objects,
+ *        session:<session_id> for objects created outside a meeting,
+ *        project:<project_id> for objects spanning several meetings,
+ *        series:<recurring_id> for objects shared by a recurring series
+ * Scope IDs are URI-encoded, since calendar UIDs may contain colons.
  */
 
 import { v4 as uuidv4 } from 'uuid';
 import type {
   WorkObjectType,
   WorkObjectScope,
+  WorkObjectScopeKind,
   ParsedWorkObjectId,
 } from './work-object-types';
 
@@ -33,16 +38,65 @@ export function generateMeetingUid(): string {
 
 /**
  * Build a scope string from a meeting UID.
+ * For stored meetings this is the MeetingState ID, which is also the key
+ * of the meeting's calendar mapping (see getOrCreateMeetingUid).
  */
 export function buildScope(meetingUid: string): WorkObjectScope {
-  return `mtg:${meetingUid}`;
+  return `mtg:${encodeURIComponent(meetingUid)}`;
+}
+
+/**
+ * Build a session scope string from a session ID.
+ */
+export function buildSessionScope(sessionId: string): WorkObjectScope {
+  return `session:${encodeURIComponent(sessionId)}`;
+}
+
+/**
+ * Build a project scope string from a project ID.
+ */
+export function buildProjectScope(projectId: string): WorkObjectScope {
+  return `project:${encodeURIComponent(projectId)}`;
+}
+
+/**
+ * Build a series scope string from a recurring meeting's iCalUID.
+ */
+export function buildSeriesScope(recurringId: string): WorkObjectScope {
+  return `series:${encodeURIComponent(recurringId)}`;
+}
+
+/**
+ * All valid scope kinds.
+ */
+export const SCOPE_KINDS: WorkObjectScopeKind[] = ['mtg', 'session', 'project', 'series'];
+
+/**
+ * Get the kind of a scope string.
+ */
+export function getScopeKind(scope: WorkObjectScope): WorkObjectScopeKind {
+  return scope.slice(0, scope.indexOf(':')) as WorkObjectScopeKind;
+}
+
+/**
+ * Get the ID part of a scope string (everything after the kind), decoded.
+ */
+export function getScopeId(scope: WorkObjectScope): string {
+  return decodeURIComponent(scope.slice(scope.indexOf(':') + 1));
 }
 
 /**
  * Extract meeting UID from a scope string.
  */
 export function getMeetingUidFromScope(scope: WorkObjectScope): string {
-  return scope.replace('mtg:', '');
+  return decodeURIComponent(scope.replace('mtg:', ''));
+}
+
+/**
+ * Check whether a scope is meeting-scoped.
+ */
+export function isMeetingScope(scope: WorkObjectScope): scope is `mtg:${string}` {
+  return scope.startsWith('mtg:');
 }
 
 // ============================================
@@ -62,7 +116,23 @@ export function createWorkObjectId(
   meetingUid: string,
   localId: string
 ): string {
-  const scope = buildScope(meetingUid);
+  return createScopedWorkObjectId(type, buildScope(meetingUid), localId);
+}
+
+/**
+ * Create a WorkObject ID in an explicit scope.
+ *
+ * @param type - The WorkObject type
+ * @param scope - Scope string from buildScope(), buildSessionScope(),
+ *                buildProjectScope() or buildSeriesScope()
+ * @param localId - The local identifier within the scope
+ * @returns Canonical WorkObject ID
+ */
+export function createScopedWorkObjectId(
+  type: WorkObjectType,
+  scope: WorkObjectScope,
+  localId: string
+): string {
   return `wo:${type}:${scope}:${localId}`;
 }
 
@@ -126,6 +196,18 @@ export const workObjectIds = {
    */
   link: (meetingUid: string): string =>
     createWorkObjectId('link', meetingUid, uuidv4()),
+
+  /**
+   * Note ID in an explicit scope.
+   */
+  noteInScope: (scope: WorkObjectScope): string =>
+    createScopedWorkObjectId('note', scope, uuidv4()),
+
+  /**
+   * Link ID in an explicit scope.
+   */
+  linkInScope: (scope: WorkObjectScope): string =>
+    createScopedWorkObjectId('link', scope, uuidv4()),
 };
 
 // ============================================
@@ -167,7 +249,7 @@ export function parseWorkObjectId(id: string): ParsedWorkObjectId | null {
   }
 
   // Validate scope type
-  if (scopeType !== 'mtg') {
+  if (!SCOPE_KINDS.includes(scopeType as WorkObjectScopeKind) || !scopeId) {
     return null;
   }
 
@@ -194,7 +276,6 @@ export function isValidWorkObjectId(id: string): boolean {
 
 /**
  * Check if two WorkObject IDs share the same scope.
- * Used to enforce cross-scope linking restrictions.
  *
  * @param id1 - First WorkObject ID
  * @param id2 - Second WorkObject ID
@@ -211,16 +292,61 @@ export function isSameScope(id1: string, id2: string): boolean {
   return parsed1.scope === parsed2.scope;
 }
 
+/**
+ * How a link between two scopes is governed.
+ * - same_scope: both IDs share a scope (always allowed)
+ * - allowed: different scopes that may always be linked
+ * - same_series: allowed only when both sides belong to the same recurring series
+ * - denied: never allowed
+ */
+export type ScopeLinkRule = 'same_scope' | 'allowed' | 'same_series' | 'denied';
+
+/**
+ * Cross-scope link policy.
+ * Session scopes are scratch space and stay isolated. Projects exist to tie
+ * work together, so anything non-session may link into one. Meetings may link
+ * to other meetings or to a series only within the same recurring series;
+ * the caller resolves series membership.
+ *
+ * @returns The rule, or null if either ID is invalid
+ */
+export function getScopeLinkRule(id1: string, id2: string): ScopeLinkRule | null {
+  const parsed1 = parseWorkObjectId(id1);
+  const parsed2 = parseWorkObjectId(id2);
+
+  if (!parsed1 || !parsed2) {
+    return null;
+  }
+
+  if (parsed1.scope === parsed2.scope) {
+    return 'same_scope';
+  }
+
+  const kinds = [getScopeKind(parsed1.scope), getScopeKind(parsed2.scope)];
+
+  if (kinds.includes('session')) {
+    return 'denied';
+  }
+  if (kinds.includes('project')) {
+    return 'allowed';
+  }
+  if (kinds.includes('mtg')) {
+    return 'same_series';
+  }
+  // Two different series
+  return 'denied';
+}
+
 /**
  * Extract the meeting UID from a WorkObject ID.
  *
  * @param workObjectId - The WorkObject ID
- * @returns Meeting UID, or null if invalid
+ * @returns Meeting UID, or null if invalid or not meeting-scoped
  */
 export function getMeetingUidFromWorkObjectId(
   workObjectId: string
 ): string | null {
   const parsed = parseWorkObjectId(workObjectId);
-  if (!parsed) return null;
+  if (!parsed || !isMeetingScope(parsed.scope)) return null;
   return getMeetingUidFromScope(parsed.scope);
 }
@@ -5,6 +5,8 @@
  * See spec: docs/work_objects_and_agentic_work_surfaces.md
  */
 
+import type { CalendarProviderId } from '@/calendar/types';
+
 // ============================================
 // WorkObject ID System (Spec §5)
 // ============================================
@@ -27,11 +29,20 @@ export type WorkObjectType =
  */
 export type WorkObjectSource = 'user' | 'agent' | 'system';
 
+/**
+ * Scope kinds, the first segment of a scope string.
+ */
+export type WorkObjectScopeKind = 'mtg' | 'session' | 'project' | 'series';
+
 /**
  * Scope prefix for WorkObject IDs.
- * Currently only meeting scope is supported.
+ * - mtg:<meeting_uid> for meeting-scoped objects
+ * - session:<session_id> for objects created outside a meeting
+ * - project:<project_id> for objects spanning several meetings
+ * - series:<recurring_id> for objects shared by a recurring meeting series
+ *   (recurring_id is the series' iCalUID)
  */
-export type WorkObjectScope = `mtg:${string}`;
+export type WorkObjectScope = `${WorkObjectScopeKind}:${string}`;
 
 // ============================================
 // Core WorkObject Interface (Spec §8)
@@ -73,11 +84,11 @@ export interface WorkObject {
 export interface MeetingUidMapping {
   /** Internal UUID for this meeting */
   meetingUid: string;
-  /** Calendar provider */
-  provider: 'gcal';
+  /** Calendar provider the event came from */
+  provider: CalendarProviderId;
   /** Primary identity (stable across edits) */
   iCalUid: string;
-  /** Secondary locator (Google's eventId) */
+  /** Secondary locator (provider's event ID) */
   eventId: string;
   /** Calendar ID from provider */
   calendarId: string;
@@ -139,7 +150,7 @@ export type LinkType = 'related' | 'supports' | 'blocks' | 'duplicates';
 
 /**
  * A link between two WorkObjects.
- * Cross-scope linking is disallowed in V1.
+ * Cross-scope links are governed by getScopeLinkRule() in work-object-id.ts.
  */
 export interface WorkLink {
   /** Link ID: wo:link:mtg:<uid>:<uuid> */
@@ -23,8 +23,11 @@ import {
   meetingsStore,
   intentsStore,
   aggregatesStore,
+  meetingUidMappingsStore,
+  meetingMetadataStore,
 } from '../storage/db';
 import { storage } from '../storage/storage-api';
+import { getOrCreateMeetingUid } from '../storage/meeting-uid-api';
 
 // ============================================
 // Time Control
@@ -180,6 +183,19 @@ function convertIntent(
   };
 }
 
+/**
+ * Find the calendar event a scenario meeting is an instance of: the one
+ * with the same title and start.
+ */
+function findScenarioEvent(
+  scenario: TestScenario,
+  scenarioMeeting: ScenarioMeeting
+): ScenarioCalendarEvent | undefined {
+  return scenario.calendarEvents?.find(
+    (e) => e.title === scenarioMeeting.title && e.startMinutes === scenarioMeeting.startMinutes
+  );
+}
+
 /**
  * Convert scenario calendar event to CalendarEvent.
  * Used for simulating calendar context.
@@ -224,6 +240,8 @@ export async function clearScenarioData(): Promise<void> {
     intentsStore.clear(),
     eventsStore.clear(),
     aggregatesStore.clear(),
+    meetingUidMappingsStore.clear(),
+    meetingMetadataStore.clear(),
   ]);
 }
 
@@ -264,6 +282,12 @@ export async function loadScenario(
         await storage.saveMeeting(meeting);
         meetingIds.push(meeting.id);
 
+        // Map the calendar event to this meeting so series lookups find it
+        const scenarioEvent = findScenarioEvent(scenario, scenarioMeeting);
+        if (scenarioEvent) {
+          await getOrCreateMeetingUid(convertCalendarEvent(scenarioEvent, anchorTime), meeting.id);
+        }
+
         // Log meeting created event
         await storage.logEvent('meeting_prep_opened', {
           meetingId: meeting.id,
@@ -367,6 +367,56 @@ export const complexScenarios: TestScenario[] = [
     ],
     expectedMode: 'neutral_intent',
   },
+
+  {
+    id: 'recurring-series',
+    name: 'Weekly Sync With Open Items',
+    description: 'Next instance of a weekly meeting. Prep should offer last week\'s open items for carry-over.',
+    tags: ['complex', 'prep', 'series'],
+    calendarEvents: [
+      {
+        id: 'cal-weekly-2',
+        iCalUid: 'ical-weekly-sync@test',
+        title: 'Weekly Product Sync',
+        startMinutes: 30,
+        durationMinutes: 30,
+      },
+      {
+        id: 'cal-weekly-1',
+        iCalUid: 'ical-weekly-sync@test',
+        title: 'Weekly Product Sync',
+        startMinutes: 30 - 7 * 24 * 60,
+        durationMinutes: 30,
+      },
+    ],
+    meetings: [
+      {
+        id: 'mtg-weekly-2',
+        title: 'Weekly Product Sync',
+        startMinutes: 30,
+        durationMinutes: 30,
+        attendees: ['Product', 'Engineering'],
+      },
+      {
+        id: 'mtg-weekly-1',
+        title: 'Weekly Product Sync',
+        startMinutes: 30 - 7 * 24 * 60,
+        durationMinutes: 30,
+        attendees: ['Product', 'Engineering'],
+        goals: [
+          { text: 'Agree on beta scope', achieved: true },
+          { text: 'Pick a launch date', achieved: false },
+        ],
+        markers: [
+          { type: 'decision', label: 'Beta limited to 20 customers' },
+          { type: 'action', label: 'Draft beta invite email' },
+          { type: 'question', label: 'Do we need legal review?' },
+        ],
+        synthesisCompleted: true,
+      },
+    ],
+    expectedMode: 'meeting_prep',
+  },
 ];
 
 /**
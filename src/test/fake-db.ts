@@ -0,0 +1,16 @@
+/**
+ * In-memory IndexedDB for tests that run against the real stores.
+ */
+
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { closeDB } from '@/storage/db';
+
+/**
+ * Start from an empty database: drops the open connection and swaps in a
+ * fresh IndexedDB factory.
+ */
+export function resetTestDB(): void {
+  closeDB();
+  globalThis.indexedDB = new IDBFactory();
+}
@@ -8,12 +8,14 @@
 /**
  * The four V1 modes supported by the system.
  * Priority order: capture > prep > synthesis > neutral
+ * `meeting_transition` combines synthesis and prep when meetings are back to back.
  */
 export type Mode =
   | 'neutral_intent'
   | 'meeting_prep'
   | 'meeting_capture'
   | 'meeting_synthesis_min'
+  | 'meeting_transition'
   | 'agentic_work_surface';
 
 /**
@@ -65,6 +67,10 @@ export interface UIPlan {
   reason: string;
   /** Timestamp when plan was created */
   timestamp: number;
+  /** Calendar event the plan is about (the meeting that just ended for synthesis) */
+  eventId?: string;
+  /** Calendar events of a transition plan: the meeting that just ended and the next one */
+  transition?: { fromId: string; toId: string };
 }
 
 /**
@@ -80,9 +86,13 @@ export interface Alternative {
  * Action available in the Decision Capsule.
  */
 export interface CapsuleAction {
-  type: 'switch_view' | 'set_intent';
+  type: 'switch_view' | 'set_intent' | 'pin_mode' | 'unpin_mode' | 'snooze_mode' | 'unsnooze_mode';
   label: string;
   target?: Mode;
+  /** When a pin or snooze expires (ms timestamp) */
+  until?: number;
+  /** Meeting a snooze applies to */
+  eventId?: string;
 }
 
 /**
@@ -0,0 +1,333 @@
+'use client';
+
+/**
+ * Block Document Workspace
+ *
+ * Block editor lens with paragraph, heading, checklist and quote blocks.
+ * Typing "/" at the start of a block opens the command menu to change its type.
+ * Blocks persist as note WorkObjects in the active meeting's scope, or in
+ * the session scope when no meeting is active.
+ */
+
+import { useState, useEffect, useRef, useCallback, type KeyboardEvent } from 'react';
+import { WorkspaceDefinition } from '@/compiler/types';
+import { useMeetingContext } from '@/contexts/MeetingContext';
+import { useLinkingContext } from '@/contexts/LinkingContext';
+import { LinkableItem } from '@/components/linking/LinkableItem';
+import { WorkObjectActionMenu } from '@/components/shared/WorkObjectActionMenu';
+import { useBlockDocument, getOrCreateSessionId } from '@/hooks/use-block-document';
+import { buildScope, buildSessionScope } from '@/storage/work-object-id';
+import type { BlockType, DocBlock } from '@/storage/block-doc-api';
+import type { LinkingModeStatus } from '@/hooks/use-linking-mode';
+import type { LinkType, WorkObjectScope } from '@/storage/work-object-types';
+
+interface BlockDocWorkspaceProps {
+    definition: WorkspaceDefinition;
+}
+
+interface BlockCommand {
+    type: BlockType;
+    label: string;
+    hint: string;
+}
+
+export const BLOCK_COMMANDS: BlockCommand[] = [
+    { type: 'paragraph', label: 'Text', hint: 'Plain paragraph' },
+    { type: 'heading', label: 'Heading', hint: 'Section title' },
+    { type: 'checklist', label: 'Checklist', hint: 'Item with a checkbox' },
+    { type: 'quote', label: 'Quote', hint: 'Highlighted quotation' },
+];
+
+/**
+ * Filter slash commands by the text typed after "/".
+ */
+export function filterBlockCommands(query: string): BlockCommand[] {
+    const q = query.trim().toLowerCase();
+    if (!q) return BLOCK_COMMANDS;
+    return BLOCK_COMMANDS.filter(
+        (cmd) => cmd.label.toLowerCase().startsWith(q) || cmd.type.startsWith(q)
+    );
+}
+
+const IDLE_LINKING_STATUS: LinkingModeStatus = {
+    state: 'idle',
+    sourceId: null,
+    linkType: null,
+    timeoutSecondsRemaining: null,
+    showTimeoutWarning: false,
+    isActive: false,
+};
+
+const blockTextClasses: Record<BlockType, string> = {
+    paragraph: 'text-base text-gray-800',
+    heading: 'text-2xl font-semibold text-gray-900',
+    checklist: 'text-base text-gray-800',
+    quote: 'text-base italic text-gray-600',
+};
+
+// ============================================
+// Block Row
+// ============================================
+
+interface BlockRowProps {
+    block: DocBlock;
+    autoFocus: boolean;
+    onFocused: () => void;
+    onCommit: (text: string) => void;
+    onChangeType: (type: BlockType) => void;
+    onToggle: () => void;
+    onEnter: (text: string) => void;
+    onBackspaceEmpty: () => void;
+    onStartLinking?: (linkType: LinkType) => void;
+    onDelete: () => void;
+}
+
+function BlockRow({
+    block,
+    autoFocus,
+    onFocused,
+    onCommit,
+    onChangeType,
+    onToggle,
+    onEnter,
+    onBackspaceEmpty,
+    onStartLinking,
+    onDelete,
+}: BlockRowProps) {
+    const [draft, setDraft] = useState(block.text);
+    const [commandIndex, setCommandIndex] = useState(0);
+    const inputRef = useRef<HTMLTextAreaElement>(null);
+
+    const showCommands = draft.startsWith('/');
+    const commands = showCommands ? filterBlockCommands(draft.slice(1)) : [];
+
+    useEffect(() => {
+        if (autoFocus) {
+            inputRef.current?.focus();
+            onFocused();
+        }
+    }, [autoFocus, onFocused]);
+
+    // Grow textarea to fit content
+    useEffect(() => {
+        const el = inputRef.current;
+        if (el) {
+            el.style.height = 'auto';
+            el.style.height = `${el.scrollHeight}px`;
+        }
+    }, [draft]);
+
+    const applyCommand = useCallback(
+        (command: BlockCommand) => {
+            setDraft('');
+            setCommandIndex(0);
+            onChangeType(command.type);
+        },
+        [onChangeType]
+    );
+
+    const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+        if (showCommands && commands.length > 0) {
+            if (e.key === 'ArrowDown') {
+                e.preventDefault();
+                setCommandIndex((i) => (i + 1) % commands.length);
+                return;
+            }
+            if (e.key === 'ArrowUp') {
+                e.preventDefault();
+                setCommandIndex((i) => (i - 1 + commands.length) % commands.length);
+                return;
+            }
+            if (e.key === 'Enter') {
+                e.preventDefault();
+                applyCommand(commands[Math.min(commandIndex, commands.length - 1)]);
+                return;
+            }
+        }
+        if (showCommands && e.key === 'Escape') {
+            e.preventDefault();
+            setDraft('');
+            return;
+        }
+        if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault();
+            onEnter(draft);
+            return;
+        }
+        if (e.key === 'Backspace' && draft === '') {
+            e.preventDefault();
+            onBackspaceEmpty();
+        }
+    };
+
+    return (
+        <div className="group relative flex items-start gap-2 rounded-md px-2 py-1 hover:bg-gray-50">
+            {block.blockType === 'checklist' && (
+                <input
+                    type="checkbox"
+                    checked={block.checked}
+                    onChange={onToggle}
+                    className="mt-1.5 h-4 w-4 rounded border-gray-300"
+                    aria-label="Toggle item"
+                />
+            )}
+            <div className={`flex-1 ${block.blockType === 'quote' ? 'border-l-4 border-gray-300 pl-3' : ''}`}>
+                <textarea
+                    ref={inputRef}
+                    rows={1}
+                    value={draft}
+                    onChange={(e) => {
+                        setDraft(e.target.value);
+                        setCommandIndex(0);
+                    }}
+                    onBlur={() => {
+                        if (!draft.startsWith('/') && draft !== block.text) onCommit(draft);
+                    }}
+                    onKeyDown={handleKeyDown}
+                    placeholder={block.blockType === 'heading' ? 'Heading' : "Type '/' for commands"}
+                    className={`w-full resize-none overflow-hidden bg-transparent focus:outline-none ${blockTextClasses[block.blockType]} ${block.blockType === 'checklist' && block.checked ? 'text-gray-400 line-through' : ''}`}
+                    data-block-type={block.blockType}
+                />
+                {showCommands && (
+                    <div
+                        className="absolute left-2 top-full z-40 mt-1 w-56 rounded-lg border border-gray-200 bg-white py-1 shadow-lg"
+                        role="listbox"
+                    >
+                        {commands.length === 0 ? (
+                            <p className="px-3 py-2 text-sm text-gray-400">No matching blocks</p>
+                        ) : (
+                            commands.map((cmd, i) => (
+                                <button
+                                    key={cmd.type}
+                                    type="button"
+                                    role="option"
+                                    aria-selected={i === commandIndex}
+                                    onMouseDown={(e) => {
+                                        // Keep focus in the textarea so onBlur does not commit "/..."
+                                        e.preventDefault();
+                                        applyCommand(cmd);
+                                    }}
+                                    className={`flex w-full flex-col px-3 py-1.5 text-left ${i === commandIndex ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                                >
+                                    <span className="text-sm font-medium text-gray-900">{cmd.label}</span>
+                                    <span className="text-xs text-gray-500">{cmd.hint}</span>
+                                </button>
+                            ))
+                        )}
+                    </div>
+                )}
+            </div>
+            <div className="opacity-0 transition-opacity group-hover:opacity-100">
+                <WorkObjectActionMenu onStartLinking={onStartLinking} onDelete={onDelete} />
+            </div>
+        </div>
+    );
+}
+
+// ============================================
+// Workspace
+// ============================================
+
+export function BlockDocWorkspace({ definition }: BlockDocWorkspaceProps) {
+    const meetingContext = useMeetingContext();
+    const linkingContext = useLinkingContext();
+    const meetingId = meetingContext?.meetingId ?? null;
+
+    // Workspaces only mount after client-side compilation, but guard SSR anyway
+    const [sessionScope] = useState<WorkObjectScope | null>(() =>
+        typeof window === 'undefined' ? null : buildSessionScope(getOrCreateSessionId())
+    );
+    const scope = meetingId ? buildScope(meetingId) : sessionScope;
+
+    const { blocks, loading, insertBlock, updateBlock, deleteBlock } = useBlockDocument(scope);
+    const [focusId, setFocusId] = useState<string | null>(null);
+    const clearFocus = useCallback(() => setFocusId(null), []);
+
+    const title =
+        blocks.find((b) => b.blockType === 'heading' && b.text.trim())?.text ??
+        meetingContext?.meeting?.title ??
+        'Untitled Document';
+
+    const handleEnter = async (block: DocBlock, text: string) => {
+        if (text !== block.text) {
+            await updateBlock(block.id, { text });
+        }
+        // Checklists continue as checklists; everything else starts a paragraph
+        const nextType: BlockType = block.blockType === 'checklist' ? 'checklist' : 'paragraph';
+        const created = await insertBlock(block.id, nextType);
+        if (created) setFocusId(created.id);
+    };
+
+    const handleBackspaceEmpty = async (block: DocBlock) => {
+        if (block.blockType !== 'paragraph') {
+            // First backspace on an empty typed block turns it back into text
+            await updateBlock(block.id, { blockType: 'paragraph' });
+            return;
+        }
+        const index = blocks.findIndex((b) => b.id === block.id);
+        if (index > 0) {
+            setFocusId(blocks[index - 1].id);
+        }
+        await deleteBlock(block.id);
+    };
+
+    const handleStartFirstBlock = async () => {
+        const created = await insertBlock(null);
+        if (created) setFocusId(created.id);
+    };
+
+    return (
+        <div className="h-full w-full rounded-xl bg-white p-8 shadow-sm">
+            <div className="mx-auto max-w-3xl">
+                <div className="mb-8 border-b pb-4">
+                    <h1 className="text-3xl font-bold text-gray-900">{title}</h1>
+                    <p className="mt-2 text-sm text-gray-500">
+                        Generated from intent: &ldquo;{definition.context.originalIntent}&rdquo;
+                    </p>
+                </div>
+
+                {loading ? (
+                    <p className="text-sm text-gray-400">Loading document...</p>
+                ) : blocks.length === 0 ? (
+                    <button
+                        type="button"
+                        onClick={handleStartFirstBlock}
+                        className="w-full rounded-md px-2 py-1 text-left text-gray-400 hover:bg-gray-50"
+                    >
+                        Start typing or use &ldquo;/&rdquo; for commands...
+                    </button>
+                ) : (
+                    <div className="space-y-1">
+                        {blocks.map((block) => (
+                            <LinkableItem
+                                key={block.id}
+                                workObjectId={block.id}
+                                linkingStatus={linkingContext?.status ?? IDLE_LINKING_STATUS}
+                                onSelectSource={() => {}} // Source selection handled by action menu
+                                onSelectTarget={(targetId) => linkingContext?.selectTarget(targetId)}
+                                onActivity={linkingContext?.resetTimeout}
+                            >
+                                <BlockRow
+                                    block={block}
+                                    autoFocus={focusId === block.id}
+                                    onFocused={clearFocus}
+                                    onCommit={(text) => updateBlock(block.id, { text })}
+                                    onChangeType={(blockType) => updateBlock(block.id, { blockType, text: '' })}
+                                    onToggle={() => updateBlock(block.id, { checked: !block.checked })}
+                                    onEnter={(text) => handleEnter(block, text)}
+                                    onBackspaceEmpty={() => handleBackspaceEmpty(block)}
+                                    onStartLinking={
+                                        linkingContext
+                                            ? (linkType) => linkingContext.startLinking(block.id, linkType)
+                                            : undefined
+                                    }
+                                    onDelete={() => deleteBlock(block.id)}
+                                />
+                            </LinkableItem>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
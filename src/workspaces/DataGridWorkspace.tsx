@@ -0,0 +1,398 @@
+'use client';
+
+/**
+ * Data Grid Workspace
+ *
+ * Tabular lens over every active WorkObject, including the markers and My3
+ * goals captured in meetings.
+ * - Click a header to sort; shift-click to add a secondary sort
+ * - Filter by type, flag and source; group rows by meeting
+ * - Title and flag cells are editable and write back through the WorkObject API
+ */
+
+import { useState, useEffect, useMemo, type MouseEvent } from 'react';
+import { WorkspaceDefinition } from '@/compiler/types';
+import {
+    getActiveWorkObjects,
+    getSetFlags,
+    setWorkObjectFlag,
+    updateWorkObject,
+} from '@/storage/work-object-api';
+import { getAllMeetings, updateMarkerLabel, updateMy3Goal } from '@/storage/storage-api';
+import type { MeetingState } from '@/storage/types';
+import type {
+    FlagType,
+    WorkObject,
+    WorkObjectFlag,
+    WorkObjectSource,
+    WorkObjectType,
+} from '@/storage/work-object-types';
+import {
+    GRID_COLUMNS,
+    DEFAULT_VISIBLE_COLUMNS,
+    EMPTY_GRID_FILTER,
+    FLAG_TYPES,
+    buildGridRows,
+    filterGridRows,
+    sortGridRows,
+    toggleSortKey,
+    groupGridRowsByScope,
+    type GridColumnId,
+    type GridFilter,
+    type GridRow,
+    type GridSortKey,
+} from './data-grid';
+import { parseMeetingItemId, withMeetingItems } from './meeting-items';
+
+interface DataGridWorkspaceProps {
+    definition: WorkspaceDefinition;
+}
+
+const FILTER_TYPES: WorkObjectType[] = ['meeting', 'meeting_goal', 'goal', 'marker', 'note', 'group'];
+const FILTER_SOURCES: WorkObjectSource[] = ['user', 'agent', 'system'];
+
+const flagClasses: Record<FlagType, string> = {
+    important: 'bg-amber-100 text-amber-700',
+    risk: 'bg-red-100 text-red-700',
+    followup: 'bg-blue-100 text-blue-700',
+};
+
+function toggleValue<T>(values: T[], value: T): T[] {
+    return values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+}
+
+function formatDate(iso: string): string {
+    return new Date(iso).toLocaleString([], { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+// ============================================
+// Cells
+// ============================================
+
+function TitleCell({ row, onSave }: { row: GridRow; onSave: (title: string) => void }) {
+    const [editing, setEditing] = useState(false);
+    const [draft, setDraft] = useState(row.title);
+
+    if (!editing) {
+        return (
+            <button
+                type="button"
+                onClick={() => {
+                    setDraft(row.title);
+                    setEditing(true);
+                }}
+                className="w-full text-left text-gray-900 hover:text-blue-600"
+                title="Click to edit"
+            >
+                {row.title || <span className="italic text-gray-400">Untitled</span>}
+            </button>
+        );
+    }
+
+    const commit = () => {
+        setEditing(false);
+        if (draft !== row.title) onSave(draft);
+    };
+
+    return (
+        <input
+            autoFocus
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commit}
+            onKeyDown={(e) => {
+                if (e.key === 'Enter') commit();
+                if (e.key === 'Escape') setEditing(false);
+            }}
+            className="w-full rounded border border-blue-300 px-1 py-0.5 text-sm focus:outline-none"
+        />
+    );
+}
+
+function FlagsCell({ row, onToggle }: { row: GridRow; onToggle: (flag: FlagType) => void }) {
+    return (
+        <div className="flex gap-1">
+            {FLAG_TYPES.map((flag) => {
+                const isSet = row.flags.includes(flag);
+                return (
+                    <button
+                        key={flag}
+                        type="button"
+                        onClick={() => onToggle(flag)}
+                        aria-pressed={isSet}
+                        className={`rounded px-1.5 py-0.5 text-xs ${isSet ? flagClasses[flag] : 'text-gray-300 hover:text-gray-500'}`}
+                    >
+                        {flag}
+                    </button>
+                );
+            })}
+        </div>
+    );
+}
+
+// ============================================
+// Workspace
+// ============================================
+
+export function DataGridWorkspace({ definition }: DataGridWorkspaceProps) {
+    const [objects, setObjects] = useState<WorkObject[]>([]);
+    const [flags, setFlags] = useState<WorkObjectFlag[]>([]);
+    const [meetings, setMeetings] = useState<MeetingState[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    const [visibleColumns, setVisibleColumns] = useState<GridColumnId[]>(DEFAULT_VISIBLE_COLUMNS);
+    const [sortKeys, setSortKeys] = useState<GridSortKey[]>([{ column: 'updatedAt', direction: 'desc' }]);
+    const [filter, setFilter] = useState<GridFilter>(EMPTY_GRID_FILTER);
+    const [groupByMeeting, setGroupByMeeting] = useState(false);
+    const [openPanel, setOpenPanel] = useState<'filter' | 'columns' | null>(null);
+
+    useEffect(() => {
+        Promise.all([getActiveWorkObjects(), getSetFlags(), getAllMeetings()])
+            .then(([activeObjects, setFlagRecords, allMeetings]) => {
+                setObjects(activeObjects);
+                setFlags(setFlagRecords);
+                setMeetings(allMeetings);
+            })
+            .catch((error) => console.error('[DataGrid] Failed to load WorkObjects:', error))
+            .finally(() => setLoading(false));
+    }, []);
+
+    const allObjects = useMemo(() => withMeetingItems(objects, meetings), [objects, meetings]);
+    const meetingTitles = useMemo(() => Object.fromEntries(meetings.map((m) => [m.id, m.title])), [meetings]);
+    const rows = useMemo(
+        () => sortGridRows(filterGridRows(buildGridRows(allObjects, flags, meetingTitles), filter), sortKeys),
+        [allObjects, flags, meetingTitles, filter, sortKeys]
+    );
+    const groups = useMemo(
+        () => (groupByMeeting ? groupGridRowsByScope(rows) : [{ scope: null, label: '', rows }]),
+        [rows, groupByMeeting]
+    );
+    const columns = GRID_COLUMNS.filter((col) => visibleColumns.includes(col.id));
+    const activeFilterCount = filter.types.length + filter.flags.length + filter.sources.length;
+
+    const handleSaveTitle = async (id: string, title: string) => {
+        // Captured markers and goals without a stored WorkObject are edited on their meeting
+        const item = objects.some((obj) => obj.id === id) ? null : parseMeetingItemId(id);
+        if (item) {
+            if (item.kind === 'marker') {
+                await updateMarkerLabel(item.meetingId, item.localId, title);
+            } else {
+                await updateMy3Goal(item.meetingId, item.localId, title);
+            }
+            setMeetings(await getAllMeetings());
+            return;
+        }
+
+        const updated = await updateWorkObject(id, { title });
+        if (updated) {
+            setObjects((prev) => prev.map((obj) => (obj.id === id ? updated : obj)));
+        }
+    };
+
+    const handleToggleFlag = async (row: GridRow, flagType: FlagType) => {
+        const flag = await setWorkObjectFlag(row.id, flagType, !row.flags.includes(flagType));
+        setFlags((prev) => [
+            ...prev.filter((f) => !(f.workObjectId === row.id && f.flagType === flagType)),
+            ...(flag.isSet ? [flag] : []),
+        ]);
+    };
+
+    const handleHeaderClick = (column: GridColumnId, e: MouseEvent) => {
+        setSortKeys((keys) => toggleSortKey(keys, column, e.shiftKey));
+    };
+
+    const renderCell = (row: GridRow, column: GridColumnId) => {
+        switch (column) {
+            case 'title':
+                return <TitleCell row={row} onSave={(title) => handleSaveTitle(row.id, title)} />;
+            case 'flags':
+                return <FlagsCell row={row} onToggle={(flag) => handleToggleFlag(row, flag)} />;
+            case 'type':
+                return <span className="text-gray-600">{row.type}</span>;
+            case 'source':
+                return <span className="text-gray-600">{row.source}</span>;
+            case 'scope':
+                return <span className="text-gray-600">{row.scopeLabel}</span>;
+            case 'createdAt':
+                return <span className="text-gray-500">{formatDate(row.createdAtIso)}</span>;
+            case 'updatedAt':
+                return <span className="text-gray-500">{formatDate(row.updatedAtIso)}</span>;
+        }
+    };
+
+    return (
+        <div className="h-full w-full rounded-xl bg-white p-4 shadow-sm">
+            <div className="mb-4 flex items-center justify-between border-b pb-4">
+                <div>
+                    <h1 className="text-xl font-bold text-gray-900">Data Grid</h1>
+                    <p className="text-xs text-gray-500">Context: {definition.context.originalIntent}</p>
+                </div>
+                <div className="relative flex gap-2">
+                    <button
+                        type="button"
+                        onClick={() => setOpenPanel(openPanel === 'filter' ? null : 'filter')}
+                        className="rounded bg-blue-50 px-3 py-1 text-xs text-blue-600"
+                    >
+                        Filter{activeFilterCount > 0 ? ` (${activeFilterCount})` : ''}
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => setOpenPanel(openPanel === 'columns' ? null : 'columns')}
+                        className="rounded bg-blue-50 px-3 py-1 text-xs text-blue-600"
+                    >
+                        Columns
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => setGroupByMeeting((v) => !v)}
+                        aria-pressed={groupByMeeting}
+                        className={`rounded px-3 py-1 text-xs ${groupByMeeting ? 'bg-blue-600 text-white' : 'bg-blue-50 text-blue-600'}`}
+                    >
+                        Group by meeting
+                    </button>
+
+                    {openPanel === 'filter' && (
+                        <div className="absolute right-0 top-full z-40 mt-2 w-72 space-y-3 rounded-lg border border-gray-200 bg-white p-3 shadow-lg">
+                            <FilterChips
+                                label="Type"
+                                options={FILTER_TYPES}
+                                selected={filter.types}
+                                onToggle={(type) => setFilter((f) => ({ ...f, types: toggleValue(f.types, type) }))}
+                            />
+                            <FilterChips
+                                label="Flag"
+                                options={FLAG_TYPES}
+                                selected={filter.flags}
+                                onToggle={(flag) => setFilter((f) => ({ ...f, flags: toggleValue(f.flags, flag) }))}
+                            />
+                            <FilterChips
+                                label="Source"
+                                options={FILTER_SOURCES}
+                                selected={filter.sources}
+                                onToggle={(source) =>
+                                    setFilter((f) => ({ ...f, sources: toggleValue(f.sources, source) }))
+                                }
+                            />
+                            {activeFilterCount > 0 && (
+                                <button
+                                    type="button"
+                                    onClick={() => setFilter(EMPTY_GRID_FILTER)}
+                                    className="text-xs text-gray-500 hover:text-gray-700"
+                                >
+                                    Clear filters
+                                </button>
+                            )}
+                        </div>
+                    )}
+
+                    {openPanel === 'columns' && (
+                        <div className="absolute right-0 top-full z-40 mt-2 w-48 rounded-lg border border-gray-200 bg-white p-3 shadow-lg">
+                            {GRID_COLUMNS.map((col) => (
+                                <label key={col.id} className="flex items-center gap-2 py-0.5 text-sm text-gray-700">
+                                    <input
+                                        type="checkbox"
+                                        checked={visibleColumns.includes(col.id)}
+                                        // Keep at least one column visible
+                                        disabled={visibleColumns.length === 1 && visibleColumns.includes(col.id)}
+                                        onChange={() => setVisibleColumns((cols) => toggleValue(cols, col.id))}
+                                    />
+                                    {col.label}
+                                </label>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </div>
+
+            {loading ? (
+                <p className="p-4 text-sm text-gray-400">Loading WorkObjects...</p>
+            ) : rows.length === 0 ? (
+                <div className="rounded border bg-gray-50 p-8 text-center text-sm text-gray-400">
+                    {allObjects.length === 0 ? 'No WorkObjects yet' : 'No WorkObjects match the current filters'}
+                </div>
+            ) : (
+                <div className="overflow-auto rounded border">
+                    <table className="w-full text-sm">
+                        <thead className="bg-gray-50 text-left text-xs uppercase tracking-wide text-gray-500">
+                            <tr>
+                                {columns.map((col) => {
+                                    const sortIndex = sortKeys.findIndex((key) => key.column === col.id);
+                                    const sortKey = sortKeys[sortIndex];
+                                    return (
+                                        <th
+                                            key={col.id}
+                                            onClick={(e) => handleHeaderClick(col.id, e)}
+                                            className="cursor-pointer select-none px-3 py-2 hover:text-gray-700"
+                                            aria-sort={
+                                                sortKey ? (sortKey.direction === 'asc' ? 'ascending' : 'descending') : 'none'
+                                            }
+                                        >
+                                            {col.label}
+                                            {sortKey && (
+                                                <span className="ml-1 text-blue-600">
+                                                    {sortKey.direction === 'asc' ? '▲' : '▼'}
+                                                    {sortKeys.length > 1 && <sup>{sortIndex + 1}</sup>}
+                                                </span>
+                                            )}
+                                        </th>
+                                    );
+                                })}
+                            </tr>
+                        </thead>
+                        {groups.map((group) => (
+                            <tbody key={group.scope ?? 'all'} className="divide-y">
+                                {groupByMeeting && (
+                                    <tr className="bg-gray-100">
+                                        <td colSpan={columns.length} className="px-3 py-1.5 text-xs font-semibold text-gray-700">
+                                            {group.label} <span className="font-normal text-gray-500">({group.rows.length})</span>
+                                        </td>
+                                    </tr>
+                                )}
+                                {group.rows.map((row) => (
+                                    <tr key={row.id} className="hover:bg-gray-50">
+                                        {columns.map((col) => (
+                                            <td key={col.id} className="px-3 py-2">
+                                                {renderCell(row, col.id)}
+                                            </td>
+                                        ))}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        ))}
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+}
+
+function FilterChips<T extends string>({
+    label,
+    options,
+    selected,
+    onToggle,
+}: {
+    label: string;
+    options: T[];
+    selected: T[];
+    onToggle: (value: T) => void;
+}) {
+    return (
+        <div>
+            <p className="mb-1 text-xs font-medium text-gray-500">{label}</p>
+            <div className="flex flex-wrap gap-1">
+                {options.map((option) => (
+                    <button
+                        key={option}
+                        type="button"
+                        onClick={() => onToggle(option)}
+                        aria-pressed={selected.includes(option)}
+                        className={`rounded-full px-2 py-0.5 text-xs ${selected.includes(option) ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+                    >
+                        {option}
+                    </button>
+                ))}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,345 @@
+'use client';
+
+/**
+ * Infinite Canvas Workspace
+ *
+ * Pan/zoom lens over markers, goals, notes and groups, including the
+ * markers and My3 goals captured in meetings.
+ * - Drag a card to move it; positions persist by WorkObject ID
+ * - Drag from a card's handle onto another card to create a WorkLink
+ * - Drag the background to pan; scroll to zoom around the cursor
+ */
+
+import { useState, useEffect, useMemo, useRef, type PointerEvent, type WheelEvent } from 'react';
+import { toast } from 'sonner';
+import { WorkspaceDefinition } from '@/compiler/types';
+import {
+    getActiveWorkObjects,
+    getActiveWorkLinks,
+    createWorkLink,
+    LinkValidationError,
+} from '@/storage/work-object-api';
+import { getAllMeetings } from '@/storage/storage-api';
+import { getCanvasPositions, saveCanvasPosition } from '@/storage/canvas-api';
+import type { LinkType, WorkLink, WorkObject, WorkObjectType } from '@/storage/work-object-types';
+import {
+    CARD_WIDTH,
+    CARD_HEIGHT,
+    DEFAULT_VIEWPORT,
+    LINK_STYLES,
+    buildCanvasCards,
+    buildCanvasEdges,
+    findCardAt,
+    getCardCenter,
+    screenToCanvas,
+    zoomAt,
+    type CanvasCard,
+    type CanvasPoint,
+    type CanvasViewport,
+} from './canvas';
+import { withMeetingItems } from './meeting-items';
+
+interface InfiniteCanvasWorkspaceProps {
+    definition: WorkspaceDefinition;
+}
+
+/**
+ * Active pointer gesture. Positions are in canvas coordinates unless noted.
+ */
+type Gesture =
+    | { kind: 'pan'; startScreen: CanvasPoint; startViewport: CanvasViewport }
+    | { kind: 'move'; cardId: string; offset: CanvasPoint; position: CanvasPoint; moved: boolean }
+    | { kind: 'link'; fromId: string; pointer: CanvasPoint };
+
+const LINK_TYPES: LinkType[] = ['related', 'supports', 'blocks', 'duplicates'];
+
+const cardTypeClasses: Partial<Record<WorkObjectType, string>> = {
+    marker: 'border-amber-300 bg-amber-50',
+    goal: 'border-green-300 bg-green-50',
+    note: 'border-gray-300 bg-white',
+    group: 'border-indigo-300 bg-indigo-50',
+};
+
+export function InfiniteCanvasWorkspace({ definition }: InfiniteCanvasWorkspaceProps) {
+    const [objects, setObjects] = useState<WorkObject[]>([]);
+    const [positions, setPositions] = useState<Record<string, CanvasPoint>>({});
+    const [links, setLinks] = useState<WorkLink[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [viewport, setViewport] = useState<CanvasViewport>(DEFAULT_VIEWPORT);
+    const [gesture, setGesture] = useState<Gesture | null>(null);
+    const [linkType, setLinkType] = useState<LinkType>('related');
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        Promise.all([getActiveWorkObjects(), getActiveWorkLinks(), getAllMeetings(), getCanvasPositions()])
+            .then(([activeObjects, activeLinks, meetings, savedPositions]) => {
+                setObjects(withMeetingItems(activeObjects, meetings));
+                setLinks(activeLinks);
+                setPositions(savedPositions);
+            })
+            .catch((error) => console.error('[Canvas] Failed to load WorkObjects:', error))
+            .finally(() => setLoading(false));
+    }, []);
+
+    // Apply the in-flight drag position so the card and its edges follow the pointer
+    const cards = useMemo(() => {
+        const built = buildCanvasCards(objects, positions);
+        if (gesture?.kind !== 'move') return built;
+        return built.map((card) => (card.id === gesture.cardId ? { ...card, position: gesture.position } : card));
+    }, [objects, positions, gesture]);
+    const edges = useMemo(() => buildCanvasEdges(links, cards), [links, cards]);
+    const linkSource = gesture?.kind === 'link' ? cards.find((card) => card.id === gesture.fromId) : undefined;
+
+    const toLocal = (e: { clientX: number; clientY: number }): CanvasPoint => {
+        const rect = containerRef.current?.getBoundingClientRect();
+        return { x: e.clientX - (rect?.left ?? 0), y: e.clientY - (rect?.top ?? 0) };
+    };
+
+    const savePosition = async (cardId: string, position: CanvasPoint) => {
+        // Update locally first so the card doesn't snap back while the write is in flight
+        setPositions((prev) => ({ ...prev, [cardId]: position }));
+        try {
+            await saveCanvasPosition(cardId, position);
+        } catch (error) {
+            toast.error('Failed to save card position');
+            console.error('Saving card position failed:', error);
+        }
+    };
+
+    const handleCreateLink = async (fromId: string, toId: string) => {
+        try {
+            const linkId = await createWorkLink(fromId, toId, linkType);
+            setLinks((prev) => [
+                ...prev,
+                { id: linkId, fromId, toId, type: linkType, createdAtIso: new Date().toISOString() },
+            ]);
+            toast.success('Link created');
+        } catch (error) {
+            if (error instanceof LinkValidationError) {
+                toast.error(`Cannot create link: ${error.message}`);
+            } else {
+                toast.error('Failed to create link');
+                console.error('Link creation failed:', error);
+            }
+        }
+    };
+
+    const handleBackgroundPointerDown = (e: PointerEvent<HTMLDivElement>) => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setGesture({ kind: 'pan', startScreen: toLocal(e), startViewport: viewport });
+    };
+
+    const handleCardPointerDown = (card: CanvasCard, e: PointerEvent<HTMLDivElement>) => {
+        e.stopPropagation();
+        containerRef.current?.setPointerCapture(e.pointerId);
+        const pointer = screenToCanvas(viewport, toLocal(e));
+        setGesture({
+            kind: 'move',
+            cardId: card.id,
+            offset: { x: pointer.x - card.position.x, y: pointer.y - card.position.y },
+            position: card.position,
+            moved: false,
+        });
+    };
+
+    const handleHandlePointerDown = (card: CanvasCard, e: PointerEvent<HTMLButtonElement>) => {
+        e.stopPropagation();
+        containerRef.current?.setPointerCapture(e.pointerId);
+        setGesture({ kind: 'link', fromId: card.id, pointer: screenToCanvas(viewport, toLocal(e)) });
+    };
+
+    const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+        if (!gesture) return;
+        const local = toLocal(e);
+
+        switch (gesture.kind) {
+            case 'pan':
+                setViewport({
+                    ...gesture.startViewport,
+                    x: gesture.startViewport.x + local.x - gesture.startScreen.x,
+                    y: gesture.startViewport.y + local.y - gesture.startScreen.y,
+                });
+                break;
+            case 'move': {
+                const pointer = screenToCanvas(viewport, local);
+                setGesture({
+                    ...gesture,
+                    position: { x: pointer.x - gesture.offset.x, y: pointer.y - gesture.offset.y },
+                    moved: true,
+                });
+                break;
+            }
+            case 'link':
+                setGesture({ ...gesture, pointer: screenToCanvas(viewport, local) });
+                break;
+        }
+    };
+
+    const handlePointerUp = (e: PointerEvent<HTMLDivElement>) => {
+        if (!gesture) return;
+        setGesture(null);
+
+        if (gesture.kind === 'move') {
+            // Skip clicks that did not move the card
+            if (gesture.moved) {
+                savePosition(gesture.cardId, gesture.position);
+            }
+        } else if (gesture.kind === 'link') {
+            const target = findCardAt(cards, screenToCanvas(viewport, toLocal(e)));
+            if (target && target.id !== gesture.fromId) {
+                handleCreateLink(gesture.fromId, target.id);
+            }
+        }
+    };
+
+    const handleWheel = (e: WheelEvent<HTMLDivElement>) => {
+        setViewport((v) => zoomAt(v, e.deltaY < 0 ? 1.1 : 1 / 1.1, toLocal(e)));
+    };
+
+    return (
+        <div className="relative h-full w-full overflow-hidden rounded-xl bg-gray-50 shadow-sm ring-1 ring-gray-200">
+            <div className="absolute left-4 top-4 z-10 flex items-center gap-3 rounded-lg bg-white/80 p-2 backdrop-blur">
+                <div>
+                    <h1 className="text-sm font-bold text-gray-900">Canvas</h1>
+                    <p className="text-xs text-gray-500">Context: {definition.context.originalIntent}</p>
+                </div>
+                <label className="flex items-center gap-1 text-xs text-gray-600">
+                    Link as
+                    <select
+                        value={linkType}
+                        onChange={(e) => setLinkType(e.target.value as LinkType)}
+                        className="rounded border border-gray-200 bg-white px-1 py-0.5 text-xs"
+                    >
+                        {LINK_TYPES.map((type) => (
+                            <option key={type} value={type}>
+                                {LINK_STYLES[type].label}
+                            </option>
+                        ))}
+                    </select>
+                </label>
+                <button
+                    type="button"
+                    onClick={() => setViewport(DEFAULT_VIEWPORT)}
+                    className="rounded bg-blue-50 px-2 py-0.5 text-xs text-blue-600"
+                >
+                    {Math.round(viewport.zoom * 100)}% · Reset
+                </button>
+            </div>
+
+            <div className="absolute bottom-4 left-4 z-10 flex gap-3 rounded-lg bg-white/80 px-2 py-1 text-xs backdrop-blur">
+                {LINK_TYPES.map((type) => (
+                    <span key={type} className="flex items-center gap-1 text-gray-600">
+                        <svg width="18" height="4">
+                            <line
+                                x1="0"
+                                y1="2"
+                                x2="18"
+                                y2="2"
+                                stroke={LINK_STYLES[type].stroke}
+                                strokeWidth="2"
+                                strokeDasharray={LINK_STYLES[type].dash}
+                            />
+                        </svg>
+                        {LINK_STYLES[type].label}
+                    </span>
+                ))}
+            </div>
+
+            <div
+                ref={containerRef}
+                className={`h-full w-full touch-none ${gesture?.kind === 'pan' ? 'cursor-grabbing' : 'cursor-grab'}`}
+                onPointerDown={handleBackgroundPointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={() => setGesture(null)}
+                onWheel={handleWheel}
+            >
+                {loading ? (
+                    <p className="p-16 text-sm text-gray-400">Loading WorkObjects...</p>
+                ) : cards.length === 0 ? (
+                    <div className="flex h-full items-center justify-center">
+                        <p className="text-gray-400">No markers, goals, notes or groups yet</p>
+                    </div>
+                ) : (
+                    <div
+                        className="absolute left-0 top-0 origin-top-left"
+                        style={{ transform: `translate(${viewport.x}px, ${viewport.y}px) scale(${viewport.zoom})` }}
+                    >
+                        <svg className="pointer-events-none absolute left-0 top-0 overflow-visible" width="1" height="1">
+                            <defs>
+                                {LINK_TYPES.map((type) => (
+                                    <marker
+                                        key={type}
+                                        id={`canvas-arrow-${type}`}
+                                        viewBox="0 0 10 10"
+                                        refX="10"
+                                        refY="5"
+                                        markerWidth="6"
+                                        markerHeight="6"
+                                        orient="auto-start-reverse"
+                                    >
+                                        <path d="M 0 0 L 10 5 L 0 10 z" fill={LINK_STYLES[type].stroke} />
+                                    </marker>
+                                ))}
+                            </defs>
+                            {edges.map((edge) => (
+                                <g key={edge.id}>
+                                    <line
+                                        x1={edge.from.x}
+                                        y1={edge.from.y}
+                                        x2={edge.to.x}
+                                        y2={edge.to.y}
+                                        stroke={LINK_STYLES[edge.type].stroke}
+                                        strokeWidth="2"
+                                        strokeDasharray={LINK_STYLES[edge.type].dash}
+                                        markerEnd={`url(#canvas-arrow-${edge.type})`}
+                                    />
+                                    <text
+                                        x={(edge.from.x + edge.to.x) / 2}
+                                        y={(edge.from.y + edge.to.y) / 2 - 4}
+                                        textAnchor="middle"
+                                        className="fill-gray-500 text-[10px]"
+                                    >
+                                        {LINK_STYLES[edge.type].label}
+                                    </text>
+                                </g>
+                            ))}
+                            {gesture?.kind === 'link' && linkSource && (
+                                <line
+                                    x1={getCardCenter(linkSource).x}
+                                    y1={getCardCenter(linkSource).y}
+                                    x2={gesture.pointer.x}
+                                    y2={gesture.pointer.y}
+                                    stroke={LINK_STYLES[linkType].stroke}
+                                    strokeWidth="2"
+                                    strokeDasharray="4 4"
+                                />
+                            )}
+                        </svg>
+
+                        {cards.map((card) => (
+                            <div
+                                key={card.id}
+                                onPointerDown={(e) => handleCardPointerDown(card, e)}
+                                className={`absolute cursor-move select-none rounded-lg border p-2 shadow-sm ${cardTypeClasses[card.type] ?? 'border-gray-300 bg-white'}`}
+                                style={{ left: card.position.x, top: card.position.y, width: CARD_WIDTH, height: CARD_HEIGHT }}
+                            >
+                                <p className="text-[10px] uppercase tracking-wide text-gray-500">{card.type}</p>
+                                <p className="line-clamp-2 text-sm text-gray-900">
+                                    {card.title || <span className="italic text-gray-400">Untitled</span>}
+                                </p>
+                                <button
+                                    type="button"
+                                    onPointerDown={(e) => handleHandlePointerDown(card, e)}
+                                    className="absolute -right-2 top-1/2 h-4 w-4 -translate-y-1/2 cursor-crosshair rounded-full border-2 border-white bg-blue-500 shadow"
+                                    title="Drag onto another card to link"
+                                    aria-label={`Link from ${card.title || card.type}`}
+                                />
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
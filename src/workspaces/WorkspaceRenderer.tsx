@@ -1,7 +1,9 @@
 'use client';
 
 import { WorkspaceDefinition } from '@/compiler/types';
-import { BlockDocWorkspace, DataGridWorkspace, InfiniteCanvasWorkspace } from './components';
+import { BlockDocWorkspace } from './BlockDocWorkspace';
+import { DataGridWorkspace } from './DataGridWorkspace';
+import { InfiniteCanvasWorkspace } from './InfiniteCanvasWorkspace';
 
 interface WorkspaceRendererProps {
     definition: WorkspaceDefinition;
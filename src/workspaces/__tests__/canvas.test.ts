@@ -0,0 +1,172 @@
+/**
+ * Canvas Model Tests
+ *
+ * Tests card layout, persisted positions, edge building and viewport math.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    buildCanvasCards,
+    buildCanvasEdges,
+    findCardAt,
+    getDefaultPosition,
+    screenToCanvas,
+    zoomAt,
+    CARD_WIDTH,
+    CARD_HEIGHT,
+    MAX_ZOOM,
+} from '../canvas';
+import { withMeetingItems } from '../meeting-items';
+import type { MeetingState } from '@/storage/types';
+import type { WorkLink, WorkObject } from '@/storage/work-object-types';
+
+function workObject(id: string, overrides: Partial<WorkObject> = {}): WorkObject {
+    return {
+        id,
+        type: 'note',
+        source: 'user',
+        title: id,
+        createdAtIso: '2026-01-01T00:00:00.000Z',
+        updatedAtIso: '2026-01-01T00:00:00.000Z',
+        ...overrides,
+    };
+}
+
+function link(id: string, fromId: string, toId: string, overrides: Partial<WorkLink> = {}): WorkLink {
+    return { id, fromId, toId, type: 'supports', createdAtIso: '2026-01-01T00:00:00.000Z', ...overrides };
+}
+
+describe('buildCanvasCards', () => {
+    it('uses persisted positions and lays out the rest on the default grid', () => {
+        const cards = buildCanvasCards([
+            workObject('wo:note:mtg:m1:a', { payload: { canvasPosition: { x: 500, y: 300 } } }),
+            workObject('wo:note:mtg:m1:b', { createdAtIso: '2026-01-02T00:00:00.000Z' }),
+        ]);
+
+        expect(cards[0].position).toEqual({ x: 500, y: 300 });
+        expect(cards[0].persisted).toBe(true);
+        expect(cards[1].position).toEqual(getDefaultPosition(0));
+        expect(cards[1].persisted).toBe(false);
+    });
+
+    it('prefers positions saved by WorkObject ID', () => {
+        const cards = buildCanvasCards(
+            [workObject('wo:note:mtg:m1:a', { payload: { canvasPosition: { x: 500, y: 300 } } })],
+            { 'wo:note:mtg:m1:a': { x: -40, y: 80 } }
+        );
+
+        expect(cards[0].position).toEqual({ x: -40, y: 80 });
+        expect(cards[0].persisted).toBe(true);
+    });
+
+    it('places captured markers and goals that have no stored WorkObject', () => {
+        const meeting: MeetingState = {
+            id: 'm1',
+            title: 'Sync',
+            startTime: 0,
+            endTime: 0,
+            attendees: [],
+            my3Goals: [{ id: 'g1', text: 'Agree scope', achieved: false }],
+            markers: [{ id: 'k1', type: 'decision', label: 'Ship it', timestamp: 0, meetingId: 'm1' }],
+            synthesisCompleted: false,
+            createdAt: 0,
+            updatedAt: 0,
+        };
+
+        const cards = buildCanvasCards(withMeetingItems([], [meeting]), {
+            'wo:marker:mtg:m1:k1': { x: 120, y: 40 },
+        });
+
+        expect(cards.map((c) => [c.id, c.type, c.persisted])).toEqual([
+            ['wo:goal:mtg:m1:g1', 'goal', false],
+            ['wo:marker:mtg:m1:k1', 'marker', true],
+        ]);
+        expect(cards[1].position).toEqual({ x: 120, y: 40 });
+    });
+
+    it('ignores malformed positions', () => {
+        const cards = buildCanvasCards([
+            workObject('wo:note:mtg:m1:a', { payload: { canvasPosition: { x: 'left', y: 3 } } }),
+        ]);
+
+        expect(cards[0].persisted).toBe(false);
+    });
+
+    it('only includes marker, goal, note and group types', () => {
+        const cards = buildCanvasCards([
+            workObject('wo:meeting:mtg:m1:m1', { type: 'meeting' }),
+            workObject('wo:link:mtg:m1:l', { type: 'link' }),
+            workObject('wo:marker:mtg:m1:m1', { type: 'marker' }),
+            workObject('wo:group:mtg:m1:g', { type: 'group' }),
+        ]);
+
+        expect(cards.map((c) => c.type)).toEqual(['marker', 'group']);
+    });
+});
+
+describe('buildCanvasEdges', () => {
+    const cards = buildCanvasCards([
+        workObject('wo:note:mtg:m1:a', { payload: { canvasPosition: { x: 0, y: 0 } } }),
+        workObject('wo:note:mtg:m1:b', { payload: { canvasPosition: { x: 400, y: 0 } } }),
+    ]);
+
+    it('connects card centers', () => {
+        const edges = buildCanvasEdges([link('l1', 'wo:note:mtg:m1:a', 'wo:note:mtg:m1:b')], cards);
+
+        expect(edges).toEqual([
+            {
+                id: 'l1',
+                type: 'supports',
+                from: { x: CARD_WIDTH / 2, y: CARD_HEIGHT / 2 },
+                to: { x: 400 + CARD_WIDTH / 2, y: CARD_HEIGHT / 2 },
+            },
+        ]);
+    });
+
+    it('skips deleted links and links to objects off the canvas', () => {
+        const edges = buildCanvasEdges(
+            [
+                link('l1', 'wo:note:mtg:m1:a', 'wo:note:mtg:m1:b', { deletedAtIso: '2026-01-03T00:00:00.000Z' }),
+                link('l2', 'wo:note:mtg:m1:a', 'wo:goal:mtg:m1:g1'),
+            ],
+            cards
+        );
+
+        expect(edges).toEqual([]);
+    });
+});
+
+describe('findCardAt', () => {
+    it('returns the topmost card under the point', () => {
+        const cards = buildCanvasCards([
+            workObject('wo:note:mtg:m1:a', { payload: { canvasPosition: { x: 0, y: 0 } } }),
+            workObject('wo:note:mtg:m1:b', {
+                createdAtIso: '2026-01-02T00:00:00.000Z',
+                payload: { canvasPosition: { x: 50, y: 10 } },
+            }),
+        ]);
+
+        expect(findCardAt(cards, { x: 60, y: 20 })?.id).toBe('wo:note:mtg:m1:b');
+        expect(findCardAt(cards, { x: 10, y: 5 })?.id).toBe('wo:note:mtg:m1:a');
+        expect(findCardAt(cards, { x: 1000, y: 1000 })).toBeNull();
+    });
+});
+
+describe('viewport', () => {
+    it('converts screen points through pan and zoom', () => {
+        expect(screenToCanvas({ x: 100, y: 50, zoom: 2 }, { x: 300, y: 250 })).toEqual({ x: 100, y: 100 });
+    });
+
+    it('keeps the anchor point fixed when zooming', () => {
+        const viewport = { x: 20, y: 10, zoom: 1 };
+        const anchor = { x: 200, y: 120 };
+        const next = zoomAt(viewport, 1.5, anchor);
+
+        expect(next.zoom).toBe(1.5);
+        expect(screenToCanvas(next, anchor)).toEqual(screenToCanvas(viewport, anchor));
+    });
+
+    it('clamps zoom', () => {
+        expect(zoomAt({ x: 0, y: 0, zoom: 1 }, 10, { x: 0, y: 0 }).zoom).toBe(MAX_ZOOM);
+    });
+});
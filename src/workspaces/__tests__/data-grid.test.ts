@@ -0,0 +1,145 @@
+/**
+ * Data Grid Model Tests
+ *
+ * Tests row building, filtering, multi-column sort and grouping.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+    buildGridRows,
+    filterGridRows,
+    sortGridRows,
+    toggleSortKey,
+    groupGridRowsByScope,
+    EMPTY_GRID_FILTER,
+    type GridRow,
+} from '../data-grid';
+import type { WorkObject, WorkObjectFlag } from '@/storage/work-object-types';
+
+function workObject(id: string, overrides: Partial<WorkObject> = {}): WorkObject {
+    return {
+        id,
+        type: 'marker',
+        source: 'user',
+        title: id,
+        createdAtIso: '2026-01-01T00:00:00.000Z',
+        updatedAtIso: '2026-01-01T00:00:00.000Z',
+        ...overrides,
+    };
+}
+
+function flag(workObjectId: string, flagType: WorkObjectFlag['flagType'], isSet = true): WorkObjectFlag {
+    return { workObjectId, flagType, isSet, setAtIso: '2026-01-01T00:00:00.000Z', setBy: 'user' };
+}
+
+describe('buildGridRows', () => {
+    it('attaches set flags and meeting titles', () => {
+        const rows = buildGridRows(
+            [workObject('wo:marker:mtg:m1:m1')],
+            [flag('wo:marker:mtg:m1:m1', 'risk'), flag('wo:marker:mtg:m1:m1', 'important', false)],
+            { m1: 'Weekly sync' }
+        );
+
+        expect(rows).toHaveLength(1);
+        expect(rows[0].flags).toEqual(['risk']);
+        expect(rows[0].scope).toBe('mtg:m1');
+        expect(rows[0].scopeLabel).toBe('Weekly sync');
+    });
+
+    it('skips link objects and labels session scopes', () => {
+        const rows = buildGridRows(
+            [workObject('wo:link:mtg:m1:x', { type: 'link' }), workObject('wo:note:session:s1:n', { type: 'note' })],
+            []
+        );
+
+        expect(rows.map((r) => r.id)).toEqual(['wo:note:session:s1:n']);
+        expect(rows[0].scopeLabel).toBe('Session');
+    });
+});
+
+describe('filterGridRows', () => {
+    const rows = buildGridRows(
+        [
+            workObject('wo:marker:mtg:m1:m1'),
+            workObject('wo:goal:mtg:m1:g1', { type: 'goal', source: 'agent' }),
+            workObject('wo:note:mtg:m1:n1', { type: 'note' }),
+        ],
+        [flag('wo:goal:mtg:m1:g1', 'followup'), flag('wo:note:mtg:m1:n1', 'risk')]
+    );
+
+    it('returns all rows with an empty filter', () => {
+        expect(filterGridRows(rows, EMPTY_GRID_FILTER)).toHaveLength(3);
+    });
+
+    it('ORs values within a dimension', () => {
+        const result = filterGridRows(rows, { ...EMPTY_GRID_FILTER, types: ['marker', 'note'] });
+        expect(result.map((r) => r.type)).toEqual(['marker', 'note']);
+    });
+
+    it('ANDs across dimensions', () => {
+        const result = filterGridRows(rows, { types: [], flags: ['followup', 'risk'], sources: ['agent'] });
+        expect(result.map((r) => r.id)).toEqual(['wo:goal:mtg:m1:g1']);
+    });
+});
+
+describe('sortGridRows', () => {
+    const rows: GridRow[] = buildGridRows(
+        [
+            workObject('a', { type: 'note', title: 'Beta' }),
+            workObject('b', { type: 'marker', title: 'Alpha' }),
+            workObject('c', { type: 'note', title: 'Alpha' }),
+        ],
+        []
+    );
+
+    it('sorts by multiple columns in key order', () => {
+        const result = sortGridRows(rows, [
+            { column: 'type', direction: 'desc' },
+            { column: 'title', direction: 'asc' },
+        ]);
+        expect(result.map((r) => r.id)).toEqual(['c', 'a', 'b']);
+    });
+
+    it('does not mutate the input', () => {
+        sortGridRows(rows, [{ column: 'title', direction: 'asc' }]);
+        expect(rows.map((r) => r.id)).toEqual(['a', 'b', 'c']);
+    });
+});
+
+describe('toggleSortKey', () => {
+    it('cycles asc, desc, then off', () => {
+        let keys = toggleSortKey([], 'title', false);
+        expect(keys).toEqual([{ column: 'title', direction: 'asc' }]);
+        keys = toggleSortKey(keys, 'title', false);
+        expect(keys).toEqual([{ column: 'title', direction: 'desc' }]);
+        expect(toggleSortKey(keys, 'title', false)).toEqual([]);
+    });
+
+    it('replaces keys unless additive', () => {
+        const keys = [{ column: 'type' as const, direction: 'asc' as const }];
+        expect(toggleSortKey(keys, 'title', false)).toEqual([{ column: 'title', direction: 'asc' }]);
+        expect(toggleSortKey(keys, 'title', true)).toEqual([
+            { column: 'type', direction: 'asc' },
+            { column: 'title', direction: 'asc' },
+        ]);
+    });
+});
+
+describe('groupGridRowsByScope', () => {
+    it('groups rows by scope in order of first appearance', () => {
+        const rows = buildGridRows(
+            [
+                workObject('wo:marker:mtg:m2:m1'),
+                workObject('wo:marker:mtg:m1:m1'),
+                workObject('wo:marker:mtg:m2:m2'),
+            ],
+            [],
+            { m1: 'Standup', m2: 'Planning' }
+        );
+
+        const groups = groupGridRowsByScope(rows);
+
+        expect(groups.map((g) => g.label)).toEqual(['Planning', 'Standup']);
+        expect(groups[0].rows).toHaveLength(2);
+    });
+});
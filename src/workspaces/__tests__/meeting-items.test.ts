@@ -0,0 +1,92 @@
+/**
+ * Meeting Items Tests
+ *
+ * Tests turning captured markers and goals into WorkObjects for the grid and
+ * canvas, and parsing their IDs back for edits.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getMeetingItemObjects, withMeetingItems, parseMeetingItemId } from '../meeting-items';
+import { buildGridRows, filterGridRows, EMPTY_GRID_FILTER } from '../data-grid';
+import type { MeetingState } from '@/storage/types';
+import type { WorkObject } from '@/storage/work-object-types';
+
+const meeting: MeetingState = {
+    id: 'mtg-1',
+    title: 'Weekly Sync',
+    startTime: Date.UTC(2026, 0, 5, 9),
+    endTime: Date.UTC(2026, 0, 5, 10),
+    attendees: [],
+    my3Goals: [
+        { id: 'g1', text: 'Pick a launch date', achieved: false },
+        { id: 'g2', text: 'Old goal', achieved: false, deletedAt: 1 },
+    ],
+    markers: [
+        { id: 'm1', type: 'action', label: 'Send the deck', timestamp: Date.UTC(2026, 0, 5, 9, 10), meetingId: 'mtg-1' },
+        { id: 'm2', type: 'decision', label: 'Ship Friday', timestamp: Date.UTC(2026, 0, 5, 9, 20), meetingId: 'mtg-1' },
+        {
+            id: 'm3',
+            type: 'action',
+            label: 'Carried',
+            timestamp: 0,
+            meetingId: 'mtg-1',
+            carryOver: { status: 'carried_forward', at: 1, toMeetingId: 'mtg-2' },
+        },
+    ],
+    synthesisCompleted: false,
+    createdAt: Date.UTC(2026, 0, 5, 8),
+    updatedAt: Date.UTC(2026, 0, 5, 10),
+};
+
+describe('getMeetingItemObjects', () => {
+    it('lists live goals and markers under their WorkObject IDs', () => {
+        const objects = getMeetingItemObjects([meeting]);
+
+        expect(objects.map((o) => o.id)).toEqual([
+            'wo:goal:mtg:mtg-1:g1',
+            'wo:marker:mtg:mtg-1:m1',
+            'wo:marker:mtg:mtg-1:m2',
+        ]);
+        expect(objects[1]).toMatchObject({
+            type: 'marker',
+            title: 'Send the deck',
+            payload: { meetingId: 'mtg-1', markerType: 'action' },
+            createdAtIso: '2026-01-05T09:10:00.000Z',
+        });
+    });
+
+    it('shows captured action items in the grid, grouped under their meeting', () => {
+        const stored: WorkObject = {
+            id: 'wo:marker:mtg:mtg-1:m1',
+            type: 'marker',
+            source: 'agent',
+            title: 'Send the deck',
+            createdAtIso: '2026-01-05T09:10:00.000Z',
+            updatedAtIso: '2026-01-05T09:10:00.000Z',
+        };
+
+        const objects = withMeetingItems([stored], [meeting]);
+        const rows = filterGridRows(buildGridRows(objects, [], { 'mtg-1': meeting.title }), {
+            ...EMPTY_GRID_FILTER,
+            types: ['marker'],
+        });
+
+        expect(rows.map((r) => [r.id, r.source, r.scopeLabel])).toEqual([
+            ['wo:marker:mtg:mtg-1:m1', 'agent', 'Weekly Sync'],
+            ['wo:marker:mtg:mtg-1:m2', 'user', 'Weekly Sync'],
+        ]);
+    });
+});
+
+describe('parseMeetingItemId', () => {
+    it('returns the meeting and local ID of markers and goals only', () => {
+        expect(parseMeetingItemId('wo:goal:mtg:mtg-1:g1')).toEqual({ kind: 'goal', meetingId: 'mtg-1', localId: 'g1' });
+        expect(parseMeetingItemId('wo:marker:mtg:mtg-1:m2')).toEqual({
+            kind: 'marker',
+            meetingId: 'mtg-1',
+            localId: 'm2',
+        });
+        expect(parseMeetingItemId('wo:note:mtg:mtg-1:n1')).toBeNull();
+        expect(parseMeetingItemId('wo:marker:session:s1:m1')).toBeNull();
+    });
+});
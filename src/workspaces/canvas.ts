@@ -0,0 +1,200 @@
+/**
+ * Canvas Model
+ *
+ * Pure card layout, edge building and viewport math for the canvas lens.
+ * Kept free of React and storage so the canvas logic can be tested directly.
+ */
+
+import type { LinkType, WorkLink, WorkObject, WorkObjectType } from '@/storage/work-object-types';
+
+// ============================================
+// Types
+// ============================================
+
+export interface CanvasPoint {
+    x: number;
+    y: number;
+}
+
+/**
+ * Pan offset (screen pixels) and zoom factor of the canvas.
+ */
+export interface CanvasViewport {
+    x: number;
+    y: number;
+    zoom: number;
+}
+
+/**
+ * One card on the canvas: a WorkObject with its resolved position.
+ */
+export interface CanvasCard {
+    id: string;
+    title: string;
+    type: WorkObjectType;
+    position: CanvasPoint;
+    /** Whether the position was saved (vs. default layout) */
+    persisted: boolean;
+}
+
+/**
+ * One edge on the canvas, with endpoints at the card centers.
+ */
+export interface CanvasEdge {
+    id: string;
+    type: LinkType;
+    from: CanvasPoint;
+    to: CanvasPoint;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+/** WorkObject types shown as cards */
+export const CANVAS_CARD_TYPES: WorkObjectType[] = ['marker', 'goal', 'note', 'group'];
+
+export const CARD_WIDTH = 200;
+export const CARD_HEIGHT = 80;
+
+/** Payload key where positions were persisted before the canvasPositions store */
+export const CANVAS_POSITION_KEY = 'canvasPosition';
+
+export const MIN_ZOOM = 0.25;
+export const MAX_ZOOM = 2;
+
+export const DEFAULT_VIEWPORT: CanvasViewport = { x: 0, y: 0, zoom: 1 };
+
+const LAYOUT_COLUMNS = 4;
+const LAYOUT_GAP = 40;
+
+export const LINK_STYLES: Record<LinkType, { label: string; stroke: string; dash?: string }> = {
+    related: { label: 'related', stroke: '#9ca3af', dash: '6 4' },
+    supports: { label: 'supports', stroke: '#16a34a' },
+    blocks: { label: 'blocks', stroke: '#dc2626' },
+    duplicates: { label: 'duplicates', stroke: '#7c3aed', dash: '2 4' },
+};
+
+// ============================================
+// Cards
+// ============================================
+
+/**
+ * Read a persisted card position from a WorkObject payload.
+ * Returns null when missing or malformed.
+ */
+export function getPersistedPosition(obj: WorkObject): CanvasPoint | null {
+    const value = obj.payload?.[CANVAS_POSITION_KEY] as Partial<CanvasPoint> | undefined;
+    if (!value || typeof value.x !== 'number' || typeof value.y !== 'number') {
+        return null;
+    }
+    if (!Number.isFinite(value.x) || !Number.isFinite(value.y)) {
+        return null;
+    }
+    return { x: value.x, y: value.y };
+}
+
+/**
+ * Default grid slot for the nth card without a persisted position.
+ */
+export function getDefaultPosition(index: number): CanvasPoint {
+    return {
+        x: LAYOUT_GAP + (index % LAYOUT_COLUMNS) * (CARD_WIDTH + LAYOUT_GAP),
+        y: LAYOUT_GAP + Math.floor(index / LAYOUT_COLUMNS) * (CARD_HEIGHT + LAYOUT_GAP),
+    };
+}
+
+/**
+ * Build canvas cards from WorkObjects and saved positions (by WorkObject ID).
+ * Only card types are kept; unplaced cards fill the default grid in creation order.
+ */
+export function buildCanvasCards(
+    objects: WorkObject[],
+    positions: Record<string, CanvasPoint> = {}
+): CanvasCard[] {
+    const eligible = objects
+        .filter((obj) => CANVAS_CARD_TYPES.includes(obj.type))
+        .sort((a, b) => a.createdAtIso.localeCompare(b.createdAtIso));
+
+    let unplaced = 0;
+    return eligible.map((obj) => {
+        const persisted = positions[obj.id] ?? getPersistedPosition(obj);
+        return {
+            id: obj.id,
+            title: obj.title ?? '',
+            type: obj.type,
+            position: persisted ?? getDefaultPosition(unplaced++),
+            persisted: persisted !== null,
+        };
+    });
+}
+
+export function getCardCenter(card: CanvasCard): CanvasPoint {
+    return { x: card.position.x + CARD_WIDTH / 2, y: card.position.y + CARD_HEIGHT / 2 };
+}
+
+/**
+ * Find the topmost card containing a canvas point.
+ */
+export function findCardAt(cards: CanvasCard[], point: CanvasPoint): CanvasCard | null {
+    for (let i = cards.length - 1; i >= 0; i--) {
+        const { x, y } = cards[i].position;
+        if (point.x >= x && point.x <= x + CARD_WIDTH && point.y >= y && point.y <= y + CARD_HEIGHT) {
+            return cards[i];
+        }
+    }
+    return null;
+}
+
+// ============================================
+// Edges
+// ============================================
+
+/**
+ * Build edges for links whose endpoints are both on the canvas.
+ */
+export function buildCanvasEdges(links: WorkLink[], cards: CanvasCard[]): CanvasEdge[] {
+    const cardsById = new Map(cards.map((card) => [card.id, card]));
+    const edges: CanvasEdge[] = [];
+
+    for (const link of links) {
+        if (link.deletedAtIso) continue;
+        const from = cardsById.get(link.fromId);
+        const to = cardsById.get(link.toId);
+        if (!from || !to) continue;
+        edges.push({ id: link.id, type: link.type, from: getCardCenter(from), to: getCardCenter(to) });
+    }
+
+    return edges;
+}
+
+// ============================================
+// Viewport
+// ============================================
+
+export function clampZoom(zoom: number): number {
+    return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+}
+
+/**
+ * Convert a point relative to the canvas element into canvas coordinates.
+ */
+export function screenToCanvas(viewport: CanvasViewport, point: CanvasPoint): CanvasPoint {
+    return {
+        x: (point.x - viewport.x) / viewport.zoom,
+        y: (point.y - viewport.y) / viewport.zoom,
+    };
+}
+
+/**
+ * Zoom by a factor while keeping the canvas point under `anchor` fixed on screen.
+ */
+export function zoomAt(viewport: CanvasViewport, factor: number, anchor: CanvasPoint): CanvasViewport {
+    const zoom = clampZoom(viewport.zoom * factor);
+    const canvasPoint = screenToCanvas(viewport, anchor);
+    return {
+        x: anchor.x - canvasPoint.x * zoom,
+        y: anchor.y - canvasPoint.y * zoom,
+        zoom,
+    };
+}
@@ -0,0 +1,240 @@
+/**
+ * Data Grid Model
+ *
+ * Pure row building, filtering, sorting and grouping for the data grid lens.
+ * Kept free of React and storage so the grid logic can be tested directly.
+ */
+
+import {
+    parseWorkObjectId,
+    isMeetingScope,
+    getMeetingUidFromScope,
+    getScopeKind,
+    getScopeId,
+} from '@/storage/work-object-id';
+import type {
+    FlagType,
+    WorkObject,
+    WorkObjectFlag,
+    WorkObjectScope,
+    WorkObjectSource,
+    WorkObjectType,
+} from '@/storage/work-object-types';
+
+// ============================================
+// Types
+// ============================================
+
+export type GridColumnId = 'title' | 'type' | 'source' | 'flags' | 'scope' | 'createdAt' | 'updatedAt';
+
+export interface GridColumn {
+    id: GridColumnId;
+    label: string;
+    /** Whether the cell can be edited in place */
+    editable: boolean;
+}
+
+export const GRID_COLUMNS: GridColumn[] = [
+    { id: 'title', label: 'Title', editable: true },
+    { id: 'type', label: 'Type', editable: false },
+    { id: 'source', label: 'Source', editable: false },
+    { id: 'flags', label: 'Flags', editable: true },
+    { id: 'scope', label: 'Meeting', editable: false },
+    { id: 'createdAt', label: 'Created', editable: false },
+    { id: 'updatedAt', label: 'Updated', editable: false },
+];
+
+export const DEFAULT_VISIBLE_COLUMNS: GridColumnId[] = ['title', 'type', 'source', 'flags', 'updatedAt'];
+
+export const FLAG_TYPES: FlagType[] = ['important', 'risk', 'followup'];
+
+/**
+ * One grid row: a WorkObject with its set flags and resolved scope label.
+ */
+export interface GridRow {
+    id: string;
+    title: string;
+    type: WorkObjectType;
+    source: WorkObjectSource;
+    flags: FlagType[];
+    scope: WorkObjectScope | null;
+    scopeLabel: string;
+    createdAtIso: string;
+    updatedAtIso: string;
+}
+
+export interface GridSortKey {
+    column: GridColumnId;
+    direction: 'asc' | 'desc';
+}
+
+/**
+ * Active filters. Empty arrays mean "no filter" for that dimension.
+ */
+export interface GridFilter {
+    types: WorkObjectType[];
+    flags: FlagType[];
+    sources: WorkObjectSource[];
+}
+
+export const EMPTY_GRID_FILTER: GridFilter = { types: [], flags: [], sources: [] };
+
+export interface GridGroup {
+    scope: WorkObjectScope | null;
+    label: string;
+    rows: GridRow[];
+}
+
+// ============================================
+// Row Building
+// ============================================
+
+/**
+ * Human label for a scope. Meeting scopes use the meeting title when known.
+ */
+export function getScopeLabel(
+    scope: WorkObjectScope | null,
+    meetingTitles: Record<string, string> = {}
+): string {
+    if (!scope) return 'Unscoped';
+    if (isMeetingScope(scope)) {
+        const meetingUid = getMeetingUidFromScope(scope);
+        return meetingTitles[meetingUid] ?? `Meeting ${meetingUid.slice(0, 8)}`;
+    }
+    switch (getScopeKind(scope)) {
+        case 'project':
+            return `Project ${getScopeId(scope)}`;
+        case 'series':
+            return `Series ${getScopeId(scope).slice(0, 8)}`;
+        default:
+            return 'Session';
+    }
+}
+
+/**
+ * Build grid rows from WorkObjects and set flags.
+ * Link objects are relationships, not rows, and are skipped.
+ */
+export function buildGridRows(
+    objects: WorkObject[],
+    flags: WorkObjectFlag[],
+    meetingTitles: Record<string, string> = {}
+): GridRow[] {
+    const flagsById = new Map<string, FlagType[]>();
+    for (const flag of flags) {
+        if (!flag.isSet) continue;
+        const list = flagsById.get(flag.workObjectId) ?? [];
+        list.push(flag.flagType);
+        flagsById.set(flag.workObjectId, list);
+    }
+
+    return objects
+        .filter((obj) => obj.type !== 'link')
+        .map((obj) => {
+            const scope = parseWorkObjectId(obj.id)?.scope ?? null;
+            return {
+                id: obj.id,
+                title: obj.title ?? '',
+                type: obj.type,
+                source: obj.source,
+                flags: flagsById.get(obj.id) ?? [],
+                scope,
+                scopeLabel: getScopeLabel(scope, meetingTitles),
+                createdAtIso: obj.createdAtIso,
+                updatedAtIso: obj.updatedAtIso,
+            };
+        });
+}
+
+// ============================================
+// Filter / Sort / Group
+// ============================================
+
+/**
+ * Apply filters. Within a dimension values are OR'd; dimensions are AND'd.
+ */
+export function filterGridRows(rows: GridRow[], filter: GridFilter): GridRow[] {
+    return rows.filter(
+        (row) =>
+            (filter.types.length === 0 || filter.types.includes(row.type)) &&
+            (filter.sources.length === 0 || filter.sources.includes(row.source)) &&
+            (filter.flags.length === 0 || filter.flags.some((flag) => row.flags.includes(flag)))
+    );
+}
+
+function getSortValue(row: GridRow, column: GridColumnId): string | number {
+    switch (column) {
+        case 'title':
+            return row.title.toLowerCase();
+        case 'type':
+            return row.type;
+        case 'source':
+            return row.source;
+        case 'flags':
+            return row.flags.length;
+        case 'scope':
+            return row.scopeLabel.toLowerCase();
+        case 'createdAt':
+            return row.createdAtIso;
+        case 'updatedAt':
+            return row.updatedAtIso;
+    }
+}
+
+/**
+ * Stable multi-column sort. Earlier keys take precedence.
+ */
+export function sortGridRows(rows: GridRow[], keys: GridSortKey[]): GridRow[] {
+    if (keys.length === 0) return rows;
+
+    return [...rows].sort((a, b) => {
+        for (const key of keys) {
+            const av = getSortValue(a, key.column);
+            const bv = getSortValue(b, key.column);
+            if (av === bv) continue;
+            const cmp = av < bv ? -1 : 1;
+            return key.direction === 'asc' ? cmp : -cmp;
+        }
+        return 0;
+    });
+}
+
+/**
+ * Cycle a column through asc → desc → removed in a sort key list.
+ * With `additive`, other keys are kept (shift-click); otherwise replaced.
+ */
+export function toggleSortKey(
+    keys: GridSortKey[],
+    column: GridColumnId,
+    additive: boolean
+): GridSortKey[] {
+    const existing = keys.find((key) => key.column === column);
+    const others = additive ? keys.filter((key) => key.column !== column) : [];
+
+    if (!existing) {
+        return [...others, { column, direction: 'asc' }];
+    }
+    if (existing.direction === 'asc') {
+        const next: GridSortKey = { column, direction: 'desc' };
+        return additive ? keys.map((key) => (key.column === column ? next : key)) : [next];
+    }
+    return others;
+}
+
+/**
+ * Group rows by scope, preserving row order within each group.
+ * Groups appear in order of their first row.
+ */
+export function groupGridRowsByScope(rows: GridRow[]): GridGroup[] {
+    const groups = new Map<string, GridGroup>();
+    for (const row of rows) {
+        const key = row.scope ?? '';
+        let group = groups.get(key);
+        if (!group) {
+            group = { scope: row.scope, label: row.scopeLabel, rows: [] };
+            groups.set(key, group);
+        }
+        group.rows.push(row);
+    }
+    return Array.from(groups.values());
+}
@@ -0,0 +1,88 @@
+/**
+ * Meeting Items
+ *
+ * Captured markers and My3 goals as WorkObjects for the workspace lenses.
+ * They live on MeetingState, not in the WorkObject store (addMarker never
+ * writes one), so the grid and canvas add them under their wo:marker /
+ * wo:goal IDs. Kept free of React and storage so it can be tested directly.
+ */
+
+import {
+    createWorkObjectId,
+    parseWorkObjectId,
+    getMeetingUidFromScope,
+    isMeetingScope,
+} from '@/storage/work-object-id';
+import type { MeetingState } from '@/storage/types';
+import type { WorkObject } from '@/storage/work-object-types';
+
+/**
+ * A captured item's meeting and local ID, parsed from its WorkObject ID.
+ */
+export interface MeetingItemRef {
+    kind: 'marker' | 'goal';
+    meetingId: string;
+    localId: string;
+}
+
+/**
+ * Live markers and goals of the given meetings as WorkObjects. Items carried
+ * forward or closed in a later instance are left out, like deleted ones; the
+ * later instance holds the live copy.
+ */
+export function getMeetingItemObjects(meetings: MeetingState[]): WorkObject[] {
+    return meetings.flatMap((meeting) => {
+        const meetingUpdatedIso = new Date(meeting.updatedAt).toISOString();
+
+        const goals = meeting.my3Goals
+            .filter((goal) => !goal.deletedAt && !goal.carryOver)
+            .map((goal): WorkObject => ({
+                id: createWorkObjectId('goal', meeting.id, goal.id),
+                type: 'goal',
+                source: 'user',
+                title: goal.text,
+                payload: { meetingId: meeting.id, achieved: goal.achieved },
+                createdAtIso: new Date(meeting.createdAt).toISOString(),
+                updatedAtIso: goal.achievedAt ? new Date(goal.achievedAt).toISOString() : meetingUpdatedIso,
+            }));
+
+        const markers = meeting.markers
+            .filter((marker) => !marker.deletedAt && !marker.carryOver)
+            .map((marker): WorkObject => ({
+                id: createWorkObjectId('marker', meeting.id, marker.id),
+                type: 'marker',
+                source: 'user',
+                title: marker.label ?? '',
+                payload: {
+                    meetingId: meeting.id,
+                    markerType: marker.type,
+                    ...(marker.action && { action: marker.action }),
+                },
+                createdAtIso: new Date(marker.timestamp).toISOString(),
+                updatedAtIso: new Date(marker.action?.statusChangedAt ?? marker.timestamp).toISOString(),
+            }));
+
+        return [...goals, ...markers];
+    });
+}
+
+/**
+ * Stored WorkObjects plus the captured items that have none. A stored
+ * WorkObject wins when both exist for an ID.
+ */
+export function withMeetingItems(objects: WorkObject[], meetings: MeetingState[]): WorkObject[] {
+    const stored = new Set(objects.map((obj) => obj.id));
+    return [...objects, ...getMeetingItemObjects(meetings).filter((obj) => !stored.has(obj.id))];
+}
+
+/**
+ * The meeting and local ID behind a marker or goal WorkObject ID, or null
+ * for other IDs.
+ */
+export function parseMeetingItemId(workObjectId: string): MeetingItemRef | null {
+    const parsed = parseWorkObjectId(workObjectId);
+    if (!parsed || (parsed.type !== 'marker' && parsed.type !== 'goal') || !isMeetingScope(parsed.scope)) {
+        return null;
+    }
+    return { kind: parsed.type, meetingId: getMeetingUidFromScope(parsed.scope), localId: parsed.localId };
+}